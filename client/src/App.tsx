@@ -23,6 +23,8 @@ import Questions from "@/pages/questions";
 import QuestionCategories from "@/pages/question-categories";
 import QuestionTopics from "@/pages/question-topics";
 import InstructorAttendance from "@/pages/instructor/attendance";
+import InstructorAvailabilityPage from "@/pages/instructor/availability";
+import BookLesson from "@/pages/book-lesson";
 import AdminDashboard from "@/pages/admin/dashboard";
 import AdminUsers from "@/pages/admin/users";
 import AdminEnrollments from "@/pages/admin/enrollments";
@@ -30,8 +32,15 @@ import AdminCourses from "@/pages/admin/courses";
 import AdminCourseDetail from "@/pages/admin/course-detail";
 import AdminTestTemplates from "@/pages/admin/test-templates";
 import AdminQuestions from "@/pages/admin/questions";
+import AdminQuestionReviews from "@/pages/admin/question-reviews";
+import AdminVehicles from "@/pages/admin/vehicles";
+import AdminEvaluationRubrics from "@/pages/admin/evaluation-rubrics";
+import AdminPromotions from "@/pages/admin/promotions";
+import AdminPayments from "@/pages/admin/payments";
+import AdminInvoices from "@/pages/admin/invoices";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
+import { LanguageSelect } from "@/components/language-select";
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -65,6 +74,7 @@ function Router() {
           <Route path="/assessments/:assessmentId/take" component={TakeTest} />
           <Route path="/test-results/:instanceId" component={TestResults} />
           <Route path="/schedule" component={SchedulePage} />
+          <Route path="/book-lesson" component={BookLesson} />
           <Route path="/payments" component={Payments} />
           <Route path="/certificates" component={Certificates} />
           <Route path="/question-categories" component={QuestionCategories} />
@@ -77,9 +87,16 @@ function Router() {
           <Route path="/admin/courses" component={AdminCourses} />
           <Route path="/admin/test-templates" component={AdminTestTemplates} />
           <Route path="/admin/questions" component={AdminQuestions} />
+          <Route path="/admin/question-reviews" component={AdminQuestionReviews} />
+          <Route path="/admin/vehicles" component={AdminVehicles} />
+          <Route path="/admin/evaluation-rubrics" component={AdminEvaluationRubrics} />
+          <Route path="/admin/promotions" component={AdminPromotions} />
+          <Route path="/admin/payments" component={AdminPayments} />
+          <Route path="/admin/invoices" component={AdminInvoices} />
           <Route path="/admin/schedule" component={SchedulePage} />
           <Route path="/instructor/schedule" component={SchedulePage} />
           <Route path="/instructor/attendance" component={InstructorAttendance} />
+          <Route path="/instructor/availability" component={InstructorAvailabilityPage} />
         </>
       )}
       <Route component={NotFound} />
@@ -112,12 +129,15 @@ function AppContent() {
             <div className="flex flex-col flex-1 overflow-hidden">
               <header className="flex items-center justify-between p-4 border-b border-border bg-background">
                 <SidebarTrigger data-testid="button-sidebar-toggle" />
-                <Button variant="ghost" size="sm" asChild data-testid="button-logout">
-                  <a href="/api/logout">
-                    <LogOut className="h-4 w-4 mr-2" />
-                    Log Out
-                  </a>
-                </Button>
+                <div className="flex items-center gap-2">
+                  <LanguageSelect />
+                  <Button variant="ghost" size="sm" asChild data-testid="button-logout">
+                    <a href="/api/logout">
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Log Out
+                    </a>
+                  </Button>
+                </div>
               </header>
               <main className="flex-1 overflow-auto bg-background">
                 <Router />
@@ -10,7 +10,13 @@ import {
   BarChart3, 
   Settings,
   GraduationCap,
-  FileText
+  FileText,
+  Car,
+  CalendarClock,
+  ClipboardCheck,
+  ListChecks,
+  Tag,
+  Receipt
 } from "lucide-react";
 import {
   Sidebar,
@@ -38,6 +44,7 @@ export function AppSidebar() {
     { title: "My Courses", url: "/courses", icon: BookOpen },
     { title: "Tests", url: "/tests", icon: FileQuestion },
     { title: "Schedule", url: "/schedule", icon: Calendar },
+    { title: "Book Lesson", url: "/book-lesson", icon: Car },
     { title: "Payments", url: "/payments", icon: CreditCard },
     { title: "Certificates", url: "/certificates", icon: Award },
   ];
@@ -46,8 +53,10 @@ export function AppSidebar() {
     { title: "Dashboard", url: "/admin", icon: BarChart3 },
     { title: "My Courses", url: "/admin/courses", icon: BookOpen },
     { title: "Question Bank", url: "/question-categories", icon: FileQuestion },
+    { title: "Question Reviews", url: "/admin/question-reviews", icon: ListChecks },
     { title: "Test Templates", url: "/admin/test-templates", icon: FileText },
     { title: "Schedule", url: "/admin/schedule", icon: Calendar },
+    { title: "Availability", url: "/instructor/availability", icon: CalendarClock },
     { title: "Attendance", url: "/instructor/attendance", icon: ClipboardList },
     { title: "Payments", url: "/admin/payments", icon: CreditCard },
     { title: "Certificates", url: "/admin/certificates", icon: Award },
@@ -59,9 +68,15 @@ export function AppSidebar() {
     { title: "Enrollments", url: "/admin/enrollments", icon: ClipboardList },
     { title: "Courses", url: "/admin/courses", icon: BookOpen },
     { title: "Question Bank", url: "/question-categories", icon: FileQuestion },
+    { title: "Question Reviews", url: "/admin/question-reviews", icon: ListChecks },
     { title: "Test Templates", url: "/admin/test-templates", icon: FileText },
     { title: "Schedule", url: "/admin/schedule", icon: Calendar },
+    { title: "Availability", url: "/instructor/availability", icon: CalendarClock },
+    { title: "Vehicles", url: "/admin/vehicles", icon: Car },
+    { title: "Evaluation Rubrics", url: "/admin/evaluation-rubrics", icon: ClipboardCheck },
     { title: "Payments", url: "/admin/payments", icon: CreditCard },
+    { title: "Promotions", url: "/admin/promotions", icon: Tag },
+    { title: "Invoices", url: "/admin/invoices", icon: Receipt },
     { title: "Certificates", url: "/admin/certificates", icon: Award },
     { title: "Reports", url: "/admin/reports", icon: BarChart3 },
     { title: "Audit Log", url: "/admin/audit-log", icon: Settings },
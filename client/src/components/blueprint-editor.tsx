@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import type { BlueprintRule, QuestionCategory, QuestionTopic } from "@shared/schema";
+
+const ANY = "any";
+
+interface BlueprintRuleRowProps {
+  index: number;
+  rule: BlueprintRule;
+  categories: QuestionCategory[];
+  onChange: (rule: BlueprintRule) => void;
+  onRemove: () => void;
+}
+
+function BlueprintRuleRow({ index, rule, categories, onChange, onRemove }: BlueprintRuleRowProps) {
+  const { data: topics = [] } = useQuery<QuestionTopic[]>({
+    queryKey: [`/api/question-categories/${rule.categoryId}/topics`],
+    enabled: !!rule.categoryId,
+  });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid={`blueprint-rule-${index}`}>
+      <Input
+        type="number"
+        min={1}
+        className="w-20"
+        value={rule.count}
+        onChange={(e) => onChange({ ...rule, count: Math.max(1, parseInt(e.target.value) || 1) })}
+        data-testid={`input-blueprint-count-${index}`}
+      />
+      <span className="text-sm text-muted-foreground">from</span>
+      <Select
+        value={rule.categoryId || ANY}
+        onValueChange={(value) => onChange({ ...rule, categoryId: value === ANY ? undefined : value, questionTopicId: undefined })}
+      >
+        <SelectTrigger className="w-[170px]" data-testid={`select-blueprint-category-${index}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any category</SelectItem>
+          {categories.map((category) => (
+            <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={rule.questionTopicId || ANY}
+        onValueChange={(value) => onChange({ ...rule, questionTopicId: value === ANY ? undefined : value })}
+        disabled={!rule.categoryId}
+      >
+        <SelectTrigger className="w-[170px]" data-testid={`select-blueprint-topic-${index}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any topic</SelectItem>
+          {topics.map((topic) => (
+            <SelectItem key={topic.id} value={topic.id}>{topic.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder="Tag (optional)"
+        className="w-32"
+        value={rule.tag || ""}
+        onChange={(e) => onChange({ ...rule, tag: e.target.value || undefined })}
+        data-testid={`input-blueprint-tag-${index}`}
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={onRemove} data-testid={`button-remove-blueprint-rule-${index}`}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface BlueprintEditorProps {
+  value: BlueprintRule[];
+  onChange: (rules: BlueprintRule[]) => void;
+}
+
+export function BlueprintEditor({ value, onChange }: BlueprintEditorProps) {
+  const { data: categories = [] } = useQuery<QuestionCategory[]>({
+    queryKey: ["/api/question-categories"],
+  });
+
+  const total = value.reduce((sum, rule) => sum + rule.count, 0);
+
+  return (
+    <div className="space-y-2">
+      {value.map((rule, index) => (
+        <BlueprintRuleRow
+          key={index}
+          index={index}
+          rule={rule}
+          categories={categories}
+          onChange={(updated) => onChange(value.map((r, i) => (i === index ? updated : r)))}
+          onRemove={() => onChange(value.filter((_, i) => i !== index))}
+        />
+      ))}
+      <div className="flex items-center gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { count: 5 }])}
+          data-testid="button-add-blueprint-rule"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+        {value.length > 0 && (
+          <span className="text-sm text-muted-foreground" data-testid="text-blueprint-total">
+            {total} questions in total
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import type { MouseEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { X } from "lucide-react";
+import type { HotspotRegion } from "@shared/schema";
+
+const DEFAULT_REGION_SIZE = 12;
+
+// Position of a click on the image in percent of its rendered size
+export function getImagePoint(event: MouseEvent<HTMLElement>) {
+  const rect = event.currentTarget.getBoundingClientRect();
+  return {
+    x: Math.round(((event.clientX - rect.left) / rect.width) * 1000) / 10,
+    y: Math.round(((event.clientY - rect.top) / rect.height) * 1000) / 10,
+  };
+}
+
+interface HotspotEditorProps {
+  imageUrl: string | null | undefined;
+  regions: HotspotRegion[];
+  onChange: (regions: HotspotRegion[]) => void;
+}
+
+export function HotspotEditor({ imageUrl, regions, onChange }: HotspotEditorProps) {
+  if (!imageUrl) {
+    return <p className="text-sm text-muted-foreground">Upload a question image to mark the correct regions.</p>;
+  }
+
+  const addRegion = (event: MouseEvent<HTMLDivElement>) => {
+    const { x, y } = getImagePoint(event);
+    const half = DEFAULT_REGION_SIZE / 2;
+    onChange([
+      ...regions,
+      {
+        x: Math.min(Math.max(x - half, 0), 100 - DEFAULT_REGION_SIZE),
+        y: Math.min(Math.max(y - half, 0), 100 - DEFAULT_REGION_SIZE),
+        width: DEFAULT_REGION_SIZE,
+        height: DEFAULT_REGION_SIZE,
+      },
+    ]);
+  };
+
+  const updateRegion = (index: number, data: Partial<HotspotRegion>) => {
+    onChange(regions.map((region, i) => (i === index ? { ...region, ...data } : region)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">Click the image to mark a correct region, then adjust its size below.</p>
+      <div className="relative inline-block cursor-crosshair" onClick={addRegion} data-testid="hotspot-editor-image">
+        <img src={imageUrl} alt="" className="max-h-72 rounded-md border select-none" draggable={false} />
+        {regions.map((region, index) => (
+          <div
+            key={index}
+            className="absolute border-2 border-green-500 bg-green-500/20 text-[10px] font-semibold text-green-700"
+            style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.width}%`, height: `${region.height}%` }}
+          >
+            {index + 1}
+          </div>
+        ))}
+      </div>
+      {regions.map((region, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm" data-testid={`hotspot-region-${index}`}>
+          <span className="w-6 font-medium">{index + 1}.</span>
+          <span className="text-muted-foreground">W%</span>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            className="w-20"
+            value={region.width}
+            onChange={(e) => updateRegion(index, { width: Math.min(Number(e.target.value) || 1, 100 - region.x) })}
+          />
+          <span className="text-muted-foreground">H%</span>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            className="w-20"
+            value={region.height}
+            onChange={(e) => updateRegion(index, { height: Math.min(Number(e.target.value) || 1, 100 - region.y) })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(regions.filter((_, i) => i !== index))}
+            data-testid={`button-remove-region-${index}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ImagePlus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface ImageUploadProps {
+  value?: string | null;
+  onChange: (url: string | null) => void;
+  label?: string;
+  compact?: boolean;
+  "data-testid"?: string;
+}
+
+export function ImageUpload({ value, onChange, label = "Add image", compact = false, ...props }: ImageUploadProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const testId = props["data-testid"] || "image-upload";
+
+  const handleFile = async (file: File) => {
+    setIsUploading(true);
+    try {
+      const response = await fetch("/api/questions/media", {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || "Failed to upload image");
+      }
+      const { url } = await response.json();
+      onChange(url);
+    } catch (error: any) {
+      toast({
+        title: "Upload Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {value && (
+        <div className="relative">
+          <img
+            src={value}
+            alt=""
+            className={cn("rounded-md border object-contain bg-muted", compact ? "h-10 w-10" : "h-20 w-20")}
+            data-testid={`${testId}-preview`}
+          />
+          <button
+            type="button"
+            className="absolute -top-2 -right-2 rounded-full bg-background border p-0.5"
+            onClick={() => onChange(null)}
+            data-testid={`${testId}-remove`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/png,image/jpeg,image/gif,image/webp"
+        className="hidden"
+        onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size={compact ? "icon" : "sm"}
+        onClick={() => inputRef.current?.click()}
+        disabled={isUploading}
+        title={label}
+        data-testid={`${testId}-button`}
+      >
+        <ImagePlus className={compact ? "h-4 w-4" : "h-4 w-4 mr-2"} />
+        {!compact && (isUploading ? "Uploading..." : value ? "Replace image" : label)}
+      </Button>
+    </div>
+  );
+}
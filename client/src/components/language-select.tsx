@@ -0,0 +1,49 @@
+import { useMutation } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Languages } from "lucide-react";
+import type { ContentLanguage } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { contentLanguageLabels, sourceContentLanguage } from "@/lib/utils";
+
+// Language the student reads course content and sits exams in
+export function LanguageSelect() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const updateMutation = useMutation({
+    mutationFn: async (preferredLanguage: ContentLanguage) => {
+      await apiRequest("PATCH", "/api/auth/user/preferences", { preferredLanguage });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Select
+      value={user?.preferredLanguage ?? sourceContentLanguage}
+      onValueChange={(value) => updateMutation.mutate(value as ContentLanguage)}
+      disabled={updateMutation.isPending}
+    >
+      <SelectTrigger className="w-[150px]" title="Course and exam language" data-testid="select-content-language">
+        <Languages className="h-4 w-4 mr-2" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.entries(contentLanguageLabels).map(([language, label]) => (
+          <SelectItem key={language} value={language}>{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
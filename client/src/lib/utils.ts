@@ -4,3 +4,94 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatDuration(totalMinutes: number) {
+  const sign = totalMinutes < 0 ? "-" : ""
+  const abs = Math.abs(totalMinutes)
+  const hours = Math.floor(abs / 60)
+  const minutes = abs % 60
+  return minutes === 0 ? `${sign}${hours}h` : `${sign}${hours}h ${minutes}m`
+}
+
+export const scoringPolicyLabels = {
+  all_or_nothing: "All or nothing",
+  proportional: "Partial credit",
+  proportional_penalty: "Partial credit with penalty",
+} as const
+
+export const scoringPolicyDescriptions = {
+  all_or_nothing: "Multiple-choice questions score only when every choice is right",
+  proportional: "Credit for the share of correct choices ticked, less the share of wrong choices ticked",
+  proportional_penalty: "Each correct pick earns credit, each wrong pick takes it away",
+} as const
+
+export const reviewPolicyLabels = {
+  immediately: "Immediately",
+  after_passing: "After passing",
+  after_final_attempt: "After the final attempt",
+  never: "Never",
+} as const
+
+// Each language is named in itself so students can find theirs
+export const contentLanguageLabels = {
+  lv: "Latviešu",
+  ru: "Русский",
+  en: "English",
+} as const
+
+// Language course content and questions are authored in (SOURCE_CONTENT_LANGUAGE in shared/schema.ts)
+export const sourceContentLanguage = "lv" as const
+
+export const questionStatusLabels = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  archived: "Archived",
+} as const
+
+export const questionTypeLabels = {
+  single_choice: "Single Choice",
+  multiple_choice: "Multiple Choice",
+  ordering: "Ordering",
+  hotspot: "Hotspot",
+  numeric: "Numeric",
+} as const
+
+export const installmentStatusLabels = {
+  paid: "Paid",
+  overdue: "Overdue",
+  due: "Due",
+  upcoming: "Upcoming",
+} as const
+
+export const promotionTypeLabels = {
+  percentage: "Percentage",
+  fixed: "Fixed amount",
+} as const
+
+export const paymentStatusLabels = {
+  pending: "Pending",
+  paid: "Paid",
+  failed: "Failed",
+  partially_refunded: "Partially refunded",
+  refunded: "Refunded",
+  disputed: "Disputed",
+} as const
+
+export const paymentMethodLabels = {
+  card: "Card",
+  cash: "Cash",
+  bank_transfer: "Bank transfer",
+} as const
+
+export const refundStatusLabels = {
+  pending: "Pending",
+  succeeded: "Refunded",
+  failed: "Failed",
+  canceled: "Canceled",
+} as const
+
+export const invoiceTypeLabels = {
+  invoice: "Invoice",
+  credit_note: "Credit note",
+} as const
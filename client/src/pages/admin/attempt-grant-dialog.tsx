@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { AssessmentAttemptGrant } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface AttemptGrants {
+  attemptStatus: {
+    attemptCount: number;
+    maxAttempts: number;
+    extraAttempts: number;
+    remainingAttempts: number;
+    nextAttemptAt: string | null;
+  };
+  grants: AssessmentAttemptGrant[];
+}
+
+interface AttemptGrantDialogProps {
+  courseId: string;
+  assessment: { id: string; name: string } | null;
+  student: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export function AttemptGrantDialog({ courseId, assessment, student, onClose }: AttemptGrantDialogProps) {
+  const { toast } = useToast();
+  const [extraAttempts, setExtraAttempts] = useState(1);
+  const [reason, setReason] = useState("");
+  const open = !!assessment && !!student;
+  const grantsUrl = `/api/instructor/assessments/${assessment?.id}/students/${student?.id}/attempt-grants`;
+
+  useEffect(() => {
+    if (!open) return;
+    setExtraAttempts(1);
+    setReason("");
+  }, [assessment?.id, student?.id]);
+
+  const { data, isLoading } = useQuery<AttemptGrants>({
+    queryKey: [grantsUrl],
+    enabled: open,
+  });
+
+  const grantMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", grantsUrl, { extraAttempts, reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [grantsUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/courses/${courseId}/enrolled-students`] });
+      toast({
+        title: "Attempts Granted",
+        description: `${student?.name} received ${extraAttempts} extra ${extraAttempts === 1 ? "attempt" : "attempts"}`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Grant Extra Attempts - {student?.name}</DialogTitle>
+          <DialogDescription>{assessment?.name}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <Skeleton className="h-16" />
+        ) : (
+          <div className="space-y-2 text-sm">
+            <p data-testid="text-attempt-status">
+              {data.attemptStatus.attemptCount} of {data.attemptStatus.maxAttempts} attempts used
+              {data.attemptStatus.extraAttempts > 0 && ` (${data.attemptStatus.extraAttempts} granted)`}
+            </p>
+            {data.attemptStatus.nextAttemptAt && (
+              <p className="text-muted-foreground">
+                Cooldown until {format(new Date(data.attemptStatus.nextAttemptAt), "MMM d, yyyy HH:mm")}
+              </p>
+            )}
+            {data.grants.length > 0 && (
+              <ul className="space-y-1 border-t pt-2">
+                {data.grants.map((grant) => (
+                  <li key={grant.id} className="text-muted-foreground" data-testid={`row-attempt-grant-${grant.id}`}>
+                    {format(new Date(grant.createdAt), "MMM d, yyyy")} · +{grant.extraAttempts} · {grant.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Extra Attempts</Label>
+            <Input
+              type="number"
+              min={1}
+              max={10}
+              value={extraAttempts}
+              onChange={(e) => setExtraAttempts(Math.min(10, Math.max(1, parseInt(e.target.value) || 1)))}
+              data-testid="input-extra-attempts"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Textarea
+              rows={3}
+              placeholder="Why does the student get another try?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-grant-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-grant">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => grantMutation.mutate()}
+            disabled={!reason.trim() || grantMutation.isPending}
+            data-testid="button-grant-attempts"
+          >
+            {grantMutation.isPending ? "Granting..." : "Grant Attempts"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
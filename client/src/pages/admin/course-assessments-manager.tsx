@@ -14,7 +14,9 @@ import { z } from "zod";
 import { ClipboardCheck, Clock, Hash, Plus, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { TopicAssessment, Topic, Course, Question } from "@shared/schema";
+import { reviewPolicyLabels, scoringPolicyDescriptions, scoringPolicyLabels } from "@/lib/utils";
+import { BlueprintEditor } from "@/components/blueprint-editor";
+import type { BlueprintRule, TopicAssessment, Topic, Course, Question } from "@shared/schema";
 
 interface CourseAssessmentsManagerProps {
   courseId: string;
@@ -29,12 +31,18 @@ const assessmentSchema = z.object({
   description: z.string().optional(),
   mode: z.enum(["random", "manual", "linked_template"]),
   questionCount: z.number().int().positive().optional(),
+  blueprint: z.array(z.custom<BlueprintRule>()),
   randomizeQuestions: z.boolean(),
+  randomizeChoices: z.boolean(),
   passingPercentage: z.number().int().min(0).max(100),
+  scoringPolicy: z.enum(["all_or_nothing", "proportional", "proportional_penalty"]),
+  reviewPolicy: z.enum(["immediately", "after_passing", "after_final_attempt", "never"]),
   maxAttempts: z.number().int().positive(),
   timeLimit: z.string().optional(),
+  retakeCooldownMinutes: z.string().optional(),
   testTemplateId: z.string().optional(),
   isRequired: z.boolean(),
+  isMockExam: z.boolean(),
   status: z.enum(["draft", "published"]),
   orderIndex: z.number().int().nonnegative(),
   questionIds: z.array(z.string()).optional(),
@@ -85,12 +93,18 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
       description: "",
       mode: "random",
       questionCount: 10,
+      blueprint: [],
       randomizeQuestions: false,
+      randomizeChoices: false,
       passingPercentage: 70,
+      scoringPolicy: "all_or_nothing",
+      reviewPolicy: "immediately",
       maxAttempts: 3,
       timeLimit: "",
+      retakeCooldownMinutes: "",
       testTemplateId: "",
       isRequired: false,
+      isMockExam: false,
       status: "draft",
       orderIndex: 0,
       questionIds: [],
@@ -141,7 +155,7 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
 
   const createAssessmentMutation = useMutation({
     mutationFn: async (data: AssessmentForm) => {
-      const { topicId, timeLimit, testTemplateId, ...assessmentData } = data;
+      const { topicId, timeLimit, retakeCooldownMinutes, testTemplateId, ...assessmentData } = data;
       
       // Use the current maxOrderIndex for the selected topic
       const topic = topics?.find(t => t.id === topicId);
@@ -153,8 +167,10 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
         ...assessmentData,
         // Only include timeLimit if it's a valid number
         ...(timeLimit && timeLimit.trim() !== "" ? { timeLimit: parseInt(timeLimit) } : {}),
+        ...(retakeCooldownMinutes && retakeCooldownMinutes.trim() !== "" ? { retakeCooldownMinutes: parseInt(retakeCooldownMinutes) } : {}),
         // Only include testTemplateId for linked_template mode
         ...(data.mode === "linked_template" && testTemplateId ? { testTemplateId } : {}),
+        blueprint: data.mode === "random" && data.blueprint.length > 0 ? data.blueprint : null,
       };
       
       // Always overwrite orderIndex with computed value
@@ -201,12 +217,18 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
       description: "",
       mode: "random",
       questionCount: 10,
+      blueprint: [],
       randomizeQuestions: false,
+      randomizeChoices: false,
       passingPercentage: 70,
+      scoringPolicy: "all_or_nothing",
+      reviewPolicy: "immediately",
       maxAttempts: 3,
       timeLimit: "",
+      retakeCooldownMinutes: "",
       testTemplateId: "",
       isRequired: false,
+      isMockExam: false,
       status: "draft",
       orderIndex: 0,
       questionIds: [],
@@ -304,6 +326,7 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
                   </CardDescription>
                 </div>
                 <div className="flex items-center gap-2">
+                  {assessment.isMockExam && <Badge variant="secondary">Mock Exam</Badge>}
                   <Badge variant="outline">
                     {assessment.mode === 'random' ? 'Random Questions' : 
                      assessment.mode === 'manual' ? 'Manual Questions' : 'Template Linked'}
@@ -427,6 +450,24 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={assessmentForm.control}
+                    name="isMockExam"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <input
+                            type="checkbox"
+                            checked={field.value}
+                            onChange={field.onChange}
+                            data-testid="checkbox-assessment-mock-exam"
+                            className="h-4 w-4"
+                          />
+                        </FormControl>
+                        <FormLabel className="!mt-0">Mock exam (counts towards exam readiness)</FormLabel>
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={assessmentForm.control}
                     name="randomizeQuestions"
@@ -445,7 +486,71 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={assessmentForm.control}
+                    name="randomizeChoices"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                        <FormControl>
+                          <input
+                            type="checkbox"
+                            checked={field.value}
+                            onChange={field.onChange}
+                            data-testid="checkbox-randomize-choices"
+                            className="h-4 w-4"
+                          />
+                        </FormControl>
+                        <FormLabel className="!mt-0">Randomize choice order</FormLabel>
+                      </FormItem>
+                    )}
+                  />
                 </div>
+                <FormField
+                  control={assessmentForm.control}
+                  name="scoringPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Scoring Policy</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-scoring-policy">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(scoringPolicyLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>{scoringPolicyDescriptions[field.value]}</FormDescription>
+                      <FormMessage />
+                <FormField
+                  control={assessmentForm.control}
+                  name="reviewPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Answer Review</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-review-policy">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(reviewPolicyLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>When students may see correct answers and explanations</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                    </FormItem>
+                  )}
+                />
                 <div className="grid grid-cols-3 gap-4">
                   <FormField
                     control={assessmentForm.control}
@@ -494,7 +599,44 @@ export function CourseAssessmentsManager({ courseId }: CourseAssessmentsManagerP
                     )}
                   />
                 </div>
+                <FormField
+                  control={assessmentForm.control}
+                  name="retakeCooldownMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Retake Cooldown (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          placeholder="No cooldown"
+                          data-testid="input-retake-cooldown"
+                          {...field}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormDescription>Minimum wait between a submitted attempt and the next one</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 {selectedMode === "random" && (
+                  <FormField
+                    control={assessmentForm.control}
+                    name="blueprint"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Blueprint</FormLabel>
+                        <BlueprintEditor value={field.value} onChange={field.onChange} />
+                        <FormDescription>
+                          Draw a set number of questions per category, topic or tag. Without rules, questions are drawn from the whole bank.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {selectedMode === "random" && assessmentForm.watch("blueprint").length === 0 && (
                   <FormField
                     control={assessmentForm.control}
                     name="questionCount"
@@ -8,16 +8,19 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit, Trash, FileText, List, ArrowUp, ArrowDown, Search, X } from "lucide-react";
+import { Plus, Edit, Trash, FileText, List, ArrowUp, ArrowDown, Search, X, Languages } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import type { Course, Topic, Post, TopicAssessment, Question } from "@shared/schema";
+import type { BlueprintRule, Course, Topic, Post, TopicAssessment, Question } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reviewPolicyLabels, scoringPolicyDescriptions, scoringPolicyLabels } from "@/lib/utils";
+import { BlueprintEditor } from "@/components/blueprint-editor";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { RichTextEditor } from "@/components/rich-text-editor";
+import { TranslationStatus, TranslationsDialog, type TranslationTarget } from "./translations-dialog";
 
 const topicSchema = z.object({
   name: z.string().min(1, "Topic name is required"),
@@ -36,15 +39,24 @@ const assessmentSchema = z.object({
   name: z.string().min(1, "Assessment name is required"),
   description: z.string().optional(),
   isRequired: z.boolean().default(false),
+  isMockExam: z.boolean().default(false),
   passingPercentage: z.coerce.number().min(0).max(100).default(70),
+  scoringPolicy: z.enum(["all_or_nothing", "proportional", "proportional_penalty"]).default("all_or_nothing"),
+  reviewPolicy: z.enum(["immediately", "after_passing", "after_final_attempt", "never"]).default("immediately"),
   maxAttempts: z.coerce.number().min(1).default(3),
   timeLimit: z.union([
     z.string().length(0), // Empty string is allowed (no time limit)
     z.string().regex(/^[1-9]\d*$/, "Time limit must be at least 1 minute"),
   ]).optional(), // Time limit in minutes (empty = no limit)
+  retakeCooldownMinutes: z.union([
+    z.string().length(0),
+    z.string().regex(/^[1-9]\d*$/, "Cooldown must be at least 1 minute"),
+  ]).optional(), // Minutes between attempts (empty = no cooldown)
   mode: z.enum(["random", "manual", "linked_template"]).default("random"),
   questionCount: z.coerce.number().min(1).default(10),
+  blueprint: z.array(z.custom<BlueprintRule>()).default([]),
   randomizeQuestions: z.boolean().default(false),
+  randomizeChoices: z.boolean().default(false),
   status: z.enum(["draft", "published"]).default("draft"),
   orderIndex: z.coerce.number().default(0),
   questionIds: z.array(z.string()).optional(), // For manual mode
@@ -55,6 +67,19 @@ type TopicForm = z.infer<typeof topicSchema>;
 type PostForm = z.infer<typeof postSchema>;
 type AssessmentForm = z.infer<typeof assessmentSchema>;
 
+function topicTranslationTarget(topic: Topic): TranslationTarget {
+  return {
+    entity: "topic",
+    id: topic.id,
+    title: topic.name,
+    fields: [
+      { key: "name", label: "Topic Name", source: topic.name },
+      { key: "description", label: "Description", source: topic.description, format: "multiline" },
+    ],
+    translations: topic.translations,
+  };
+}
+
 interface CourseContentManagerProps {
   course: Course;
   open: boolean;
@@ -66,6 +91,7 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
   const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
   const [selectedTopicForAssessments, setSelectedTopicForAssessments] = useState<Topic | null>(null);
   const [editingTopic, setEditingTopic] = useState<Topic | null>(null);
+  const [translatedTopic, setTranslatedTopic] = useState<Topic | null>(null);
   const [editingPost, setEditingPost] = useState<Post | null>(null);
   const [editingAssessment, setEditingAssessment] = useState<TopicAssessment | null>(null);
   const [isTopicDialogOpen, setIsTopicDialogOpen] = useState(false);
@@ -176,11 +202,16 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
       name: "",
       description: "",
       isRequired: false,
+      isMockExam: false,
       passingPercentage: 70,
+      scoringPolicy: "all_or_nothing",
+      reviewPolicy: "immediately",
       maxAttempts: 3,
       mode: "random",
       questionCount: 10,
+      blueprint: [],
       randomizeQuestions: false,
+      randomizeChoices: false,
       status: "draft",
       orderIndex: 0,
     },
@@ -415,6 +446,10 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
         timeLimit: data.timeLimit && data.timeLimit.trim() !== "" 
           ? parseInt(data.timeLimit, 10) 
           : null,
+        retakeCooldownMinutes: data.retakeCooldownMinutes && data.retakeCooldownMinutes.trim() !== ""
+          ? parseInt(data.retakeCooldownMinutes, 10)
+          : null,
+        blueprint: data.mode === "random" && data.blueprint.length > 0 ? data.blueprint : null,
       };
       
       if (editingAssessment) {
@@ -484,12 +519,18 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
         name: assessment.name,
         description: assessment.description || "",
         isRequired: assessment.isRequired,
+        isMockExam: assessment.isMockExam,
         passingPercentage: assessment.passingPercentage,
+        scoringPolicy: assessment.scoringPolicy,
+        reviewPolicy: assessment.reviewPolicy,
         maxAttempts: assessment.maxAttempts || 3,
         timeLimit: assessment.timeLimit ? String(assessment.timeLimit) : "",
+        retakeCooldownMinutes: assessment.retakeCooldownMinutes ? String(assessment.retakeCooldownMinutes) : "",
         mode: assessment.mode,
         questionCount: assessment.questionCount || 10,
+        blueprint: (assessment.blueprint as BlueprintRule[] | null) || [],
         randomizeQuestions: assessment.randomizeQuestions,
+        randomizeChoices: assessment.randomizeChoices,
         orderIndex: assessment.orderIndex,
         questionIds: questionIds,
         testTemplateId: assessment.testTemplateId || "",
@@ -504,11 +545,16 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
         name: "",
         description: "",
         isRequired: false,
+        isMockExam: false,
         passingPercentage: 70,
+        scoringPolicy: "all_or_nothing",
+        reviewPolicy: "immediately",
         maxAttempts: 3,
         mode: "random",
         questionCount: 10,
+        blueprint: [],
         randomizeQuestions: false,
+        randomizeChoices: false,
         orderIndex: maxOrderIndex + 1,
         questionIds: [],
       });
@@ -547,9 +593,12 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
                             {topic.description && (
                               <p className="text-sm text-muted-foreground mt-1">{topic.description}</p>
                             )}
-                            <p className="text-xs text-muted-foreground mt-1">
-                              Type: {topic.type === "theory" ? "Theory" : "Practice"}
-                            </p>
+                            <div className="flex items-center gap-2 mt-1">
+                              <span className="text-xs text-muted-foreground">
+                                Type: {topic.type === "theory" ? "Theory" : "Practice"}
+                              </span>
+                              <TranslationStatus target={topicTranslationTarget(topic)} />
+                            </div>
                           </div>
                           <div className="flex gap-2">
                             <Button
@@ -578,6 +627,15 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
                             >
                               <Edit className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setTranslatedTopic(topic)}
+                              title="Translations"
+                              data-testid={`button-translate-topic-${topic.id}`}
+                            >
+                              <Languages className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -600,6 +658,12 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
     <>
       {content}
 
+      <TranslationsDialog
+        target={translatedTopic ? topicTranslationTarget(translatedTopic) : null}
+        invalidateKeys={[["/api/topics", course.id]]}
+        onClose={() => setTranslatedTopic(null)}
+      />
+
       <Dialog open={isTopicDialogOpen} onOpenChange={setIsTopicDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -809,6 +873,24 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={assessmentForm.control}
+                  name="isMockExam"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          checked={field.value}
+                          onChange={field.onChange}
+                          data-testid="checkbox-assessment-mock-exam"
+                          className="h-4 w-4"
+                        />
+                      </FormControl>
+                      <FormLabel className="!mt-0">Mock exam (counts towards exam readiness)</FormLabel>
+                    </FormItem>
+                  )}
+                />
                 <FormField
                   control={assessmentForm.control}
                   name="randomizeQuestions"
@@ -827,7 +909,71 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={assessmentForm.control}
+                  name="randomizeChoices"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center space-x-2 space-y-0">
+                      <FormControl>
+                        <input
+                          type="checkbox"
+                          checked={field.value}
+                          onChange={field.onChange}
+                          data-testid="checkbox-randomize-choices"
+                          className="h-4 w-4"
+                        />
+                      </FormControl>
+                      <FormLabel className="!mt-0">Randomize choice order</FormLabel>
+                    </FormItem>
+                  )}
+                />
               </div>
+              <FormField
+                control={assessmentForm.control}
+                name="scoringPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Scoring Policy</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-scoring-policy">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(scoringPolicyLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{scoringPolicyDescriptions[field.value]}</FormDescription>
+                    <FormMessage />
+              <FormField
+                control={assessmentForm.control}
+                name="reviewPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Answer Review</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-review-policy">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(reviewPolicyLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>When students may see correct answers and explanations</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+                  </FormItem>
+                )}
+              />
               <div className="grid grid-cols-3 gap-4">
                 <FormField
                   control={assessmentForm.control}
@@ -876,7 +1022,44 @@ export function CourseContentManager({ course, open, onClose }: CourseContentMan
                   )}
                 />
               </div>
+              <FormField
+                control={assessmentForm.control}
+                name="retakeCooldownMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Retake Cooldown (minutes)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        placeholder="No cooldown"
+                        data-testid="input-retake-cooldown"
+                        {...field}
+                        value={field.value || ""}
+                      />
+                    </FormControl>
+                    <FormDescription>Minimum wait between a submitted attempt and the next one</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               {assessmentForm.watch("mode") === "random" && (
+                <FormField
+                  control={assessmentForm.control}
+                  name="blueprint"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Blueprint</FormLabel>
+                      <BlueprintEditor value={field.value} onChange={field.onChange} />
+                      <FormDescription>
+                        Draw a set number of questions per category, topic or tag. Without rules, questions are drawn from the whole bank.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {assessmentForm.watch("mode") === "random" && assessmentForm.watch("blueprint").length === 0 && (
                 <FormField
                   control={assessmentForm.control}
                   name="questionCount"
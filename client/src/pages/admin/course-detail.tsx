@@ -7,13 +7,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, FileText, Calendar, ClipboardCheck, Users, GraduationCap } from "lucide-react";
+import { BookOpen, FileText, Calendar, ClipboardCheck, Users, GraduationCap, CreditCard } from "lucide-react";
 import type { Course } from "@shared/schema";
 import { CourseContentManager } from "./course-content-manager.tsx";
 import { ScheduleManager } from "./schedule-manager.tsx";
 import { EnrolledStudents } from "./enrolled-students.tsx";
 import { CoursePostsManager } from "./course-posts-manager.tsx";
 import { CourseAssessmentsManager } from "./course-assessments-manager.tsx";
+import { CoursePaymentPlansManager } from "./course-payment-plans-manager.tsx";
 
 type CourseWithCounts = Course & { 
   scheduleCount: number; 
@@ -142,7 +143,7 @@ export default function AdminCourseDetail() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="topics" data-testid="tab-topics">
               <BookOpen className="h-4 w-4 mr-2" />
               Topics
@@ -163,6 +164,10 @@ export default function AdminCourseDetail() {
               <Users className="h-4 w-4 mr-2" />
               Students
             </TabsTrigger>
+            <TabsTrigger value="payments" data-testid="tab-payments">
+              <CreditCard className="h-4 w-4 mr-2" />
+              Payments
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="topics" className="mt-6">
@@ -184,6 +189,10 @@ export default function AdminCourseDetail() {
           <TabsContent value="students" className="mt-6">
             <EnrolledStudents course={course} open={true} onClose={() => {}} />
           </TabsContent>
+
+          <TabsContent value="payments" className="mt-6">
+            <CoursePaymentPlansManager course={course} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,398 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { AlertTriangle, CalendarClock, Edit, Plus, Trash2 } from "lucide-react";
+import type { Course, Installment, PaymentPlan } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+
+type OverdueInstallment = Installment & {
+  courseId: string;
+  courseName: string;
+  studentId: string;
+  studentName: string | null;
+  planName: string;
+};
+
+const paymentPlanSchema = z.object({
+  name: z.string().trim().min(1, "Plan name is required"),
+  installmentCount: z.coerce.number().int().min(2, "At least 2 installments").max(24, "At most 24 installments"),
+  intervalMonths: z.coerce.number().int().min(1, "At least 1 month").max(12, "At most 12 months"),
+  blockBookingWhenOverdue: z.boolean(),
+  isActive: z.boolean(),
+});
+
+type PaymentPlanForm = z.infer<typeof paymentPlanSchema>;
+
+const emptyForm: PaymentPlanForm = {
+  name: "",
+  installmentCount: 3,
+  intervalMonths: 1,
+  blockBookingWhenOverdue: false,
+  isActive: true,
+};
+
+// Same split as the server: whole cents, with the remainder on the first part
+function installmentPreview(price: string | null, count: number): string | null {
+  if (!price || count < 1) return null;
+  const cents = Math.round(parseFloat(price) * 100);
+  const base = Math.floor(cents / count);
+  const first = cents - base * (count - 1);
+  return first === base
+    ? `${count} × $${(base / 100).toFixed(2)}`
+    : `$${(first / 100).toFixed(2)} + ${count - 1} × $${(base / 100).toFixed(2)}`;
+}
+
+interface CoursePaymentPlansManagerProps {
+  course: Course;
+}
+
+export function CoursePaymentPlansManager({ course }: CoursePaymentPlansManagerProps) {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<PaymentPlan | null>(null);
+  const plansKey = [`/api/admin/courses/${course.id}/payment-plans`];
+  const overdueKey = [`/api/admin/installments/overdue?courseId=${course.id}`];
+
+  const { data: plans, isLoading } = useQuery<PaymentPlan[]>({ queryKey: plansKey });
+  const { data: overdue } = useQuery<OverdueInstallment[]>({ queryKey: overdueKey });
+
+  const form = useForm<PaymentPlanForm>({
+    resolver: zodResolver(paymentPlanSchema),
+    defaultValues: emptyForm,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PaymentPlanForm) => {
+      if (editingPlan) {
+        await apiRequest("PATCH", `/api/admin/payment-plans/${editingPlan.id}`, data);
+      } else {
+        await apiRequest("POST", `/api/admin/courses/${course.id}/payment-plans`, data);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: plansKey });
+      setIsDialogOpen(false);
+      toast({
+        title: editingPlan ? "Payment Plan Updated" : "Payment Plan Created",
+        description: editingPlan
+          ? "Schedules already running keep their amounts and due dates"
+          : "Students can now choose this plan when paying for the course",
+      });
+      setEditingPlan(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (plan: PaymentPlan) => {
+      await apiRequest("PATCH", `/api/admin/payment-plans/${plan.id}`, { isActive: !plan.isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: plansKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/payment-plans/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: plansKey });
+      toast({
+        title: "Payment Plan Deleted",
+        description: "The plan is no longer offered",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (plan?: PaymentPlan) => {
+    setEditingPlan(plan ?? null);
+    form.reset(plan
+      ? {
+        name: plan.name,
+        installmentCount: plan.installmentCount,
+        intervalMonths: plan.intervalMonths,
+        blockBookingWhenOverdue: plan.blockBookingWhenOverdue,
+        isActive: plan.isActive,
+      }
+      : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (plan: PaymentPlan) => {
+    if (confirm(`Are you sure you want to delete the "${plan.name}" plan?`)) {
+      deleteMutation.mutate(plan.id);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle>Payment Plans</CardTitle>
+            <CardDescription>
+              {course.price
+                ? `Ways students can split the course price of $${parseFloat(course.price).toFixed(2)} into installments`
+                : "Set a course price before students can pay in installments"}
+            </CardDescription>
+          </div>
+          <Button onClick={() => handleOpenDialog()} data-testid="button-create-payment-plan">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Plan
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {!plans || plans.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <CalendarClock className="h-10 w-10 mx-auto mb-3 opacity-50" />
+              <p>No payment plans yet. Students pay the full price at once.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Installments</TableHead>
+                  <TableHead>Overdue Parts</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan) => (
+                  <TableRow key={plan.id} data-testid={`row-payment-plan-${plan.id}`}>
+                    <TableCell className="font-medium">{plan.name}</TableCell>
+                    <TableCell>
+                      <div>{installmentPreview(course.price, plan.installmentCount) ?? `${plan.installmentCount} parts`}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Every {plan.intervalMonths === 1 ? "month" : `${plan.intervalMonths} months`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {plan.blockBookingWhenOverdue ? "Block lesson booking" : "Allow lesson booking"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={plan.isActive ? "secondary" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => toggleActiveMutation.mutate(plan)}
+                        title={plan.isActive ? "Stop offering this plan" : "Offer this plan again"}
+                        data-testid={`badge-payment-plan-status-${plan.id}`}
+                      >
+                        {plan.isActive ? "Offered" : "Not offered"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleOpenDialog(plan)}
+                          data-testid={`button-edit-payment-plan-${plan.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(plan)}
+                          data-testid={`button-delete-payment-plan-${plan.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Overdue Installments
+          </CardTitle>
+          <CardDescription>Unpaid parts past their due date</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!overdue || overdue.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No installments are overdue.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Part</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Due</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overdue.map((installment) => (
+                  <TableRow key={installment.id} data-testid={`row-overdue-installment-${installment.id}`}>
+                    <TableCell>{installment.studentName || "Unknown student"}</TableCell>
+                    <TableCell>{installment.planName}</TableCell>
+                    <TableCell>#{installment.sequence}</TableCell>
+                    <TableCell>${parseFloat(installment.amount).toFixed(2)}</TableCell>
+                    <TableCell className="text-destructive font-medium">
+                      {format(new Date(installment.dueDate), "MMM d, yyyy")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingPlan ? "Edit Payment Plan" : "Add Payment Plan"}</DialogTitle>
+            <DialogDescription>
+              The first installment is due when a student chooses the plan
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., 3 monthly payments" {...field} data-testid="input-payment-plan-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="installmentCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Installments</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={2} max={24} {...field} data-testid="input-payment-plan-count" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="intervalMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Months Between</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} max={12} {...field} data-testid="input-payment-plan-interval" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {editingPlan && (
+                <p className="text-xs text-muted-foreground">
+                  Changing the installments only affects students who choose the plan from now on.
+                </p>
+              )}
+              <FormField
+                control={form.control}
+                name="blockBookingWhenOverdue"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="checkbox-block-booking-when-overdue"
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>Block lesson booking when overdue</FormLabel>
+                      <FormDescription className="text-xs">
+                        Students can't book practical lessons while an installment is overdue
+                      </FormDescription>
+                    </div>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                        data-testid="checkbox-payment-plan-active"
+                      />
+                    </FormControl>
+                    <FormLabel className="!mt-0">Offer this plan to students</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} data-testid="button-cancel-payment-plan">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-payment-plan">
+                  {saveMutation.isPending ? "Saving..." : editingPlan ? "Save Changes" : "Add Plan"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
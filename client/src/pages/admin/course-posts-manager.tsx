@@ -10,10 +10,11 @@ import { RichTextEditor } from "@/components/rich-text-editor";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { FileText, Plus } from "lucide-react";
+import { FileText, Plus, Languages } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Post, Topic, Course } from "@shared/schema";
+import { TranslationStatus, TranslationsDialog, type TranslationTarget } from "./translations-dialog";
 
 interface CoursePostsManagerProps {
   courseId: string;
@@ -31,9 +32,23 @@ const postSchema = z.object({
 
 type PostForm = z.infer<typeof postSchema>;
 
+function postTranslationTarget(post: Post): TranslationTarget {
+  return {
+    entity: "post",
+    id: post.id,
+    title: post.title,
+    fields: [
+      { key: "title", label: "Post Title", source: post.title },
+      { key: "content", label: "Content", source: post.content, format: "html" },
+    ],
+    translations: post.translations,
+  };
+}
+
 export function CoursePostsManager({ courseId }: CoursePostsManagerProps) {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [translatedPost, setTranslatedPost] = useState<Post | null>(null);
   const { data: courseContent, isLoading } = useQuery<CourseContent>({
     queryKey: [`/api/courses/${courseId}/content`],
   });
@@ -197,6 +212,18 @@ export function CoursePostsManager({ courseId }: CoursePostsManagerProps) {
                     Topic: {post.topicName}
                   </CardDescription>
                 </div>
+                <div className="flex items-center gap-2">
+                  <TranslationStatus target={postTranslationTarget(post)} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTranslatedPost(post)}
+                    title="Translations"
+                    data-testid={`button-translate-post-${post.id}`}
+                  >
+                    <Languages className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             </CardHeader>
             {post.content && (
@@ -211,6 +238,11 @@ export function CoursePostsManager({ courseId }: CoursePostsManagerProps) {
         ))}
       </div>
       {renderDialog()}
+      <TranslationsDialog
+        target={translatedPost ? postTranslationTarget(translatedPost) : null}
+        invalidateKeys={[[`/api/courses/${courseId}/content`]]}
+        onClose={() => setTranslatedPost(null)}
+      />
     </div>
   );
 
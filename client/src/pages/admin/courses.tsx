@@ -6,25 +6,31 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Edit, BookOpen, Filter, ChevronRight } from "lucide-react";
+import { Plus, Edit, BookOpen, Filter, ChevronRight, Languages } from "lucide-react";
 import type { Course, User } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { TranslationStatus, TranslationsDialog, type TranslationTarget } from "./translations-dialog";
 
 const courseSchema = z.object({
   name: z.string().min(1, "Course name is required"),
   description: z.string().optional(),
   category: z.string().optional(),
   price: z.string().optional(),
+  requiredDrivingHours: z.string().regex(/^\d*$/, "Enter a whole number of hours").optional(),
+  requireDrivingHoursForCompletion: z.boolean(),
+  mockExamStreakRequired: z.coerce.number().int().min(0, "Cannot be negative"),
+  minAttendedSessions: z.coerce.number().int().min(0, "Cannot be negative"),
 });
 
 type CourseForm = z.infer<typeof courseSchema>;
@@ -37,11 +43,25 @@ type CourseWithCounts = Course & {
   instructorIds: string[];
 };
 
+function courseTranslationTarget(course: Course): TranslationTarget {
+  return {
+    entity: "course",
+    id: course.id,
+    title: course.name,
+    fields: [
+      { key: "name", label: "Course Name", source: course.name },
+      { key: "description", label: "Description", source: course.description, format: "multiline" },
+    ],
+    translations: course.translations,
+  };
+}
+
 export default function AdminCourses() {
   const { toast } = useToast();
   const { user } = useAuth();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCourse, setEditingCourse] = useState<Course | null>(null);
+  const [translatedCourse, setTranslatedCourse] = useState<Course | null>(null);
   const [selectedInstructor, setSelectedInstructor] = useState<string>("all");
 
   const { data: courses, isLoading } = useQuery<CourseWithCounts[]>({
@@ -59,15 +79,23 @@ export default function AdminCourses() {
       description: "",
       category: "",
       price: "",
+      requiredDrivingHours: "",
+      requireDrivingHoursForCompletion: false,
+      mockExamStreakRequired: 0,
+      minAttendedSessions: 0,
     },
   });
 
   const createOrUpdateMutation = useMutation({
     mutationFn: async (data: CourseForm) => {
+      const payload = {
+        ...data,
+        requiredDrivingHours: data.requiredDrivingHours ? parseInt(data.requiredDrivingHours, 10) : null,
+      };
       if (editingCourse) {
-        await apiRequest("PATCH", `/api/admin/courses/${editingCourse.id}`, data);
+        await apiRequest("PATCH", `/api/admin/courses/${editingCourse.id}`, payload);
       } else {
-        await apiRequest("POST", "/api/admin/courses", data);
+        await apiRequest("POST", "/api/admin/courses", payload);
       }
     },
     onSuccess: () => {
@@ -97,6 +125,10 @@ export default function AdminCourses() {
         description: course.description || "",
         category: course.category || "",
         price: course.price || "",
+        requiredDrivingHours: course.requiredDrivingHours != null ? String(course.requiredDrivingHours) : "",
+        requireDrivingHoursForCompletion: course.requireDrivingHoursForCompletion,
+        mockExamStreakRequired: course.mockExamStreakRequired,
+        minAttendedSessions: course.minAttendedSessions,
       });
     } else {
       setEditingCourse(null);
@@ -233,6 +265,70 @@ export default function AdminCourses() {
                       )}
                     />
                   </div>
+                  <FormField
+                    control={form.control}
+                    name="requiredDrivingHours"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Required Driving Hours (Optional)</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-course-driving-hours" type="number" min={0} step={1} placeholder="e.g., 28" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Credited from attended practical sessions and manual adjustments
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="requireDrivingHoursForCompletion"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                            data-testid="checkbox-course-require-driving-hours"
+                          />
+                        </FormControl>
+                        <FormLabel className="font-normal">
+                          Require driving hours target for course completion
+                        </FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="mockExamStreakRequired"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Mock Exams in a Row</FormLabel>
+                          <FormControl>
+                            <Input data-testid="input-course-mock-streak" type="number" min={0} {...field} />
+                          </FormControl>
+                          <FormDescription>Needed for exam readiness</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="minAttendedSessions"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Min. Attended Sessions</FormLabel>
+                          <FormControl>
+                            <Input data-testid="input-course-min-sessions" type="number" min={0} {...field} />
+                          </FormControl>
+                          <FormDescription>Needed for exam readiness</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
                   <DialogFooter>
                     <Button
                       type="button"
@@ -290,7 +386,7 @@ export default function AdminCourses() {
                   <TableHead className="text-center">Passed</TableHead>
                   <TableHead className="text-center">Sessions</TableHead>
                   <TableHead className="text-center">Status</TableHead>
-                  <TableHead className="w-[100px]"></TableHead>
+                  <TableHead className="w-[140px]"></TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
@@ -316,6 +412,7 @@ export default function AdminCourses() {
                               {course.category}
                             </Badge>
                           )}
+                          <TranslationStatus target={courseTranslationTarget(course)} />
                         </div>
                       </Link>
                     </TableCell>
@@ -352,6 +449,18 @@ export default function AdminCourses() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.preventDefault();
+                            setTranslatedCourse(course);
+                          }}
+                          title="Translations"
+                          data-testid={`button-translate-course-${course.id}`}
+                        >
+                          <Languages className="h-4 w-4" />
+                        </Button>
                         <Link href={`/admin/courses/${course.id}`}>
                           <Button
                             variant="ghost"
@@ -370,6 +479,12 @@ export default function AdminCourses() {
           </Card>
         )}
       </div>
+
+      <TranslationsDialog
+        target={translatedCourse ? courseTranslationTarget(translatedCourse) : null}
+        invalidateKeys={[["/api/admin/courses"]]}
+        onClose={() => setTranslatedCourse(null)}
+      />
     </div>
   );
 }
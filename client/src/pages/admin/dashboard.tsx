@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Users, BookOpen, CheckCircle2, Award, TrendingUp, Calendar } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Users, BookOpen, CheckCircle2, Award, TrendingUp, Calendar, Flag, DollarSign } from "lucide-react";
+import { paymentMethodLabels } from "@/lib/utils";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
 
 interface AdminStats {
@@ -14,15 +16,36 @@ interface AdminStats {
   passedTests: number;
   totalCertificates: number;
   revenueTotal: number;
+  grossRevenue: number;
+  discountTotal: number;
+  creditTotal: number;
+  refundTotal: number;
+  revenueByMethod: Record<"card" | "cash" | "bank_transfer", number>;
+  unreconciledTransferCount: number;
+  unreconciledTransferTotal: number;
+  promotionUsage: Array<{ promotionId: string; code: string; isReferral: boolean; redemptions: number; discountTotal: number }>;
   monthlyEnrollments: Array<{ month: string; count: number }>;
   testPassRates: Array<{ course: string; passRate: number }>;
 }
 
+interface ExamPassRate {
+  instructorId: string;
+  instructorName: string;
+  examType: "theory" | "practical";
+  firstAttempts: number;
+  firstAttemptPasses: number;
+  passRate: number;
+}
+
 export default function AdminDashboard() {
   const { data: stats, isLoading } = useQuery<AdminStats>({
     queryKey: ["/api/admin/stats"],
   });
 
+  const { data: examPassRates } = useQuery<ExamPassRate[]>({
+    queryKey: ["/api/admin/reports/exam-pass-rates"],
+  });
+
   if (isLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -107,6 +130,68 @@ export default function AdminDashboard() {
         ))}
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Revenue
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-5">
+            {[
+              { label: "Collected", value: stats?.revenueTotal, testId: "stat-revenue-collected" },
+              { label: "List price", value: stats?.grossRevenue, testId: "stat-revenue-gross" },
+              { label: "Promotion discounts", value: stats?.discountTotal, testId: "stat-revenue-discounts" },
+              { label: "Referral credit spent", value: stats?.creditTotal, testId: "stat-revenue-credit" },
+              { label: "Refunded", value: stats?.refundTotal, testId: "stat-revenue-refunds" },
+            ].map((figure) => (
+              <div key={figure.label}>
+                <p className="text-sm text-muted-foreground">{figure.label}</p>
+                <p className="text-2xl font-bold" data-testid={figure.testId}>${(figure.value || 0).toFixed(2)}</p>
+              </div>
+            ))}
+          </div>
+          {stats?.revenueByMethod && (
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground" data-testid="text-revenue-by-method">
+              {Object.entries(paymentMethodLabels).map(([method, label]) => (
+                <span key={method}>
+                  {label}: <span className="font-medium text-foreground">${(stats.revenueByMethod[method as keyof typeof paymentMethodLabels] || 0).toFixed(2)}</span>
+                </span>
+              ))}
+              {stats.unreconciledTransferCount > 0 && (
+                <a href="/admin/payments" className="text-amber-600 hover:underline" data-testid="link-unreconciled-transfers">
+                  {stats.unreconciledTransferCount} bank transfer{stats.unreconciledTransferCount === 1 ? "" : "s"} (${stats.unreconciledTransferTotal.toFixed(2)}) awaiting reconciliation
+                </a>
+              )}
+            </div>
+          )}
+          {stats?.promotionUsage && stats.promotionUsage.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead className="text-right">Paid Uses</TableHead>
+                  <TableHead className="text-right">Discount Given</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats.promotionUsage.map((row) => (
+                  <TableRow key={row.promotionId} data-testid={`row-promotion-usage-${row.promotionId}`}>
+                    <TableCell>
+                      <span className="font-mono">{row.code}</span>
+                      {row.isReferral && <span className="text-xs text-muted-foreground ml-2">Referral</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{row.redemptions}</TableCell>
+                    <TableCell className="text-right">${row.discountTotal.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -160,6 +245,45 @@ export default function AdminDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5" />
+            State Exam First-Time Pass Rates
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!examPassRates || examPassRates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No first-attempt state exam results recorded yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Instructor</TableHead>
+                  <TableHead>Exam</TableHead>
+                  <TableHead className="text-right">First Attempts</TableHead>
+                  <TableHead className="text-right">Passed</TableHead>
+                  <TableHead className="text-right">Pass Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {examPassRates.map((row) => (
+                  <TableRow key={`${row.instructorId}-${row.examType}`} data-testid={`row-exam-pass-rate-${row.instructorId}-${row.examType}`}>
+                    <TableCell>{row.instructorName}</TableCell>
+                    <TableCell className="capitalize">{row.examType}</TableCell>
+                    <TableCell className="text-right">{row.firstAttempts}</TableCell>
+                    <TableCell className="text-right">{row.firstAttemptPasses}</TableCell>
+                    <TableCell className="text-right font-medium">{row.passRate}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,219 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Course, DrivingLedgerEntry, Schedule } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDuration } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { format } from "date-fns";
+
+const adjustmentSchema = z.object({
+  hours: z.string()
+    .regex(/^-?\d+(\.\d{1,2})?$/, "Enter hours, e.g. 1.5 or -2")
+    .refine((value) => parseFloat(value) !== 0, "Adjustment cannot be zero"),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+type AdjustmentForm = z.infer<typeof adjustmentSchema>;
+
+type LedgerResponse = {
+  entries: Array<DrivingLedgerEntry & { schedule: Schedule | null; createdByName: string | null }>;
+  creditedMinutes: number;
+  requiredMinutes: number | null;
+  requiredForCompletion: boolean;
+};
+
+interface DrivingHoursLedgerProps {
+  course: Course;
+  studentId: string | null;
+  studentName: string;
+  onClose: () => void;
+}
+
+export function DrivingHoursLedger({ course, studentId, studentName, onClose }: DrivingHoursLedgerProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const ledgerUrl = `/api/admin/students/${studentId}/driving-hours?courseId=${course.id}`;
+
+  const { data: ledger, isLoading } = useQuery<LedgerResponse>({
+    queryKey: [ledgerUrl],
+    queryFn: async () => {
+      const response = await fetch(ledgerUrl);
+      if (!response.ok) throw new Error("Failed to fetch driving hours");
+      return response.json();
+    },
+    enabled: !!studentId,
+  });
+
+  const form = useForm<AdjustmentForm>({
+    resolver: zodResolver(adjustmentSchema),
+    defaultValues: { hours: "", reason: "" },
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async (data: AdjustmentForm) => {
+      await apiRequest("POST", `/api/admin/students/${studentId}/driving-hours/adjustments`, {
+        courseId: course.id,
+        minutes: Math.round(parseFloat(data.hours) * 60),
+        reason: data.reason,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [ledgerUrl] });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/courses/${course.id}/enrolled-students`] });
+      form.reset();
+      toast({
+        title: "Adjustment Recorded",
+        description: "Driving hours have been adjusted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const progressPercentage = ledger?.requiredMinutes
+    ? Math.min(100, Math.round((ledger.creditedMinutes / ledger.requiredMinutes) * 100))
+    : null;
+
+  return (
+    <Dialog open={!!studentId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Driving Hours - {studentName}</DialogTitle>
+          <DialogDescription>
+            Credited driving time for {course.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !ledger ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12" />
+            <Skeleton className="h-32" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium" data-testid="text-ledger-credited">
+                  {formatDuration(ledger.creditedMinutes)} credited
+                  {ledger.requiredMinutes !== null && ` of ${formatDuration(ledger.requiredMinutes)} required`}
+                </span>
+                {ledger.requiredForCompletion && (
+                  <Badge variant="outline">Required for completion</Badge>
+                )}
+              </div>
+              {progressPercentage !== null && <Progress value={progressPercentage} />}
+            </div>
+
+            {ledger.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                No driving hours recorded yet.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ledger.entries.map((entry) => (
+                    <TableRow key={entry.id} data-testid={`row-ledger-entry-${entry.id}`}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(entry.schedule?.startTime ?? entry.createdAt), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.source === "attendance" ? "secondary" : "outline"}>
+                          {entry.source === "attendance" ? "Session" : "Adjustment"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.source === "attendance" ? entry.schedule?.title : entry.reason}
+                        {entry.createdByName && (
+                          <div className="text-xs text-muted-foreground">by {entry.createdByName}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right font-medium ${entry.minutes < 0 ? "text-destructive" : ""}`}>
+                        {entry.minutes > 0 ? "+" : ""}{formatDuration(entry.minutes)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {user?.role === "admin" && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => adjustMutation.mutate(data))} className="space-y-4 border-t pt-4">
+                  <h4 className="text-sm font-semibold">Manual Adjustment</h4>
+                  <FormField
+                    control={form.control}
+                    name="hours"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Hours</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-adjustment-hours" placeholder="e.g., 1.5 or -2" {...field} />
+                        </FormControl>
+                        <FormDescription>Use a negative value to deduct hours</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="reason"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Reason</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            data-testid="input-adjustment-reason"
+                            placeholder="e.g., Hours transferred from previous driving school"
+                            rows={2}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={adjustMutation.isPending} data-testid="button-save-adjustment">
+                      {adjustMutation.isPending ? "Saving..." : "Record Adjustment"}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -10,8 +11,13 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { CheckCircle2, XCircle, Clock, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, XCircle, Clock, User, Car, Flag, RotateCcw } from "lucide-react";
 import type { Course } from "@shared/schema";
+import { formatDuration } from "@/lib/utils";
+import { DrivingHoursLedger } from "./driving-hours-ledger";
+import { ExamReadinessDialog } from "./exam-readiness-dialog";
+import { AttemptGrantDialog } from "./attempt-grant-dialog";
 
 type EnrolledStudent = {
   enrollment: {
@@ -37,7 +43,9 @@ type EnrolledStudent = {
     passed: boolean;
     bestScore: number | null;
     lastAttemptDate: Date | null;
+    maxAttempts: number; // Including extra attempts granted to the student
   }>;
+  drivingMinutes: number;
 };
 
 interface EnrolledStudentsProps {
@@ -47,6 +55,13 @@ interface EnrolledStudentsProps {
 }
 
 export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProps) {
+  const [ledgerStudent, setLedgerStudent] = useState<{ id: string; name: string } | null>(null);
+  const [readinessStudent, setReadinessStudent] = useState<{ id: string; name: string } | null>(null);
+  const [attemptGrant, setAttemptGrant] = useState<{
+    student: { id: string; name: string };
+    assessment: { id: string; name: string };
+  } | null>(null);
+
   const { data: students, isLoading } = useQuery<EnrolledStudent[]>({
     queryKey: [`/api/admin/courses/${course.id}/enrolled-students`],
     enabled: open,
@@ -105,6 +120,15 @@ export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProp
                           )}
                         </div>
                         <div className="flex items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setReadinessStudent({ id: student.student.id, name: studentName })}
+                            data-testid={`button-exam-readiness-${student.student.id}`}
+                          >
+                            <Flag className="h-3 w-3 mr-1" />
+                            Exam Readiness
+                          </Button>
                           {student.enrollment.completedAt ? (
                             <Badge data-testid={`badge-completed-${student.student.id}`}>
                               <CheckCircle2 className="h-3 w-3 mr-1" />
@@ -121,7 +145,7 @@ export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProp
                     </CardHeader>
 
                     <CardContent className="space-y-4">
-                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pb-3 border-b">
+                      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 pb-3 border-b">
                         <div>
                           <p className="text-xs text-muted-foreground mb-1">Enrolled</p>
                           <p className="text-sm font-medium" data-testid={`text-enrolled-date-${student.student.id}`}>
@@ -134,6 +158,25 @@ export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProp
                             {progress.passed} / {progress.total} Tests ({progress.percentage}%)
                           </p>
                         </div>
+                        <div>
+                          <p className="text-xs text-muted-foreground mb-1">Driving Hours</p>
+                          <div className="flex items-center gap-2">
+                            <p className="text-sm font-semibold" data-testid={`text-driving-hours-${student.student.id}`}>
+                              {formatDuration(student.drivingMinutes)}
+                              {course.requiredDrivingHours ? ` / ${course.requiredDrivingHours}h` : ""}
+                            </p>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2"
+                              onClick={() => setLedgerStudent({ id: student.student.id, name: studentName })}
+                              data-testid={`button-driving-ledger-${student.student.id}`}
+                            >
+                              <Car className="h-3 w-3 mr-1" />
+                              Ledger
+                            </Button>
+                          </div>
+                        </div>
                         {student.enrollment.completedAt && (
                           <div>
                             <p className="text-xs text-muted-foreground mb-1">Completed</p>
@@ -178,7 +221,7 @@ export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProp
                                   <div className="text-right">
                                     <p className="text-xs text-muted-foreground">Attempts</p>
                                     <p className="text-sm font-semibold" data-testid={`text-attempts-${student.student.id}-${test.assessmentId}`}>
-                                      {test.attempts}
+                                      {test.attempts}/{test.maxAttempts}
                                     </p>
                                   </div>
                                   <div className="text-right">
@@ -187,10 +230,23 @@ export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProp
                                       {test.bestScore !== null ? `${test.bestScore}%` : "-"}
                                     </p>
                                   </div>
-                                  {test.passed && (
+                                  {test.passed ? (
                                     <Badge variant="default">
                                       Passed
                                     </Badge>
+                                  ) : (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => setAttemptGrant({
+                                        student: { id: student.student.id, name: getStudentName(student.student) },
+                                        assessment: { id: test.assessmentId, name: test.assessmentName },
+                                      })}
+                                      data-testid={`button-grant-attempts-${student.student.id}-${test.assessmentId}`}
+                                    >
+                                      <RotateCcw className="h-4 w-4 mr-1" />
+                                      Grant
+                                    </Button>
                                   )}
                                 </div>
                               </div>
@@ -205,6 +261,27 @@ export function EnrolledStudents({ course, open, onClose }: EnrolledStudentsProp
             </div>
           )}
         </ScrollArea>
+
+      <DrivingHoursLedger
+        course={course}
+        studentId={ledgerStudent?.id ?? null}
+        studentName={ledgerStudent?.name ?? ""}
+        onClose={() => setLedgerStudent(null)}
+      />
+
+      <ExamReadinessDialog
+        course={course}
+        studentId={readinessStudent?.id ?? null}
+        studentName={readinessStudent?.name ?? ""}
+        onClose={() => setReadinessStudent(null)}
+      />
+
+      <AttemptGrantDialog
+        courseId={course.id}
+        assessment={attemptGrant?.assessment ?? null}
+        student={attemptGrant?.student ?? null}
+        onClose={() => setAttemptGrant(null)}
+      />
     </>
   );
 }
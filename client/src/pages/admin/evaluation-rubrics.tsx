@@ -0,0 +1,366 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Plus, Edit, Trash2, X, ClipboardCheck } from "lucide-react";
+import type { Course, EvaluationRubric, RubricSkill } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+
+const rubricSchema = z.object({
+  name: z.string().min(1, "Rubric name is required"),
+  courseCategory: z.string().min(1, "Course category is required"),
+  skills: z.array(z.object({
+    key: z.string().optional(),
+    label: z.string().min(1, "Skill name is required"),
+    description: z.string().optional(),
+  })).min(1, "At least one skill is required"),
+});
+
+type RubricForm = z.infer<typeof rubricSchema>;
+
+const defaultSkills = [
+  { label: "Parking", description: "" },
+  { label: "Roundabouts", description: "" },
+  { label: "Lane changes", description: "" },
+  { label: "Hazard perception", description: "" },
+];
+
+// Stable identifier stored with each score; derived from the label for new skills
+function toSkillKey(label: string) {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "skill";
+}
+
+export default function AdminEvaluationRubrics() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRubric, setEditingRubric] = useState<EvaluationRubric | null>(null);
+  const isAdmin = user?.role === "admin";
+
+  const { data: rubrics, isLoading } = useQuery<EvaluationRubric[]>({
+    queryKey: ["/api/admin/evaluation-rubrics"],
+  });
+
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/admin/courses"],
+  });
+
+  const courseCategories = Array.from(
+    new Set((courses || []).map((course) => course.category).filter((category): category is string => !!category))
+  ).sort();
+
+  const form = useForm<RubricForm>({
+    resolver: zodResolver(rubricSchema),
+    defaultValues: {
+      name: "",
+      courseCategory: "",
+      skills: defaultSkills,
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "skills",
+  });
+
+  const createOrUpdateMutation = useMutation({
+    mutationFn: async (data: RubricForm) => {
+      const payload = {
+        ...data,
+        skills: data.skills.map((skill) => ({
+          key: skill.key || toSkillKey(skill.label),
+          label: skill.label,
+          ...(skill.description ? { description: skill.description } : {}),
+        })),
+      };
+      if (editingRubric) {
+        await apiRequest("PATCH", `/api/admin/evaluation-rubrics/${editingRubric.id}`, payload);
+      } else {
+        await apiRequest("POST", "/api/admin/evaluation-rubrics", payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/evaluation-rubrics"] });
+      setIsDialogOpen(false);
+      setEditingRubric(null);
+      form.reset();
+      toast({
+        title: editingRubric ? "Rubric Updated" : "Rubric Created",
+        description: `Rubric has been ${editingRubric ? "updated" : "created"} successfully`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/evaluation-rubrics/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/evaluation-rubrics"] });
+      toast({
+        title: "Rubric Deleted",
+        description: "Rubric has been deleted successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (rubric?: EvaluationRubric) => {
+    if (rubric) {
+      setEditingRubric(rubric);
+      form.reset({
+        name: rubric.name,
+        courseCategory: rubric.courseCategory,
+        skills: (rubric.skills as RubricSkill[]).map((skill) => ({
+          key: skill.key,
+          label: skill.label,
+          description: skill.description || "",
+        })),
+      });
+    } else {
+      setEditingRubric(null);
+      form.reset({
+        name: "",
+        courseCategory: "",
+        skills: defaultSkills,
+      });
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this rubric? Existing evaluations keep their scores.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Evaluation Rubrics</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Skills instructors score (1–5) after each practical session, defined per course category
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => handleOpenDialog()} data-testid="button-create-rubric">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rubric
+          </Button>
+        )}
+      </div>
+
+      {!rubrics || rubrics.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No rubrics yet. Lessons can be evaluated once a rubric exists for the course category.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {rubrics.map((rubric) => (
+            <Card key={rubric.id} data-testid={`card-rubric-${rubric.id}`}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-base">{rubric.name}</CardTitle>
+                    <CardDescription>
+                      Category: <Badge variant="outline">{rubric.courseCategory}</Badge>
+                    </CardDescription>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleOpenDialog(rubric)}
+                        data-testid={`button-edit-rubric-${rubric.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(rubric.id)}
+                        data-testid={`button-delete-rubric-${rubric.id}`}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-1 text-sm">
+                  {(rubric.skills as RubricSkill[]).map((skill) => (
+                    <li key={skill.key}>
+                      <span className="font-medium">{skill.label}</span>
+                      {skill.description && <span className="text-muted-foreground"> — {skill.description}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRubric ? "Edit Rubric" : "Create Rubric"}</DialogTitle>
+            <DialogDescription>
+              {editingRubric ? "Update the skills scored for this category" : "Define the skills scored for a course category"}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createOrUpdateMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rubric Name</FormLabel>
+                    <FormControl>
+                      <Input data-testid="input-rubric-name" placeholder="e.g., Category B practical skills" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="courseCategory"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Course Category</FormLabel>
+                    <FormControl>
+                      <Input data-testid="input-rubric-category" list="course-categories" placeholder="e.g., B" {...field} />
+                    </FormControl>
+                    <datalist id="course-categories">
+                      {courseCategories.map((category) => (
+                        <option key={category} value={category} />
+                      ))}
+                    </datalist>
+                    <FormDescription>Must match the category set on the course</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <FormLabel>Skills</FormLabel>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => append({ label: "", description: "" })}
+                    data-testid="button-add-skill"
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Skill
+                  </Button>
+                </div>
+                {fields.map((field, index) => (
+                  <div key={field.id} className="flex items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`skills.${index}.label`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input {...field} placeholder="Skill" data-testid={`input-skill-label-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`skills.${index}.description`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          <FormControl>
+                            <Input {...field} placeholder="Description (optional)" data-testid={`input-skill-description-${index}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {fields.length > 1 && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => remove(index)}
+                        data-testid={`button-remove-skill-${index}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {form.formState.errors.skills?.message && (
+                  <p className="text-sm text-destructive">{form.formState.errors.skills.message}</p>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  data-testid="button-cancel"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createOrUpdateMutation.isPending}
+                  data-testid="button-save-rubric"
+                >
+                  {createOrUpdateMutation.isPending ? "Saving..." : editingRubric ? "Update Rubric" : "Create Rubric"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
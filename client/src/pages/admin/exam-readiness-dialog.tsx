@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle2, Circle } from "lucide-react";
+import type { Course, ExamSignOff, StateExam } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { format } from "date-fns";
+
+type ExamType = StateExam["examType"];
+
+interface ExamReadiness {
+  examType: ExamType;
+  ready: boolean;
+  checks: Array<{ key: string; label: string; met: boolean; detail: string }>;
+  signOff: (ExamSignOff & { instructorName: string | null }) | null;
+  exams: StateExam[];
+}
+
+const outcomeLabels: Record<StateExam["outcome"], string> = {
+  scheduled: "Scheduled",
+  passed: "Passed",
+  failed: "Failed",
+  no_show: "No show",
+};
+
+interface ExamReadinessDialogProps {
+  course: Course;
+  studentId: string | null;
+  studentName: string;
+  onClose: () => void;
+}
+
+export function ExamReadinessDialog({ course, studentId, studentName, onClose }: ExamReadinessDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [examDates, setExamDates] = useState<Partial<Record<ExamType, string>>>({});
+  const readinessUrl = `/api/admin/students/${studentId}/exam-readiness?courseId=${course.id}`;
+  const isAdmin = user?.role === "admin";
+
+  const { data: readiness, isLoading } = useQuery<ExamReadiness[]>({
+    queryKey: [readinessUrl],
+    queryFn: async () => {
+      const response = await fetch(readinessUrl);
+      if (!response.ok) throw new Error("Failed to fetch exam readiness");
+      return response.json();
+    },
+    enabled: !!studentId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const signOffMutation = useMutation({
+    mutationFn: async (examType: ExamType) => {
+      await apiRequest("POST", `/api/instructor/students/${studentId}/exam-sign-offs`, { courseId: course.id, examType });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [readinessUrl] });
+      toast({ title: "Signed Off", description: `${studentName} has been signed off` });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (signOffId: string) => {
+      await apiRequest("DELETE", `/api/instructor/exam-sign-offs/${signOffId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [readinessUrl] });
+      toast({ title: "Sign-off Revoked", description: "The sign-off has been revoked" });
+    },
+    onError,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async ({ examType, examDate }: { examType: ExamType; examDate: string }) => {
+      await apiRequest("POST", `/api/admin/students/${studentId}/state-exams`, {
+        courseId: course.id,
+        examType,
+        examDate: new Date(examDate).toISOString(),
+      });
+    },
+    onSuccess: (_, { examType }) => {
+      queryClient.invalidateQueries({ queryKey: [readinessUrl] });
+      setExamDates((current) => ({ ...current, [examType]: "" }));
+      toast({ title: "Exam Registered", description: "The official exam has been recorded" });
+    },
+    onError,
+  });
+
+  const outcomeMutation = useMutation({
+    mutationFn: async ({ examId, outcome }: { examId: string; outcome: StateExam["outcome"] }) => {
+      await apiRequest("PATCH", `/api/admin/state-exams/${examId}`, { outcome });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [readinessUrl] });
+      toast({ title: "Outcome Recorded", description: "The exam outcome has been saved" });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={!!studentId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Exam Readiness - {studentName}</DialogTitle>
+          <DialogDescription>
+            Official exam eligibility for {course.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !readiness ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Skeleton className="h-48" />
+            <Skeleton className="h-48" />
+          </div>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2">
+            {readiness.map((item) => {
+              const hasOpenOrPassedExam = item.exams.some((e) => e.outcome === "scheduled" || e.outcome === "passed");
+              const canRevoke = item.signOff && (isAdmin || item.signOff.instructorId === user?.id);
+
+              return (
+                <div key={item.examType} className="space-y-3" data-testid={`readiness-${item.examType}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="font-semibold capitalize">{item.examType} exam</h3>
+                    <Badge variant={item.ready ? "default" : "secondary"}>
+                      {item.ready ? "Ready" : "Not ready"}
+                    </Badge>
+                  </div>
+
+                  <ul className="space-y-2">
+                    {item.checks.map((check) => (
+                      <li key={check.key} className="flex items-start gap-2 text-sm">
+                        {check.met ? (
+                          <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+                        ) : (
+                          <Circle className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                        )}
+                        <div>
+                          <div className="font-medium">{check.label}</div>
+                          <div className="text-muted-foreground">{check.detail}</div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {item.signOff ? (
+                    canRevoke && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate(item.signOff!.id)}
+                        disabled={revokeMutation.isPending}
+                        data-testid={`button-revoke-sign-off-${item.examType}`}
+                      >
+                        Revoke Sign-off
+                      </Button>
+                    )
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => signOffMutation.mutate(item.examType)}
+                      disabled={signOffMutation.isPending}
+                      data-testid={`button-sign-off-${item.examType}`}
+                    >
+                      Sign Off
+                    </Button>
+                  )}
+
+                  {isAdmin && item.ready && !hasOpenOrPassedExam && (
+                    <div className="flex items-center gap-2 border-t pt-3">
+                      <Input
+                        type="datetime-local"
+                        value={examDates[item.examType] || ""}
+                        onChange={(e) => setExamDates((current) => ({ ...current, [item.examType]: e.target.value }))}
+                        data-testid={`input-exam-date-${item.examType}`}
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => registerMutation.mutate({ examType: item.examType, examDate: examDates[item.examType]! })}
+                        disabled={!examDates[item.examType] || registerMutation.isPending}
+                        data-testid={`button-register-exam-${item.examType}`}
+                      >
+                        Register
+                      </Button>
+                    </div>
+                  )}
+
+                  {item.exams.length > 0 && (
+                    <div className="space-y-2 border-t pt-3">
+                      {item.exams.map((exam) => (
+                        <div key={exam.id} className="flex items-center justify-between gap-2 text-sm" data-testid={`row-state-exam-${exam.id}`}>
+                          <span>
+                            {format(new Date(exam.examDate), "MMM d, yyyy HH:mm")}
+                            <span className="text-muted-foreground"> · attempt {exam.attemptNumber}</span>
+                          </span>
+                          {isAdmin ? (
+                            <Select
+                              value={exam.outcome}
+                              onValueChange={(outcome) => outcomeMutation.mutate({ examId: exam.id, outcome: outcome as StateExam["outcome"] })}
+                            >
+                              <SelectTrigger className="w-[130px]" data-testid={`select-exam-outcome-${exam.id}`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(outcomeLabels).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <Badge variant="outline">{outcomeLabels[exam.outcome]}</Badge>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
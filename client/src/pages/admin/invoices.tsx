@@ -0,0 +1,330 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Download, FileText, Search } from "lucide-react";
+import type { Invoice, InvoiceType, SchoolSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invoiceTypeLabels } from "@/lib/utils";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+
+const prefixSchema = z.string().trim().min(1, "A prefix is required").regex(/^[A-Za-z0-9-]+$/, "Use letters, digits and dashes only");
+
+const settingsSchema = z.object({
+  legalName: z.string().trim().min(1, "The legal name is required"),
+  registrationNumber: z.string(),
+  vatNumber: z.string(),
+  vatRate: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a rate such as 21").refine((value) => parseFloat(value) < 100, "Enter a rate below 100"),
+  address: z.string(),
+  email: z.string().email("Enter a valid email").or(z.literal("")),
+  phone: z.string(),
+  bankName: z.string(),
+  bankAccount: z.string(),
+  invoicePrefix: prefixSchema,
+  creditNotePrefix: prefixSchema,
+}).refine((data) => parseFloat(data.vatRate) === 0 || data.vatNumber.trim() !== "", {
+  message: "Only a VAT registered school can charge VAT",
+  path: ["vatRate"],
+}).refine((data) => data.invoicePrefix.toUpperCase() !== data.creditNotePrefix.toUpperCase(), {
+  message: "Invoices and credit notes need different prefixes",
+  path: ["creditNotePrefix"],
+});
+
+type SettingsForm = z.infer<typeof settingsSchema>;
+
+const textFields: Array<{ name: keyof SettingsForm; label: string; placeholder?: string }> = [
+  { name: "legalName", label: "Legal Name" },
+  { name: "registrationNumber", label: "Registration Number" },
+  { name: "vatNumber", label: "VAT Number", placeholder: "Leave empty if not VAT registered" },
+  { name: "email", label: "Email" },
+  { name: "phone", label: "Phone" },
+  { name: "bankName", label: "Bank" },
+  { name: "bankAccount", label: "Bank Account (IBAN)" },
+];
+
+function toForm(settings: SchoolSettings): SettingsForm {
+  return {
+    legalName: settings.legalName,
+    registrationNumber: settings.registrationNumber || "",
+    vatNumber: settings.vatNumber || "",
+    vatRate: String(parseFloat(settings.vatRate)),
+    address: settings.address || "",
+    email: settings.email || "",
+    phone: settings.phone || "",
+    bankName: settings.bankName || "",
+    bankAccount: settings.bankAccount || "",
+    invoicePrefix: settings.invoicePrefix,
+    creditNotePrefix: settings.creditNotePrefix,
+  };
+}
+
+function SchoolDetailsCard() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<SchoolSettings>({
+    queryKey: ["/api/admin/school-settings"],
+  });
+
+  const form = useForm<SettingsForm>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings ? toForm(settings) : undefined,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset(toForm(settings));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SettingsForm) => {
+      await apiRequest("PUT", "/api/admin/school-settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/school-settings"] });
+      toast({
+        title: "School Details Saved",
+        description: "New invoices and credit notes will use these details",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>School Details</CardTitle>
+        <CardDescription>
+          Printed on every invoice and credit note. Documents already issued keep the details they were issued with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                {textFields.map(({ name, label, placeholder }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <Input placeholder={placeholder} {...field} data-testid={`input-school-${name}`} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+                <FormField
+                  control={form.control}
+                  name="vatRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>VAT Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} data-testid="input-school-vatRate" />
+                      </FormControl>
+                      <FormDescription>Course prices include VAT; it is shown separately on invoices</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Legal Address</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} data-testid="input-school-address" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="invoicePrefix"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Invoice Number Prefix</FormLabel>
+                      <FormControl>
+                        <Input className="font-mono uppercase" {...field} data-testid="input-school-invoicePrefix" />
+                      </FormControl>
+                      <FormDescription>Numbers run per year, e.g. {field.value.toUpperCase() || "INV"}-{new Date().getFullYear()}-00001</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="creditNotePrefix"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit Note Number Prefix</FormLabel>
+                      <FormControl>
+                        <Input className="font-mono uppercase" {...field} data-testid="input-school-creditNotePrefix" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-school-details">
+                  {saveMutation.isPending ? "Saving..." : "Save Details"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminInvoices() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [typeFilter, setTypeFilter] = useState<InvoiceType | "all">("all");
+
+  const { data: invoices, isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/admin/invoices"],
+  });
+
+  const filteredInvoices = invoices?.filter((invoice) => {
+    const searchLower = searchQuery.toLowerCase();
+    return (typeFilter === "all" || invoice.type === typeFilter) && (
+      invoice.number.toLowerCase().includes(searchLower) ||
+      invoice.buyerName.toLowerCase().includes(searchLower) ||
+      invoice.buyerEmail?.toLowerCase().includes(searchLower) ||
+      invoice.description.toLowerCase().includes(searchLower)
+    );
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Invoices</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Invoices are issued when a payment is collected and credit notes when a refund goes through.
+        </p>
+      </div>
+
+      <SchoolDetailsCard />
+
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by number, student or course..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+            data-testid="input-search-invoices"
+          />
+        </div>
+        <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as InvoiceType | "all")}>
+          <SelectTrigger className="w-48" data-testid="select-invoice-type-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All documents</SelectItem>
+            {Object.entries(invoiceTypeLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6">
+              <Skeleton className="h-64 w-full" />
+            </div>
+          ) : !filteredInvoices || filteredInvoices.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No invoices found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">VAT</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Download</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredInvoices.map((invoice) => (
+                  <TableRow key={invoice.id} data-testid={`row-invoice-${invoice.id}`}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{invoice.number}</div>
+                      <Badge variant={invoice.type === "credit_note" ? "secondary" : "outline"} className="mt-1">
+                        {invoiceTypeLabels[invoice.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{format(new Date(invoice.issuedAt), "MMM d, yyyy")}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{invoice.buyerName}</div>
+                      <div className="text-xs text-muted-foreground">{invoice.buyerEmail}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {invoice.description}
+                      {invoice.originalInvoiceNumber && (
+                        <span className="block text-xs text-muted-foreground">Corrects {invoice.originalInvoiceNumber}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right text-sm">
+                      {parseFloat(invoice.vatRate) > 0 ? `$${parseFloat(invoice.vatAmount).toFixed(2)}` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {invoice.type === "credit_note" && "−"}${parseFloat(invoice.totalAmount).toFixed(2)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" asChild data-testid={`button-download-invoice-${invoice.id}`}>
+                        <a href={`/api/invoices/${invoice.id}/download`} download>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
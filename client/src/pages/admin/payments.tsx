@@ -0,0 +1,734 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Banknote, CheckCircle2, CreditCard, Download, FileText, Plus, RotateCcw, Search } from "lucide-react";
+import type { Course, Installment, InstallmentStatus, Invoice, Payment, PaymentMethod, PaymentRefund, PaymentStatus, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { invoiceTypeLabels, paymentMethodLabels, paymentStatusLabels, refundStatusLabels } from "@/lib/utils";
+import { format } from "date-fns";
+
+type AdminPayment = Payment & {
+  courseName: string;
+  studentName: string | null;
+  studentEmail: string | null;
+  refunds: PaymentRefund[];
+  invoices: Invoice[];
+};
+
+interface InstallmentSchedule {
+  enrollmentId: string;
+  course: { id: string; name: string };
+  installments: Array<Installment & { status: InstallmentStatus }>;
+}
+
+const statusBadgeVariants: Record<PaymentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  paid: "default",
+  failed: "destructive",
+  partially_refunded: "secondary",
+  refunded: "secondary",
+  disputed: "destructive",
+};
+
+function today(): string {
+  return format(new Date(), "yyyy-MM-dd");
+}
+
+// Dates are picked as local days; a payment received today keeps the current time so it sorts after earlier ones
+function toReceivedAt(date: string): string {
+  return date === today() ? new Date().toISOString() : new Date(`${date}T12:00:00`).toISOString();
+}
+
+function toCents(amount: string): number {
+  return Math.round(parseFloat(amount || "0") * 100);
+}
+
+// What can still be refunded; refunds pending at Stripe are already spoken for
+function refundableCents(payment: AdminPayment): number {
+  const committed = payment.refunds
+    .filter((refund) => refund.status === "succeeded" || refund.status === "pending")
+    .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+  return Math.max(0, toCents(payment.amount) - committed);
+}
+
+function RefundDialog({ payment, onClose }: { payment: AdminPayment | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [keepEnrollment, setKeepEnrollment] = useState(false);
+
+  // Default to refunding whatever is left each time another payment is opened
+  useEffect(() => {
+    if (!payment) return;
+    setAmount((refundableCents(payment) / 100).toFixed(2));
+    setReason("");
+    setKeepEnrollment(false);
+  }, [payment?.id]);
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      if (!payment) return;
+      await apiRequest("POST", `/api/admin/payments/${payment.id}/refunds`, { amount, reason, keepEnrollment });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      toast({
+        title: "Refund Issued",
+        description: payment?.stripePaymentIntentId
+          ? "The refund has been sent to Stripe"
+          : "The refund has been recorded; return the money to the student by hand",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const remaining = payment ? refundableCents(payment) : 0;
+  const isFullRefund = remaining > 0 && toCents(amount) >= remaining;
+
+  return (
+    <Dialog open={!!payment} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Refund Payment</DialogTitle>
+          <DialogDescription>
+            {payment && `${payment.studentName || payment.studentEmail} · ${payment.courseName} · $${parseFloat(payment.amount).toFixed(2)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {payment && payment.refunds.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <Label>Earlier refunds</Label>
+            {payment.refunds.map((refund) => (
+              <div key={refund.id} className="flex justify-between gap-4" data-testid={`row-refund-${refund.id}`}>
+                <span className="text-muted-foreground truncate">
+                  {format(new Date(refund.createdAt), "MMM d, yyyy")}
+                  {refund.reason && ` · ${refund.reason}`}
+                </span>
+                <span>
+                  ${parseFloat(refund.amount).toFixed(2)} <Badge variant="outline" className="ml-1">{refundStatusLabels[refund.status]}</Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="refund-amount">Amount ($)</Label>
+            <Input
+              id="refund-amount"
+              type="number"
+              step="0.01"
+              min="0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-refund-amount"
+            />
+            <p className="text-xs text-muted-foreground">Up to ${(remaining / 100).toFixed(2)} can be refunded</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-refund-reason"
+            />
+          </div>
+          {isFullRefund && (
+            <label className="flex items-start gap-3 rounded-md border p-3 text-sm">
+              <Checkbox
+                checked={keepEnrollment}
+                onCheckedChange={(checked) => setKeepEnrollment(!!checked)}
+                data-testid="checkbox-keep-enrollment"
+              />
+              <span>
+                Keep the student enrolled
+                <span className="block text-xs text-muted-foreground">
+                  A full refund otherwise deactivates the enrollment, unless another payment still covers the course
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-refund">
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => refundMutation.mutate()}
+            disabled={refundMutation.isPending || !reason.trim() || toCents(amount) <= 0 || toCents(amount) > remaining}
+            data-testid="button-confirm-refund"
+          >
+            {refundMutation.isPending ? "Refunding..." : `Refund $${(toCents(amount) / 100).toFixed(2)}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RecordPaymentDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const { toast } = useToast();
+  const [studentId, setStudentId] = useState("");
+  const [courseId, setCourseId] = useState("");
+  const [installmentId, setInstallmentId] = useState("");
+  const [method, setMethod] = useState<Exclude<PaymentMethod, "card">>("cash");
+  const [reference, setReference] = useState("");
+  const [receivedOn, setReceivedOn] = useState(today());
+  const [reconciled, setReconciled] = useState(false);
+  const [promotionCode, setPromotionCode] = useState("");
+  const [useCredit, setUseCredit] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setStudentId("");
+    setCourseId("");
+    setMethod("cash");
+    setReference("");
+    setReceivedOn(today());
+    setReconciled(false);
+    setPromotionCode("");
+    setUseCredit(false);
+  }, [open]);
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/admin/users"],
+    enabled: open,
+  });
+
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/admin/courses"],
+    enabled: open,
+  });
+
+  const { data: schedules } = useQuery<InstallmentSchedule[]>({
+    queryKey: ["/api/admin/students", studentId, "installments"],
+    enabled: open && !!studentId,
+  });
+
+  const students = (users || []).filter((user) => user.role === "student");
+  const pricedCourses = (courses || []).filter((course) => course.price);
+  const course = pricedCourses.find((c) => c.id === courseId);
+  const schedule = schedules?.find((s) => s.course.id === courseId);
+  // Parts are paid in order, so only the first unpaid part can be recorded
+  const nextInstallment = schedule?.installments.find((installment) => installment.status !== "paid");
+
+  useEffect(() => {
+    setInstallmentId(nextInstallment?.id ?? "");
+  }, [nextInstallment?.id]);
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/payments/manual", {
+        studentId,
+        courseId,
+        installmentId: installmentId || null,
+        method,
+        reference,
+        receivedAt: toReceivedAt(receivedOn),
+        reconciled: method === "bank_transfer" && reconciled,
+        promotionCode: !installmentId && promotionCode ? promotionCode : null,
+        useCredit: !installmentId && useCredit,
+      });
+      return await res.json() as Payment;
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      toast({
+        title: "Payment Recorded",
+        description: payment.status === "paid"
+          ? `$${parseFloat(payment.amount).toFixed(2)} received; the student is enrolled`
+          : `$${parseFloat(payment.amount).toFixed(2)} awaits reconciliation against the bank statement`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>Record a payment taken at the front desk or by bank transfer</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Student</Label>
+            <Select value={studentId} onValueChange={setStudentId}>
+              <SelectTrigger data-testid="select-manual-payment-student">
+                <SelectValue placeholder="Select a student" />
+              </SelectTrigger>
+              <SelectContent>
+                {students.map((student) => (
+                  <SelectItem key={student.id} value={student.id}>
+                    {[student.firstName, student.lastName].filter(Boolean).join(" ") || student.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Course</Label>
+            <Select value={courseId} onValueChange={setCourseId}>
+              <SelectTrigger data-testid="select-manual-payment-course">
+                <SelectValue placeholder="Select a course" />
+              </SelectTrigger>
+              <SelectContent>
+                {pricedCourses.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name} (${parseFloat(c.price!).toFixed(2)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {schedule && (
+              <p className="text-xs text-muted-foreground" data-testid="text-manual-payment-installment">
+                {nextInstallment
+                  ? `Paid in installments: records installment ${nextInstallment.sequence} of ${schedule.installments.length}, $${parseFloat(nextInstallment.amount).toFixed(2)}`
+                  : "All installments of this course are paid"}
+              </p>
+            )}
+          </div>
+          {course && !schedule && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="manual-payment-code">Promotion Code</Label>
+                <Input
+                  id="manual-payment-code"
+                  className="font-mono uppercase"
+                  value={promotionCode}
+                  onChange={(e) => setPromotionCode(e.target.value)}
+                  data-testid="input-manual-payment-code"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm pt-7">
+                <Checkbox
+                  checked={useCredit}
+                  onCheckedChange={(checked) => setUseCredit(!!checked)}
+                  data-testid="checkbox-manual-payment-credit"
+                />
+                Use referral credit
+              </label>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as Exclude<PaymentMethod, "card">)}>
+                <SelectTrigger data-testid="select-manual-payment-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="cash">{paymentMethodLabels.cash}</SelectItem>
+                  <SelectItem value="bank_transfer">{paymentMethodLabels.bank_transfer}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="manual-payment-date">{method === "cash" ? "Received On" : "Sent On"}</Label>
+              <Input
+                id="manual-payment-date"
+                type="date"
+                max={today()}
+                value={receivedOn}
+                onChange={(e) => setReceivedOn(e.target.value)}
+                data-testid="input-manual-payment-date"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="manual-payment-reference">{method === "cash" ? "Receipt Number" : "Transfer Reference"}</Label>
+            <Input
+              id="manual-payment-reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder={method === "cash" ? "Optional" : "As shown on the bank statement"}
+              data-testid="input-manual-payment-reference"
+            />
+          </div>
+          {method === "bank_transfer" && (
+            <label className="flex items-start gap-3 rounded-md border p-3 text-sm">
+              <Checkbox
+                checked={reconciled}
+                onCheckedChange={(checked) => setReconciled(!!checked)}
+                data-testid="checkbox-manual-payment-reconciled"
+              />
+              <span>
+                Already on the bank statement
+                <span className="block text-xs text-muted-foreground">
+                  Otherwise the transfer stays pending, and the student is not enrolled, until it is reconciled
+                </span>
+              </span>
+            </label>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-manual-payment">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => recordMutation.mutate()}
+            disabled={
+              recordMutation.isPending ||
+              !studentId ||
+              !course ||
+              (!!schedule && !nextInstallment) ||
+              (method === "bank_transfer" && !reference.trim())
+            }
+            data-testid="button-save-manual-payment"
+          >
+            {recordMutation.isPending ? "Recording..." : "Record Payment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReconcileDialog({ payment, onClose }: { payment: AdminPayment | null; onClose: () => void }) {
+  const { toast } = useToast();
+  const [receivedOn, setReceivedOn] = useState(today());
+
+  useEffect(() => {
+    if (payment) setReceivedOn(today());
+  }, [payment?.id]);
+
+  const reconcileMutation = useMutation({
+    mutationFn: async (received: boolean) => {
+      if (!payment) return;
+      await apiRequest("POST", `/api/admin/payments/${payment.id}/reconcile`, {
+        received,
+        receivedAt: received ? toReceivedAt(receivedOn) : undefined,
+      });
+    },
+    onSuccess: (_, received) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      toast({
+        title: received ? "Transfer Reconciled" : "Transfer Not Received",
+        description: received ? "The payment is marked paid and the student is enrolled" : "The payment is marked failed",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!payment} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Reconcile Bank Transfer</DialogTitle>
+          <DialogDescription>
+            {payment && `${payment.studentName || payment.studentEmail} · ${payment.courseName} · $${parseFloat(payment.amount).toFixed(2)} · ${payment.reference}`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="reconcile-date">Arrived On</Label>
+          <Input
+            id="reconcile-date"
+            type="date"
+            max={today()}
+            value={receivedOn}
+            onChange={(e) => setReceivedOn(e.target.value)}
+            data-testid="input-reconcile-date"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => reconcileMutation.mutate(false)}
+            disabled={reconcileMutation.isPending}
+            data-testid="button-transfer-not-received"
+          >
+            Not Received
+          </Button>
+          <Button
+            onClick={() => reconcileMutation.mutate(true)}
+            disabled={reconcileMutation.isPending || !receivedOn}
+            data-testid="button-transfer-received"
+          >
+            Mark Received
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function AdminPayments() {
+  const { toast } = useToast();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<PaymentStatus | "all">("all");
+  const [methodFilter, setMethodFilter] = useState<PaymentMethod | "all">("all");
+  const [refundingPayment, setRefundingPayment] = useState<AdminPayment | null>(null);
+  const [reconcilingPayment, setReconcilingPayment] = useState<AdminPayment | null>(null);
+  const [isRecordDialogOpen, setIsRecordDialogOpen] = useState(false);
+
+  const { data: payments, isLoading } = useQuery<AdminPayment[]>({
+    queryKey: ["/api/admin/payments"],
+  });
+
+  // For payments collected before invoicing was set up
+  const issueInvoiceMutation = useMutation({
+    mutationFn: async (paymentId: string) => {
+      await apiRequest("POST", `/api/admin/payments/${paymentId}/invoice`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      toast({
+        title: "Invoice Issued",
+        description: "The invoice has been numbered and can be downloaded",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const filteredPayments = payments?.filter((payment) => {
+    const searchLower = searchQuery.toLowerCase();
+    return (statusFilter === "all" || payment.status === statusFilter) &&
+      (methodFilter === "all" || payment.method === methodFilter) && (
+        payment.studentName?.toLowerCase().includes(searchLower) ||
+        payment.studentEmail?.toLowerCase().includes(searchLower) ||
+        payment.courseName.toLowerCase().includes(searchLower) ||
+        payment.reference?.toLowerCase().includes(searchLower)
+      );
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-96 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Payments</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Course payments, refunds and disputes. Stripe payments are kept in sync through its webhooks.
+          </p>
+        </div>
+        <Button onClick={() => setIsRecordDialogOpen(true)} data-testid="button-record-payment">
+          <Plus className="h-4 w-4 mr-2" />
+          Record Payment
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by student, course or reference..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+            data-testid="input-search-payments"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PaymentStatus | "all")}>
+          <SelectTrigger className="w-48" data-testid="select-payment-status-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {Object.entries(paymentStatusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={methodFilter} onValueChange={(value) => setMethodFilter(value as PaymentMethod | "all")}>
+          <SelectTrigger className="w-44" data-testid="select-payment-method-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All methods</SelectItem>
+            {Object.entries(paymentMethodLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {!filteredPayments || filteredPayments.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <CreditCard className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No payments found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredPayments.map((payment) => (
+                  <TableRow key={payment.id} data-testid={`row-payment-${payment.id}`}>
+                    <TableCell className="text-sm">
+                      {format(new Date(payment.paidAt || payment.createdAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{payment.studentName}</div>
+                      <div className="text-xs text-muted-foreground">{payment.studentEmail}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {payment.courseName}
+                      {payment.installmentId && <span className="block text-xs text-muted-foreground">Installment</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="font-medium">${parseFloat(payment.amount).toFixed(2)}</div>
+                      {toCents(payment.discountAmount) + toCents(payment.creditAmount) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          of ${parseFloat(payment.listPrice || payment.amount).toFixed(2)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {paymentMethodLabels[payment.method]}
+                      {payment.reference && (
+                        <span className="block text-xs text-muted-foreground font-mono">{payment.reference}</span>
+                      )}
+                      {payment.reconciledAt && payment.status !== "failed" && (
+                        <span className="flex items-center gap-1 text-xs text-green-600">
+                          <CheckCircle2 className="h-3 w-3" />
+                          Reconciled
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusBadgeVariants[payment.status]} data-testid={`badge-payment-status-${payment.id}`}>
+                        {paymentStatusLabels[payment.status]}
+                      </Badge>
+                      {toCents(payment.refundedAmount) > 0 && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          ${parseFloat(payment.refundedAmount).toFixed(2)} refunded
+                        </div>
+                      )}
+                      {payment.refunds.some((refund) => refund.status === "pending") && (
+                        <div className="text-xs text-amber-600 mt-1">Refund pending</div>
+                      )}
+                      {payment.invoices.map((invoice) => (
+                        <a
+                          key={invoice.id}
+                          href={`/api/invoices/${invoice.id}/download`}
+                          download
+                          className="flex items-center gap-1 text-xs text-primary hover:underline mt-1"
+                          data-testid={`link-download-invoice-${invoice.id}`}
+                        >
+                          <Download className="h-3 w-3" />
+                          {invoiceTypeLabels[invoice.type]} {invoice.number}
+                        </a>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {payment.method === "bank_transfer" && payment.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setReconcilingPayment(payment)}
+                          data-testid={`button-reconcile-payment-${payment.id}`}
+                        >
+                          <Banknote className="h-4 w-4 mr-1" />
+                          Reconcile
+                        </Button>
+                      )}
+                      {payment.status !== "pending" && payment.status !== "failed" && !payment.invoices.some((invoice) => invoice.type === "invoice") && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => issueInvoiceMutation.mutate(payment.id)}
+                          disabled={issueInvoiceMutation.isPending}
+                          data-testid={`button-issue-invoice-${payment.id}`}
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          Issue invoice
+                        </Button>
+                      )}
+                      {(payment.status === "paid" || payment.status === "partially_refunded") && refundableCents(payment) > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRefundingPayment(payment)}
+                          data-testid={`button-refund-payment-${payment.id}`}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Refund
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RefundDialog payment={refundingPayment} onClose={() => setRefundingPayment(null)} />
+      <ReconcileDialog payment={reconcilingPayment} onClose={() => setReconcilingPayment(null)} />
+      <RecordPaymentDialog open={isRecordDialogOpen} onClose={() => setIsRecordDialogOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,552 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Edit, Tag, Trash2 } from "lucide-react";
+import type { Course, Promotion, User } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { promotionTypeLabels } from "@/lib/utils";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+
+type PromotionWithUsage = Promotion & {
+  referrerName: string | null;
+  redemptions: number;
+  discountTotal: string;
+};
+
+const amountPattern = /^\d+(\.\d{1,2})?$/;
+
+const promotionSchema = z.object({
+  code: z.string().trim().min(3, "Code must be at least 3 characters").regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, dashes and underscores only"),
+  description: z.string().optional(),
+  type: z.enum(["percentage", "fixed"]),
+  value: z.string().regex(amountPattern, "Enter a positive amount"),
+  courseIds: z.array(z.string()),
+  validFrom: z.string().optional(),
+  validUntil: z.string().optional(),
+  maxRedemptions: z.string().regex(/^\d*$/, "Enter a whole number").optional(),
+  maxRedemptionsPerStudent: z.coerce.number().int().min(1, "At least 1"),
+  referrerId: z.string(),
+  referrerCredit: z.string().optional(),
+  isActive: z.boolean(),
+}).refine((data) => data.type !== "percentage" || parseFloat(data.value) <= 100, {
+  message: "A percentage discount can be at most 100",
+  path: ["value"],
+}).refine((data) => data.referrerId === "none" || !data.referrerCredit || amountPattern.test(data.referrerCredit), {
+  message: "Enter a positive amount",
+  path: ["referrerCredit"],
+});
+
+type PromotionForm = z.infer<typeof promotionSchema>;
+
+const emptyForm: PromotionForm = {
+  code: "",
+  description: "",
+  type: "percentage",
+  value: "",
+  courseIds: [],
+  validFrom: "",
+  validUntil: "",
+  maxRedemptions: "",
+  maxRedemptionsPerStudent: 1,
+  referrerId: "none",
+  referrerCredit: "",
+  isActive: true,
+};
+
+function formatDiscount(promotion: Pick<Promotion, "type" | "value">): string {
+  return promotion.type === "percentage"
+    ? `${parseFloat(promotion.value)}%`
+    : `$${parseFloat(promotion.value).toFixed(2)}`;
+}
+
+// Codes are valid from the start of the first day until the end of the last day, in the admin's time zone
+function toDayBoundary(date: string | undefined, boundary: "start" | "end"): string | null {
+  if (!date) return null;
+  return new Date(`${date}T${boundary === "start" ? "00:00:00" : "23:59:59"}`).toISOString();
+}
+
+export default function AdminPromotions() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<PromotionWithUsage | null>(null);
+
+  const { data: promotions, isLoading } = useQuery<PromotionWithUsage[]>({
+    queryKey: ["/api/admin/promotions"],
+  });
+
+  const { data: courses } = useQuery<Course[]>({
+    queryKey: ["/api/admin/courses"],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const students = (users || []).filter((user) => user.role === "student");
+
+  const form = useForm<PromotionForm>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: emptyForm,
+  });
+
+  const referrerId = form.watch("referrerId");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PromotionForm) => {
+      const limits = {
+        description: data.description || null,
+        validFrom: toDayBoundary(data.validFrom, "start"),
+        validUntil: toDayBoundary(data.validUntil, "end"),
+        maxRedemptions: data.maxRedemptions ? parseInt(data.maxRedemptions, 10) : null,
+        maxRedemptionsPerStudent: data.maxRedemptionsPerStudent,
+        isActive: data.isActive,
+      };
+
+      if (editingPromotion) {
+        await apiRequest("PATCH", `/api/admin/promotions/${editingPromotion.id}`, limits);
+      } else {
+        await apiRequest("POST", "/api/admin/promotions", {
+          ...limits,
+          code: data.code,
+          type: data.type,
+          value: data.value,
+          courseIds: data.courseIds.length > 0 ? data.courseIds : null,
+          referrerId: data.referrerId === "none" ? null : data.referrerId,
+          referrerCredit: data.referrerId !== "none" && data.referrerCredit ? data.referrerCredit : null,
+        });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promotions"] });
+      setIsDialogOpen(false);
+      toast({
+        title: editingPromotion ? "Promotion Updated" : "Promotion Created",
+        description: editingPromotion ? "The promotion has been updated" : "Students can now use the code at checkout",
+      });
+      setEditingPromotion(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/promotions/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/promotions"] });
+      toast({
+        title: "Promotion Deleted",
+        description: "The code can no longer be used",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (promotion?: PromotionWithUsage) => {
+    setEditingPromotion(promotion ?? null);
+    form.reset(promotion
+      ? {
+        code: promotion.code,
+        description: promotion.description || "",
+        type: promotion.type,
+        value: promotion.value,
+        courseIds: (promotion.courseIds as string[] | null) || [],
+        validFrom: promotion.validFrom ? format(new Date(promotion.validFrom), "yyyy-MM-dd") : "",
+        validUntil: promotion.validUntil ? format(new Date(promotion.validUntil), "yyyy-MM-dd") : "",
+        maxRedemptions: promotion.maxRedemptions?.toString() || "",
+        maxRedemptionsPerStudent: promotion.maxRedemptionsPerStudent,
+        referrerId: promotion.referrerId || "none",
+        referrerCredit: promotion.referrerCredit || "",
+        isActive: promotion.isActive,
+      }
+      : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (promotion: PromotionWithUsage) => {
+    if (confirm(`Are you sure you want to delete the code ${promotion.code}?`)) {
+      deleteMutation.mutate(promotion.id);
+    }
+  };
+
+  const courseNames = new Map((courses || []).map((course) => [course.id, course.name]));
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Promotions</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Discount codes and student referral codes applied when a course is paid in full
+          </p>
+        </div>
+        <Button onClick={() => handleOpenDialog()} data-testid="button-create-promotion">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Code
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {!promotions || promotions.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Tag className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No promotion codes yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Courses</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map((promotion) => {
+                  const courseIds = promotion.courseIds as string[] | null;
+                  return (
+                    <TableRow key={promotion.id} data-testid={`row-promotion-${promotion.id}`}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{promotion.code}</div>
+                        {promotion.referrerId ? (
+                          <div className="text-xs text-muted-foreground">
+                            Referral by {promotion.referrerName || "a student"}
+                            {promotion.referrerCredit && `, earns $${parseFloat(promotion.referrerCredit).toFixed(2)} per use`}
+                          </div>
+                        ) : promotion.description && (
+                          <div className="text-xs text-muted-foreground line-clamp-1">{promotion.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatDiscount(promotion)}</TableCell>
+                      <TableCell className="text-sm">
+                        {courseIds
+                          ? courseIds.map((id) => courseNames.get(id) || "Deleted course").join(", ")
+                          : "All courses"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {promotion.validFrom || promotion.validUntil ? (
+                          <>
+                            {promotion.validFrom ? format(new Date(promotion.validFrom), "MMM d, yyyy") : "Now"}
+                            {" – "}
+                            {promotion.validUntil ? format(new Date(promotion.validUntil), "MMM d, yyyy") : "no end"}
+                          </>
+                        ) : (
+                          "Always"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{promotion.redemptions}{promotion.maxRedemptions !== null && ` / ${promotion.maxRedemptions}`}</div>
+                        {promotion.redemptions > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            ${parseFloat(promotion.discountTotal).toFixed(2)} off
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={promotion.isActive ? "secondary" : "outline"}>
+                          {promotion.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleOpenDialog(promotion)}
+                            data-testid={`button-edit-promotion-${promotion.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(promotion)}
+                            data-testid={`button-delete-promotion-${promotion.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromotion ? `Edit ${editingPromotion.code}` : "Add Promotion Code"}</DialogTitle>
+            <DialogDescription>
+              {editingPromotion
+                ? "The code, discount and courses can't change once created; create a new code instead"
+                : "Codes are entered by students when they pay for a course in full"}
+            </DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Code</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="SPRING25"
+                          className="font-mono uppercase"
+                          disabled={!!editingPromotion}
+                          {...field}
+                          data-testid="input-promotion-code"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Discount Type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!!editingPromotion}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-promotion-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(promotionTypeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{form.watch("type") === "percentage" ? "Percent Off" : "Amount Off ($)"}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" disabled={!!editingPromotion} {...field} data-testid="input-promotion-value" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Shown to the student when the code is applied" {...field} data-testid="input-promotion-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="courseIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Courses</FormLabel>
+                    <FormDescription className="text-xs">Leave all unticked to allow the code for every course</FormDescription>
+                    <div className="max-h-40 overflow-y-auto rounded-md border p-3 space-y-2">
+                      {(courses || []).map((course) => (
+                        <label key={course.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(course.id)}
+                            disabled={!!editingPromotion}
+                            onCheckedChange={(checked) => field.onChange(
+                              checked ? [...field.value, course.id] : field.value.filter((id) => id !== course.id)
+                            )}
+                            data-testid={`checkbox-promotion-course-${course.id}`}
+                          />
+                          {course.name}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="validFrom"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid From</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-promotion-valid-from" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="validUntil"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid Until</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-promotion-valid-until" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxRedemptions"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Total Uses</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} data-testid="input-promotion-max-redemptions" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxRedemptionsPerStudent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Uses per Student</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" {...field} data-testid="input-promotion-max-per-student" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="referrerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Referring Student</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value} disabled={!!editingPromotion}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-promotion-referrer">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">Not a referral code</SelectItem>
+                          {students.map((student) => (
+                            <SelectItem key={student.id} value={student.id}>
+                              {[student.firstName, student.lastName].filter(Boolean).join(" ") || student.email}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {referrerId !== "none" && (
+                  <FormField
+                    control={form.control}
+                    name="referrerCredit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Credit per Use ($)</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="0.01" min="0" disabled={!!editingPromotion} {...field} data-testid="input-promotion-referrer-credit" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} data-testid="checkbox-promotion-active" />
+                    </FormControl>
+                    <FormLabel className="!mt-0">Code can be used</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} data-testid="button-cancel-promotion">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-promotion">
+                  {saveMutation.isPending ? "Saving..." : editingPromotion ? "Save Changes" : "Add Code"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle2 } from "lucide-react";
+import type { ChoiceStatistic, Question, QuestionStatistics } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface QuestionAnalysisDialogProps {
+  question: Question | null;
+  statistics: QuestionStatistics | undefined;
+  onClose: () => void;
+}
+
+export function QuestionAnalysisDialog({ question, statistics, onClose }: QuestionAnalysisDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState("");
+  const choiceStats = (statistics?.choiceStats as ChoiceStatistic[] | null) || [];
+
+  useEffect(() => {
+    setReason(question?.flagReason || "");
+  }, [question?.id]);
+
+  const flagMutation = useMutation({
+    mutationFn: async (isFlagged: boolean) => {
+      await apiRequest("PATCH", `/api/questions/${question?.id}/flag`, { isFlagged, reason });
+    },
+    onSuccess: (_, isFlagged) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
+      toast({
+        title: isFlagged ? "Question Flagged" : "Flag Cleared",
+        description: isFlagged ? "The question is marked for review" : "The question is no longer marked for review",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!question} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Item Analysis</DialogTitle>
+          <DialogDescription className="line-clamp-2">{question?.questionText}</DialogDescription>
+        </DialogHeader>
+
+        {!statistics ? (
+          <p className="text-sm text-muted-foreground">No submitted attempts have been analysed for this question yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-semibold" data-testid="text-analysis-attempts">{statistics.attemptCount}</div>
+                <div className="text-xs text-muted-foreground">Attempts</div>
+              </div>
+              <div>
+                <div className="text-2xl font-semibold" data-testid="text-analysis-p-value">{statistics.pValue.toFixed(2)}</div>
+                <div className="text-xs text-muted-foreground">Difficulty (p-value)</div>
+              </div>
+              <div>
+                <div className="text-2xl font-semibold" data-testid="text-analysis-discrimination">
+                  {statistics.discriminationIndex !== null ? statistics.discriminationIndex.toFixed(2) : "-"}
+                </div>
+                <div className="text-xs text-muted-foreground">Discrimination</div>
+              </div>
+            </div>
+            {choiceStats.length > 0 && (
+              <div className="space-y-2">
+                <Label>Choice Selection</Label>
+                {choiceStats.map((choice, index) => (
+                  <div key={index} className="space-y-1" data-testid={`row-choice-stat-${index}`}>
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-1 truncate">
+                        {choice.isCorrect && <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-green-600" />}
+                        {choice.label}
+                      </span>
+                      <span className="text-muted-foreground">{Math.round(choice.selectionRate * 100)}%</span>
+                    </div>
+                    <Progress value={choice.selectionRate * 100} className="h-2" />
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Computed {format(new Date(statistics.computedAt), "MMM d, yyyy HH:mm")}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>Review Note</Label>
+          <Textarea
+            rows={2}
+            placeholder="What looks wrong with this question?"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            data-testid="input-flag-reason"
+          />
+        </div>
+
+        <DialogFooter>
+          {question?.isFlagged && (
+            <Button
+              variant="outline"
+              onClick={() => flagMutation.mutate(false)}
+              disabled={flagMutation.isPending}
+              data-testid="button-clear-flag"
+            >
+              Clear Flag
+            </Button>
+          )}
+          <Button
+            onClick={() => flagMutation.mutate(true)}
+            disabled={flagMutation.isPending}
+            data-testid="button-flag-question"
+          >
+            {question?.isFlagged ? "Update Flag" : "Flag for Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, FileUp } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface ImportResult {
+  dryRun: boolean;
+  errors: Array<{ location: string; message: string }>;
+  categoriesCreated: number;
+  topicsCreated: number;
+  questionsCreated: number;
+  questionsUpdated: number;
+  questionsUnchanged: number;
+  items: Array<{ location: string; questionText: string; action: "create" | "update" | "unchanged" }>;
+}
+
+const actionLabels: Record<ImportResult["items"][number]["action"], string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+};
+
+interface QuestionBankImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function QuestionBankImportDialog({ open, onClose }: QuestionBankImportDialogProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<{ name: string; format: "csv" | "json"; content: string } | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  // The file goes up as plain text so large banks aren't limited by the JSON body size
+  const submit = async (content: string, format: "csv" | "json", dryRun: boolean): Promise<ImportResult> => {
+    const response = await fetch(`/api/admin/question-bank/import?format=${format}&dryRun=${dryRun}`, {
+      method: "POST",
+      headers: { "Content-Type": format === "csv" ? "text/csv" : "text/plain" },
+      body: content,
+      credentials: "include",
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.message || "Failed to import question bank");
+    }
+    return body;
+  };
+
+  const handleFile = async (selected: File) => {
+    const format = selected.name.toLowerCase().endsWith(".csv") ? "csv" : "json";
+    const content = await selected.text();
+    setFile({ name: selected.name, format, content });
+    setIsSubmitting(true);
+    try {
+      setPreview(await submit(content, format, true));
+    } catch (error: any) {
+      setPreview(null);
+      toast({ title: "Preview Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsSubmitting(true);
+    try {
+      const result = await submit(file.content, file.format, false);
+      queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/question-categories"] });
+      toast({
+        title: "Questions Imported",
+        description: `${result.questionsCreated} created, ${result.questionsUpdated} updated, ${result.questionsUnchanged} unchanged`,
+      });
+      handleClose();
+    } catch (error: any) {
+      toast({ title: "Import Failed", description: error.message, variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasChanges = !!preview &&
+    preview.questionsCreated + preview.questionsUpdated + preview.categoriesCreated + preview.topicsCreated > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Questions</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON question bank. Categories and topics are matched by name; questions by id, then by text within their topic.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+          />
+          <Button
+            variant="outline"
+            onClick={() => inputRef.current?.click()}
+            disabled={isSubmitting}
+            data-testid="button-choose-import-file"
+          >
+            <FileUp className="h-4 w-4 mr-2" />
+            {file ? "Choose another file" : "Choose file"}
+          </Button>
+          {file && <span className="text-sm text-muted-foreground truncate" data-testid="text-import-file">{file.name}</span>}
+        </div>
+
+        {isSubmitting && !preview && <p className="text-sm text-muted-foreground">Checking file...</p>}
+
+        {preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm" data-testid="text-import-summary">
+              <Badge variant="secondary">{preview.questionsCreated} new</Badge>
+              <Badge variant="secondary">{preview.questionsUpdated} updated</Badge>
+              <Badge variant="outline">{preview.questionsUnchanged} unchanged</Badge>
+              {preview.categoriesCreated > 0 && <Badge variant="outline">{preview.categoriesCreated} new categories</Badge>}
+              {preview.topicsCreated > 0 && <Badge variant="outline">{preview.topicsCreated} new topics</Badge>}
+            </div>
+
+            {preview.errors.length > 0 && (
+              <Alert variant="destructive" data-testid="alert-import-errors">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Fix {preview.errors.length} {preview.errors.length === 1 ? "error" : "errors"} before importing</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 max-h-48 overflow-y-auto space-y-1">
+                    {preview.errors.map((error, index) => (
+                      <li key={index} data-testid={`text-import-error-${index}`}>
+                        <span className="font-medium">{error.location}:</span> {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {preview.items.length > 0 && (
+              <div className="max-h-64 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead>Topic</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.items.map((item, index) => (
+                      <TableRow key={index} data-testid={`row-import-item-${index}`}>
+                        <TableCell className="max-w-xs truncate">{item.questionText}</TableCell>
+                        <TableCell className="text-muted-foreground">{item.location}</TableCell>
+                        <TableCell>
+                          <Badge variant={item.action === "unchanged" ? "outline" : "secondary"}>{actionLabels[item.action]}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} data-testid="button-cancel-import">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!preview || preview.errors.length > 0 || !hasChanges || isSubmitting}
+            data-testid="button-confirm-import"
+          >
+            {isSubmitting && preview ? "Importing..." : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
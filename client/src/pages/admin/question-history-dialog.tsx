@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RotateCcw } from "lucide-react";
+import type { HotspotAnswerConfig, NumericAnswerConfig, Question, QuestionType, QuestionVersion } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { questionTypeLabels } from "@/lib/utils";
+import { format } from "date-fns";
+
+type QuestionVersionWithAuthor = QuestionVersion & { authorName: string | null };
+
+const versionFieldLabels: Array<[keyof QuestionVersion, string]> = [
+  ["questionText", "Question"],
+  ["type", "Type"],
+  ["choices", "Choices"],
+  ["answerConfig", "Answer"],
+  ["explanation", "Explanation"],
+  ["imageUrl", "Image"],
+  ["points", "Points"],
+  ["isCritical", "Critical"],
+  ["tags", "Tags"],
+  ["questionTopicId", "Question topic"],
+];
+
+function formatVersionField(version: QuestionVersion, field: keyof QuestionVersion): string {
+  const value = version[field];
+  switch (field) {
+    case "type":
+      return questionTypeLabels[value as QuestionType];
+    case "choices": {
+      const choices = (value as Array<{ label: string; isCorrect?: boolean }>) || [];
+      return choices
+        .map((choice, index) => version.type === "ordering"
+          ? `${index + 1}. ${choice.label}`
+          : `${choice.isCorrect ? "✓" : "•"} ${choice.label}`)
+        .join("\n");
+    }
+    case "answerConfig":
+      if (!value) return "";
+      if (version.type === "numeric") {
+        const config = value as NumericAnswerConfig;
+        return `${config.value} ± ${config.tolerance}${config.unit ? ` ${config.unit}` : ""}`;
+      }
+      if (version.type === "hotspot") {
+        const regions = (value as HotspotAnswerConfig).regions || [];
+        return regions.map((r) => `(${r.x}%, ${r.y}%) ${r.width}% × ${r.height}%`).join("\n");
+      }
+      return JSON.stringify(value);
+    case "isCritical":
+      return value ? "Yes" : "No";
+    case "tags":
+      return Array.isArray(value) ? value.join(", ") : "";
+    default:
+      return value === null || value === undefined ? "" : String(value);
+  }
+}
+
+interface QuestionHistoryDialogProps {
+  question: Question | null;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+export function QuestionHistoryDialog({ question, onClose, onRestored }: QuestionHistoryDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [baseId, setBaseId] = useState<string>("");
+  const [targetId, setTargetId] = useState<string>("");
+  const versionsUrl = `/api/questions/${question?.id}/versions`;
+
+  const { data: versions, isLoading } = useQuery<QuestionVersionWithAuthor[]>({
+    queryKey: [versionsUrl],
+    enabled: !!question,
+  });
+
+  // Default to the changes made by the latest edit
+  useEffect(() => {
+    if (!versions?.length) return;
+    setTargetId(versions[0].id);
+    setBaseId((versions[1] ?? versions[0]).id);
+  }, [versions]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: QuestionVersionWithAuthor) => {
+      await apiRequest("POST", `/api/questions/${question?.id}/versions/${version.id}/restore`, undefined);
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: [versionsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
+      toast({
+        title: "Version Restored",
+        description: `Version ${version.versionNumber} is now the current content`,
+      });
+      onRestored();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const base = versions?.find((v) => v.id === baseId);
+  const target = versions?.find((v) => v.id === targetId);
+  const changes = base && target
+    ? versionFieldLabels
+      .map(([field, label]) => ({ field, label, before: formatVersionField(base, field), after: formatVersionField(target, field) }))
+      .filter((change) => change.before !== change.after)
+    : [];
+
+  const versionLabel = (version: QuestionVersionWithAuthor) =>
+    `v${version.versionNumber} · ${format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}`;
+
+  return (
+    <Dialog open={!!question} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription className="line-clamp-2">{question?.questionText}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !versions ? (
+          <Skeleton className="h-40" />
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No versions recorded yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center justify-between gap-4 text-sm" data-testid={`row-question-version-${version.versionNumber}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{version.versionNumber}</span>
+                    <span className="text-muted-foreground">
+                      {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}
+                      {version.authorName && ` · ${version.authorName}`}
+                    </span>
+                    {version.id === question?.currentVersionId && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  {user?.role === "admin" && version.id !== question?.currentVersionId && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(version)}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-version-${version.versionNumber}`}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex items-center gap-2 text-sm">
+                <span>Compare</span>
+                <Select value={baseId} onValueChange={setBaseId}>
+                  <SelectTrigger className="w-[220px]" data-testid="select-version-base">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span>with</span>
+                <Select value={targetId} onValueChange={setTargetId}>
+                  <SelectTrigger className="w-[220px]" data-testid="select-version-target">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground" data-testid="text-no-version-changes">No differences.</p>
+              ) : (
+                changes.map((change) => (
+                  <div key={change.field} className="space-y-1" data-testid={`diff-${change.field}`}>
+                    <div className="text-sm font-medium">{change.label}</div>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      <div className="whitespace-pre-wrap rounded-md bg-destructive/10 p-2">{change.before || "—"}</div>
+                      <div className="whitespace-pre-wrap rounded-md bg-green-500/10 p-2">{change.after || "—"}</div>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,248 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { CheckCircle2, ClipboardCheck, History, MessageSquareWarning } from "lucide-react";
+import type { Question, QuestionReviewEvent } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { questionTypeLabels } from "@/lib/utils";
+import { format } from "date-fns";
+import { QuestionHistoryDialog } from "./question-history-dialog";
+
+type ReviewEventWithActor = QuestionReviewEvent & { actorName: string | null };
+
+interface ReviewQueueItem {
+  question: Question;
+  events: ReviewEventWithActor[];
+}
+
+const reviewEventLabels: Record<QuestionReviewEvent["action"], string> = {
+  submitted: "Submitted for review",
+  approved: "Approved",
+  changes_requested: "Requested changes",
+  archived: "Archived",
+  reopened: "Reopened",
+};
+
+function ReviewQueueCard({ item, onShowHistory }: { item: ReviewQueueItem; onShowHistory: (question: Question) => void }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [comment, setComment] = useState("");
+  const { question, events } = item;
+  const choices = (question.choices as Array<{ label: string; isCorrect?: boolean }> | null) || [];
+  const submittedBy = events.find((event) => event.action === "submitted");
+  const isOwnSubmission = !!user && submittedBy?.actorId === user.id;
+
+  const reviewMutation = useMutation({
+    mutationFn: async (action: "approve" | "request_changes" | "submit") => {
+      await apiRequest("POST", `/api/questions/${question.id}/review`, { action, comment: comment || undefined });
+    },
+    onSuccess: (_, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/question-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
+      setComment("");
+      toast({
+        title: action === "approve" ? "Question Approved" : action === "submit" ? "Resubmitted for Review" : "Changes Requested",
+        description: action === "approve"
+          ? "The question can now be used in assessments"
+          : action === "submit"
+          ? "The question is back in the review queue"
+          : "The question has been returned to its author",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid={`card-question-review-${question.id}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <CardTitle className="text-base">{question.questionText}</CardTitle>
+            <CardDescription className="flex items-center gap-2">
+              <Badge variant="outline">{questionTypeLabels[question.type]}</Badge>
+              <span>{question.points} {question.points === 1 ? "point" : "points"}</span>
+              {question.isCritical && <Badge variant="destructive">Critical</Badge>}
+            </CardDescription>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onShowHistory(question)}
+            title="Version history"
+            data-testid={`button-review-history-${question.id}`}
+          >
+            <History className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {question.imageUrl && (
+          <img src={question.imageUrl} alt="" className="max-h-48 rounded-md border" />
+        )}
+        {choices.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {choices.map((choice, index) => (
+              <li key={index} className="flex items-center gap-2">
+                {question.type === "ordering" ? (
+                  <span className="text-muted-foreground">{index + 1}.</span>
+                ) : choice.isCorrect ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+                ) : (
+                  <span className="w-4 text-center text-muted-foreground">•</span>
+                )}
+                {choice.label}
+              </li>
+            ))}
+          </ul>
+        )}
+        {question.explanation && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">{question.explanation}</p>
+        )}
+
+        {events.length > 0 && (
+          <div className="space-y-2 border-t pt-4">
+            {events.map((event) => (
+              <div key={event.id} className="text-sm" data-testid={`row-review-event-${event.id}`}>
+                <span className="font-medium">{reviewEventLabels[event.action]}</span>
+                <span className="text-muted-foreground">
+                  {event.actorName && ` by ${event.actorName}`} · {format(new Date(event.createdAt), "MMM d, yyyy HH:mm")}
+                </span>
+                {event.comment && <p className="mt-1 whitespace-pre-wrap">{event.comment}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <Textarea
+            rows={2}
+            placeholder={question.status === "in_review" ? "Comment for the author" : "What changed since the last review?"}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            data-testid={`input-review-comment-${question.id}`}
+          />
+          {question.status === "in_review" ? (
+            <div className="flex items-center justify-end gap-2">
+              {isOwnSubmission && (
+                <span className="text-xs text-muted-foreground mr-auto">Another reviewer needs to decide on your submission</span>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => reviewMutation.mutate("request_changes")}
+                disabled={reviewMutation.isPending || isOwnSubmission || !comment.trim()}
+                data-testid={`button-request-changes-${question.id}`}
+              >
+                Request Changes
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate("approve")}
+                disabled={reviewMutation.isPending || isOwnSubmission}
+                data-testid={`button-approve-question-${question.id}`}
+              >
+                Approve
+              </Button>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <Button
+                onClick={() => reviewMutation.mutate("submit")}
+                disabled={reviewMutation.isPending}
+                data-testid={`button-resubmit-question-${question.id}`}
+              >
+                Resubmit for Review
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AdminQuestionReviews() {
+  const [historyQuestion, setHistoryQuestion] = useState<Question | null>(null);
+
+  const { data: queue, isLoading } = useQuery<ReviewQueueItem[]>({
+    queryKey: ["/api/admin/question-reviews"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const inReview = (queue || []).filter((item) => item.question.status === "in_review");
+  const changesRequested = (queue || []).filter((item) => item.question.status === "draft");
+
+  const renderItems = (items: ReviewQueueItem[], emptyMessage: string) =>
+    items.length === 0 ? (
+      <Card>
+        <CardContent className="text-center py-12 text-muted-foreground">
+          <ClipboardCheck className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>{emptyMessage}</p>
+        </CardContent>
+      </Card>
+    ) : (
+      <div className="space-y-4">
+        {items.map((item) => (
+          <ReviewQueueCard key={item.question.id} item={item} onShowHistory={setHistoryQuestion} />
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Question Reviews</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Questions are only used in assessments once a second reviewer has approved them
+        </p>
+      </div>
+
+      <Tabs defaultValue="in_review">
+        <TabsList>
+          <TabsTrigger value="in_review" data-testid="tab-in-review">
+            In review ({inReview.length})
+          </TabsTrigger>
+          <TabsTrigger value="changes_requested" data-testid="tab-changes-requested">
+            <MessageSquareWarning className="h-4 w-4 mr-2" />
+            Changes requested ({changesRequested.length})
+          </TabsTrigger>
+        </TabsList>
+        <TabsContent value="in_review" className="mt-4">
+          {renderItems(inReview, "No questions are waiting for review.")}
+        </TabsContent>
+        <TabsContent value="changes_requested" className="mt-4">
+          {renderItems(changesRequested, "No questions are waiting on changes.")}
+        </TabsContent>
+      </Tabs>
+
+      <QuestionHistoryDialog
+        question={historyQuestion}
+        onClose={() => setHistoryQuestion(null)}
+        onRestored={() => {
+          // A restored version is new content and goes back to draft
+          queryClient.invalidateQueries({ queryKey: ["/api/admin/question-reviews"] });
+          setHistoryQuestion(null);
+        }}
+      />
+    </div>
+  );
+}
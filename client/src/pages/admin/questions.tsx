@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,60 +10,225 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit, HelpCircle, Trash2, X } from "lucide-react";
-import type { Question } from "@shared/schema";
+import { Plus, Edit, HelpCircle, Trash2, X, ArrowUp, ArrowDown, BarChart3, RefreshCw, History, Upload, Download, Send, ArchiveRestore, Languages } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import type { HotspotAnswerConfig, NumericAnswerConfig, Question, QuestionStatistics, QuestionType } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
+import { ImageUpload } from "@/components/image-upload";
+import { HotspotEditor } from "@/components/hotspot-editor";
+import { cn, questionStatusLabels, questionTypeLabels } from "@/lib/utils";
+import { useAuth } from "@/hooks/useAuth";
+import { QuestionAnalysisDialog } from "./question-analysis-dialog";
+import { QuestionHistoryDialog } from "./question-history-dialog";
+import { QuestionBankImportDialog } from "./question-bank-import-dialog";
+import { TranslationStatus, TranslationsDialog, type TranslationTarget } from "./translations-dialog";
+
+// Question types whose answer is picked from (or arranges) the choices list
+const choiceBasedTypes: QuestionType[] = ["single_choice", "multiple_choice", "ordering"];
 
 const questionSchema = z.object({
   questionText: z.string().min(1, "Question text is required"),
+  imageUrl: z.string().nullable(),
   explanation: z.string().optional(),
-  type: z.enum(["single_choice", "multiple_choice"]),
+  type: z.enum(["single_choice", "multiple_choice", "ordering", "hotspot", "numeric"]),
+  points: z.coerce.number().int().min(1, "Points must be at least 1"),
+  isCritical: z.boolean(),
   choices: z.array(z.object({
-    label: z.string().min(1, "Choice text is required"),
+    id: z.string().optional(), // Assigned by the server; new choices have none yet
+    label: z.string(),
     isCorrect: z.boolean(),
-  })).min(2, "At least 2 choices required").refine((choices) => choices.some(c => c.isCorrect), {
-    message: "At least one choice must be marked as correct",
-  }),
+    imageUrl: z.string().nullable().optional(),
+  })),
+  regions: z.array(z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() })),
+  numericValue: z.string(),
+  numericTolerance: z.string(),
+  numericUnit: z.string(),
+}).superRefine((data, ctx) => {
+  if (choiceBasedTypes.includes(data.type)) {
+    data.choices.forEach((choice, index) => {
+      if (!choice.label.trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices", index, "label"], message: "Choice text is required" });
+      }
+    });
+    if (data.choices.length < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: "At least 2 choices required" });
+    } else if (data.type !== "ordering" && !data.choices.some((c) => c.isCorrect)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: "At least one choice must be marked as correct" });
+    }
+  } else if (data.type === "hotspot") {
+    if (!data.imageUrl) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["imageUrl"], message: "Hotspot questions need an image" });
+    }
+    if (data.regions.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["regions"], message: "Mark at least one correct region" });
+    }
+  } else if (data.type === "numeric") {
+    if (data.numericValue.trim() === "" || isNaN(Number(data.numericValue))) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["numericValue"], message: "Enter the correct number" });
+    }
+    if (data.numericTolerance.trim() === "" || isNaN(Number(data.numericTolerance)) || Number(data.numericTolerance) < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["numericTolerance"], message: "Tolerance must be 0 or more" });
+    }
+  }
 });
 
 type QuestionForm = z.infer<typeof questionSchema>;
 
+type QuestionSort = "newest" | "flagged" | "hardest" | "easiest" | "least_discriminating" | "most_attempted";
+
+const questionSortLabels: Record<QuestionSort, string> = {
+  newest: "Newest first",
+  flagged: "Flagged first",
+  hardest: "Hardest first",
+  easiest: "Easiest first",
+  least_discriminating: "Least discriminating first",
+  most_attempted: "Most attempted first",
+};
+
+// Rule-of-thumb item analysis thresholds: very easy/hard questions and those that don't separate
+// strong from weak students are worth a second look
+const P_VALUE_RANGE = { min: 0.3, max: 0.9 };
+const MIN_DISCRIMINATION = 0.2;
+
+function questionTranslationTarget(question: Question): TranslationTarget {
+  return {
+    entity: "question",
+    id: question.id,
+    title: question.questionText,
+    fields: [
+      { key: "questionText", label: "Question", source: question.questionText, format: "multiline" },
+      { key: "explanation", label: "Explanation", source: question.explanation, format: "multiline" },
+    ],
+    choices: ((question.choices as Array<{ id: string; label: string }>) || []).map(({ id, label }) => ({ id, label })),
+    translations: question.translations,
+    currentVersionId: question.currentVersionId,
+  };
+}
+
 export default function AdminQuestions() {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  const [analysedQuestion, setAnalysedQuestion] = useState<Question | null>(null);
+  const [historyQuestion, setHistoryQuestion] = useState<Question | null>(null);
+  const [translatedQuestion, setTranslatedQuestion] = useState<Question | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [sortBy, setSortBy] = useState<QuestionSort>("newest");
+  const { user } = useAuth();
 
   const { data: questions, isLoading } = useQuery<Question[]>({
     queryKey: ["/api/questions"],
   });
 
+  const { data: statistics = [] } = useQuery<QuestionStatistics[]>({
+    queryKey: ["/api/admin/question-statistics"],
+  });
+
+  const statisticsByQuestion = useMemo(
+    () => new Map(statistics.map((stat) => [stat.questionId, stat])),
+    [statistics]
+  );
+
+  // Questions without statistics sort last for the analysis-based orders
+  const sortedQuestions = useMemo(() => {
+    if (!questions) return [];
+    const metric = (question: Question, value: (stat: QuestionStatistics) => number | null, fallback: number) => {
+      const stat = statisticsByQuestion.get(question.id);
+      return (stat && value(stat)) ?? fallback;
+    };
+    const sorted = [...questions];
+    switch (sortBy) {
+      case "flagged":
+        return sorted.sort((a, b) => Number(b.isFlagged) - Number(a.isFlagged));
+      case "hardest":
+        return sorted.sort((a, b) => metric(a, (s) => s.pValue, Infinity) - metric(b, (s) => s.pValue, Infinity));
+      case "easiest":
+        return sorted.sort((a, b) => metric(b, (s) => s.pValue, -Infinity) - metric(a, (s) => s.pValue, -Infinity));
+      case "least_discriminating":
+        return sorted.sort((a, b) =>
+          metric(a, (s) => s.discriminationIndex, Infinity) - metric(b, (s) => s.discriminationIndex, Infinity)
+        );
+      case "most_attempted":
+        return sorted.sort((a, b) => metric(b, (s) => s.attemptCount, 0) - metric(a, (s) => s.attemptCount, 0));
+      default:
+        return sorted;
+    }
+  }, [questions, statisticsByQuestion, sortBy]);
+
+  const lastComputedAt = statistics.reduce<string | null>(
+    (latest, stat) => (!latest || String(stat.computedAt) > latest ? String(stat.computedAt) : latest),
+    null
+  );
+
+  const recomputeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/question-statistics/recompute", undefined);
+      return await res.json() as { analysed: number };
+    },
+    onSuccess: ({ analysed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/question-statistics"] });
+      toast({
+        title: "Item Analysis Updated",
+        description: `Statistics recomputed for ${analysed} ${analysed === 1 ? "question" : "questions"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const form = useForm<QuestionForm>({
     resolver: zodResolver(questionSchema),
     defaultValues: {
       questionText: "",
+      imageUrl: null,
       explanation: "",
       type: "single_choice",
+      points: 1,
+      isCritical: false,
       choices: [
         { label: "", isCorrect: false },
         { label: "", isCorrect: false },
       ],
+      regions: [],
+      numericValue: "",
+      numericTolerance: "0",
+      numericUnit: "",
     },
   });
 
-  const { fields, append, remove } = useFieldArray({
+  const { fields, append, remove, move } = useFieldArray({
     control: form.control,
     name: "choices",
   });
 
   const createOrUpdateMutation = useMutation({
     mutationFn: async (data: QuestionForm) => {
+      const { regions, numericValue, numericTolerance, numericUnit, ...question } = data;
       const payload = {
-        ...data,
+        ...question,
+        // Choices without an image keep the original {id, label, isCorrect} shape; ordering steps need no flag
+        choices: choiceBasedTypes.includes(data.type)
+          ? data.choices.map(({ imageUrl, isCorrect, ...choice }) => ({
+            ...choice,
+            ...(data.type !== "ordering" ? { isCorrect } : {}),
+            ...(imageUrl ? { imageUrl } : {}),
+          }))
+          : [],
+        answerConfig: data.type === "hotspot"
+          ? { regions }
+          : data.type === "numeric"
+          ? { value: Number(numericValue), tolerance: Number(numericTolerance), ...(numericUnit ? { unit: numericUnit } : {}) }
+          : null,
         tags: [],
       };
       
@@ -80,7 +245,9 @@ export default function AdminQuestions() {
       form.reset();
       toast({
         title: editingQuestion ? "Question Updated" : "Question Created",
-        description: `Question has been ${editingQuestion ? "updated" : "created"} successfully`,
+        description: editingQuestion
+          ? "Question has been updated successfully"
+          : "Question saved as a draft. Submit it for review to use it in assessments",
       });
     },
     onError: (error: Error) => {
@@ -94,13 +261,37 @@ export default function AdminQuestions() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/questions/${id}`, undefined);
+      const res = await apiRequest("DELETE", `/api/questions/${id}`, undefined);
+      return await res.json() as { outcome: "deleted" | "archived"; message: string };
     },
-    onSuccess: () => {
+    onSuccess: ({ outcome, message }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
       toast({
-        title: "Question Deleted",
-        description: "Question has been deleted successfully",
+        title: outcome === "archived" ? "Question Archived" : "Question Deleted",
+        description: message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "submit" | "reopen" }) => {
+      await apiRequest("POST", `/api/questions/${id}/review`, { action });
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/questions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/question-reviews"] });
+      toast({
+        title: action === "submit" ? "Submitted for Review" : "Question Reopened",
+        description: action === "submit"
+          ? "Another reviewer needs to approve the question before it is used in assessments"
+          : "The question is back in draft",
       });
     },
     onError: (error: Error) => {
@@ -115,25 +306,43 @@ export default function AdminQuestions() {
   const handleOpenDialog = (question?: Question) => {
     if (question) {
       setEditingQuestion(question);
+      const hotspotConfig = question.type === "hotspot" ? question.answerConfig as HotspotAnswerConfig | null : null;
+      const numericConfig = question.type === "numeric" ? question.answerConfig as NumericAnswerConfig | null : null;
       form.reset({
         questionText: question.questionText,
+        imageUrl: question.imageUrl,
         explanation: question.explanation || "",
         type: question.type,
-        choices: Array.isArray(question.choices) ? question.choices as Array<{label: string, isCorrect: boolean}> : [
-          { label: "", isCorrect: false },
-          { label: "", isCorrect: false },
-        ],
+        points: question.points,
+        isCritical: question.isCritical,
+        choices: Array.isArray(question.choices) && question.choices.length > 0
+          ? (question.choices as Array<{id?: string, label: string, isCorrect?: boolean, imageUrl?: string}>).map((c) => ({ ...c, isCorrect: !!c.isCorrect }))
+          : [
+            { label: "", isCorrect: false },
+            { label: "", isCorrect: false },
+          ],
+        regions: hotspotConfig?.regions || [],
+        numericValue: numericConfig ? String(numericConfig.value) : "",
+        numericTolerance: numericConfig ? String(numericConfig.tolerance) : "0",
+        numericUnit: numericConfig?.unit || "",
       });
     } else {
       setEditingQuestion(null);
       form.reset({
         questionText: "",
+        imageUrl: null,
         explanation: "",
         type: "single_choice",
+        points: 1,
+        isCritical: false,
         choices: [
           { label: "", isCorrect: false },
           { label: "", isCorrect: false },
         ],
+        regions: [],
+        numericValue: "",
+        numericTolerance: "0",
+        numericUnit: "",
       });
     }
     setIsDialogOpen(true);
@@ -191,171 +400,383 @@ export default function AdminQuestions() {
             Manage your standalone question bank - questions can be reused across multiple tests
           </p>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => handleOpenDialog()} data-testid="button-create-question">
-              <Plus className="h-4 w-4 mr-2" />
-              Add Question
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[500px]">
-            <DialogHeader>
-              <DialogTitle>{editingQuestion ? "Edit Question" : "Create New Question"}</DialogTitle>
-              <DialogDescription>
-                {editingQuestion ? "Update question details" : "Add a new question to the question bank"}
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="questionText"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Question Text</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          data-testid="input-question-text"
-                          placeholder="Enter your question..."
-                          rows={3}
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="type"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Question Type</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+        <div className="flex items-center gap-2">
+          {user?.role === "admin" && (
+            <>
+              <Button variant="outline" onClick={() => setIsImportOpen(true)} data-testid="button-import-questions">
+                <Upload className="h-4 w-4 mr-2" />
+                Import
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" data-testid="button-export-questions">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem asChild>
+                    <a href="/api/admin/question-bank/export?format=csv" download data-testid="link-export-csv">CSV</a>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href="/api/admin/question-bank/export?format=json" download data-testid="link-export-json">JSON</a>
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </>
+          )}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => handleOpenDialog()} data-testid="button-create-question">
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>{editingQuestion ? "Edit Question" : "Create New Question"}</DialogTitle>
+                <DialogDescription>
+                  {editingQuestion ? "Update question details" : "Add a new question to the question bank"}
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="questionText"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Question Text</FormLabel>
                         <FormControl>
-                          <SelectTrigger data-testid="select-question-type">
-                            <SelectValue placeholder="Select type" />
-                          </SelectTrigger>
+                          <Textarea
+                            data-testid="input-question-text"
+                            placeholder="Enter your question..."
+                            rows={3}
+                            {...field}
+                          />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="single_choice">Single Choice</SelectItem>
-                          <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="imageUrl"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Question Image (Optional)</FormLabel>
+                        <FormControl>
+                          <ImageUpload value={field.value} onChange={field.onChange} data-testid="upload-question-image" />
+                        </FormControl>
+                        <FormDescription>A road sign or traffic situation shown with the question</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Question Type</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-question-type">
+                              <SelectValue placeholder="Select type" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(questionTypeLabels).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="points"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Points</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} data-testid="input-question-points" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="isCritical"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-start space-x-3 space-y-0 pt-8">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="checkbox-question-critical"
+                            />
+                          </FormControl>
+                          <div className="space-y-1 leading-none">
+                            <FormLabel>Critical question</FormLabel>
+                            <FormDescription>A wrong answer fails the test</FormDescription>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={form.control}
+                    name="explanation"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Explanation (Optional)</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            data-testid="input-question-explanation"
+                            placeholder="Explain the correct answer..."
+                            rows={2}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {choiceBasedTypes.includes(form.watch("type")) && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <FormLabel>{form.watch("type") === "ordering" ? "Steps" : "Answer Choices"}</FormLabel>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => append({ label: "", isCorrect: false })}
+                          data-testid="button-add-choice"
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          {form.watch("type") === "ordering" ? "Add Step" : "Add Choice"}
+                        </Button>
+                      </div>
+                      <FormDescription className="text-xs">
+                        {form.watch("type") === "ordering"
+                          ? "List the steps in the correct order; students see them shuffled"
+                          : form.watch("type") === "single_choice"
+                          ? "Mark one choice as correct" 
+                          : "Mark one or more choices as correct"}
+                      </FormDescription>
+                      {fields.map((field, index) => (
+                        <div key={field.id} className="flex items-start gap-2">
+                          {form.watch("type") === "ordering" ? (
+                            <div className="flex items-center pt-1">
+                              <span className="w-6 text-sm font-medium">{index + 1}.</span>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                disabled={index === 0}
+                                onClick={() => move(index, index - 1)}
+                                data-testid={`button-move-up-${index}`}
+                              >
+                                <ArrowUp className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                disabled={index === fields.length - 1}
+                                onClick={() => move(index, index + 1)}
+                                data-testid={`button-move-down-${index}`}
+                              >
+                                <ArrowDown className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center pt-2">
+                              <Checkbox
+                                checked={form.watch(`choices.${index}.isCorrect`)}
+                                onCheckedChange={() => handleToggleCorrect(index)}
+                                data-testid={`checkbox-choice-correct-${index}`}
+                              />
+                            </div>
+                          )}
+                          <FormField
+                            control={form.control}
+                            name={`choices.${index}.label`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    placeholder={`Choice ${index + 1}`}
+                                    data-testid={`input-choice-${index}`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <ImageUpload
+                            compact
+                            label="Add choice image"
+                            value={form.watch(`choices.${index}.imageUrl`)}
+                            onChange={(url) => form.setValue(`choices.${index}.imageUrl`, url)}
+                            data-testid={`upload-choice-image-${index}`}
+                          />
+                          {fields.length > 2 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => remove(index)}
+                              data-testid={`button-remove-choice-${index}`}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      {form.formState.errors.choices?.message && (
+                        <p className="text-sm text-destructive">{form.formState.errors.choices.message}</p>
+                      )}
+                    </div>
                   )}
-                />
-                <FormField
-                  control={form.control}
-                  name="explanation"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Explanation (Optional)</FormLabel>
-                      <FormControl>
-                        <Textarea
-                          data-testid="input-question-explanation"
-                          placeholder="Explain the correct answer..."
-                          rows={2}
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+
+                  {form.watch("type") === "hotspot" && (
+                    <div className="space-y-2">
+                      <FormLabel>Correct Regions</FormLabel>
+                      <HotspotEditor
+                        imageUrl={form.watch("imageUrl")}
+                        regions={form.watch("regions")}
+                        onChange={(regions) => form.setValue("regions", regions, { shouldValidate: form.formState.isSubmitted })}
+                      />
+                      {form.formState.errors.regions?.message && (
+                        <p className="text-sm text-destructive">{form.formState.errors.regions.message}</p>
+                      )}
+                    </div>
                   )}
-                />
 
-                <div className="space-y-3">
-                  <div className="flex items-center justify-between">
-                    <FormLabel>Answer Choices</FormLabel>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => append({ label: "", isCorrect: false })}
-                      data-testid="button-add-choice"
-                    >
-                      <Plus className="h-3 w-3 mr-1" />
-                      Add Choice
-                    </Button>
-                  </div>
-                  <FormDescription className="text-xs">
-                    {form.watch("type") === "single_choice" 
-                      ? "Mark one choice as correct" 
-                      : "Mark one or more choices as correct"}
-                  </FormDescription>
-                  {fields.map((field, index) => (
-                    <div key={field.id} className="flex items-start gap-2">
-                      <div className="flex items-center pt-2">
-                        <Checkbox
-                          checked={form.watch(`choices.${index}.isCorrect`)}
-                          onCheckedChange={() => handleToggleCorrect(index)}
-                          data-testid={`checkbox-choice-correct-${index}`}
-                        />
-                      </div>
+                  {form.watch("type") === "numeric" && (
+                    <div className="grid grid-cols-3 gap-4">
                       <FormField
                         control={form.control}
-                        name={`choices.${index}.label`}
+                        name="numericValue"
                         render={({ field }) => (
-                          <FormItem className="flex-1">
+                          <FormItem>
+                            <FormLabel>Correct Answer</FormLabel>
                             <FormControl>
-                              <Input
-                                {...field}
-                                placeholder={`Choice ${index + 1}`}
-                                data-testid={`input-choice-${index}`}
-                              />
+                              <Input type="number" step="any" data-testid="input-numeric-value" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="numericTolerance"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Tolerance (±)</FormLabel>
+                            <FormControl>
+                              <Input type="number" step="any" min="0" data-testid="input-numeric-tolerance" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="numericUnit"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Unit (Optional)</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., m, ‰" data-testid="input-numeric-unit" {...field} />
                             </FormControl>
                             <FormMessage />
                           </FormItem>
                         )}
                       />
-                      {fields.length > 2 && (
-                        <Button
-                          type="button"
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => remove(index)}
-                          data-testid={`button-remove-choice-${index}`}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      )}
                     </div>
-                  ))}
-                  {form.formState.errors.choices?.message && (
-                    <p className="text-sm text-destructive">{form.formState.errors.choices.message}</p>
                   )}
-                </div>
-
-                <DialogFooter>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={() => setIsDialogOpen(false)}
-                    data-testid="button-cancel"
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    type="submit"
-                    disabled={createOrUpdateMutation.isPending}
-                    data-testid="button-save-question"
-                  >
-                    {createOrUpdateMutation.isPending ? "Saving..." : editingQuestion ? "Update Question" : "Create Question"}
-                  </Button>
-                </DialogFooter>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+
+                  <DialogFooter>
+                    {editingQuestion && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        className="sm:mr-auto"
+                        onClick={() => setHistoryQuestion(editingQuestion)}
+                        data-testid="button-question-history"
+                      >
+                        <History className="h-4 w-4 mr-2" />
+                        History
+                      </Button>
+                    )}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setIsDialogOpen(false)}
+                      data-testid="button-cancel"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      disabled={createOrUpdateMutation.isPending}
+                      data-testid="button-save-question"
+                    >
+                      {createOrUpdateMutation.isPending ? "Saving..." : editingQuestion ? "Update Question" : "Create Question"}
+                    </Button>
+                  </DialogFooter>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <HelpCircle className="h-5 w-5" />
-            All Questions ({questions?.length || 0})
-          </CardTitle>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <HelpCircle className="h-5 w-5" />
+              All Questions ({questions?.length || 0})
+            </CardTitle>
+            {lastComputedAt && (
+              <p className="text-xs text-muted-foreground mt-1" data-testid="text-statistics-computed-at">
+                Item analysis from {new Date(lastComputedAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as QuestionSort)}>
+              <SelectTrigger className="w-[220px]" data-testid="select-question-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(questionSortLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {user?.role === "admin" && (
+              <Button
+                variant="outline"
+                onClick={() => recomputeMutation.mutate()}
+                disabled={recomputeMutation.isPending}
+                data-testid="button-recompute-statistics"
+              >
+                <RefreshCw className={cn("h-4 w-4 mr-2", recomputeMutation.isPending && "animate-spin")} />
+                Recompute
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           {!questions || questions.length === 0 ? (
@@ -369,53 +790,164 @@ export default function AdminQuestions() {
                 <TableRow>
                   <TableHead>Question</TableHead>
                   <TableHead>Type</TableHead>
+                  <TableHead>Points</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Difficulty (p)</TableHead>
+                  <TableHead>Discrimination</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Translations</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {questions.map((question) => (
-                  <TableRow key={question.id} data-testid={`row-question-${question.id}`}>
-                    <TableCell className="font-medium max-w-md truncate" data-testid={`text-question-${question.id}`}>
-                      {question.questionText}
-                    </TableCell>
-                    <TableCell data-testid={`type-question-${question.id}`}>
-                      <Badge variant={question.type === "single_choice" ? "default" : "secondary"} data-testid={`badge-type-${question.id}`}>
-                        {question.type === "single_choice" ? "Single" : "Multiple"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell data-testid={`status-question-${question.id}`}>
-                      <Badge variant={question.isArchived ? "secondary" : "default"} data-testid={`badge-status-${question.id}`}>
-                        {question.isArchived ? "Archived" : "Active"}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <div className="flex gap-2 justify-end">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleOpenDialog(question)}
-                          data-testid={`button-edit-question-${question.id}`}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDelete(question.id)}
-                          data-testid={`button-delete-question-${question.id}`}
-                        >
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {sortedQuestions.map((question) => {
+                  const stat = statisticsByQuestion.get(question.id);
+                  return (
+                    <TableRow key={question.id} data-testid={`row-question-${question.id}`}>
+                      <TableCell className="font-medium max-w-md" data-testid={`text-question-${question.id}`}>
+                        <div className="flex items-center gap-3">
+                          {question.imageUrl && (
+                            <img
+                              src={question.imageUrl}
+                              alt=""
+                              className="h-10 w-10 rounded border object-contain bg-muted flex-shrink-0"
+                              data-testid={`img-question-thumbnail-${question.id}`}
+                            />
+                          )}
+                          <span className="truncate">{question.questionText}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell data-testid={`type-question-${question.id}`}>
+                        <Badge variant={question.type === "single_choice" ? "default" : "secondary"} data-testid={`badge-type-${question.id}`}>
+                          {questionTypeLabels[question.type]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell data-testid={`points-question-${question.id}`}>
+                        <div className="flex items-center gap-2">
+                          {question.points}
+                          {question.isCritical && (
+                            <Badge variant="destructive" data-testid={`badge-critical-${question.id}`}>Critical</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell data-testid={`attempts-question-${question.id}`}>
+                        {stat?.attemptCount ?? 0}
+                      </TableCell>
+                      <TableCell data-testid={`p-value-question-${question.id}`}>
+                        {stat ? (
+                          <span className={cn((stat.pValue < P_VALUE_RANGE.min || stat.pValue > P_VALUE_RANGE.max) && "text-destructive font-medium")}>
+                            {stat.pValue.toFixed(2)}
+                          </span>
+                        ) : "-"}
+                      </TableCell>
+                      <TableCell data-testid={`discrimination-question-${question.id}`}>
+                        {stat?.discriminationIndex != null ? (
+                          <span className={cn(stat.discriminationIndex < MIN_DISCRIMINATION && "text-destructive font-medium")}>
+                            {stat.discriminationIndex.toFixed(2)}
+                          </span>
+                        ) : "-"}
+                      </TableCell>
+                      <TableCell data-testid={`status-question-${question.id}`}>
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant={question.status === "approved" ? "default" : question.status === "in_review" ? "outline" : "secondary"}
+                            data-testid={`badge-status-${question.id}`}
+                          >
+                            {questionStatusLabels[question.status]}
+                          </Badge>
+                          {question.isFlagged && (
+                            <Badge variant="outline" className="border-amber-500 text-amber-600" title={question.flagReason || undefined} data-testid={`badge-flagged-${question.id}`}>
+                              Flagged
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <TranslationStatus target={questionTranslationTarget(question)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex gap-2 justify-end">
+                          {(question.status === "draft" || question.status === "archived") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => reviewMutation.mutate({ id: question.id, action: question.status === "draft" ? "submit" : "reopen" })}
+                              disabled={reviewMutation.isPending}
+                              title={question.status === "draft" ? "Submit for review" : "Reopen as draft"}
+                              data-testid={`button-${question.status === "draft" ? "submit" : "reopen"}-question-${question.id}`}
+                            >
+                              {question.status === "draft" ? <Send className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setTranslatedQuestion(question)}
+                            title="Translations"
+                            data-testid={`button-translate-question-${question.id}`}
+                          >
+                            <Languages className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setAnalysedQuestion(question)}
+                            title="Item analysis"
+                            data-testid={`button-analyse-question-${question.id}`}
+                          >
+                            <BarChart3 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleOpenDialog(question)}
+                            data-testid={`button-edit-question-${question.id}`}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(question.id)}
+                            data-testid={`button-delete-question-${question.id}`}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           )}
         </CardContent>
       </Card>
+
+      <QuestionAnalysisDialog
+        question={analysedQuestion}
+        statistics={analysedQuestion ? statisticsByQuestion.get(analysedQuestion.id) : undefined}
+        onClose={() => setAnalysedQuestion(null)}
+      />
+
+      <QuestionBankImportDialog open={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
+      <TranslationsDialog
+        target={translatedQuestion ? questionTranslationTarget(translatedQuestion) : null}
+        invalidateKeys={[["/api/questions"]]}
+        onClose={() => setTranslatedQuestion(null)}
+      />
+
+      <QuestionHistoryDialog
+        question={historyQuestion}
+        onClose={() => setHistoryQuestion(null)}
+        onRestored={() => {
+          // The editor still holds the replaced content
+          setHistoryQuestion(null);
+          setIsDialogOpen(false);
+          setEditingQuestion(null);
+        }}
+      />
     </div>
   );
 }
@@ -5,8 +5,8 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Edit, Trash, Calendar, Clock, MapPin, Users, ClipboardList, CheckCircle, XCircle } from "lucide-react";
-import type { Course, Schedule, Topic, User } from "@shared/schema";
+import { Plus, Edit, Trash, Calendar, Clock, MapPin, Users, ClipboardList, CheckCircle, XCircle, Car } from "lucide-react";
+import type { Course, Schedule, Topic, User, Vehicle } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
@@ -24,6 +24,7 @@ const scheduleSchema = z.object({
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
   location: z.string().optional(),
+  vehicleId: z.string().optional().nullable(),
 });
 
 type ScheduleForm = z.infer<typeof scheduleSchema>;
@@ -31,6 +32,8 @@ type ScheduleForm = z.infer<typeof scheduleSchema>;
 interface ScheduleWithDetails extends Schedule {
   instructorName?: string;
   topicName?: string;
+  studentName?: string | null;
+  vehicleLabel?: string | null;
 }
 
 interface StudentAttendance {
@@ -83,6 +86,17 @@ export function ScheduleManager({ course, open, onClose }: ScheduleManagerProps)
     enabled: open,
   });
 
+  const { data: vehicles } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+    enabled: open,
+  });
+
+  // Vehicles in maintenance or retired cannot be reserved, but keep the
+  // currently assigned one visible when editing
+  const selectableVehicles = vehicles?.filter(
+    (vehicle) => vehicle.status === "active" || vehicle.id === editingSchedule?.vehicleId
+  );
+
   const form = useForm<ScheduleForm>({
     resolver: zodResolver(scheduleSchema),
     defaultValues: {
@@ -92,6 +106,7 @@ export function ScheduleManager({ course, open, onClose }: ScheduleManagerProps)
       startTime: "",
       endTime: "",
       location: "",
+      vehicleId: null,
     },
   });
 
@@ -185,6 +200,7 @@ export function ScheduleManager({ course, open, onClose }: ScheduleManagerProps)
         startTime: format(startDate, "yyyy-MM-dd'T'HH:mm"),
         endTime: format(endDate, "yyyy-MM-dd'T'HH:mm"),
         location: schedule.location || "",
+        vehicleId: schedule.vehicleId || null,
       });
     } else {
       setEditingSchedule(null);
@@ -260,6 +276,7 @@ export function ScheduleManager({ course, open, onClose }: ScheduleManagerProps)
                           </CardDescription>
                         </div>
                         <div className="flex items-center gap-2">
+                          {schedule.type === "practical" && <Badge variant="outline">Practical</Badge>}
                           {isPast && <Badge variant="secondary">Past</Badge>}
                         </div>
                       </div>
@@ -284,10 +301,17 @@ export function ScheduleManager({ course, open, onClose }: ScheduleManagerProps)
                           <span className="text-muted-foreground">{schedule.location}</span>
                         </div>
                       )}
+                      {schedule.vehicleLabel && (
+                        <div className="flex items-center gap-2 text-sm mb-3">
+                          <Car className="h-4 w-4 text-muted-foreground" />
+                          <span className="text-muted-foreground" data-testid={`text-schedule-vehicle-${schedule.id}`}>{schedule.vehicleLabel}</span>
+                        </div>
+                      )}
                       <div className="flex items-center gap-2 text-sm mb-4">
                         <Users className="h-4 w-4 text-muted-foreground" />
                         <span className="text-muted-foreground">
                           Instructor: {schedule.instructorName}
+                          {schedule.studentName && ` · Student: ${schedule.studentName}`}
                         </span>
                       </div>
                       <div className="flex items-center gap-2 flex-wrap">
@@ -444,6 +468,34 @@ export function ScheduleManager({ course, open, onClose }: ScheduleManagerProps)
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="vehicleId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vehicle (Optional)</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                      value={field.value || "none"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-schedule-vehicle">
+                          <SelectValue placeholder="Select a vehicle" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">No vehicle</SelectItem>
+                        {selectableVehicles?.map((vehicle) => (
+                          <SelectItem key={vehicle.id} value={vehicle.id}>
+                            {vehicle.plateNumber} · {vehicle.make} {vehicle.model} ({vehicle.transmission})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <DialogFooter>
                 <Button
                   type="button"
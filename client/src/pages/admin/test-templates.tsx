@@ -11,8 +11,10 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Edit, FileText, List, X } from "lucide-react";
-import type { TestTemplate, Question } from "@shared/schema";
+import type { BlueprintRule, TestTemplate, Question } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { scoringPolicyDescriptions, scoringPolicyLabels } from "@/lib/utils";
+import { BlueprintEditor } from "@/components/blueprint-editor";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -24,8 +26,11 @@ const testTemplateSchema = z.object({
   description: z.string().optional(),
   mode: z.enum(["random", "manual", "linked_template"]),
   questionCount: z.string().optional(),
+  blueprint: z.array(z.custom<BlueprintRule>()),
   randomizeQuestions: z.boolean().default(false),
+  randomizeChoices: z.boolean().default(false),
   passingPercentage: z.string().min(1, "Passing percentage is required"),
+  scoringPolicy: z.enum(["all_or_nothing", "proportional", "proportional_penalty"]),
   maxAttempts: z.string().min(1, "Max attempts is required"),
   timeLimit: z.string().optional(), // Time limit in minutes (empty = no limit)
 });
@@ -83,8 +88,11 @@ export default function AdminTestTemplates() {
       description: "",
       mode: "manual",
       questionCount: "10",
+      blueprint: [],
       randomizeQuestions: false,
+      randomizeChoices: false,
       passingPercentage: "70",
+      scoringPolicy: "all_or_nothing",
       maxAttempts: "3",
       timeLimit: "",
     },
@@ -95,7 +103,9 @@ export default function AdminTestTemplates() {
       const payload = {
         ...data,
         questionCount: data.questionCount ? parseInt(data.questionCount) : null,
+        blueprint: data.mode === "random" && data.blueprint.length > 0 ? data.blueprint : null,
         randomizeQuestions: data.randomizeQuestions,
+        randomizeChoices: data.randomizeChoices,
         passingPercentage: parseInt(data.passingPercentage),
         maxAttempts: parseInt(data.maxAttempts),
         timeLimit: data.timeLimit ? parseInt(data.timeLimit) : null,
@@ -134,8 +144,11 @@ export default function AdminTestTemplates() {
         description: template.description || "",
         mode: template.mode,
         questionCount: template.questionCount?.toString() || "10",
+        blueprint: (template.blueprint as BlueprintRule[] | null) || [],
         randomizeQuestions: template.randomizeQuestions || false,
+        randomizeChoices: template.randomizeChoices || false,
         passingPercentage: template.passingPercentage.toString(),
+        scoringPolicy: template.scoringPolicy,
         maxAttempts: template.maxAttempts.toString(),
         timeLimit: template.timeLimit?.toString() || "",
       });
@@ -146,8 +159,11 @@ export default function AdminTestTemplates() {
         description: "",
         mode: "manual",
         questionCount: "10",
+        blueprint: [],
         randomizeQuestions: false,
+        randomizeChoices: false,
         passingPercentage: "70",
+        scoringPolicy: "all_or_nothing",
         maxAttempts: "3",
         timeLimit: "",
       });
@@ -264,6 +280,29 @@ export default function AdminTestTemplates() {
                     )}
                   />
                 </div>
+                <FormField
+                  control={form.control}
+                  name="scoringPolicy"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Scoring Policy</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-scoring-policy">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(scoringPolicyLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription className="text-xs">{scoringPolicyDescriptions[field.value]}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -300,6 +339,22 @@ export default function AdminTestTemplates() {
                   />
                 </div>
                 {form.watch("mode") === "random" && (
+                  <FormField
+                    control={form.control}
+                    name="blueprint"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Blueprint</FormLabel>
+                        <BlueprintEditor value={field.value} onChange={field.onChange} />
+                        <FormDescription className="text-xs">
+                          Draw a set number of questions per category, topic or tag. Without rules, questions are drawn from the whole bank.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                {form.watch("mode") === "random" && form.watch("blueprint").length === 0 && (
                   <FormField
                     control={form.control}
                     name="questionCount"
@@ -337,6 +392,29 @@ export default function AdminTestTemplates() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="randomizeChoices"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          data-testid="checkbox-randomize-choices"
+                        />
+                      </FormControl>
+                      <div className="space-y-1 leading-none">
+                        <FormLabel>
+                          Randomize Choice Order
+                        </FormLabel>
+                        <FormDescription className="text-xs">
+                          Shuffle the answer options of each question per attempt
+                        </FormDescription>
+                      </div>
+                    </FormItem>
+                  )}
+                />
                 <DialogFooter>
                   <Button
                     type="button"
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { useMutation, type QueryKey } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RichTextEditor } from "@/components/rich-text-editor";
+import type { ContentLanguage, QuestionTranslation, TranslatableEntity, Translations } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { contentLanguageLabels, sourceContentLanguage } from "@/lib/utils";
+
+export interface TranslatableField {
+  key: string;
+  label: string;
+  source: string | null;
+  format?: "text" | "multiline" | "html";
+}
+
+// What the dialog translates: the entity's text fields, plus choice labels for questions
+export interface TranslationTarget {
+  entity: TranslatableEntity;
+  id: string;
+  title: string;
+  fields: TranslatableField[];
+  choices?: Array<{ id: string; label: string }>;
+  translations: unknown;
+  currentVersionId?: string | null; // Questions only; older translations are shown as outdated
+}
+
+const targetLanguages = (Object.keys(contentLanguageLabels) as ContentLanguage[]).filter((language) => language !== sourceContentLanguage);
+
+type LanguageStatus = { language: ContentLanguage; translated: number; total: number; outdated: boolean };
+
+// How much of each language is translated; empty source fields need no translation
+export function getTranslationStatus(target: Omit<TranslationTarget, "title">): LanguageStatus[] {
+  const translations = (target.translations as Translations<Record<string, unknown>> | null) || {};
+  const fields = target.fields.filter((field) => field.source);
+  const choices = target.choices || [];
+
+  return targetLanguages.map((language) => {
+    const translation = translations[language] || {};
+    const translatedChoices = (translation.choices as Record<string, string> | undefined) || {};
+    return {
+      language,
+      translated: fields.filter((field) => translation[field.key]).length + choices.filter((choice) => translatedChoices[choice.id]).length,
+      total: fields.length + choices.length,
+      outdated: target.currentVersionId !== undefined
+        && !!translations[language]
+        && (translation as QuestionTranslation).sourceVersionId !== target.currentVersionId,
+    };
+  });
+}
+
+export function TranslationStatus({ target }: { target: Omit<TranslationTarget, "title"> }) {
+  return (
+    <div className="flex gap-1" data-testid={`translation-status-${target.id}`}>
+      {getTranslationStatus(target).map(({ language, translated, total, outdated }) => (
+        <Badge
+          key={language}
+          variant={translated === total && !outdated ? "secondary" : "outline"}
+          className={outdated ? "border-amber-500 text-amber-600" : translated === 0 ? "text-muted-foreground" : undefined}
+          title={outdated
+            ? `${contentLanguageLabels[language]}: the question changed since it was translated`
+            : `${contentLanguageLabels[language]}: ${translated} of ${total} translated`}
+        >
+          {language.toUpperCase()} {translated === total ? "✓" : `${translated}/${total}`}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+interface TranslationsDialogProps {
+  target: TranslationTarget | null;
+  invalidateKeys: QueryKey[];
+  onClose: () => void;
+}
+
+export function TranslationsDialog({ target, invalidateKeys, onClose }: TranslationsDialogProps) {
+  const { toast } = useToast();
+  const [language, setLanguage] = useState<ContentLanguage>(targetLanguages[0]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+  const loadKey = target ? `${target.entity}:${target.id}:${language}` : null;
+
+  // Load the saved translation whenever another entity or language is picked
+  useEffect(() => {
+    if (!target) return;
+    const translation = ((target.translations as Translations<Record<string, unknown>> | null) || {})[language] || {};
+    setValues(Object.fromEntries(target.fields.map((field) => [field.key, (translation[field.key] as string | null) || ""])));
+    const saved = (translation.choices as Record<string, string> | undefined) || {};
+    setChoices(Object.fromEntries((target.choices || []).map((choice) => [choice.id, saved[choice.id] || ""])));
+    setLoadedFor(loadKey);
+  }, [loadKey]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!target) return;
+      // An emptied rich text editor still holds an empty paragraph
+      const fields = Object.fromEntries(
+        Object.entries(values).map(([key, value]) => [key, value === "<p></p>" ? "" : value])
+      );
+      await apiRequest("PUT", `/api/admin/translations/${target.entity}/${target.id}/${language}`, {
+        ...fields,
+        ...(target.choices ? { choices } : {}),
+      });
+    },
+    onSuccess: () => {
+      invalidateKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      toast({
+        title: "Translation Saved",
+        description: `${contentLanguageLabels[language]} translation has been saved`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const status = target ? getTranslationStatus(target).find((s) => s.language === language) : undefined;
+
+  return (
+    <Dialog open={!!target} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Translations</DialogTitle>
+          <DialogDescription className="line-clamp-2">{target?.title}</DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={language} onValueChange={(value) => setLanguage(value as ContentLanguage)}>
+          <TabsList>
+            {targetLanguages.map((lang) => (
+              <TabsTrigger key={lang} value={lang} data-testid={`tab-translation-${lang}`}>
+                {contentLanguageLabels[lang]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {status?.outdated && (
+          <p className="text-sm text-amber-600" data-testid="text-translation-outdated">
+            The question has changed since this translation was saved. Check it against the current text.
+          </p>
+        )}
+
+        {/* Editors only mount once the translation is loaded, as the rich text editor reads its content once */}
+        {target && loadedFor === loadKey && (
+          <div className="space-y-4">
+            {target.fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label>{field.label}</Label>
+                {field.source && field.format !== "html" && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{field.source}</p>
+                )}
+                {field.format === "html" ? (
+                  <div className="rounded-md border">
+                    <RichTextEditor
+                      key={`${loadKey}:${field.key}`}
+                      content={values[field.key] || ""}
+                      onChange={(html) => setValues((current) => ({ ...current, [field.key]: html }))}
+                      placeholder="Leave empty to show the original"
+                    />
+                  </div>
+                ) : field.format === "multiline" ? (
+                  <Textarea
+                    rows={3}
+                    value={values[field.key] || ""}
+                    onChange={(e) => setValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                    data-testid={`input-translation-${field.key}`}
+                  />
+                ) : (
+                  <Input
+                    value={values[field.key] || ""}
+                    onChange={(e) => setValues((current) => ({ ...current, [field.key]: e.target.value }))}
+                    data-testid={`input-translation-${field.key}`}
+                  />
+                )}
+              </div>
+            ))}
+
+            {target.choices && target.choices.length > 0 && (
+              <div className="space-y-2">
+                <Label>Choices</Label>
+                {target.choices.map((source, index) => (
+                  <div key={source.id} className="grid grid-cols-2 items-center gap-2">
+                    <span className="text-sm text-muted-foreground truncate" title={source.label}>{source.label}</span>
+                    <Input
+                      value={choices[source.id] || ""}
+                      onChange={(e) => setChoices((current) => ({ ...current, [source.id]: e.target.value }))}
+                      data-testid={`input-translation-choice-${index}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Fields left empty are shown in the original language.</p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-translation">
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-translation">
+            {saveMutation.isPending ? "Saving..." : "Save Translation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
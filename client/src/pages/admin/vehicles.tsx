@@ -0,0 +1,504 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Car, Trash2, AlertTriangle } from "lucide-react";
+import type { Vehicle } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { differenceInCalendarDays, format } from "date-fns";
+
+const vehicleSchema = z.object({
+  plateNumber: z.string().min(1, "Plate number is required"),
+  make: z.string().min(1, "Make is required"),
+  model: z.string().min(1, "Model is required"),
+  year: z.string().optional(),
+  transmission: z.enum(["manual", "automatic"]),
+  category: z.enum(["A", "B", "C"]),
+  status: z.enum(["active", "maintenance", "retired"]),
+  odometerKm: z.coerce.number().int().min(0, "Odometer cannot be negative"),
+  maintenanceDueAt: z.string().optional(),
+  inspectionDueAt: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type VehicleForm = z.infer<typeof vehicleSchema>;
+
+const emptyForm: VehicleForm = {
+  plateNumber: "",
+  make: "",
+  model: "",
+  year: "",
+  transmission: "manual",
+  category: "B",
+  status: "active",
+  odometerKm: 0,
+  maintenanceDueAt: "",
+  inspectionDueAt: "",
+  notes: "",
+};
+
+// Due dates within this many days are highlighted in the list
+const DUE_SOON_DAYS = 30;
+
+const statusLabels: Record<Vehicle["status"], string> = {
+  active: "Active",
+  maintenance: "Maintenance",
+  retired: "Retired",
+};
+
+function DueDateCell({ value, testId }: { value: Vehicle["inspectionDueAt"]; testId: string }) {
+  if (!value) {
+    return <span className="text-muted-foreground" data-testid={testId}>—</span>;
+  }
+  const date = new Date(value);
+  const daysLeft = differenceInCalendarDays(date, new Date());
+  const isOverdue = daysLeft < 0;
+  const isDueSoon = !isOverdue && daysLeft <= DUE_SOON_DAYS;
+
+  return (
+    <span
+      className={`flex items-center gap-1 ${isOverdue ? "text-destructive font-medium" : isDueSoon ? "text-orange-600 dark:text-orange-400" : ""}`}
+      data-testid={testId}
+    >
+      {(isOverdue || isDueSoon) && <AlertTriangle className="h-3 w-3" />}
+      {format(date, "MMM d, yyyy")}
+    </span>
+  );
+}
+
+export default function AdminVehicles() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingVehicle, setEditingVehicle] = useState<Vehicle | null>(null);
+
+  const { data: vehicles, isLoading } = useQuery<Vehicle[]>({
+    queryKey: ["/api/vehicles"],
+  });
+
+  const form = useForm<VehicleForm>({
+    resolver: zodResolver(vehicleSchema),
+    defaultValues: emptyForm,
+  });
+
+  const createOrUpdateMutation = useMutation({
+    mutationFn: async (data: VehicleForm) => {
+      const payload = {
+        ...data,
+        year: data.year ? parseInt(data.year, 10) : null,
+        maintenanceDueAt: data.maintenanceDueAt ? new Date(data.maintenanceDueAt).toISOString() : null,
+        inspectionDueAt: data.inspectionDueAt ? new Date(data.inspectionDueAt).toISOString() : null,
+        notes: data.notes || null,
+      };
+
+      if (editingVehicle) {
+        await apiRequest("PATCH", `/api/vehicles/${editingVehicle.id}`, payload);
+      } else {
+        await apiRequest("POST", "/api/vehicles", payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      setIsDialogOpen(false);
+      setEditingVehicle(null);
+      form.reset(emptyForm);
+      toast({
+        title: editingVehicle ? "Vehicle Updated" : "Vehicle Added",
+        description: `Vehicle has been ${editingVehicle ? "updated" : "added to the fleet"} successfully`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/vehicles/${id}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      toast({
+        title: "Vehicle Deleted",
+        description: "Vehicle has been removed from the fleet",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenDialog = (vehicle?: Vehicle) => {
+    if (vehicle) {
+      setEditingVehicle(vehicle);
+      form.reset({
+        plateNumber: vehicle.plateNumber,
+        make: vehicle.make,
+        model: vehicle.model,
+        year: vehicle.year ? String(vehicle.year) : "",
+        transmission: vehicle.transmission,
+        category: vehicle.category,
+        status: vehicle.status,
+        odometerKm: vehicle.odometerKm,
+        maintenanceDueAt: vehicle.maintenanceDueAt ? format(new Date(vehicle.maintenanceDueAt), "yyyy-MM-dd") : "",
+        inspectionDueAt: vehicle.inspectionDueAt ? format(new Date(vehicle.inspectionDueAt), "yyyy-MM-dd") : "",
+        notes: vehicle.notes || "",
+      });
+    } else {
+      setEditingVehicle(null);
+      form.reset(emptyForm);
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = (data: VehicleForm) => {
+    createOrUpdateMutation.mutate(data);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this vehicle? Sessions using it will no longer have a vehicle assigned.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Card>
+          <CardContent className="p-6">
+            <Skeleton className="h-64 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold">Vehicle Fleet</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Manage school vehicles, their service status and inspection dates
+          </p>
+        </div>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => handleOpenDialog()} data-testid="button-create-vehicle">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Vehicle
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingVehicle ? "Edit Vehicle" : "Add Vehicle"}</DialogTitle>
+              <DialogDescription>
+                {editingVehicle ? "Update vehicle details" : "Register a new vehicle in the fleet"}
+              </DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="plateNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Plate Number</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-vehicle-plate" placeholder="e.g., AB-1234" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="make"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Make</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-vehicle-make" placeholder="e.g., Toyota" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="model"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Model</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-vehicle-model" placeholder="e.g., Corolla" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="year"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Year</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-vehicle-year" type="number" placeholder="2022" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="transmission"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Transmission</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-vehicle-transmission">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="manual">Manual</SelectItem>
+                            <SelectItem value="automatic">Automatic</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Category</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-vehicle-category">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="A">A</SelectItem>
+                            <SelectItem value="B">B</SelectItem>
+                            <SelectItem value="C">C</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-vehicle-status">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="active">Active</SelectItem>
+                            <SelectItem value="maintenance">Maintenance</SelectItem>
+                            <SelectItem value="retired">Retired</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="odometerKm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Odometer (km)</FormLabel>
+                      <FormControl>
+                        <Input data-testid="input-vehicle-odometer" type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="maintenanceDueAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maintenance Due</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-vehicle-maintenance-due" type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="inspectionDueAt"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Inspection Valid Until</FormLabel>
+                        <FormControl>
+                          <Input data-testid="input-vehicle-inspection-due" type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes (Optional)</FormLabel>
+                      <FormControl>
+                        <Textarea data-testid="input-vehicle-notes" rows={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setIsDialogOpen(false)}
+                    data-testid="button-cancel"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createOrUpdateMutation.isPending}
+                    data-testid="button-save-vehicle"
+                  >
+                    {createOrUpdateMutation.isPending ? "Saving..." : editingVehicle ? "Update Vehicle" : "Add Vehicle"}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Car className="h-5 w-5" />
+            All Vehicles ({vehicles?.length || 0})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!vehicles || vehicles.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Car className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No vehicles yet. Add your first vehicle to get started.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plate</TableHead>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Odometer</TableHead>
+                  <TableHead>Maintenance Due</TableHead>
+                  <TableHead>Inspection Until</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vehicles.map((vehicle) => (
+                  <TableRow key={vehicle.id} data-testid={`row-vehicle-${vehicle.id}`}>
+                    <TableCell className="font-medium" data-testid={`text-plate-${vehicle.id}`}>
+                      {vehicle.plateNumber}
+                    </TableCell>
+                    <TableCell>
+                      {vehicle.make} {vehicle.model}
+                      {vehicle.year && <span className="text-muted-foreground"> ({vehicle.year})</span>}
+                      <div className="text-xs text-muted-foreground capitalize">{vehicle.transmission}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{vehicle.category}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={vehicle.status === "active" ? "default" : vehicle.status === "maintenance" ? "destructive" : "secondary"}
+                        data-testid={`badge-status-${vehicle.id}`}
+                      >
+                        {statusLabels[vehicle.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{vehicle.odometerKm.toLocaleString()} km</TableCell>
+                    <TableCell>
+                      <DueDateCell value={vehicle.maintenanceDueAt} testId={`text-maintenance-due-${vehicle.id}`} />
+                    </TableCell>
+                    <TableCell>
+                      <DueDateCell value={vehicle.inspectionDueAt} testId={`text-inspection-due-${vehicle.id}`} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex gap-2 justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleOpenDialog(vehicle)}
+                          data-testid={`button-edit-vehicle-${vehicle.id}`}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(vehicle.id)}
+                          data-testid={`button-delete-vehicle-${vehicle.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
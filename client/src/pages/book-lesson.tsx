@@ -0,0 +1,379 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Car, Calendar, Clock, MapPin, User as UserIcon, ChevronLeft, ChevronRight, XCircle } from "lucide-react";
+import type { Schedule, Course, Topic, User } from "@shared/schema";
+import { format, startOfWeek, addDays, isSameDay } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useEffect, useState } from "react";
+
+type PracticalTopic = Topic & { course: Course };
+
+type BookableInstructor = Pick<User, "id" | "firstName" | "lastName" | "profileImageUrl">;
+
+interface AvailableSlot {
+  instructorId: string;
+  startTime: string;
+  endTime: string;
+  location: string | null;
+}
+
+interface PracticalLesson extends Schedule {
+  course: Course;
+  topic: Topic | null;
+  instructor: User;
+}
+
+const formatRigaTime = (date: string | Date) =>
+  new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false, timeZone: 'Europe/Riga' });
+
+const formatRigaDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: 'Europe/Riga' });
+
+export default function BookLesson() {
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const [selectedTopic, setSelectedTopic] = useState<string>("");
+  const [selectedInstructor, setSelectedInstructor] = useState<string>("");
+  const [currentWeekStart, setCurrentWeekStart] = useState(() =>
+    startOfWeek(new Date(), { weekStartsOn: 1 })
+  );
+  const [pendingSlot, setPendingSlot] = useState<AvailableSlot | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const { data: practicalTopics, isLoading: topicsLoading } = useQuery<PracticalTopic[]>({
+    queryKey: ["/api/practical-lessons/topics"],
+  });
+
+  const { data: instructors } = useQuery<BookableInstructor[]>({
+    queryKey: ["/api/practical-lessons/instructors"],
+  });
+
+  const { data: lessons, isLoading: lessonsLoading } = useQuery<PracticalLesson[]>({
+    queryKey: ["/api/practical-lessons"],
+  });
+
+  const weekEnd = addDays(currentWeekStart, 7);
+
+  const { data: slots, isLoading: slotsLoading } = useQuery<AvailableSlot[]>({
+    queryKey: ["/api/practical-lessons/slots", selectedInstructor, currentWeekStart.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        instructorId: selectedInstructor,
+        from: currentWeekStart.toISOString(),
+        to: weekEnd.toISOString(),
+      });
+      const response = await fetch(`/api/practical-lessons/slots?${params}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch available slots");
+      return response.json();
+    },
+    enabled: !!selectedInstructor,
+  });
+
+  const bookMutation = useMutation({
+    mutationFn: async (slot: AvailableSlot) => {
+      return apiRequest("POST", "/api/practical-lessons", {
+        instructorId: slot.instructorId,
+        topicId: selectedTopic,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/practical-lessons"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/practical-lessons/slots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+      setPendingSlot(null);
+      toast({
+        title: "Lesson Booked",
+        description: "Your practical lesson has been booked",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/practical-lessons/slots"] });
+      setPendingSlot(null);
+      toast({
+        title: "Booking Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (lessonId: string) => {
+      await apiRequest("DELETE", `/api/practical-lessons/${lessonId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/practical-lessons"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/practical-lessons/slots"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedules"] });
+      toast({
+        title: "Lesson Cancelled",
+        description: "Your practical lesson has been cancelled",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cancellation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCancel = (lessonId: string) => {
+    if (window.confirm("Are you sure you want to cancel this lesson?")) {
+      cancelMutation.mutate(lessonId);
+    }
+  };
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(currentWeekStart, i));
+  const upcomingLessons = lessons?.filter((l) => new Date(l.endTime) > new Date()) || [];
+  const selectedInstructorData = instructors?.find((i) => i.id === selectedInstructor);
+
+  if (topicsLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-2" data-testid="heading-book-lesson">
+          <Car className="h-8 w-8" />
+          Book a Driving Lesson
+        </h1>
+        <p className="text-muted-foreground">
+          Choose a practical topic and an instructor, then pick a free slot
+        </p>
+      </div>
+
+      {!practicalTopics || practicalTopics.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-16">
+            <Car className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium text-foreground mb-2">No practical topics available</p>
+            <p className="text-sm text-muted-foreground">Enroll in a course with practical driving topics to book lessons</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Find a Slot</CardTitle>
+            <CardDescription>Times are shown in Riga local time</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2">
+              <Select value={selectedTopic} onValueChange={setSelectedTopic}>
+                <SelectTrigger data-testid="select-practical-topic">
+                  <SelectValue placeholder="Select a practical topic" />
+                </SelectTrigger>
+                <SelectContent>
+                  {practicalTopics.map((topic) => (
+                    <SelectItem key={topic.id} value={topic.id} data-testid={`option-topic-${topic.id}`}>
+                      {topic.course.name} — {topic.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={selectedInstructor} onValueChange={setSelectedInstructor}>
+                <SelectTrigger data-testid="select-lesson-instructor">
+                  <SelectValue placeholder="Select an instructor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {instructors?.map((instructor) => (
+                    <SelectItem key={instructor.id} value={instructor.id} data-testid={`option-instructor-${instructor.id}`}>
+                      {instructor.firstName} {instructor.lastName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedInstructor && (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <p className="font-medium">
+                    Week of {format(currentWeekStart, "MMMM d, yyyy")}
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => setCurrentWeekStart(addDays(currentWeekStart, -7))}
+                      disabled={currentWeekStart <= startOfWeek(new Date(), { weekStartsOn: 1 })}
+                      data-testid="button-previous-week"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setCurrentWeekStart(addDays(currentWeekStart, 7))}
+                      data-testid="button-next-week"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {slotsLoading ? (
+                  <Skeleton className="h-32 w-full" />
+                ) : !slots || slots.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No free slots this week
+                  </div>
+                ) : (
+                  <div className="grid gap-4 md:grid-cols-7">
+                    {weekDays.map((day, index) => {
+                      const daySlots = slots.filter((slot) => isSameDay(new Date(slot.startTime), day));
+                      return (
+                        <div key={index} className="space-y-2">
+                          <div className="text-sm font-medium text-muted-foreground">
+                            {format(day, "EEE d")}
+                          </div>
+                          {daySlots.map((slot) => (
+                            <Button
+                              key={slot.startTime}
+                              variant="outline"
+                              size="sm"
+                              className="w-full"
+                              disabled={!selectedTopic || bookMutation.isPending}
+                              onClick={() => setPendingSlot(slot)}
+                              data-testid={`button-slot-${slot.startTime}`}
+                            >
+                              {formatRigaTime(slot.startTime)}
+                            </Button>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {!selectedTopic && slots && slots.length > 0 && (
+                  <p className="text-sm text-muted-foreground">Select a practical topic to book a slot</p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <div>
+        <h2 className="text-xl font-semibold mb-4">My Upcoming Lessons</h2>
+        {lessonsLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : upcomingLessons.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <Calendar className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-sm text-muted-foreground">You have no upcoming lessons</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {upcomingLessons.map((lesson) => (
+              <Card key={lesson.id} data-testid={`card-lesson-${lesson.id}`}>
+                <CardContent className="p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="font-medium truncate">{lesson.topic?.name || lesson.title}</p>
+                      <p className="text-sm text-muted-foreground truncate">{lesson.course.name}</p>
+                      <div className="flex flex-wrap gap-3 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {formatRigaDate(lesson.startTime)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {formatRigaTime(lesson.startTime)} - {formatRigaTime(lesson.endTime)}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <UserIcon className="h-3 w-3" />
+                          {lesson.instructor.firstName} {lesson.instructor.lastName}
+                        </span>
+                        {lesson.location && (
+                          <span className="flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {lesson.location}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancel(lesson.id)}
+                      disabled={cancelMutation.isPending}
+                      data-testid={`button-cancel-lesson-${lesson.id}`}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!pendingSlot} onOpenChange={(open) => !open && setPendingSlot(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm Booking</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingSlot && (
+                <>
+                  Book a lesson with {selectedInstructorData?.firstName} {selectedInstructorData?.lastName} on{" "}
+                  {formatRigaDate(pendingSlot.startTime)} at {formatRigaTime(pendingSlot.startTime)}?
+                  {pendingSlot.location && <> Meeting point: {pendingSlot.location}.</>}
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-booking">Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingSlot && bookMutation.mutate(pendingSlot)}
+              disabled={bookMutation.isPending}
+              data-testid="button-confirm-booking"
+            >
+              {bookMutation.isPending ? "Booking..." : "Book Lesson"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -4,14 +4,33 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
-import { BookOpen, FileText, GraduationCap, ArrowLeft } from "lucide-react";
-import type { Course, Topic, Post, TestTemplate, TopicAssessment } from "@shared/schema";
+import { BookOpen, FileText, GraduationCap, ArrowLeft, ClipboardCheck, CheckCircle2, Circle, Flag } from "lucide-react";
+import type { Course, Topic, Post, TestTemplate, TopicAssessment, LessonEvaluation, Schedule, EvaluationScore, StateExam } from "@shared/schema";
 
 interface TopicWithContent extends Topic {
   posts: Post[];
   assessments: TopicAssessment[];
 }
 
+interface EvaluationTimelineEntry extends LessonEvaluation {
+  schedule: Schedule;
+  instructorName: string | null;
+}
+
+interface ExamReadiness {
+  examType: 'theory' | 'practical';
+  ready: boolean;
+  checks: Array<{ key: string; label: string; met: boolean; detail: string }>;
+  exams: StateExam[];
+}
+
+const examOutcomeLabels: Record<StateExam['outcome'], string> = {
+  scheduled: 'Scheduled',
+  passed: 'Passed',
+  failed: 'Failed',
+  no_show: 'No show',
+};
+
 interface CourseWithContent {
   course: Course;
   topics: TopicWithContent[];
@@ -27,6 +46,16 @@ export default function CourseDetail() {
     enabled: !!courseId,
   });
 
+  const { data: evaluations = [] } = useQuery<EvaluationTimelineEntry[]>({
+    queryKey: ['/api/courses', courseId, 'evaluations'],
+    enabled: !!courseId,
+  });
+
+  const { data: examReadiness } = useQuery<ExamReadiness[]>({
+    queryKey: ['/api/courses', courseId, 'exam-readiness'],
+    enabled: !!courseId,
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -208,6 +237,120 @@ export default function CourseDetail() {
           </CardContent>
         </Card>
 
+        {/* Exam Readiness */}
+        {examReadiness && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Flag className="h-5 w-5" />
+                <CardTitle>Exam Readiness</CardTitle>
+              </div>
+              <CardDescription>
+                You can be registered for the official exam once every item is complete
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-6 md:grid-cols-2">
+                {examReadiness.map((readiness) => (
+                  <div key={readiness.examType} className="space-y-3" data-testid={`readiness-${readiness.examType}`}>
+                    <div className="flex items-center justify-between gap-2">
+                      <h3 className="font-semibold capitalize">{readiness.examType} exam</h3>
+                      <Badge variant={readiness.ready ? "default" : "secondary"} data-testid={`badge-readiness-${readiness.examType}`}>
+                        {readiness.ready ? "Ready" : "Not ready yet"}
+                      </Badge>
+                    </div>
+                    <ul className="space-y-2">
+                      {readiness.checks.map((check) => (
+                        <li key={check.key} className="flex items-start gap-2 text-sm">
+                          {check.met ? (
+                            <CheckCircle2 className="h-4 w-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+                          ) : (
+                            <Circle className="h-4 w-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+                          )}
+                          <div>
+                            <div className="font-medium">{check.label}</div>
+                            <div className="text-muted-foreground">{check.detail}</div>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                    {readiness.exams.length > 0 && (
+                      <div className="space-y-1 border-t pt-3">
+                        {readiness.exams.map((exam) => (
+                          <div key={exam.id} className="flex items-center justify-between text-sm">
+                            <span>
+                              {new Date(exam.examDate).toLocaleDateString('en-US', {
+                                timeZone: 'Europe/Riga',
+                                month: 'short',
+                                day: 'numeric',
+                                year: 'numeric',
+                              })}
+                            </span>
+                            <Badge variant={exam.outcome === 'passed' ? 'default' : exam.outcome === 'failed' ? 'destructive' : 'outline'}>
+                              {examOutcomeLabels[exam.outcome]}
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Driving Progress */}
+        {evaluations.length > 0 && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                <CardTitle>Driving Progress</CardTitle>
+              </div>
+              <CardDescription>
+                Your instructors' evaluations after each practical lesson (1–5 per skill)
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="relative border-l border-border ml-2 space-y-6" data-testid="list-evaluation-timeline">
+                {evaluations.map((evaluation) => (
+                  <li key={evaluation.id} className="ml-6" data-testid={`timeline-evaluation-${evaluation.id}`}>
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                    <div className="flex flex-wrap items-baseline gap-x-2">
+                      <span className="font-semibold">{evaluation.schedule.title}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {new Date(evaluation.schedule.startTime).toLocaleDateString('en-US', {
+                          timeZone: 'Europe/Riga',
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric',
+                        })}
+                        {evaluation.instructorName && ` · ${evaluation.instructorName}`}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {(evaluation.scores as EvaluationScore[]).map((score) => (
+                        <Badge
+                          key={score.skillKey}
+                          variant={score.score >= 4 ? "default" : score.score <= 2 ? "destructive" : "secondary"}
+                          title={score.notes}
+                          data-testid={`badge-score-${evaluation.id}-${score.skillKey}`}
+                        >
+                          {score.label}: {score.score}/5
+                        </Badge>
+                      ))}
+                    </div>
+                    {evaluation.notes && (
+                      <p className="text-sm text-muted-foreground mt-2">{evaluation.notes}</p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Course Tests */}
         {tests.length > 0 && (
           <Card>
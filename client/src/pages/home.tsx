@@ -6,6 +6,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
+import type { Course } from "@shared/schema";
+import { formatDuration } from "@/lib/utils";
 
 interface DashboardStats {
   enrolledCourses: number;
@@ -22,6 +24,13 @@ interface DashboardStats {
   }>;
 }
 
+interface DrivingHoursSummary {
+  course: Course;
+  creditedMinutes: number;
+  requiredMinutes: number | null;
+  requiredForCompletion: boolean;
+}
+
 export default function Home() {
   const { user } = useAuth();
   
@@ -29,6 +38,13 @@ export default function Home() {
     queryKey: ["/api/dashboard/stats"],
   });
 
+  const { data: drivingHours } = useQuery<DrivingHoursSummary[]>({
+    queryKey: ["/api/driving-hours"],
+  });
+
+  // Only courses with a target or credited time are worth showing
+  const drivingHoursToShow = drivingHours?.filter((item) => item.requiredMinutes !== null || item.creditedMinutes > 0) || [];
+
   if (isLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -145,6 +161,20 @@ export default function Home() {
                 </p>
               </div>
             </div>
+            {drivingHoursToShow.map((item) => (
+              <div key={item.course.id} className="pt-2" data-testid={`driving-hours-${item.course.id}`}>
+                <div className="flex justify-between items-center mb-2">
+                  <span className="text-sm font-medium">Driving Hours · {item.course.name}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {formatDuration(item.creditedMinutes)}
+                    {item.requiredMinutes !== null && ` / ${formatDuration(item.requiredMinutes)}`}
+                  </span>
+                </div>
+                {item.requiredMinutes !== null && (
+                  <Progress value={Math.min(100, Math.round((item.creditedMinutes / item.requiredMinutes) * 100))} className="h-2" />
+                )}
+              </div>
+            ))}
           </CardContent>
         </Card>
 
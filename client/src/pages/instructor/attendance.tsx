@@ -5,8 +5,9 @@ import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, Clock, MapPin, Users, CheckCircle, XCircle } from "lucide-react";
-import type { Schedule, User } from "@shared/schema";
+import { Calendar, Clock, MapPin, Users, CheckCircle, XCircle, ClipboardCheck } from "lucide-react";
+import type { EvaluationRubric, LessonEvaluation, Schedule, User } from "@shared/schema";
+import { LessonEvaluationDialog } from "./lesson-evaluation-dialog";
 
 type ScheduleWithDetails = Schedule & {
   course: { id: string; title: string };
@@ -22,9 +23,15 @@ type StudentAttendance = {
   markedAt: Date | null;
 };
 
+type ScheduleEvaluations = {
+  rubric: EvaluationRubric | null;
+  evaluations: LessonEvaluation[];
+};
+
 export default function InstructorAttendance() {
   const { toast } = useToast();
   const [selectedSchedule, setSelectedSchedule] = useState<string | null>(null);
+  const [evaluatingStudent, setEvaluatingStudent] = useState<{ id: string; name: string } | null>(null);
 
   const { data: schedules = [], isLoading: schedulesLoading } = useQuery<ScheduleWithDetails[]>({
     queryKey: ['/api/schedules'],
@@ -35,6 +42,11 @@ export default function InstructorAttendance() {
     enabled: !!selectedSchedule,
   });
 
+  const { data: evaluationData } = useQuery<ScheduleEvaluations>({
+    queryKey: [`/api/instructor/schedules/${selectedSchedule}/evaluations`],
+    enabled: !!selectedSchedule,
+  });
+
   const markAttendanceMutation = useMutation({
     mutationFn: async ({ scheduleId, studentId, status }: { scheduleId: string; studentId: string; status: 'present' | 'absent' }) => {
       return apiRequest('POST', `/api/instructor/schedules/${scheduleId}/attendance`, { studentId, status });
@@ -59,6 +71,8 @@ export default function InstructorAttendance() {
   const pastSchedules = schedules.filter(s => new Date(s.startTime) <= new Date());
 
   const selectedScheduleData = schedules.find(s => s.id === selectedSchedule);
+  const canEvaluate = !!selectedScheduleData && new Date(selectedScheduleData.startTime) <= new Date();
+  const evaluationsByStudent = new Map((evaluationData?.evaluations || []).map(e => [e.studentId, e]));
 
   return (
     <div className="p-6 space-y-6">
@@ -253,6 +267,17 @@ export default function InstructorAttendance() {
                       {!status && (
                         <Badge variant="outline">Not marked</Badge>
                       )}
+                      {status === 'present' && canEvaluate && evaluationData?.rubric && (
+                        <Button
+                          size="sm"
+                          variant={evaluationsByStudent.has(studentId) ? 'secondary' : 'outline'}
+                          onClick={() => setEvaluatingStudent({ id: studentId, name: `${student.firstName} ${student.lastName}` })}
+                          data-testid={`button-evaluate-${studentId}`}
+                        >
+                          <ClipboardCheck className="h-4 w-4 mr-1" />
+                          {evaluationsByStudent.has(studentId) ? 'Evaluated' : 'Evaluate'}
+                        </Button>
+                      )}
                       <div className="flex gap-1">
                         <Button
                           size="sm"
@@ -284,11 +309,26 @@ export default function InstructorAttendance() {
                     </div>
                   </div>
                 ))}
+                {canEvaluate && evaluationData && !evaluationData.rubric && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-no-rubric">
+                    No evaluation rubric is defined for this course category yet.
+                  </p>
+                )}
               </CardContent>
             </Card>
           )}
         </div>
       </div>
+
+      {selectedSchedule && evaluationData?.rubric && (
+        <LessonEvaluationDialog
+          scheduleId={selectedSchedule}
+          student={evaluatingStudent}
+          rubric={evaluationData.rubric}
+          evaluation={evaluatingStudent ? evaluationsByStudent.get(evaluatingStudent.id) : undefined}
+          onClose={() => setEvaluatingStudent(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,416 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { CalendarClock, CalendarX, Plus, Trash, MapPin } from "lucide-react";
+import type { InstructorAvailability, AvailabilityException, User } from "@shared/schema";
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Monday-first ordering to match the schedule calendar
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type AvailabilityResponse = {
+  availability: InstructorAvailability[];
+  exceptions: AvailabilityException[];
+};
+
+export default function InstructorAvailabilityPage() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [instructorId, setInstructorId] = useState<string>("");
+
+  const [slotForm, setSlotForm] = useState({
+    dayOfWeek: "1",
+    startTime: "09:00",
+    endTime: "17:00",
+    slotDuration: "90",
+    location: "",
+  });
+
+  const [exceptionForm, setExceptionForm] = useState({
+    date: "",
+    startTime: "",
+    endTime: "",
+    isAvailable: false,
+    reason: "",
+  });
+
+  useEffect(() => {
+    if (user && user.role === "instructor") {
+      setInstructorId(user.id);
+    }
+  }, [user]);
+
+  const { data: instructors } = useQuery<User[]>({
+    queryKey: ["/api/instructors"],
+    enabled: isAdmin,
+  });
+
+  const availabilityKey = [`/api/instructors/${instructorId}/availability`];
+
+  const { data, isLoading } = useQuery<AvailabilityResponse>({
+    queryKey: availabilityKey,
+    enabled: !!instructorId,
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createSlotMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/instructors/${instructorId}/availability`, {
+        dayOfWeek: parseInt(slotForm.dayOfWeek, 10),
+        startTime: slotForm.startTime,
+        endTime: slotForm.endTime,
+        slotDuration: parseInt(slotForm.slotDuration, 10),
+        location: slotForm.location || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+      toast({
+        title: "Availability Added",
+        description: "Weekly slot has been added",
+      });
+    },
+    onError,
+  });
+
+  const toggleSlotMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      return apiRequest("PATCH", `/api/availability/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+    },
+    onError,
+  });
+
+  const deleteSlotMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/availability/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+      toast({
+        title: "Availability Removed",
+        description: "Weekly slot has been removed",
+      });
+    },
+    onError,
+  });
+
+  const createExceptionMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/instructors/${instructorId}/availability-exceptions`, {
+        date: exceptionForm.date,
+        startTime: exceptionForm.startTime || null,
+        endTime: exceptionForm.endTime || null,
+        isAvailable: exceptionForm.isAvailable,
+        reason: exceptionForm.reason || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+      setExceptionForm({ date: "", startTime: "", endTime: "", isAvailable: false, reason: "" });
+      toast({
+        title: "Exception Added",
+        description: "Availability exception has been saved",
+      });
+    },
+    onError,
+  });
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/availability-exceptions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+    },
+    onError,
+  });
+
+  const today = new Date().toISOString().slice(0, 10);
+  const upcomingExceptions = data?.exceptions.filter((e) => e.date >= today) || [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="text-availability-title">Lesson Availability</h1>
+          <p className="text-muted-foreground">
+            Weekly slots students can book for practical lessons (Riga local time)
+          </p>
+        </div>
+        {isAdmin && (
+          <Select value={instructorId} onValueChange={setInstructorId}>
+            <SelectTrigger className="w-[240px]" data-testid="select-availability-instructor">
+              <SelectValue placeholder="Select an instructor" />
+            </SelectTrigger>
+            <SelectContent>
+              {instructors?.map((instructor) => (
+                <SelectItem key={instructor.id} value={instructor.id}>
+                  {instructor.firstName} {instructor.lastName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {!instructorId ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <CalendarClock className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-sm text-muted-foreground">Select an instructor to manage availability</p>
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <Card>
+          <CardContent className="p-6">Loading availability...</CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Weekly Slots
+              </CardTitle>
+              <CardDescription>Recurring hours split into bookable lessons</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Day</Label>
+                  <Select value={slotForm.dayOfWeek} onValueChange={(value) => setSlotForm({ ...slotForm, dayOfWeek: value })}>
+                    <SelectTrigger data-testid="select-slot-day">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAY_ORDER.map((day) => (
+                        <SelectItem key={day} value={String(day)}>{DAY_NAMES[day]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Lesson length (min)</Label>
+                  <Input
+                    type="number"
+                    min={15}
+                    step={15}
+                    value={slotForm.slotDuration}
+                    onChange={(e) => setSlotForm({ ...slotForm, slotDuration: e.target.value })}
+                    data-testid="input-slot-duration"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>From</Label>
+                  <Input
+                    type="time"
+                    value={slotForm.startTime}
+                    onChange={(e) => setSlotForm({ ...slotForm, startTime: e.target.value })}
+                    data-testid="input-slot-start"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>To</Label>
+                  <Input
+                    type="time"
+                    value={slotForm.endTime}
+                    onChange={(e) => setSlotForm({ ...slotForm, endTime: e.target.value })}
+                    data-testid="input-slot-end"
+                  />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label>Meeting point (optional)</Label>
+                  <Input
+                    placeholder="e.g., Main Training Center parking lot"
+                    value={slotForm.location}
+                    onChange={(e) => setSlotForm({ ...slotForm, location: e.target.value })}
+                    data-testid="input-slot-location"
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={() => createSlotMutation.mutate()}
+                disabled={createSlotMutation.isPending}
+                data-testid="button-add-slot"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Weekly Slot
+              </Button>
+
+              <div className="space-y-2">
+                {data?.availability.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No weekly slots yet</p>
+                ) : (
+                  [...(data?.availability || [])]
+                    .sort((a, b) => DAY_ORDER.indexOf(a.dayOfWeek) - DAY_ORDER.indexOf(b.dayOfWeek) || a.startTime.localeCompare(b.startTime))
+                    .map((slot) => (
+                      <div
+                        key={slot.id}
+                        className="flex items-center justify-between gap-4 rounded-md border p-3"
+                        data-testid={`row-availability-${slot.id}`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium">
+                            {DAY_NAMES[slot.dayOfWeek]} {slot.startTime} - {slot.endTime}
+                          </p>
+                          <p className="text-sm text-muted-foreground flex items-center gap-1 truncate">
+                            {slot.slotDuration} min lessons
+                            {slot.location && (
+                              <>
+                                <MapPin className="h-3 w-3 ml-2" />
+                                {slot.location}
+                              </>
+                            )}
+                          </p>
+                        </div>
+                        <Switch
+                          checked={slot.isActive}
+                          onCheckedChange={(checked) => toggleSlotMutation.mutate({ id: slot.id, isActive: checked })}
+                          data-testid={`switch-availability-${slot.id}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteSlotMutation.mutate(slot.id)}
+                          disabled={deleteSlotMutation.isPending}
+                          data-testid={`button-delete-availability-${slot.id}`}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarX className="h-5 w-5" />
+                Exceptions
+              </CardTitle>
+              <CardDescription>Days off or extra hours that override the weekly pattern</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1 col-span-2">
+                  <Label>Date</Label>
+                  <Input
+                    type="date"
+                    min={today}
+                    value={exceptionForm.date}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, date: e.target.value })}
+                    data-testid="input-exception-date"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>From (blank = whole day)</Label>
+                  <Input
+                    type="time"
+                    value={exceptionForm.startTime}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, startTime: e.target.value })}
+                    data-testid="input-exception-start"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>To</Label>
+                  <Input
+                    type="time"
+                    value={exceptionForm.endTime}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, endTime: e.target.value })}
+                    data-testid="input-exception-end"
+                  />
+                </div>
+                <div className="flex items-center gap-2 col-span-2">
+                  <Switch
+                    checked={exceptionForm.isAvailable}
+                    onCheckedChange={(checked) => setExceptionForm({ ...exceptionForm, isAvailable: checked })}
+                    data-testid="switch-exception-available"
+                  />
+                  <Label>{exceptionForm.isAvailable ? "Extra availability" : "Unavailable"}</Label>
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label>Reason (optional)</Label>
+                  <Input
+                    placeholder="e.g., Vacation"
+                    value={exceptionForm.reason}
+                    onChange={(e) => setExceptionForm({ ...exceptionForm, reason: e.target.value })}
+                    data-testid="input-exception-reason"
+                  />
+                </div>
+              </div>
+              <Button
+                onClick={() => createExceptionMutation.mutate()}
+                disabled={!exceptionForm.date || createExceptionMutation.isPending}
+                data-testid="button-add-exception"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Exception
+              </Button>
+
+              <div className="space-y-2">
+                {upcomingExceptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No upcoming exceptions</p>
+                ) : (
+                  upcomingExceptions.map((exception) => (
+                    <div
+                      key={exception.id}
+                      className="flex items-center justify-between gap-4 rounded-md border p-3"
+                      data-testid={`row-exception-${exception.id}`}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-medium">{exception.date}</p>
+                          <Badge variant={exception.isAvailable ? "default" : "secondary"}>
+                            {exception.isAvailable ? "Available" : "Unavailable"}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {exception.startTime && exception.endTime
+                            ? `${exception.startTime} - ${exception.endTime}`
+                            : "Whole day"}
+                          {exception.reason && ` · ${exception.reason}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteExceptionMutation.mutate(exception.id)}
+                        disabled={deleteExceptionMutation.isPending}
+                        data-testid={`button-delete-exception-${exception.id}`}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
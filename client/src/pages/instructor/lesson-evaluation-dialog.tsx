@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { EvaluationRubric, EvaluationScore, LessonEvaluation, RubricSkill } from "@shared/schema";
+
+type SkillScore = { score: number | null; notes: string };
+
+interface LessonEvaluationDialogProps {
+  scheduleId: string;
+  student: { id: string; name: string } | null;
+  rubric: EvaluationRubric;
+  evaluation?: LessonEvaluation;
+  onClose: () => void;
+}
+
+export function LessonEvaluationDialog({ scheduleId, student, rubric, evaluation, onClose }: LessonEvaluationDialogProps) {
+  const { toast } = useToast();
+  const skills = rubric.skills as RubricSkill[];
+  const [scores, setScores] = useState<Record<string, SkillScore>>({});
+  const [notes, setNotes] = useState("");
+
+  // Prefill from the existing evaluation whenever another student is opened
+  useEffect(() => {
+    if (!student) return;
+    const previous = new Map(((evaluation?.scores as EvaluationScore[] | undefined) || []).map((s) => [s.skillKey, s]));
+    setScores(Object.fromEntries(skills.map((skill) => [
+      skill.key,
+      { score: previous.get(skill.key)?.score ?? null, notes: previous.get(skill.key)?.notes ?? "" },
+    ])));
+    setNotes(evaluation?.notes || "");
+  }, [student?.id, evaluation?.id, rubric.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/instructor/schedules/${scheduleId}/evaluations/${student!.id}`, {
+        scores: skills.map((skill) => ({
+          skillKey: skill.key,
+          score: scores[skill.key]?.score,
+          ...(scores[skill.key]?.notes ? { notes: scores[skill.key].notes } : {}),
+        })),
+        notes: notes || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/instructor/schedules/${scheduleId}/evaluations`] });
+      toast({
+        title: "Evaluation Saved",
+        description: `Lesson evaluation for ${student?.name} has been saved`,
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isComplete = skills.every((skill) => scores[skill.key]?.score);
+
+  const updateSkill = (key: string, data: Partial<SkillScore>) => {
+    setScores((current) => ({ ...current, [key]: { ...current[key], ...data } }));
+  };
+
+  return (
+    <Dialog open={!!student} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Evaluate Lesson - {student?.name}</DialogTitle>
+          <DialogDescription>
+            Score each skill from 1 (needs a lot of work) to 5 (exam ready)
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          {skills.map((skill) => (
+            <div key={skill.key} className="space-y-2" data-testid={`evaluation-skill-${skill.key}`}>
+              <div>
+                <Label>{skill.label}</Label>
+                {skill.description && <p className="text-xs text-muted-foreground">{skill.description}</p>}
+              </div>
+              <div className="flex gap-1">
+                {[1, 2, 3, 4, 5].map((value) => (
+                  <Button
+                    key={value}
+                    type="button"
+                    size="sm"
+                    variant={scores[skill.key]?.score === value ? "default" : "outline"}
+                    onClick={() => updateSkill(skill.key, { score: value })}
+                    data-testid={`button-score-${skill.key}-${value}`}
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                placeholder="Notes (optional)"
+                value={scores[skill.key]?.notes ?? ""}
+                onChange={(e) => updateSkill(skill.key, { notes: e.target.value })}
+                data-testid={`input-notes-${skill.key}`}
+              />
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label>Overall Notes</Label>
+            <Textarea
+              rows={3}
+              placeholder="What to focus on in the next lesson..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="input-evaluation-notes"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} data-testid="button-cancel-evaluation">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isComplete || saveMutation.isPending}
+            data-testid="button-save-evaluation"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Evaluation"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
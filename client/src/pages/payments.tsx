@@ -1,27 +1,400 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { CreditCard, CheckCircle2, Clock, XCircle, DollarSign } from "lucide-react";
-import type { Payment } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CreditCard, CheckCircle2, Clock, XCircle, DollarSign, CalendarClock, AlertTriangle, Gift, Download } from "lucide-react";
+import type { Course, CourseEnrollment, Installment, InstallmentStatus, Invoice, Payment, PaymentPlan } from "@shared/schema";
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
-import { useEffect } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { installmentStatusLabels, invoiceTypeLabels, paymentMethodLabels, paymentStatusLabels } from "@/lib/utils";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
 
 interface PaymentWithCourse extends Payment {
   courseName?: string;
 }
 
+interface CourseWithPayment extends Course {
+  enrollment?: CourseEnrollment;
+  payment?: Payment;
+}
+
+interface InstallmentSchedule {
+  enrollmentId: string;
+  course: { id: string; name: string };
+  plan: PaymentPlan;
+  installments: Array<Installment & { status: InstallmentStatus }>;
+  totalAmount: string;
+  paidAmount: string;
+}
+
+type PaymentPlanOption = PaymentPlan & { installmentAmounts: string[] };
+
+interface CoursePriceQuote {
+  courseId: string;
+  listPrice: string;
+  promotion: { id: string; code: string; description: string | null } | null;
+  discountAmount: string;
+  creditAmount: string;
+  amount: string;
+  creditBalance: string;
+}
+
+interface ReferralSummary {
+  codes: Array<{ id: string; code: string; referrerCredit: string | null; isActive: boolean; redemptions: number }>;
+  creditBalance: string;
+}
+
+const installmentStatusStyles: Record<InstallmentStatus, string> = {
+  paid: "bg-green-600 text-white",
+  overdue: "",
+  due: "bg-amber-600/20 text-amber-600",
+  upcoming: "",
+};
+
+function InstallmentScheduleCard({ schedule }: { schedule: InstallmentSchedule }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const paidCount = schedule.installments.filter((installment) => installment.status === "paid").length;
+
+  const payMutation = useMutation({
+    mutationFn: async (installmentId: string) => {
+      const response = await apiRequest("POST", `/api/installments/${installmentId}/payment-intent`, undefined);
+      return response.json() as Promise<{ paymentId: string }>;
+    },
+    onSuccess: ({ paymentId }) => {
+      setLocation(`/payments/${paymentId}/checkout`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid={`card-installment-schedule-${schedule.enrollmentId}`}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex-1 min-w-0">
+            <CardTitle className="text-base mb-1">{schedule.course.name}</CardTitle>
+            <CardDescription>{schedule.plan.name}</CardDescription>
+          </div>
+          <div className="text-right flex-shrink-0">
+            <p className="text-lg font-bold">
+              ${parseFloat(schedule.paidAmount).toFixed(2)} / ${parseFloat(schedule.totalAmount).toFixed(2)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {paidCount} of {schedule.installments.length} installments paid
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {schedule.installments.map((installment) => (
+          <div
+            key={installment.id}
+            className="flex items-center justify-between gap-4 rounded-md border p-3"
+            data-testid={`row-installment-${installment.id}`}
+          >
+            <div className="flex-1 min-w-0">
+              <p className="font-medium">Installment {installment.sequence}</p>
+              <p className="text-sm text-muted-foreground">
+                {installment.paidAt
+                  ? `Paid ${format(new Date(installment.paidAt), "MMM d, yyyy")}`
+                  : `Due ${format(new Date(installment.dueDate), "MMM d, yyyy")}`}
+              </p>
+            </div>
+            <span className="font-bold">${parseFloat(installment.amount).toFixed(2)}</span>
+            <Badge
+              variant={installment.status === "overdue" ? "destructive" : installment.status === "upcoming" ? "outline" : "secondary"}
+              className={installmentStatusStyles[installment.status]}
+            >
+              {installmentStatusLabels[installment.status]}
+            </Badge>
+            {(installment.status === "due" || installment.status === "overdue") && (
+              <Button
+                size="sm"
+                onClick={() => payMutation.mutate(installment.id)}
+                disabled={payMutation.isPending}
+                data-testid={`button-pay-installment-${installment.id}`}
+              >
+                Pay Now
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// How an unpaid course can be paid: in full, optionally with a promotion code and referral credit, or by an installment plan
+function CoursePaymentOptions({ course }: { course: CourseWithPayment }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [promotionCode, setPromotionCode] = useState("");
+  const [quote, setQuote] = useState<CoursePriceQuote | null>(null);
+  const [useCredit, setUseCredit] = useState(false);
+
+  const { data: plans } = useQuery<PaymentPlanOption[]>({
+    queryKey: ["/api/courses", course.id, "payment-plans"],
+  });
+
+  const { data: referrals } = useQuery<ReferralSummary>({
+    queryKey: ["/api/referrals"],
+  });
+
+  const quoteMutation = useMutation({
+    mutationFn: async (options: { promotionCode: string; useCredit: boolean }) => {
+      const response = await apiRequest("POST", "/api/promotions/quote", {
+        courseId: course.id,
+        promotionCode: options.promotionCode || undefined,
+        useCredit: options.useCredit,
+      });
+      return response.json() as Promise<CoursePriceQuote>;
+    },
+    onSuccess: (result, options) => {
+      setQuote(result);
+      setUseCredit(options.useCredit);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Code Not Applied",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const payMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/create-payment-intent", {
+        courseId: course.id,
+        promotionCode: quote?.promotion?.code,
+        useCredit,
+      });
+      return response.json() as Promise<{ paymentId: string; status: Payment["status"] }>;
+    },
+    onSuccess: ({ paymentId, status }) => {
+      if (status === "paid") {
+        queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/referrals"] });
+        toast({
+          title: "Course Paid",
+          description: "The discount and credit covered the full price",
+        });
+        return;
+      }
+      setLocation(`/payments/${paymentId}/checkout`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (planId: string) => {
+      await apiRequest("POST", `/api/payment-plans/${planId}/start`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/installments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/courses"] });
+      toast({
+        title: "Installment Plan Started",
+        description: "Your first installment is due today",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const creditBalance = parseFloat(referrals?.creditBalance || "0");
+  const amount = quote ? quote.amount : course.price!;
+
+  return (
+    <Card data-testid={`card-course-payment-options-${course.id}`}>
+      <CardHeader>
+        <CardTitle className="text-base mb-1">{course.name}</CardTitle>
+        <CardDescription>Course price ${parseFloat(course.price!).toFixed(2)}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3 rounded-md border p-3">
+          <p className="font-medium">Pay in full</p>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Promotion code"
+              className="font-mono uppercase"
+              value={promotionCode}
+              onChange={(e) => setPromotionCode(e.target.value)}
+              data-testid={`input-promotion-code-${course.id}`}
+            />
+            <Button
+              variant="outline"
+              onClick={() => quoteMutation.mutate({ promotionCode: promotionCode.trim(), useCredit })}
+              disabled={quoteMutation.isPending || (!promotionCode.trim() && !quote?.promotion)}
+              data-testid={`button-apply-promotion-${course.id}`}
+            >
+              {promotionCode.trim() || !quote?.promotion ? "Apply" : "Remove"}
+            </Button>
+          </div>
+          {creditBalance > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={useCredit}
+                onCheckedChange={(checked) => quoteMutation.mutate({ promotionCode: quote?.promotion?.code || "", useCredit: !!checked })}
+                disabled={quoteMutation.isPending}
+                data-testid={`checkbox-use-credit-${course.id}`}
+              />
+              Use my referral credit (${creditBalance.toFixed(2)} available)
+            </label>
+          )}
+          {quote && (
+            <div className="space-y-1 text-sm" data-testid={`text-price-quote-${course.id}`}>
+              {quote.promotion && (
+                <div className="flex justify-between text-green-600">
+                  <span>
+                    Code <span className="font-mono">{quote.promotion.code}</span>
+                    {quote.promotion.description && ` – ${quote.promotion.description}`}
+                  </span>
+                  <span>−${parseFloat(quote.discountAmount).toFixed(2)}</span>
+                </div>
+              )}
+              {parseFloat(quote.creditAmount) > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Referral credit</span>
+                  <span>−${parseFloat(quote.creditAmount).toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-lg font-bold">${parseFloat(amount).toFixed(2)}</span>
+            <Button
+              onClick={() => payMutation.mutate()}
+              disabled={payMutation.isPending || quoteMutation.isPending}
+              data-testid={`button-pay-in-full-${course.id}`}
+            >
+              {parseFloat(amount) === 0 ? "Confirm" : "Pay Now"}
+            </Button>
+          </div>
+        </div>
+
+        {plans && plans.length > 0 && (
+          <div className="space-y-2">
+            <p className="font-medium">Or pay in installments</p>
+            {plans.map((plan) => (
+              <div key={plan.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">{plan.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {plan.installmentAmounts.map((amount) => `$${parseFloat(amount).toFixed(2)}`).join(" + ")},
+                    {" "}every {plan.intervalMonths === 1 ? "month" : `${plan.intervalMonths} months`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(`Pay ${course.name} with the "${plan.name}" plan? This can't be changed later.`)) {
+                      startMutation.mutate(plan.id);
+                    }
+                  }}
+                  disabled={startMutation.isPending}
+                  data-testid={`button-start-payment-plan-${plan.id}`}
+                >
+                  Choose Plan
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">Promotion codes and referral credit apply to payments in full only.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReferralCard({ referrals }: { referrals: ReferralSummary }) {
+  return (
+    <Card data-testid="card-referrals">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Gift className="h-4 w-4" />
+          Referrals
+        </CardTitle>
+        <CardDescription>
+          Share your code with friends. You earn credit towards your own courses each time someone pays with it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {referrals.codes.map((code) => (
+          <div key={code.id} className="flex items-center justify-between gap-4" data-testid={`row-referral-code-${code.id}`}>
+            <div>
+              <span className="font-mono font-medium">{code.code}</span>
+              {!code.isActive && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+              <p className="text-xs text-muted-foreground">
+                Used {code.redemptions} {code.redemptions === 1 ? "time" : "times"}
+                {code.referrerCredit && ` · $${parseFloat(code.referrerCredit).toFixed(2)} credit per use`}
+              </p>
+            </div>
+          </div>
+        ))}
+        <div className="flex items-center justify-between border-t pt-3">
+          <span className="text-sm text-muted-foreground">Available credit</span>
+          <span className="text-lg font-bold text-green-600" data-testid="text-referral-credit">
+            ${parseFloat(referrals.creditBalance).toFixed(2)}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Payments() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
 
   const { data: payments, isLoading } = useQuery<PaymentWithCourse[]>({
     queryKey: ["/api/payments"],
   });
 
+  const { data: schedules } = useQuery<InstallmentSchedule[]>({
+    queryKey: ["/api/installments"],
+  });
+
+  const { data: invoices } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: courses } = useQuery<CourseWithPayment[]>({
+    queryKey: ["/api/courses"],
+    enabled: user?.role === "student",
+  });
+
+  const { data: referrals } = useQuery<ReferralSummary>({
+    queryKey: ["/api/referrals"],
+    enabled: user?.role === "student",
+  });
+
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
       toast({
@@ -59,15 +432,27 @@ export default function Payments() {
     );
   }
 
-  const paidPayments = payments?.filter((p) => p.status === "paid") || [];
+  const paidPayments = payments?.filter((p) => ["paid", "partially_refunded", "refunded", "disputed"].includes(p.status)) || [];
   const pendingPayments = payments?.filter((p) => p.status === "pending") || [];
   const failedPayments = payments?.filter((p) => p.status === "failed") || [];
 
   const totalPaid = paidPayments.reduce(
-    (sum, p) => sum + parseFloat(p.amount),
+    (sum, p) => sum + parseFloat(p.amount) - parseFloat(p.refundedAmount),
     0
   );
 
+  // Installment parts are paid from their schedule, so they don't show up as separate pending payments
+  const singlePendingPayments = pendingPayments.filter((p) => !p.installmentId);
+  const hasOverdueInstallment = schedules?.some((schedule) =>
+    schedule.installments.some((installment) => installment.status === "overdue")
+  );
+  const unpaidCourses = (courses || []).filter((course) =>
+    course.enrollment &&
+    course.price &&
+    !["paid", "partially_refunded", "disputed"].includes(course.payment?.status ?? "") &&
+    !schedules?.some((schedule) => schedule.course.id === course.id)
+  );
+
   return (
     <div className="p-6 space-y-8">
       <div>
@@ -100,7 +485,7 @@ export default function Payments() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-amber-600" data-testid="stat-pending-payments">
-              {pendingPayments.length}
+              {singlePendingPayments.length}
             </div>
             <p className="text-xs text-muted-foreground mt-1">Awaiting payment</p>
           </CardContent>
@@ -120,11 +505,35 @@ export default function Payments() {
         </Card>
       </div>
 
-      {pendingPayments.length > 0 && (
+      {hasOverdueInstallment && (
+        <Alert variant="destructive" data-testid="alert-overdue-installment">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>You have an overdue installment</AlertTitle>
+          <AlertDescription>
+            Pay it as soon as possible. Some courses don't allow booking practical lessons until it is paid.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {schedules && schedules.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Installment Plans
+          </h2>
+          <div className="space-y-4">
+            {schedules.map((schedule) => (
+              <InstallmentScheduleCard key={schedule.enrollmentId} schedule={schedule} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {singlePendingPayments.length > 0 && (
         <div>
           <h2 className="text-xl font-semibold mb-4">Pending Payments</h2>
           <div className="space-y-4">
-            {pendingPayments.map((payment) => (
+            {singlePendingPayments.map((payment) => (
               <Card key={payment.id} className="border-amber-600/50" data-testid={`card-pending-payment-${payment.id}`}>
                 <CardHeader>
                   <div className="flex items-start justify-between gap-4">
@@ -147,9 +556,15 @@ export default function Payments() {
                   </div>
                 </CardContent>
                 <CardFooter>
-                  <Button variant="default" className="w-full" asChild data-testid={`button-pay-${payment.id}`}>
-                    <a href={`/payments/${payment.id}/checkout`}>Complete Payment</a>
-                  </Button>
+                  {payment.method === "bank_transfer" ? (
+                    <p className="text-sm text-muted-foreground" data-testid={`text-awaiting-transfer-${payment.id}`}>
+                      Your bank transfer{payment.reference && ` (${payment.reference})`} will be confirmed once it reaches the school's account
+                    </p>
+                  ) : (
+                    <Button variant="default" className="w-full" asChild data-testid={`button-pay-${payment.id}`}>
+                      <a href={`/payments/${payment.id}/checkout`}>Complete Payment</a>
+                    </Button>
+                  )}
                 </CardFooter>
               </Card>
             ))}
@@ -157,6 +572,21 @@ export default function Payments() {
         </div>
       )}
 
+      {unpaidCourses.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold mb-4">Pay for Your Courses</h2>
+          <div className="space-y-4">
+            {unpaidCourses.map((course) => (
+              <CoursePaymentOptions key={course.id} course={course} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {referrals && (referrals.codes.length > 0 || parseFloat(referrals.creditBalance) > 0) && (
+        <ReferralCard referrals={referrals} />
+      )}
+
       {failedPayments.length > 0 && (
         <div>
           <h2 className="text-xl font-semibold mb-4">Failed Payments</h2>
@@ -210,13 +640,46 @@ export default function Payments() {
                         <p className="font-medium truncate">{payment.courseName || "Course Payment"}</p>
                         <p className="text-sm text-muted-foreground">
                           {payment.paidAt && format(new Date(payment.paidAt), "MMM d, yyyy 'at' h:mm a")}
+                          {payment.method !== "card" && ` · ${paymentMethodLabels[payment.method]}`}
                         </p>
+                        {parseFloat(payment.discountAmount) + parseFloat(payment.creditAmount) > 0 && (
+                          <p className="text-xs text-green-600">
+                            Saved ${(parseFloat(payment.discountAmount) + parseFloat(payment.creditAmount)).toFixed(2)}
+                          </p>
+                        )}
+                        {parseFloat(payment.refundedAmount) > 0 && (
+                          <p className="text-xs text-muted-foreground" data-testid={`text-refunded-${payment.id}`}>
+                            ${parseFloat(payment.refundedAmount).toFixed(2)} refunded
+                            {payment.refundedAt && ` on ${format(new Date(payment.refundedAt), "MMM d, yyyy")}`}
+                          </p>
+                        )}
+                        {invoices?.some((invoice) => invoice.paymentId === payment.id) && (
+                          <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+                            {invoices
+                              .filter((invoice) => invoice.paymentId === payment.id)
+                              .map((invoice) => (
+                                <a
+                                  key={invoice.id}
+                                  href={`/api/invoices/${invoice.id}/download`}
+                                  download
+                                  className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                                  data-testid={`link-download-invoice-${invoice.id}`}
+                                >
+                                  <Download className="h-3 w-3" />
+                                  {invoiceTypeLabels[invoice.type]} {invoice.number}
+                                </a>
+                              ))}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="text-right">
                       <p className="text-lg font-bold">${parseFloat(payment.amount).toFixed(2)}</p>
-                      <Badge variant="default" className="bg-green-600 text-white text-xs mt-1">
-                        Paid
+                      <Badge
+                        variant={payment.status === "disputed" ? "destructive" : payment.status === "paid" ? "default" : "secondary"}
+                        className={`text-xs mt-1 ${payment.status === "paid" ? "bg-green-600 text-white" : ""}`}
+                      >
+                        {paymentStatusLabels[payment.status]}
                       </Badge>
                     </div>
                   </div>
@@ -29,17 +29,22 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { FileQuestion, Plus, Search, Edit2, Trash2, CheckSquare, Square, Home } from "lucide-react";
-import type { Question, QuestionCategory, QuestionTopic } from "@shared/schema";
+import { FileQuestion, Plus, Search, Edit2, Trash2, CheckSquare, Square, Home, ArrowUp, ArrowDown } from "lucide-react";
+import type { HotspotAnswerConfig, HotspotRegion, NumericAnswerConfig, Question, QuestionCategory, QuestionTopic, QuestionType } from "@shared/schema";
 import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Link, useParams } from "wouter";
+import { ImageUpload } from "@/components/image-upload";
+import { HotspotEditor } from "@/components/hotspot-editor";
+import { questionTypeLabels } from "@/lib/utils";
 
 interface QuestionChoice {
+  id?: string; // Assigned by the server; new choices have none yet
   label: string;
   isCorrect: boolean;
+  imageUrl?: string;
 }
 
 export default function Questions() {
@@ -50,8 +55,16 @@ export default function Questions() {
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
 
   const [questionText, setQuestionText] = useState("");
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [explanation, setExplanation] = useState("");
-  const [type, setType] = useState<"single_choice" | "multiple_choice">("single_choice");
+  const [type, setType] = useState<QuestionType>("single_choice");
+  const [points, setPoints] = useState("1");
+  const [isCritical, setIsCritical] = useState(false);
+  const [regions, setRegions] = useState<HotspotRegion[]>([]);
+  const [numericValue, setNumericValue] = useState("");
+  const [numericTolerance, setNumericTolerance] = useState("0");
+  const [numericUnit, setNumericUnit] = useState("");
+  const usesChoices = type === "single_choice" || type === "multiple_choice" || type === "ordering";
   const [choices, setChoices] = useState<QuestionChoice[]>([
     { label: "", isCorrect: false },
     { label: "", isCorrect: false },
@@ -125,13 +138,16 @@ export default function Questions() {
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      await apiRequest("DELETE", `/api/questions/${id}`, {});
+      const res = await apiRequest("DELETE", `/api/questions/${id}`, {});
+      return await res.json() as { outcome: "deleted" | "archived"; message: string };
     },
-    onSuccess: () => {
+    onSuccess: ({ outcome }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/questions", { topicId }] });
       toast({
-        title: "Question Deleted",
-        description: "The question has been removed from the question bank",
+        title: outcome === "archived" ? "Question Archived" : "Question Deleted",
+        description: outcome === "archived"
+          ? "The question is still used by a test, so it was archived instead"
+          : "The question has been removed from the question bank",
       });
     },
     onError: (error: Error) => {
@@ -145,12 +161,19 @@ export default function Questions() {
 
   const resetForm = () => {
     setQuestionText("");
+    setImageUrl(null);
     setExplanation("");
     setType("single_choice");
+    setPoints("1");
+    setIsCritical(false);
     setChoices([
       { label: "", isCorrect: false },
       { label: "", isCorrect: false },
     ]);
+    setRegions([]);
+    setNumericValue("");
+    setNumericTolerance("0");
+    setNumericUnit("");
     setEditingQuestion(null);
   };
 
@@ -162,9 +185,22 @@ export default function Questions() {
   const openEditDialog = (question: Question) => {
     setEditingQuestion(question);
     setQuestionText(question.questionText);
+    setImageUrl(question.imageUrl);
     setExplanation(question.explanation || "");
     setType(question.type);
-    setChoices(question.choices as QuestionChoice[]);
+    setPoints(String(question.points));
+    setIsCritical(question.isCritical);
+    const existingChoices = question.choices as QuestionChoice[];
+    setChoices(existingChoices.length > 0 ? existingChoices : [
+      { label: "", isCorrect: false },
+      { label: "", isCorrect: false },
+    ]);
+    const hotspotConfig = question.type === "hotspot" ? question.answerConfig as HotspotAnswerConfig | null : null;
+    const numericConfig = question.type === "numeric" ? question.answerConfig as NumericAnswerConfig | null : null;
+    setRegions(hotspotConfig?.regions || []);
+    setNumericValue(numericConfig ? String(numericConfig.value) : "");
+    setNumericTolerance(numericConfig ? String(numericConfig.tolerance) : "0");
+    setNumericUnit(numericConfig?.unit || "");
     setIsDialogOpen(true);
   };
 
@@ -178,19 +214,35 @@ export default function Questions() {
       return;
     }
 
-    if (choices.filter(c => c.label.trim()).length < 2) {
+    const validationError =
+      usesChoices && choices.filter(c => c.label.trim()).length < 2
+        ? "At least 2 choices are required"
+        : (type === "single_choice" || type === "multiple_choice") && !choices.some(c => c.isCorrect)
+        ? "At least one correct answer is required"
+        : type === "hotspot" && !imageUrl
+        ? "Hotspot questions need an image"
+        : type === "hotspot" && regions.length === 0
+        ? "Mark at least one correct region on the image"
+        : type === "numeric" && (numericValue.trim() === "" || isNaN(Number(numericValue)))
+        ? "Enter the correct numeric answer"
+        : type === "numeric" && (numericTolerance.trim() === "" || isNaN(Number(numericTolerance)) || Number(numericTolerance) < 0)
+        ? "Tolerance must be 0 or more"
+        : null;
+
+    if (validationError) {
       toast({
         title: "Validation Error",
-        description: "At least 2 choices are required",
+        description: validationError,
         variant: "destructive",
       });
       return;
     }
 
-    if (!choices.some(c => c.isCorrect)) {
+    const parsedPoints = Number(points);
+    if (!Number.isInteger(parsedPoints) || parsedPoints < 1) {
       toast({
         title: "Validation Error",
-        description: "At least one correct answer is required",
+        description: "Points must be a whole number of at least 1",
         variant: "destructive",
       });
       return;
@@ -198,10 +250,21 @@ export default function Questions() {
 
     const data = {
       questionText,
+      imageUrl,
       explanation,
       type,
+      points: parsedPoints,
+      isCritical,
       questionTopicId: topicId,
-      choices: choices.filter(c => c.label.trim()),
+      // Ordering steps are saved in the order entered, which is the correct order
+      choices: usesChoices
+        ? choices.filter(c => c.label.trim()).map(c => (type === "ordering" ? { id: c.id, label: c.label, imageUrl: c.imageUrl } : c))
+        : [],
+      answerConfig: type === "hotspot"
+        ? { regions }
+        : type === "numeric"
+        ? { value: Number(numericValue), tolerance: Number(numericTolerance), ...(numericUnit ? { unit: numericUnit } : {}) }
+        : null,
     };
 
     if (editingQuestion) {
@@ -215,7 +278,7 @@ export default function Questions() {
     setChoices([...choices, { label: "", isCorrect: false }]);
   };
 
-  const updateChoice = (index: number, field: "label" | "isCorrect", value: string | boolean) => {
+  const updateChoice = (index: number, field: "label" | "isCorrect" | "imageUrl", value: string | boolean | undefined) => {
     const updated = [...choices];
     updated[index] = { ...updated[index], [field]: value };
     if (field === "isCorrect" && value && type === "single_choice") {
@@ -230,6 +293,13 @@ export default function Questions() {
     setChoices(choices.filter((_, i) => i !== index));
   };
 
+  const moveChoice = (from: number, to: number) => {
+    const updated = [...choices];
+    const [moved] = updated.splice(from, 1);
+    updated.splice(to, 0, moved);
+    setChoices(updated);
+  };
+
   const filteredQuestions = questions?.filter((q) => {
     const searchLower = searchQuery.toLowerCase();
     return q.questionText.toLowerCase().includes(searchLower);
@@ -316,20 +386,29 @@ export default function Questions() {
                 <div className="flex items-start justify-between gap-4">
                   <div className="flex-1 min-w-0">
                     <CardTitle className="text-base mb-2">{question.questionText}</CardTitle>
+                    {question.imageUrl && (
+                      <img
+                        src={question.imageUrl}
+                        alt=""
+                        className="h-24 rounded-md border object-contain bg-muted mb-2"
+                        data-testid={`img-question-${question.id}`}
+                      />
+                    )}
                     <div className="flex flex-wrap items-center gap-2">
                       <Badge variant={question.type === "single_choice" ? "default" : "secondary"}>
                         {question.type === "single_choice" ? (
-                          <>
-                            <Square className="h-3 w-3 mr-1" />
-                            Single Choice
-                          </>
-                        ) : (
-                          <>
-                            <CheckSquare className="h-3 w-3 mr-1" />
-                            Multiple Choice
-                          </>
-                        )}
+                          <Square className="h-3 w-3 mr-1" />
+                        ) : question.type === "multiple_choice" ? (
+                          <CheckSquare className="h-3 w-3 mr-1" />
+                        ) : null}
+                        {questionTypeLabels[question.type]}
                       </Badge>
+                      <Badge variant="outline">
+                        {question.points} {question.points === 1 ? "point" : "points"}
+                      </Badge>
+                      {question.isCritical && (
+                        <Badge variant="destructive" data-testid={`badge-critical-${question.id}`}>Critical</Badge>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2 flex-shrink-0">
@@ -358,13 +437,30 @@ export default function Questions() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-2">
+                  {question.type === "numeric" && (
+                    <p className="text-sm" data-testid={`text-numeric-answer-${question.id}`}>
+                      Answer: <span className="font-medium text-green-600">
+                        {(question.answerConfig as NumericAnswerConfig).value} ± {(question.answerConfig as NumericAnswerConfig).tolerance} {(question.answerConfig as NumericAnswerConfig).unit}
+                      </span>
+                    </p>
+                  )}
+                  {question.type === "hotspot" && (
+                    <p className="text-sm text-muted-foreground">
+                      {(question.answerConfig as HotspotAnswerConfig).regions.length} correct region(s) marked on the image
+                    </p>
+                  )}
                   {(question.choices as QuestionChoice[]).map((choice, index) => (
                     <div key={index} className="flex items-center gap-2 text-sm">
-                      {choice.isCorrect ? (
+                      {question.type === "ordering" ? (
+                        <span className="w-4 font-medium">{index + 1}.</span>
+                      ) : choice.isCorrect ? (
                         <CheckSquare className="h-4 w-4 text-green-600" />
                       ) : (
                         <Square className="h-4 w-4 text-muted-foreground" />
                       )}
+                      {choice.imageUrl && (
+                        <img src={choice.imageUrl} alt="" className="h-8 w-8 rounded border object-contain bg-muted" />
+                      )}
                       <span className={choice.isCorrect ? "font-medium text-green-600" : "text-muted-foreground"}>
                         {choice.label}
                       </span>
@@ -412,6 +508,11 @@ export default function Questions() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Question Image (Optional)</Label>
+              <ImageUpload value={imageUrl} onChange={setImageUrl} data-testid="upload-question-image" />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="type">Question Type *</Label>
               <Select value={type} onValueChange={(v: any) => setType(v)}>
@@ -419,48 +520,150 @@ export default function Questions() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="single_choice">Single Choice</SelectItem>
-                  <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
+                  {Object.entries(questionTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label>Answer Choices *</Label>
-              <div className="space-y-3">
-                {choices.map((choice, index) => (
-                  <div key={index} className="flex items-center gap-2">
-                    <Checkbox
-                      checked={choice.isCorrect}
-                      onCheckedChange={(checked) => updateChoice(index, "isCorrect", !!checked)}
-                      data-testid={`checkbox-correct-${index}`}
-                    />
-                    <Input
-                      value={choice.label}
-                      onChange={(e) => updateChoice(index, "label", e.target.value)}
-                      placeholder={`Choice ${index + 1}`}
-                      className="flex-1"
-                      data-testid={`input-choice-${index}`}
-                    />
-                    {choices.length > 2 && (
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => removeChoice(index)}
-                        data-testid={`button-remove-choice-${index}`}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    )}
-                  </div>
-                ))}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="points">Points *</Label>
+                <Input
+                  id="points"
+                  type="number"
+                  min={1}
+                  value={points}
+                  onChange={(e) => setPoints(e.target.value)}
+                  data-testid="input-question-points"
+                />
+              </div>
+              <div className="flex items-center gap-2 pt-8">
+                <Checkbox
+                  id="isCritical"
+                  checked={isCritical}
+                  onCheckedChange={(checked) => setIsCritical(!!checked)}
+                  data-testid="checkbox-question-critical"
+                />
+                <Label htmlFor="isCritical">Critical question (a wrong answer fails the test)</Label>
               </div>
-              <Button variant="outline" size="sm" onClick={addChoice} data-testid="button-add-choice">
-                <Plus className="h-4 w-4 mr-2" />
-                Add Choice
-              </Button>
             </div>
 
+            {usesChoices && (
+              <div className="space-y-2">
+                <Label>{type === "ordering" ? "Steps in the correct order *" : "Answer Choices *"}</Label>
+                <div className="space-y-3">
+                  {choices.map((choice, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      {type === "ordering" ? (
+                        <>
+                          <span className="w-6 text-sm font-medium">{index + 1}.</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={index === 0}
+                            onClick={() => moveChoice(index, index - 1)}
+                            data-testid={`button-move-up-${index}`}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            disabled={index === choices.length - 1}
+                            onClick={() => moveChoice(index, index + 1)}
+                            data-testid={`button-move-down-${index}`}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <Checkbox
+                          checked={choice.isCorrect}
+                          onCheckedChange={(checked) => updateChoice(index, "isCorrect", !!checked)}
+                          data-testid={`checkbox-correct-${index}`}
+                        />
+                      )}
+                      <Input
+                        value={choice.label}
+                        onChange={(e) => updateChoice(index, "label", e.target.value)}
+                        placeholder={type === "ordering" ? `Step ${index + 1}` : `Choice ${index + 1}`}
+                        className="flex-1"
+                        data-testid={`input-choice-${index}`}
+                      />
+                      <ImageUpload
+                        compact
+                        label="Add choice image"
+                        value={choice.imageUrl}
+                        onChange={(url) => updateChoice(index, "imageUrl", url ?? undefined)}
+                        data-testid={`upload-choice-image-${index}`}
+                      />
+                      {choices.length > 2 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeChoice(index)}
+                          data-testid={`button-remove-choice-${index}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={addChoice} data-testid="button-add-choice">
+                  <Plus className="h-4 w-4 mr-2" />
+                  {type === "ordering" ? "Add Step" : "Add Choice"}
+                </Button>
+              </div>
+            )}
+
+            {type === "hotspot" && (
+              <div className="space-y-2">
+                <Label>Correct Regions *</Label>
+                <HotspotEditor imageUrl={imageUrl} regions={regions} onChange={setRegions} />
+              </div>
+            )}
+
+            {type === "numeric" && (
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="numericValue">Correct Answer *</Label>
+                  <Input
+                    id="numericValue"
+                    type="number"
+                    step="any"
+                    value={numericValue}
+                    onChange={(e) => setNumericValue(e.target.value)}
+                    data-testid="input-numeric-value"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="numericTolerance">Tolerance (±)</Label>
+                  <Input
+                    id="numericTolerance"
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={numericTolerance}
+                    onChange={(e) => setNumericTolerance(e.target.value)}
+                    data-testid="input-numeric-tolerance"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="numericUnit">Unit</Label>
+                  <Input
+                    id="numericUnit"
+                    placeholder="e.g., m, ‰"
+                    value={numericUnit}
+                    onChange={(e) => setNumericUnit(e.target.value)}
+                    data-testid="input-numeric-unit"
+                  />
+                </div>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="explanation">Explanation (Optional)</Label>
               <Textarea
@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Calendar as CalendarIcon, Clock, MapPin, BookOpen, User as UserIcon, ChevronLeft, ChevronRight, Filter } from "lucide-react";
+import { Calendar as CalendarIcon, Clock, MapPin, BookOpen, User as UserIcon, ChevronLeft, ChevronRight, Filter, Car } from "lucide-react";
 import type { Schedule, Course, Topic, User } from "@shared/schema";
 import { format, startOfWeek, addDays, isSameDay, parseISO } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
@@ -252,6 +252,7 @@ export default function SchedulePage() {
                                       <div className="flex items-start justify-between gap-1">
                                         <div className="flex-1 min-w-0">
                                           <h4 className="text-xs font-semibold truncate" title={schedule.title}>
+                                            {schedule.type === "practical" && <Car className="h-3 w-3 inline mr-1" />}
                                             {schedule.title}
                                           </h4>
                                           <p className="text-xs text-muted-foreground truncate" title={schedule.course.name}>
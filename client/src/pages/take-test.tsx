@@ -6,18 +6,24 @@ import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, CheckCircle2, ArrowLeft, ArrowRight, Clock } from "lucide-react";
+import { AlertCircle, CheckCircle2, ArrowLeft, ArrowRight, Clock, ArrowUp, ArrowDown, MapPin } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { TestInstance } from "@shared/schema";
+import { getImagePoint } from "@/components/hotspot-editor";
+import { contentLanguageLabels } from "@/lib/utils";
+import type { QuestionType, TestInstance } from "@shared/schema";
 
 interface Question {
   id: string;
   questionText: string;
-  type: "single_choice" | "multiple_choice";
-  choices: Array<{ label: string }>; // No isCorrect flag - kept server-side only
+  type: QuestionType;
+  imageUrl?: string | null;
+  choices: Array<{ id: string; label: string; imageUrl?: string }>; // No isCorrect flag - kept server-side only; ordering steps arrive shuffled
+  unit?: string; // Numeric questions only
+  points?: number; // Missing on snapshots taken before weighted scoring
   orderIndex: number;
 }
 
@@ -25,8 +31,13 @@ interface TestStartResponse {
   testInstance: TestInstance;
   questions: Question[];
   timeLimit: number | null; // Time limit in minutes
+  timeRemaining: number | null; // Seconds left, less than the full limit when an attempt is resumed
+  answers: Record<string, any>; // Autosaved answers of a resumed attempt
+  resumed: boolean;
 }
 
+const AUTOSAVE_DELAY_MS = 1000;
+
 export default function TakeTest() {
   const { testId, assessmentId } = useParams();
   const [, setLocation] = useLocation();
@@ -36,10 +47,13 @@ export default function TakeTest() {
   const [answers, setAnswers] = useState<Record<string, any>>({});
   const [testData, setTestData] = useState<TestStartResponse | null>(null);
   const [isStarting, setIsStarting] = useState(true);
+  const [startError, setStartError] = useState<string | null>(null); // e.g. attempts used up or retake cooldown running
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null); // Time remaining in seconds (for display)
   const timeRemainingRef = useRef<number | null>(null); // Ref to hold current time remaining
   const hasAutoSubmitted = useRef(false); // Prevent multiple auto-submissions
   const timerRef = useRef<NodeJS.Timeout | null>(null); // Hold the interval reference
+  const lastSavedAnswers = useRef<string>("{}"); // Serialized answers last stored on the server
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saving" | "saved" | "error">("idle");
 
   // Start the test on mount
   useEffect(() => {
@@ -52,11 +66,26 @@ export default function TakeTest() {
       apiRequest("POST", endpoint)
         .then((res) => res.json())
         .then((data: TestStartResponse) => {
+          lastSavedAnswers.current = JSON.stringify(data.answers || {});
+          setAnswers(data.answers || {});
           setTestData(data);
           setIsStarting(false);
+          if (data.resumed) {
+            toast({
+              title: "Test Resumed",
+              description: "Your previous attempt is still in progress. Saved answers have been restored.",
+            });
+          }
         })
-        .catch((error) => {
+        .catch((error: Error) => {
           console.error("Failed to start test:", error);
+          // apiRequest errors read "<status>: <body>"; show the server's message when there is one
+          const body = error.message.replace(/^\d+: /, "");
+          try {
+            setStartError(JSON.parse(body).message || null);
+          } catch {
+            setStartError(null);
+          }
           setIsStarting(false);
         });
     }
@@ -66,8 +95,8 @@ export default function TakeTest() {
   useEffect(() => {
     if (!testData || !testData.timeLimit || timerRef.current) return;
 
-    // Initialize time remaining
-    const initialTime = testData.timeLimit * 60; // Convert minutes to seconds
+    // Initialize time remaining (a resumed attempt continues where its clock stands)
+    const initialTime = testData.timeRemaining ?? testData.timeLimit * 60; // Convert minutes to seconds
     timeRemainingRef.current = initialTime;
     setTimeRemaining(initialTime);
 
@@ -105,6 +134,28 @@ export default function TakeTest() {
     };
   }, [testData]);
 
+  // Autosave answers shortly after they change so a refresh or lost connection does not lose them
+  useEffect(() => {
+    if (!testData || hasAutoSubmitted.current) return;
+    const serialized = JSON.stringify(answers);
+    if (serialized === lastSavedAnswers.current) return;
+
+    const timeout = setTimeout(() => {
+      setSaveStatus("saving");
+      apiRequest("PUT", `/api/test-instances/${testData.testInstance.id}/answers`, { answers })
+        .then(() => {
+          lastSavedAnswers.current = serialized;
+          setSaveStatus("saved");
+        })
+        .catch((error) => {
+          console.error("Failed to autosave answers:", error);
+          setSaveStatus("error");
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [answers, testData]);
+
   // Submit test mutation
   const submitMutation = useMutation({
     mutationFn: async () => {
@@ -123,6 +174,8 @@ export default function TakeTest() {
         title: "Test Submitted",
         description: result.passed
           ? `Congratulations! You scored ${result.percentage}%`
+          : result.criticalFailures?.length
+          ? `You scored ${result.percentage}%, but a critical question was answered incorrectly.`
           : `You scored ${result.percentage}%. The passing score is 70%.`,
       });
       if (testData) {
@@ -130,6 +183,15 @@ export default function TakeTest() {
       }
     },
     onError: () => {
+      if (hasAutoSubmitted.current) {
+        // The server grades expired attempts itself from the autosaved answers
+        toast({
+          title: "Time's Up",
+          description: "Your attempt will be graded automatically with your saved answers.",
+        });
+        setLocation("/tests");
+        return;
+      }
       // Don't clear timer on error - allow student to retry
       toast({
         title: "Error",
@@ -153,7 +215,7 @@ export default function TakeTest() {
     return (
       <div className="flex items-center justify-center h-full">
         <div className="text-center">
-          <div className="text-muted-foreground">Failed to load test</div>
+          <div className="text-muted-foreground" data-testid="text-start-error">{startError || "Failed to load test"}</div>
         </div>
       </div>
     );
@@ -201,6 +263,22 @@ export default function TakeTest() {
     });
   };
 
+  const handleOrderingMove = (question: Question, from: number, to: number) => {
+    setAnswers((prev) => {
+      const order: string[] = [...(prev[question.id] || question.choices.map((c) => c.id))];
+      const [moved] = order.splice(from, 1);
+      order.splice(to, 0, moved);
+      return { ...prev, [question.id]: order };
+    });
+  };
+
+  const handleNumericAnswer = (questionId: string, value: string) => {
+    setAnswers((prev) => {
+      const { [questionId]: _, ...rest } = prev;
+      return value.trim() === "" ? rest : { ...prev, [questionId]: value };
+    });
+  };
+
   const handleNext = () => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
@@ -231,6 +309,12 @@ export default function TakeTest() {
           <div className="flex items-center justify-between">
             <h1 className="text-2xl font-bold" data-testid="text-test-title">Test in Progress</h1>
             <div className="flex items-center gap-4">
+              {/* The language is fixed when the attempt starts; changing the preference applies to the next attempt */}
+              {testData.testInstance.language && (
+                <span className="text-sm text-muted-foreground" data-testid="text-test-language">
+                  {contentLanguageLabels[testData.testInstance.language]}
+                </span>
+              )}
               {timeRemaining !== null && (
                 <div 
                   className={`flex items-center gap-2 font-medium ${
@@ -244,12 +328,20 @@ export default function TakeTest() {
               )}
               <div className="text-sm text-muted-foreground" data-testid="text-progress">
                 Question {currentQuestionIndex + 1} of {questions.length}
+                {currentQuestion.points && currentQuestion.points > 1 && ` · ${currentQuestion.points} points`}
               </div>
             </div>
           </div>
           <Progress value={progress} className="h-2" data-testid="progress-bar" />
-          <div className="text-sm text-muted-foreground" data-testid="text-answered-count">
-            Answered: {answeredCount}/{questions.length}
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <div data-testid="text-answered-count">
+              Answered: {answeredCount}/{questions.length}
+            </div>
+            <div className={saveStatus === "error" ? "text-destructive" : undefined} data-testid="text-save-status">
+              {saveStatus === "saving" && "Saving..."}
+              {saveStatus === "saved" && "All answers saved"}
+              {saveStatus === "error" && "Answers not saved - check your connection"}
+            </div>
           </div>
         </div>
 
@@ -259,6 +351,14 @@ export default function TakeTest() {
             <CardTitle className="text-lg" data-testid={`text-question-${currentQuestion.id}`}>
               {currentQuestion.questionText}
             </CardTitle>
+            {currentQuestion.imageUrl && currentQuestion.type !== "hotspot" && (
+              <img
+                src={currentQuestion.imageUrl}
+                alt=""
+                className="mt-4 max-h-72 rounded-md border object-contain bg-muted"
+                data-testid={`img-question-${currentQuestion.id}`}
+              />
+            )}
           </CardHeader>
           <CardContent className="space-y-4">
             {currentQuestion.type === "single_choice" ? (
@@ -267,24 +367,27 @@ export default function TakeTest() {
                 onValueChange={(value) => handleSingleChoice(currentQuestion.id, value)}
                 data-testid={`radio-group-${currentQuestion.id}`}
               >
-                {currentQuestion.choices.map((choice: { label: string }, index: number) => (
+                {currentQuestion.choices.map((choice, index) => (
                   <div
                     key={index}
                     className="flex items-center space-x-2"
                     data-testid={`radio-option-${currentQuestion.id}-${index}`}
                   >
-                    <RadioGroupItem value={choice.label} id={`choice-${index}`} />
-                    <Label htmlFor={`choice-${index}`} className="cursor-pointer flex-1">
+                    <RadioGroupItem value={choice.id} id={`choice-${index}`} />
+                    <Label htmlFor={`choice-${index}`} className="cursor-pointer flex-1 flex items-center gap-3">
+                      {choice.imageUrl && (
+                        <img src={choice.imageUrl} alt="" className="h-16 w-16 rounded border object-contain bg-muted" />
+                      )}
                       {choice.label}
                     </Label>
                   </div>
                 ))}
               </RadioGroup>
-            ) : (
+            ) : currentQuestion.type === "multiple_choice" ? (
               <div className="space-y-2" data-testid={`checkbox-group-${currentQuestion.id}`}>
-                {currentQuestion.choices.map((choice: { label: string }, index: number) => {
+                {currentQuestion.choices.map((choice, index) => {
                   const currentAnswers = answers[currentQuestion.id] || [];
-                  const isChecked = currentAnswers.includes(choice.label);
+                  const isChecked = currentAnswers.includes(choice.id);
                   return (
                     <div
                       key={index}
@@ -295,10 +398,13 @@ export default function TakeTest() {
                         id={`choice-${index}`}
                         checked={isChecked}
                         onCheckedChange={(checked) =>
-                          handleMultipleChoice(currentQuestion.id, choice.label, checked as boolean)
+                          handleMultipleChoice(currentQuestion.id, choice.id, checked as boolean)
                         }
                       />
-                      <Label htmlFor={`choice-${index}`} className="cursor-pointer flex-1">
+                      <Label htmlFor={`choice-${index}`} className="cursor-pointer flex-1 flex items-center gap-3">
+                        {choice.imageUrl && (
+                          <img src={choice.imageUrl} alt="" className="h-16 w-16 rounded border object-contain bg-muted" />
+                        )}
                         {choice.label}
                       </Label>
                     </div>
@@ -308,6 +414,79 @@ export default function TakeTest() {
                   Select all that apply
                 </p>
               </div>
+            ) : currentQuestion.type === "ordering" ? (
+              <div className="space-y-2" data-testid={`ordering-list-${currentQuestion.id}`}>
+                {((answers[currentQuestion.id] as string[] | undefined) || currentQuestion.choices.map((c) => c.id)).map((choiceId, index, order) => {
+                  const choice = currentQuestion.choices.find((c) => c.id === choiceId);
+                  return (
+                    <div
+                      key={choiceId}
+                      className="flex items-center gap-3 rounded-md border p-2"
+                      data-testid={`ordering-item-${currentQuestion.id}-${index}`}
+                    >
+                      <span className="w-6 text-sm font-medium text-muted-foreground">{index + 1}.</span>
+                      {choice?.imageUrl && (
+                        <img src={choice.imageUrl} alt="" className="h-12 w-12 rounded border object-contain bg-muted" />
+                      )}
+                      <span className="flex-1">{choice?.label ?? choiceId}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === 0}
+                        onClick={() => handleOrderingMove(currentQuestion, index, index - 1)}
+                        data-testid={`button-order-up-${index}`}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === order.length - 1}
+                        onClick={() => handleOrderingMove(currentQuestion, index, index + 1)}
+                        data-testid={`button-order-down-${index}`}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <p className="text-sm text-muted-foreground mt-2">
+                  Arrange the steps in the correct order
+                </p>
+              </div>
+            ) : currentQuestion.type === "hotspot" ? (
+              <div className="space-y-2">
+                <div
+                  className="relative inline-block cursor-crosshair"
+                  onClick={(e) => setAnswers((prev) => ({ ...prev, [currentQuestion.id]: getImagePoint(e) }))}
+                  data-testid={`hotspot-image-${currentQuestion.id}`}
+                >
+                  {currentQuestion.imageUrl && (
+                    <img src={currentQuestion.imageUrl} alt="" className="max-h-96 rounded-md border select-none" draggable={false} />
+                  )}
+                  {answers[currentQuestion.id] && (
+                    <MapPin
+                      className="absolute h-6 w-6 -translate-x-1/2 -translate-y-full text-destructive drop-shadow"
+                      style={{ left: `${answers[currentQuestion.id].x}%`, top: `${answers[currentQuestion.id].y}%` }}
+                    />
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Click the correct spot on the image
+                </p>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 max-w-xs">
+                <Input
+                  type="number"
+                  step="any"
+                  value={answers[currentQuestion.id] ?? ""}
+                  onChange={(e) => handleNumericAnswer(currentQuestion.id, e.target.value)}
+                  placeholder="Your answer"
+                  data-testid={`input-numeric-answer-${currentQuestion.id}`}
+                />
+                {currentQuestion.unit && <span className="text-sm text-muted-foreground">{currentQuestion.unit}</span>}
+              </div>
             )}
           </CardContent>
           <CardFooter className="flex justify-between gap-4">
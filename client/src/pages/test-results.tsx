@@ -3,20 +3,43 @@ import { useParams, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, XCircle, Award, TrendingUp, ArrowLeft } from "lucide-react";
+import { CheckCircle2, XCircle, Award, TrendingUp, ArrowLeft, AlertTriangle, MapPin, Lightbulb, EyeOff } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import type { TestInstance } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { scoringPolicyLabels } from "@/lib/utils";
+import type { CriticalFailure, HotspotAnswerConfig, NumericAnswerConfig, QuestionType, ReviewPolicy, TestInstance } from "@shared/schema";
 
-interface Question {
+interface ReviewQuestion {
   id: string;
   questionText: string;
-  type: "single_choice" | "multiple_choice";
-  choices: Array<{ label: string; isCorrect: boolean }>; // Server provides full data in results
+  type: QuestionType;
+  imageUrl?: string | null;
+  choices: Array<{ id: string; label: string; isCorrect?: boolean; imageUrl?: string }>; // Ordering steps are in the correct order
+  answerConfig?: HotspotAnswerConfig | NumericAnswerConfig | null;
+  points: number;
+  isCritical?: boolean;
+  explanation: string | null;
+  studentAnswer: any;
+  earnedPoints: number;
+  isCorrect: boolean;
+}
+
+interface TestReview {
+  policy: ReviewPolicy;
+  available: boolean;
+  unavailableReason: string | null;
+  correctCount: number;
+  questions: ReviewQuestion[] | null;
 }
 
 interface TestInstanceWithData extends TestInstance {
-  questionsData: Question[];
-  answersData: Record<string, any>;
+  questionsData: Array<{ id: string; questionText: string; type: QuestionType; points?: number; isCritical?: boolean }>; // Answer keys are only served by the review endpoint
+  criticalFailures: CriticalFailure[] | null;
+}
+
+function formatNumericAnswer(config: NumericAnswerConfig) {
+  const unit = config.unit ? ` ${config.unit}` : "";
+  return config.tolerance > 0 ? `${config.value} ± ${config.tolerance}${unit}` : `${config.value}${unit}`;
 }
 
 export default function TestResults() {
@@ -28,6 +51,11 @@ export default function TestResults() {
     enabled: !!instanceId,
   });
 
+  const { data: review } = useQuery<TestReview>({
+    queryKey: ['/api/test-instances', instanceId, 'review'],
+    enabled: !!testInstance?.submittedAt,
+  });
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -49,11 +77,15 @@ export default function TestResults() {
   }
 
   const questions = testInstance.questionsData || [];
-  const answers = testInstance.answersData || {};
   const percentage = testInstance.percentage || 0;
   const passed = testInstance.passed;
   const score = testInstance.score || 0;
+  const maxScore = testInstance.maxScore ?? questions.length;
   const totalQuestions = questions.length;
+  const criticalFailures = testInstance.criticalFailures || [];
+  const failedQuestionIds = new Set(criticalFailures.map((f) => f.questionId));
+  const scoringPolicy = testInstance.scoringPolicy ?? "all_or_nothing";
+  const correctCount = review?.correctCount;
 
   return (
     <div className="h-full overflow-auto">
@@ -80,8 +112,17 @@ export default function TestResults() {
                   {percentage}%
                 </CardTitle>
                 <CardDescription>
-                  {score} out of {totalQuestions} correct
+                  {score} out of {maxScore} points
+                  {maxScore !== totalQuestions && correctCount !== undefined && ` · ${correctCount} of ${totalQuestions} questions correct`}
                 </CardDescription>
+                <p className="text-xs text-muted-foreground mt-1" data-testid="text-scoring-policy">
+                  Scoring: {scoringPolicyLabels[scoringPolicy]}
+                </p>
+                {testInstance.autoSubmitted && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-auto-submitted">
+                    Submitted automatically with your saved answers when the time limit ran out
+                  </p>
+                )}
               </div>
               <div>
                 {passed ? (
@@ -98,8 +139,22 @@ export default function TestResults() {
               </div>
             </div>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
             <Progress value={percentage} className="h-3" data-testid="progress-score" />
+            {criticalFailures.length > 0 && (
+              <Alert variant="destructive" data-testid="alert-critical-failures">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Failed on critical {criticalFailures.length === 1 ? "question" : "questions"}</AlertTitle>
+                <AlertDescription>
+                  A wrong answer on a critical question fails the test regardless of the score:
+                  <ul className="list-disc pl-5 mt-2 space-y-1">
+                    {criticalFailures.map((failure) => (
+                      <li key={failure.questionId}>{failure.questionText}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
 
@@ -113,11 +168,11 @@ export default function TestResults() {
           </CardHeader>
           <CardContent className="grid grid-cols-3 gap-4">
             <div className="text-center" data-testid="stat-correct">
-              <div className="text-3xl font-bold text-green-600">{score}</div>
+              <div className="text-3xl font-bold text-green-600">{correctCount ?? "-"}</div>
               <div className="text-sm text-muted-foreground">Correct</div>
             </div>
             <div className="text-center" data-testid="stat-incorrect">
-              <div className="text-3xl font-bold text-destructive">{totalQuestions - score}</div>
+              <div className="text-3xl font-bold text-destructive">{correctCount !== undefined ? totalQuestions - correctCount : "-"}</div>
               <div className="text-sm text-muted-foreground">Incorrect</div>
             </div>
             <div className="text-center" data-testid="stat-total">
@@ -134,26 +189,31 @@ export default function TestResults() {
             <CardDescription>Review your answers and see the correct solutions</CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
-            {questions.map((question, index) => {
-              const studentAnswer = answers[question.id];
-              const correctChoices = question.choices
-                .filter((c) => c.isCorrect)
-                .map((c) => c.label);
-
-              let isCorrect = false;
-              if (question.type === "single_choice") {
-                isCorrect = studentAnswer && correctChoices.includes(studentAnswer);
-              } else if (question.type === "multiple_choice") {
-                const studentChoices = studentAnswer || [];
-                isCorrect =
-                  correctChoices.length === studentChoices.length &&
-                  correctChoices.every((c) => studentChoices.includes(c));
-              }
+            {!review ? (
+              <div className="text-muted-foreground">Loading review...</div>
+            ) : !review.available ? (
+              <Alert data-testid="alert-review-unavailable">
+                <EyeOff className="h-4 w-4" />
+                <AlertTitle>Answer review not available</AlertTitle>
+                <AlertDescription>{review.unavailableReason}</AlertDescription>
+              </Alert>
+            ) : review.questions!.map((question, index) => {
+              const studentAnswer = question.studentAnswer;
+              const correctChoices = question.choices.filter((c) => c.isCorrect);
+              const isCorrect = question.isCorrect;
+              const questionPoints = question.points;
+              const earnedPoints = question.earnedPoints;
+              const isPartial = !isCorrect && earnedPoints > 0;
+              // Answers are choice ids; attempts from before choice ids answered with the label
+              const answeredChoice = (value: string) =>
+                question.choices.find((c) => c.label === value) ?? question.choices.find((c) => c.id === value);
+              const choiceImage = (choice?: { imageUrl?: string }) =>
+                choice?.imageUrl ? <img src={choice.imageUrl} alt="" className="h-6 w-6 rounded object-contain bg-background mr-1" /> : null;
 
               return (
                 <Card
                   key={question.id}
-                  className={isCorrect ? "border-green-500/50" : "border-destructive/50"}
+                  className={isCorrect ? "border-green-500/50" : isPartial ? "border-yellow-500/50" : "border-destructive/50"}
                   data-testid={`card-review-question-${question.id}`}
                 >
                   <CardHeader>
@@ -163,11 +223,26 @@ export default function TestResults() {
                           <Badge variant="secondary" data-testid={`badge-question-number-${question.id}`}>
                             Question {index + 1}
                           </Badge>
+                          {question.isCritical && (
+                            <Badge
+                              variant={failedQuestionIds.has(question.id) ? "destructive" : "outline"}
+                              data-testid={`badge-critical-${question.id}`}
+                            >
+                              Critical
+                            </Badge>
+                          )}
+                          <Badge variant="outline" data-testid={`badge-points-${question.id}`}>
+                            {earnedPoints} / {questionPoints} {questionPoints === 1 ? "point" : "points"}
+                          </Badge>
                           {isCorrect ? (
                             <Badge variant="default" className="bg-green-600" data-testid={`badge-correct-${question.id}`}>
                               <CheckCircle2 className="h-3 w-3 mr-1" />
                               Correct
                             </Badge>
+                          ) : isPartial ? (
+                            <Badge variant="secondary" data-testid={`badge-partial-${question.id}`}>
+                              Partially Correct
+                            </Badge>
                           ) : (
                             <Badge variant="destructive" data-testid={`badge-incorrect-${question.id}`}>
                               <XCircle className="h-3 w-3 mr-1" />
@@ -178,6 +253,14 @@ export default function TestResults() {
                         <CardDescription className="text-base font-semibold text-foreground" data-testid={`text-review-question-${question.id}`}>
                           {question.questionText}
                         </CardDescription>
+                        {question.imageUrl && question.type !== "hotspot" && (
+                          <img
+                            src={question.imageUrl}
+                            alt=""
+                            className="mt-3 max-h-48 rounded-md border object-contain bg-muted"
+                            data-testid={`img-review-question-${question.id}`}
+                          />
+                        )}
                       </div>
                     </div>
                   </CardHeader>
@@ -185,16 +268,63 @@ export default function TestResults() {
                     <div>
                       <div className="text-sm font-medium mb-2">Your Answer:</div>
                       <div className="text-sm" data-testid={`text-student-answer-${question.id}`}>
-                        {question.type === "single_choice" ? (
+                        {question.type === "ordering" ? (
+                          studentAnswer && studentAnswer.length > 0 ? (
+                            <ol className="list-decimal list-inside space-y-1">
+                              {studentAnswer.map((step: string, i: number) => (
+                                <li key={i} className={answeredChoice(step) === question.choices[i] ? "" : "text-destructive"}>
+                                  {answeredChoice(step)?.label ?? step}
+                                </li>
+                              ))}
+                            </ol>
+                          ) : (
+                            <Badge variant="destructive">Not answered</Badge>
+                          )
+                        ) : question.type === "hotspot" ? (
+                          <div className="space-y-2">
+                            <div className="relative inline-block">
+                              {question.imageUrl && (
+                                <img
+                                  src={question.imageUrl}
+                                  alt=""
+                                  className="max-h-72 rounded-md border"
+                                  data-testid={`img-review-question-${question.id}`}
+                                />
+                              )}
+                              {((question.answerConfig as HotspotAnswerConfig | null)?.regions || []).map((region, i) => (
+                                <div
+                                  key={i}
+                                  className="absolute border-2 border-green-500 bg-green-500/20"
+                                  style={{ left: `${region.x}%`, top: `${region.y}%`, width: `${region.width}%`, height: `${region.height}%` }}
+                                />
+                              ))}
+                              {studentAnswer && (
+                                <MapPin
+                                  className={`absolute h-6 w-6 -translate-x-1/2 -translate-y-full drop-shadow ${isCorrect ? "text-green-600" : "text-destructive"}`}
+                                  style={{ left: `${studentAnswer.x}%`, top: `${studentAnswer.y}%` }}
+                                />
+                              )}
+                            </div>
+                            {!studentAnswer && <Badge variant="destructive">Not answered</Badge>}
+                          </div>
+                        ) : question.type === "numeric" ? (
+                          <Badge variant={isCorrect ? "default" : "destructive"}>
+                            {studentAnswer !== undefined && studentAnswer !== ""
+                              ? `${studentAnswer}${(question.answerConfig as NumericAnswerConfig | null)?.unit ? ` ${(question.answerConfig as NumericAnswerConfig).unit}` : ""}`
+                              : "Not answered"}
+                          </Badge>
+                        ) : question.type === "single_choice" ? (
                           <Badge variant={isCorrect ? "default" : "destructive"}>
-                            {studentAnswer || "Not answered"}
+                            {studentAnswer && choiceImage(answeredChoice(studentAnswer))}
+                            {studentAnswer ? answeredChoice(studentAnswer)?.label ?? studentAnswer : "Not answered"}
                           </Badge>
                         ) : (
                           <div className="flex flex-wrap gap-2">
                             {studentAnswer && studentAnswer.length > 0 ? (
                               studentAnswer.map((ans: string, i: number) => (
                                 <Badge key={i} variant={isCorrect ? "default" : "destructive"}>
-                                  {ans}
+                                  {choiceImage(answeredChoice(ans))}
+                                  {answeredChoice(ans)?.label ?? ans}
                                 </Badge>
                               ))
                             ) : (
@@ -204,18 +334,40 @@ export default function TestResults() {
                         )}
                       </div>
                     </div>
-                    {!isCorrect && (
+                    {!isCorrect && question.type !== "hotspot" && (
                       <div>
                         <div className="text-sm font-medium mb-2">Correct Answer:</div>
                         <div className="text-sm flex flex-wrap gap-2" data-testid={`text-correct-answer-${question.id}`}>
-                          {correctChoices.map((choice, i) => (
-                            <Badge key={i} variant="default" className="bg-green-600">
-                              {choice}
+                          {question.type === "ordering" ? (
+                            <ol className="list-decimal list-inside space-y-1">
+                              {question.choices.map((choice, i) => (
+                                <li key={i}>{choice.label}</li>
+                              ))}
+                            </ol>
+                          ) : question.type === "numeric" ? (
+                            <Badge variant="default" className="bg-green-600">
+                              {formatNumericAnswer(question.answerConfig as NumericAnswerConfig)}
                             </Badge>
-                          ))}
+                          ) : (
+                            correctChoices.map((choice, i) => (
+                              <Badge key={i} variant="default" className="bg-green-600">
+                                {choiceImage(choice)}
+                                {choice.label}
+                              </Badge>
+                            ))
+                          )}
                         </div>
                       </div>
                     )}
+                    {!isCorrect && question.type === "hotspot" && (
+                      <p className="text-sm text-muted-foreground">The correct regions are outlined in green.</p>
+                    )}
+                    {question.explanation && (
+                      <div className="flex gap-2 rounded-md bg-muted p-3 text-sm" data-testid={`text-explanation-${question.id}`}>
+                        <Lightbulb className="h-4 w-4 mt-0.5 flex-shrink-0 text-primary" />
+                        <p>{question.explanation}</p>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
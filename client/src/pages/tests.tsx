@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter }
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { FileQuestion, CheckCircle2, XCircle, Clock, TrendingUp } from "lucide-react";
+import { FileQuestion, CheckCircle2, XCircle, Clock, TrendingUp, TimerOff } from "lucide-react";
 import type { TestInstance, TestTemplate } from "@shared/schema";
 import { format } from "date-fns";
 import { useAuth } from "@/hooks/useAuth";
@@ -199,9 +199,20 @@ export default function Tests() {
                   </CardDescription>
                 </CardHeader>
                 <CardFooter>
-                  <Button variant="default" className="w-full" asChild data-testid={`button-continue-test-${test.id}`}>
-                    <a href={`/tests/instance/${test.id}`}>Continue Test</a>
-                  </Button>
+                  {test.expiresAt && new Date(test.expiresAt) < new Date() ? (
+                    // Waiting for the expiry sweeper to grade it from the autosaved answers
+                    <Badge variant="outline" className="w-full justify-center py-2" data-testid={`badge-expired-test-${test.id}`}>
+                      <TimerOff className="h-3 w-3 mr-1" />
+                      Time expired - grading automatically
+                    </Badge>
+                  ) : (
+                    <Button variant="default" className="w-full" asChild data-testid={`button-continue-test-${test.id}`}>
+                      {/* Starting again resumes the open attempt */}
+                      <a href={test.topicAssessmentId ? `/assessments/${test.topicAssessmentId}/take` : `/tests/${test.testTemplateId}/take`}>
+                        Continue Test
+                      </a>
+                    </Button>
+                  )}
                 </CardFooter>
               </Card>
             ))}
@@ -224,6 +235,12 @@ export default function Tests() {
                       </p>
                     </div>
                     <div className="flex items-center gap-4">
+                      {test.autoSubmitted && (
+                        <Badge variant="outline" data-testid={`badge-auto-submitted-${test.id}`}>
+                          <TimerOff className="h-3 w-3 mr-1" />
+                          Time expired
+                        </Badge>
+                      )}
                       <div className="text-right">
                         <p className="text-2xl font-bold">{test.percentage}%</p>
                         <p className="text-xs text-muted-foreground">{test.score} points</p>
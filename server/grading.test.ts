@@ -0,0 +1,78 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { answeredChoiceId, gradeQuestion } from "./grading";
+
+const multipleChoice = {
+  type: "multiple_choice",
+  choices: [
+    { id: "a", label: "Mirror", isCorrect: true },
+    { id: "b", label: "Signal", isCorrect: true },
+    { id: "c", label: "Accelerate", isCorrect: false },
+    { id: "d", label: "Brake", isCorrect: false },
+  ],
+};
+
+describe("gradeQuestion multiple_choice", () => {
+  it("awards full credit for exactly the correct choices", () => {
+    assert.equal(gradeQuestion(multipleChoice, ["b", "a"], "all_or_nothing"), 1);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "b"], "proportional"), 1);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "b"], "proportional_penalty"), 1);
+  });
+
+  it("counts a repeated choice once", () => {
+    assert.equal(gradeQuestion(multipleChoice, ["a", "a"], "all_or_nothing"), 0);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "a", "a", "a"], "proportional"), 0.5);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "a", "a", "a"], "proportional_penalty"), 0.5);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "b", "a", "b"], "all_or_nothing"), 1);
+  });
+
+  it("ignores ids that are not choices of the question", () => {
+    assert.equal(gradeQuestion(multipleChoice, ["a", "b", "zz", null], "all_or_nothing"), 1);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "zz", "yy"], "proportional_penalty"), 0.5);
+    assert.equal(gradeQuestion(multipleChoice, ["zz"], "proportional"), 0);
+  });
+
+  it("gives no partial credit for a blank answer or for ticking every choice", () => {
+    const oneOfFour = { ...multipleChoice, choices: multipleChoice.choices.map((choice) => ({ ...choice, isCorrect: choice.id === "a" })) };
+    for (const policy of ["proportional", "proportional_penalty"] as const) {
+      assert.equal(gradeQuestion(oneOfFour, [], policy), 0);
+      assert.equal(gradeQuestion(oneOfFour, null, policy), 0);
+      assert.equal(gradeQuestion(oneOfFour, ["a", "b", "c", "d"], policy), 0);
+      assert.equal(gradeQuestion(oneOfFour, ["b"], policy), 0);
+    }
+    assert.equal(gradeQuestion(multipleChoice, ["a", "c"], "proportional"), 0);
+    assert.equal(gradeQuestion(multipleChoice, ["a", "b", "c"], "proportional"), 0.5);
+  });
+
+  it("keeps every policy's credit between 0 and 1", () => {
+    const answers = [[], ["a", "a", "a", "a", "b", "b"], ["c", "d", "c"], ["a", "b", "c", "d"], "a", null];
+    for (const policy of ["all_or_nothing", "proportional", "proportional_penalty"] as const) {
+      for (const answer of answers) {
+        const credit = gradeQuestion(multipleChoice, answer, policy);
+        assert.ok(credit >= 0 && credit <= 1, `${policy} gave ${credit} for ${JSON.stringify(answer)}`);
+      }
+    }
+  });
+});
+
+describe("answeredChoiceId", () => {
+  const numericLabels = [
+    { id: "0", label: "2" },
+    { id: "1", label: "1" },
+    { id: "2", label: "3" },
+  ];
+
+  it("matches stored ids before labels", () => {
+    assert.equal(answeredChoiceId(numericLabels, "1"), "1");
+    assert.equal(answeredChoiceId(numericLabels, "2"), "2");
+    // Only an answer no id matches is read as a label
+    assert.equal(answeredChoiceId(numericLabels, "3"), "2");
+  });
+
+  it("matches labels in snapshots taken before choice ids", () => {
+    const withoutIds = numericLabels.map(({ label }) => ({ label }));
+    assert.equal(answeredChoiceId(withoutIds, "1"), "1");
+    assert.equal(answeredChoiceId(withoutIds, "2"), "0");
+    assert.equal(answeredChoiceId(withoutIds, "9"), null);
+  });
+});
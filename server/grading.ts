@@ -0,0 +1,99 @@
+import type { HotspotAnswerConfig, NumericAnswerConfig, ScoringPolicy } from "@shared/schema";
+
+// Snapshots taken before choice ids existed identify choices by position
+export function snapshotChoiceId(choice: any, index: number): string {
+  return choice.id ?? String(index);
+}
+
+// True once a snapshot stores its choice ids; students answer those with ids. Snapshots taken before choice ids
+// existed are given stored positional ids before they are served again, so answers to one that still has none
+// are the labels the student was shown.
+export function hasStoredChoiceIds(choices: any[]): boolean {
+  return choices.every((choice: any) => choice.id !== undefined && choice.id !== null);
+}
+
+// Ids are matched first where the snapshot stores them, so a positional id ("1") is never read as a choice labelled "1".
+// Labels still match answers saved before the upgrade.
+export function answeredChoiceId(choices: any[], value: unknown): string | null {
+  let index = -1;
+  if (hasStoredChoiceIds(choices)) {
+    index = choices.findIndex((choice: any) => choice.id === value);
+    if (index < 0) index = choices.findIndex((choice: any) => choice.label === value);
+  } else {
+    index = choices.findIndex((choice: any) => choice.label === value);
+    if (index < 0) index = choices.findIndex((_: any, i: number) => String(i) === value);
+  }
+  return index >= 0 ? snapshotChoiceId(choices[index], index) : null;
+}
+
+function clampCredit(credit: number): number {
+  return Math.min(1, Math.max(0, credit));
+}
+
+// Fraction (0..1) of a question's points earned by an answer under the instance's scoring policy
+export function gradeQuestion(question: any, answer: any, scoringPolicy: ScoringPolicy): number {
+  const choices = (question.choices as any[]) || [];
+  const correctChoices = choices.map(snapshotChoiceId).filter((_, index) => choices[index].isCorrect);
+  const partialCredit = scoringPolicy !== 'all_or_nothing';
+
+  switch (question.type) {
+    case 'single_choice': {
+      const picked = answeredChoiceId(choices, answer);
+      return picked !== null && correctChoices.includes(picked) ? 1 : 0;
+    }
+
+    case 'multiple_choice': {
+      // Each choice counts once however often it is sent, and ids that are not choices of the question are ignored
+      const picked = new Set(
+        (Array.isArray(answer) ? answer : [])
+          .map((value) => answeredChoiceId(choices, value))
+          .filter((id): id is string => id !== null)
+      );
+      const correctPicks = Array.from(picked).filter((id) => correctChoices.includes(id)).length;
+      const wrongPicks = picked.size - correctPicks;
+
+      if (scoringPolicy === 'proportional') {
+        // Share of the correct choices picked, less the share of the wrong choices picked, so neither a blank
+        // answer nor ticking everything earns credit
+        const wrongChoiceCount = choices.length - correctChoices.length;
+        const penalty = wrongChoiceCount > 0 ? wrongPicks / wrongChoiceCount : 0;
+        return correctChoices.length > 0 ? clampCredit(correctPicks / correctChoices.length - penalty) : 0;
+      }
+      if (scoringPolicy === 'proportional_penalty') {
+        // Each correct pick earns 1/n of the points, each wrong pick takes 1/n away, floored at zero
+        return correctChoices.length > 0 ? clampCredit((correctPicks - wrongPicks) / correctChoices.length) : 0;
+      }
+      return wrongPicks === 0 && correctPicks === correctChoices.length ? 1 : 0;
+    }
+
+    case 'ordering': {
+      const expected = choices.map(snapshotChoiceId);
+      const given = (Array.isArray(answer) ? answer : []).map((value) => answeredChoiceId(choices, value));
+      const inPlace = expected.filter((id, index) => given[index] === id).length;
+      if (inPlace === expected.length && given.length === expected.length) return 1;
+      // Partial-credit policies award the share of steps in the right position
+      return partialCredit && expected.length > 0 ? inPlace / expected.length : 0;
+    }
+
+    case 'hotspot': {
+      const regions = (question.answerConfig as HotspotAnswerConfig | null)?.regions || [];
+      const x = Number(answer?.x);
+      const y = Number(answer?.y);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return 0;
+      return regions.some(region =>
+        x >= region.x && x <= region.x + region.width && y >= region.y && y <= region.y + region.height
+      ) ? 1 : 0;
+    }
+
+    case 'numeric': {
+      const config = question.answerConfig as NumericAnswerConfig | null;
+      const value = typeof answer === 'string' ? parseFloat(answer.replace(',', '.')) : Number(answer);
+      if (!config || answer === null || answer === undefined || answer === '' || !Number.isFinite(value)) return 0;
+      // Small epsilon so a tolerance of 0.1 accepts answers that are off by exactly 0.1
+      return Math.abs(value - config.value) <= config.tolerance + 1e-9 ? 1 : 0;
+    }
+
+    default:
+      return 0;
+  }
+}
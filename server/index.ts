@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startTestExpirySweeper } from "./testExpirySweeper";
+import { startItemAnalysisJob } from "./itemAnalysisJob";
+import { storage } from "./storage";
 
 const app = express();
 
@@ -77,5 +80,18 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startTestExpirySweeper();
+    startItemAnalysisJob();
+    // Questions archived before the review workflow move to archived status; questions added before choice ids
+    // and versioning (or by the seed scripts) get their ids and first version
+    storage.ensureArchivedStatus()
+      .then((count) => count > 0 && log(`moved ${count} archived question(s) to archived status`, "questions"))
+      .catch((error) => console.error("Error moving archived questions to archived status:", error))
+      .then(() => storage.ensureChoiceIds())
+      .then((count) => count > 0 && log(`assigned choice ids for ${count} question(s)`, "questions"))
+      .catch((error) => console.error("Error assigning choice ids:", error))
+      .then(() => storage.ensureQuestionVersions())
+      .then((count) => count > 0 && log(`recorded initial versions for ${count} question(s)`, "questions"))
+      .catch((error) => console.error("Error recording initial question versions:", error));
   });
 })();
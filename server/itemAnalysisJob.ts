@@ -0,0 +1,29 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const ANALYSIS_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+let isRunning = false;
+
+// Recomputes difficulty, discrimination and distractor statistics for the question bank.
+// Returns the number of questions analysed, or null when a run is already in progress.
+export async function runItemAnalysis(): Promise<number | null> {
+  if (isRunning) return null;
+  isRunning = true;
+  try {
+    const analysed = await storage.computeQuestionStatistics();
+    log(`item analysis updated for ${analysed} question(s)`, "questions");
+    return analysed;
+  } finally {
+    isRunning = false;
+  }
+}
+
+// Keeps the statistics fresh between manual recomputes from the question bank page
+export function startItemAnalysisJob() {
+  const timer = setInterval(() => {
+    runItemAnalysis().catch((error) => console.error("Error running item analysis:", error));
+  }, ANALYSIS_INTERVAL_MS);
+  // Don't keep the process alive just for the job
+  timer.unref();
+}
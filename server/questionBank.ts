@@ -0,0 +1,415 @@
+import { z } from "zod";
+import { questionDefinitionSchema, questionTypeEnum } from "@shared/schema";
+
+// Bulk import/export of the question bank. Both formats describe the same tree:
+// category → topic → questions, plus questions that are not filed under a topic.
+// JSON is lossless; CSV has one row per question with list cells separated by "|"
+// (a literal pipe is written as "\|").
+export const QUESTION_BANK_MAX_BYTES = 5 * 1024 * 1024;
+export const QUESTION_BANK_FORMAT_VERSION = 1;
+
+export const QUESTION_BANK_CSV_COLUMNS = [
+  "id",
+  "category",
+  "topic",
+  "type",
+  "question",
+  "choices",
+  "correct",
+  "choice_images",
+  "answer_config",
+  "explanation",
+  "tags",
+  "points",
+  "critical",
+  "image_url",
+] as const;
+
+const bankChoiceSchema = z.object({
+  label: z.string().trim().min(1, "Choice text is required"),
+  isCorrect: z.boolean().optional(),
+  imageUrl: z.string().optional(),
+});
+
+const bankQuestionSchema = z.object({
+  id: z.string().trim().min(1).optional(),
+  questionText: z.string().trim().min(1, "Question text is required"),
+  type: z.enum(questionTypeEnum.enumValues),
+  choices: z.array(bankChoiceSchema).default([]),
+  answerConfig: z.unknown().optional().nullable(),
+  explanation: z.string().trim().optional().nullable(),
+  tags: z.array(z.string().trim().min(1)).default([]),
+  points: z.number().int().min(1, "Points must be at least 1").default(1),
+  isCritical: z.boolean().default(false),
+  imageUrl: z.string().trim().optional().nullable(),
+});
+
+export type QuestionBankQuestion = z.infer<typeof bankQuestionSchema>;
+export type QuestionBankTopic = { name: string; description?: string | null; questions: QuestionBankQuestion[] };
+export type QuestionBankCategory = { name: string; description?: string | null; topics: QuestionBankTopic[] };
+export type QuestionBank = {
+  format: "question-bank";
+  version: number;
+  categories: QuestionBankCategory[];
+  questions: QuestionBankQuestion[]; // Not filed under a topic
+};
+
+// Where in the uploaded file a problem was found, e.g. "Row 12" or "Traffic signs › Warning signs › question 3"
+export type QuestionBankError = { location: string; message: string };
+
+// The file's tree before question validation; questions are checked one by one so a single bad
+// question is reported without rejecting the rest of the file
+const bankFileSchema = z.object({
+  format: z.literal("question-bank").optional(),
+  version: z.number().int().optional(),
+  categories: z.array(z.object({
+    name: z.string().trim().min(1, "Category name is required"),
+    description: z.string().optional().nullable(),
+    topics: z.array(z.object({
+      name: z.string().trim().min(1, "Topic name is required"),
+      description: z.string().optional().nullable(),
+      questions: z.array(z.unknown()).default([]),
+    })).default([]),
+  })).default([]),
+  questions: z.array(z.unknown()).default([]),
+});
+
+function validateQuestion(raw: unknown, location: string, errors: QuestionBankError[]): QuestionBankQuestion | null {
+  const parsed = bankQuestionSchema.safeParse(raw);
+  if (!parsed.success) {
+    parsed.error.errors.forEach((issue) => errors.push({ location, message: `${issue.path.join(".") || "question"}: ${issue.message}` }));
+    return null;
+  }
+  const definition = questionDefinitionSchema.safeParse(parsed.data);
+  if (!definition.success) {
+    definition.error.errors.forEach((issue) => errors.push({ location, message: issue.message }));
+    return null;
+  }
+  return parsed.data;
+}
+
+// The same question text twice in one topic would upsert onto the same question
+function checkDuplicates(bank: QuestionBank, errors: QuestionBankError[]) {
+  const seen = new Set<string>();
+  const check = (question: QuestionBankQuestion, scope: string) => {
+    const key = `${scope}\u0000${question.questionText.trim().toLowerCase()}`;
+    if (seen.has(key)) {
+      errors.push({ location: scope || "Unfiled questions", message: `Duplicate question "${question.questionText}"` });
+    }
+    seen.add(key);
+  };
+  bank.categories.forEach((category) => category.topics.forEach((topic) =>
+    topic.questions.forEach((question) => check(question, `${category.name.trim().toLowerCase()} › ${topic.name.trim().toLowerCase()}`))
+  ));
+  bank.questions.forEach((question) => check(question, ""));
+}
+
+export function parseQuestionBankJson(text: string): { bank: QuestionBank; errors: QuestionBankError[] } {
+  const errors: QuestionBankError[] = [];
+  const bank: QuestionBank = { format: "question-bank", version: QUESTION_BANK_FORMAT_VERSION, categories: [], questions: [] };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch (error: any) {
+    return { bank, errors: [{ location: "File", message: `Invalid JSON: ${error.message}` }] };
+  }
+
+  const file = bankFileSchema.safeParse(json);
+  if (!file.success) {
+    return {
+      bank,
+      errors: file.error.errors.map((issue) => ({ location: issue.path.join(".") || "File", message: issue.message })),
+    };
+  }
+
+  for (const category of file.data.categories) {
+    const topics: QuestionBankTopic[] = category.topics.map((topic) => ({
+      name: topic.name,
+      description: topic.description,
+      questions: topic.questions
+        .map((raw, index) => validateQuestion(raw, `${category.name} › ${topic.name} › question ${index + 1}`, errors))
+        .filter((question): question is QuestionBankQuestion => question !== null),
+    }));
+    bank.categories.push({ name: category.name, description: category.description, topics });
+  }
+  bank.questions = file.data.questions
+    .map((raw, index) => validateQuestion(raw, `Unfiled question ${index + 1}`, errors))
+    .filter((question): question is QuestionBankQuestion => question !== null);
+
+  checkDuplicates(bank, errors);
+  return { bank, errors };
+}
+
+// RFC 4180 records: quoted fields may contain commas, doubled quotes and line breaks
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+function splitList(value: string): string[] {
+  if (value.trim() === "") return [];
+  return value
+    .split(/(?<!\\)\|/)
+    .map((item) => item.replace(/\\\|/g, "|").trim());
+}
+
+function joinList(items: string[]): string {
+  return items.map((item) => item.replace(/\|/g, "\\|")).join("|");
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["", "no", "false", "0"].includes(normalized)) return false;
+  if (["yes", "true", "1"].includes(normalized)) return true;
+  return null;
+}
+
+export function parseQuestionBankCsv(text: string): { bank: QuestionBank; errors: QuestionBankError[] } {
+  const errors: QuestionBankError[] = [];
+  const bank: QuestionBank = { format: "question-bank", version: QUESTION_BANK_FORMAT_VERSION, categories: [], questions: [] };
+
+  const [header, ...rows] = parseCsvRecords(text);
+  if (!header) {
+    return { bank, errors: [{ location: "File", message: "The file is empty" }] };
+  }
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = ["type", "question"].filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return { bank, errors: [{ location: "Header", message: `Missing column(s): ${missing.join(", ")}` }] };
+  }
+
+  rows.forEach((row, index) => {
+    // Blank lines (e.g. a trailing newline) are not questions
+    if (row.every((value) => value.trim() === "")) return;
+    // Row numbers match a spreadsheet: the header is row 1
+    const location = `Row ${index + 2}`;
+    const cell = (name: typeof QUESTION_BANK_CSV_COLUMNS[number]) => {
+      const position = columns.indexOf(name);
+      return position >= 0 ? (row[position] ?? "").trim() : "";
+    };
+    const rowErrors: QuestionBankError[] = [];
+
+    const type = cell("type");
+    const labels = splitList(cell("choices"));
+    const correct = splitList(cell("correct")).map((value) => parseInt(value, 10));
+    const choiceImages = splitList(cell("choice_images"));
+    if (correct.some((position) => !Number.isInteger(position) || position < 1 || position > labels.length)) {
+      rowErrors.push({ location, message: `correct: use choice numbers between 1 and ${labels.length}` });
+    }
+
+    let answerConfig: unknown = null;
+    if (cell("answer_config")) {
+      try {
+        answerConfig = JSON.parse(cell("answer_config"));
+      } catch {
+        rowErrors.push({ location, message: "answer_config: not valid JSON" });
+      }
+    }
+
+    const isCritical = parseBoolean(cell("critical"));
+    if (isCritical === null) {
+      rowErrors.push({ location, message: "critical: use yes or no" });
+    }
+    const points = cell("points") ? Number(cell("points")) : 1;
+
+    const categoryName = cell("category");
+    const topicName = cell("topic");
+    if (!!categoryName !== !!topicName) {
+      rowErrors.push({ location, message: "category and topic must be given together" });
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const question = validateQuestion({
+      id: cell("id") || undefined,
+      questionText: cell("question"),
+      type,
+      choices: labels.map((label, position) => ({
+        label,
+        ...(type !== "ordering" ? { isCorrect: correct.includes(position + 1) } : {}),
+        ...(choiceImages[position] ? { imageUrl: choiceImages[position] } : {}),
+      })),
+      answerConfig,
+      explanation: cell("explanation") || null,
+      tags: splitList(cell("tags")),
+      points,
+      isCritical,
+      imageUrl: cell("image_url") || null,
+    }, location, errors);
+    if (!question) return;
+
+    if (!categoryName) {
+      bank.questions.push(question);
+      return;
+    }
+    let category = bank.categories.find((c) => c.name.toLowerCase() === categoryName.toLowerCase());
+    if (!category) {
+      category = { name: categoryName, topics: [] };
+      bank.categories.push(category);
+    }
+    let topic = category.topics.find((t) => t.name.toLowerCase() === topicName.toLowerCase());
+    if (!topic) {
+      topic = { name: topicName, questions: [] };
+      category.topics.push(topic);
+    }
+    topic.questions.push(question);
+  });
+
+  checkDuplicates(bank, errors);
+  return { bank, errors };
+}
+
+function escapeCsvField(value: string | number): string {
+  const str = String(value);
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+export function questionBankToCsv(bank: QuestionBank): string {
+  const toRow = (question: QuestionBankQuestion, categoryName: string, topicName: string) => {
+    const values: Record<typeof QUESTION_BANK_CSV_COLUMNS[number], string | number> = {
+      id: question.id || "",
+      category: categoryName,
+      topic: topicName,
+      type: question.type,
+      question: question.questionText,
+      choices: joinList(question.choices.map((choice) => choice.label)),
+      correct: question.type === "ordering"
+        ? ""
+        : question.choices.flatMap((choice, index) => (choice.isCorrect ? [String(index + 1)] : [])).join("|"),
+      choice_images: question.choices.some((choice) => choice.imageUrl)
+        ? joinList(question.choices.map((choice) => choice.imageUrl || ""))
+        : "",
+      answer_config: question.answerConfig ? JSON.stringify(question.answerConfig) : "",
+      explanation: question.explanation || "",
+      tags: joinList(question.tags),
+      points: question.points,
+      critical: question.isCritical ? "yes" : "no",
+      image_url: question.imageUrl || "",
+    };
+    return QUESTION_BANK_CSV_COLUMNS.map((column) => escapeCsvField(values[column])).join(",");
+  };
+
+  return [
+    QUESTION_BANK_CSV_COLUMNS.join(","),
+    ...bank.categories.flatMap((category) => category.topics.flatMap((topic) =>
+      topic.questions.map((question) => toRow(question, category.name, topic.name))
+    )),
+    ...bank.questions.map((question) => toRow(question, "", "")),
+  ].join("\r\n");
+}
+
+export type QuestionBankImportItem = {
+  location: string;
+  questionText: string;
+  action: "create" | "update" | "unchanged";
+};
+
+export type QuestionBankImportSummary = {
+  categoriesCreated: number;
+  topicsCreated: number;
+  questionsCreated: number;
+  questionsUpdated: number;
+  questionsUnchanged: number;
+  items: QuestionBankImportItem[];
+};
+
+function normalizeChoice(choice: { label: string; isCorrect?: boolean; imageUrl?: string }) {
+  return {
+    label: choice.label,
+    ...(choice.isCorrect !== undefined ? { isCorrect: !!choice.isCorrect } : {}),
+    ...(choice.imageUrl ? { imageUrl: choice.imageUrl } : {}),
+  };
+}
+
+// Question columns as written by an import; also the shape compared to detect unchanged questions
+export function toQuestionContent(question: QuestionBankQuestion) {
+  return {
+    questionText: question.questionText,
+    type: question.type,
+    choices: question.choices.map(normalizeChoice),
+    answerConfig: question.answerConfig ?? null,
+    explanation: question.explanation || null,
+    tags: question.tags,
+    points: question.points,
+    isCritical: question.isCritical,
+    imageUrl: question.imageUrl || null,
+  };
+}
+
+export function toBankQuestion(question: {
+  id: string;
+  questionText: string;
+  type: QuestionBankQuestion["type"];
+  choices: unknown;
+  answerConfig: unknown;
+  explanation: string | null;
+  tags: unknown;
+  points: number;
+  isCritical: boolean;
+  imageUrl: string | null;
+}): QuestionBankQuestion {
+  return {
+    id: question.id,
+    questionText: question.questionText,
+    type: question.type,
+    choices: ((question.choices as Array<{ label: string; isCorrect?: boolean; imageUrl?: string }>) || []).map(normalizeChoice),
+    answerConfig: question.answerConfig ?? null,
+    explanation: question.explanation,
+    tags: Array.isArray(question.tags) ? question.tags : [],
+    points: question.points,
+    isCritical: question.isCritical,
+    imageUrl: question.imageUrl,
+  };
+}
+
+// JSON with sorted keys, so jsonb's key reordering doesn't count as a change
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function isSameQuestionContent(a: QuestionBankQuestion, b: QuestionBankQuestion): boolean {
+  return stableStringify(toQuestionContent(a)) === stableStringify(toQuestionContent(b));
+}
@@ -0,0 +1,40 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Question images live on local disk. Files are named after a hash of their
+// contents and never overwritten or deleted, so the URL stored in a test
+// instance's questionsData snapshot keeps resolving after the question is edited.
+export const QUESTION_MEDIA_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads", "question-media");
+export const QUESTION_MEDIA_URL_PREFIX = "/uploads/question-media";
+export const QUESTION_MEDIA_MAX_BYTES = 5 * 1024 * 1024;
+
+const extensionsByMimeType: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+export function isSupportedQuestionMediaType(mimeType: string | undefined): boolean {
+  return !!mimeType && mimeType in extensionsByMimeType;
+}
+
+export async function saveQuestionMedia(data: Buffer, mimeType: string): Promise<{ url: string }> {
+  const extension = extensionsByMimeType[mimeType];
+  if (!extension) {
+    throw new Error(`Unsupported image type: ${mimeType}`);
+  }
+
+  const fileName = `${createHash("sha256").update(data).digest("hex")}.${extension}`;
+  await fs.mkdir(QUESTION_MEDIA_DIR, { recursive: true });
+
+  // Identical uploads map to the same file, so an existing one is left as is
+  try {
+    await fs.writeFile(path.join(QUESTION_MEDIA_DIR, fileName), data, { flag: "wx" });
+  } catch (error: any) {
+    if (error.code !== "EEXIST") throw error;
+  }
+
+  return { url: `${QUESTION_MEDIA_URL_PREFIX}/${fileName}` };
+}
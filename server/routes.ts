@@ -1,15 +1,19 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { localize } from "./translations";
 import { setupAuth, isAuthenticated, requireRole } from "./replitAuth";
 import Stripe from "stripe";
 import { z } from "zod";
-import { insertCourseSchema, insertTopicSchema, insertPostSchema, insertQuestionCategorySchema, insertQuestionTopicSchema, insertQuestionSchema, insertTestTemplateSchema, insertScheduleSchema, topicAssessments } from "@shared/schema";
+import { insertCourseSchema, insertTopicSchema, insertPostSchema, insertQuestionCategorySchema, insertQuestionTopicSchema, insertQuestionSchema, questionDefinitionSchema, insertTestTemplateSchema, insertScheduleSchema, insertInstructorAvailabilitySchema, insertAvailabilityExceptionSchema, insertVehicleSchema, insertDrivingHoursAdjustmentSchema, insertEvaluationRubricSchema, submitLessonEvaluationSchema, insertExamSignOffSchema, insertStateExamSchema, updateStateExamSchema, insertAssessmentAttemptGrantSchema, questionFlagSchema, questionReviewActionSchema, translationUpdateSchemas, insertPaymentPlanSchema, insertPromotionSchema, updatePromotionSchema, createRefundSchema, recordManualPaymentSchema, reconcileBankTransferSchema, updateSchoolSettingsSchema, userPreferencesSchema, contentLanguageEnum, blueprintSchema, topicAssessments, type Payment, type PaymentMethod, type PaymentRefund, type PaymentStatus, type Invoice, type InvoiceSeller, type InvoiceType } from "@shared/schema";
 import { db } from "./db";
 import { eq } from "drizzle-orm";
 import express from "express";
 import PDFDocument from "pdfkit";
 import bcrypt from "bcrypt";
+import { runItemAnalysis } from "./itemAnalysisJob";
+import { QUESTION_BANK_MAX_BYTES, parseQuestionBankCsv, parseQuestionBankJson, questionBankToCsv } from "./questionBank";
+import { QUESTION_MEDIA_DIR, QUESTION_MEDIA_MAX_BYTES, QUESTION_MEDIA_URL_PREFIX, isSupportedQuestionMediaType, saveQuestionMedia } from "./questionMedia";
 import passport from "passport";
 
 // CSV helper to escape fields
@@ -22,6 +26,26 @@ function csvEscape(value: string | number | boolean | null | undefined): string
   return str;
 }
 
+// Validates a random-mode blueprint in an assessment/template body and sets questionCount to the total it draws
+function normalizeBlueprint(body: any): { success: true; data: any } | { success: false; error: z.ZodError } {
+  if (body.blueprint === undefined) {
+    return { success: true, data: body };
+  }
+  const parsed = blueprintSchema.safeParse(body.blueprint);
+  if (!parsed.success) {
+    return { success: false, error: parsed.error };
+  }
+  const blueprint = parsed.data?.length ? parsed.data : null;
+  return {
+    success: true,
+    data: {
+      ...body,
+      blueprint,
+      ...(blueprint ? { questionCount: blueprint.reduce((total, rule) => total + rule.count, 0) } : {}),
+    },
+  };
+}
+
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
 }
@@ -30,6 +54,238 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2025-10-29.clover",
 });
 
+function stripeObjectId(value: string | { id: string } | null): string | null {
+  return typeof value === 'string' ? value : value?.id ?? null;
+}
+
+function refundStatusFromStripe(status: string | null): PaymentRefund["status"] {
+  return status === 'succeeded' || status === 'failed' || status === 'canceled' ? status : 'pending';
+}
+
+// A paid course payment (re)activates the student's enrollment, e.g. after an earlier refund deactivated it
+async function activatePaidEnrollment(payment: Payment): Promise<void> {
+  const existing = await storage.getEnrollment(payment.courseId, payment.studentId);
+  if (!existing) {
+    await storage.createEnrollment({ courseId: payment.courseId, studentId: payment.studentId });
+  } else if (!existing.isActive) {
+    await storage.updateEnrollment(existing.id, { isActive: true });
+  }
+}
+
+// Once a course or installment is paid by cash or bank transfer, or the student starts paying it again, the card
+// payment the student started is no longer needed. Intents Stripe won't cancel have already gone through; the
+// webhook settles those. Returns whether every superseded payment was canceled.
+async function cancelSupersededCardPayments(payment: Pick<Payment, 'courseId' | 'studentId' | 'installmentId'> & { id?: string }): Promise<boolean> {
+  const superseded = (await storage.getPaymentsByStudent(payment.studentId)).filter(other =>
+    other.id !== payment.id &&
+    other.status === 'pending' &&
+    other.stripePaymentIntentId &&
+    other.courseId === payment.courseId &&
+    other.installmentId === payment.installmentId
+  );
+  let allCanceled = true;
+  for (const other of superseded) {
+    try {
+      await stripe.paymentIntents.cancel(other.stripePaymentIntentId!);
+    } catch (error) {
+      console.error("Error canceling superseded payment intent:", error);
+      allCanceled = false;
+      continue;
+    }
+    await storage.updatePayment(other.id, { status: 'failed' });
+  }
+  return allCanceled;
+}
+
+// Mirrors a Stripe refund onto its payment; refunds of payment intents we didn't create are ignored
+async function syncStripeRefund(refund: Stripe.Refund): Promise<Payment | undefined> {
+  const paymentIntentId = stripeObjectId(refund.payment_intent);
+  const payment = paymentIntentId ? await storage.getPaymentByStripeIntent(paymentIntentId) : undefined;
+  if (!payment) return undefined;
+
+  return await storage.recordRefund({
+    paymentId: payment.id,
+    amount: (refund.amount / 100).toFixed(2),
+    reason: refund.metadata?.reason || refund.reason,
+    status: refundStatusFromStripe(refund.status),
+    stripeRefundId: refund.id,
+  });
+}
+
+// Applies one webhook event and returns the payment it concerned, if any
+async function handleStripeEvent(event: Stripe.Event): Promise<Payment | undefined> {
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const payment = await storage.getPaymentByStripeIntent(event.data.object.id);
+      if (!payment || (payment.status !== 'pending' && payment.status !== 'failed')) return payment;
+
+      const paid = await storage.updatePayment(payment.id, { status: 'paid', paidAt: new Date() });
+      await activatePaidEnrollment(paid);
+      return paid;
+    }
+    case 'payment_intent.payment_failed': {
+      const payment = await storage.getPaymentByStripeIntent(event.data.object.id);
+      if (!payment || payment.status !== 'pending') return payment;
+      return await storage.updatePayment(payment.id, { status: 'failed' });
+    }
+    case 'charge.refunded': {
+      // The charge doesn't list its refunds, so fetch them to pick up refunds issued in the Stripe dashboard
+      const paymentIntentId = stripeObjectId(event.data.object.payment_intent);
+      if (!paymentIntentId) return undefined;
+      const refunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+      let payment: Payment | undefined;
+      for (const refund of refunds.data) {
+        payment = (await syncStripeRefund(refund)) ?? payment;
+      }
+      return payment;
+    }
+    case 'refund.created':
+    case 'refund.updated':
+    case 'refund.failed':
+      return await syncStripeRefund(event.data.object);
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed': {
+      const dispute = event.data.object;
+      const paymentIntentId = stripeObjectId(dispute.payment_intent);
+      const payment = paymentIntentId ? await storage.getPaymentByStripeIntent(paymentIntentId) : undefined;
+      if (!payment) return undefined;
+
+      const outcome = event.type === 'charge.dispute.created' ? 'opened' : dispute.status === 'lost' ? 'lost' : 'won';
+      return await storage.updatePaymentDispute(payment.id, outcome);
+    }
+    default:
+      return undefined;
+  }
+}
+
+const invoicePaymentMethods: Record<PaymentMethod, string> = {
+  card: 'by card',
+  cash: 'in cash',
+  bank_transfer: 'by bank transfer',
+};
+
+function formatInvoiceMoney(amount: string | number, currency: string): string {
+  return `${currency.toUpperCase()} ${Number(amount).toFixed(2)}`;
+}
+
+function formatInvoiceDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'Europe/Riga' });
+}
+
+// Draws an invoice or credit note from the details it was issued with. Invoices are only issued for
+// collected payments, so an invoice doubles as the student's receipt.
+function writeInvoicePdf(doc: PDFKit.PDFDocument, invoice: Invoice, payment: Payment): void {
+  const seller = invoice.seller as InvoiceSeller;
+  const isCreditNote = invoice.type === 'credit_note';
+  const left = 50;
+  const right = doc.page.width - 50;
+  const width = right - left;
+
+  // Seller
+  doc.fontSize(16).font('Helvetica-Bold').fillColor('#0f172a').text(seller.legalName, left, 50, { width: 280 });
+  doc.fontSize(9).font('Helvetica').fillColor('#475569');
+  const sellerLines = [
+    seller.address,
+    seller.registrationNumber && `Registration No: ${seller.registrationNumber}`,
+    seller.vatNumber && `VAT No: ${seller.vatNumber}`,
+    seller.email,
+    seller.phone,
+  ].filter(Boolean) as string[];
+  for (const line of sellerLines) {
+    doc.text(line, { width: 280 });
+  }
+
+  // Document title and number
+  doc.fontSize(22).font('Helvetica-Bold').fillColor('#1e40af')
+    .text(isCreditNote ? 'CREDIT NOTE' : 'INVOICE', left, 50, { width, align: 'right' });
+  doc.fontSize(10).font('Helvetica').fillColor('#0f172a')
+    .text(`No: ${invoice.number}`, { width, align: 'right' })
+    .text(`Date: ${formatInvoiceDate(invoice.issuedAt)}`, { width, align: 'right' });
+  if (isCreditNote && invoice.originalInvoiceNumber) {
+    doc.text(`Corrects invoice ${invoice.originalInvoiceNumber}`, { width, align: 'right' });
+  }
+
+  // Buyer
+  let y = Math.max(doc.y, 150) + 20;
+  doc.fontSize(9).font('Helvetica-Bold').fillColor('#64748b').text('BILL TO', left, y);
+  doc.fontSize(11).font('Helvetica').fillColor('#0f172a').text(invoice.buyerName);
+  if (invoice.buyerEmail) {
+    doc.fontSize(9).fillColor('#475569').text(invoice.buyerEmail);
+  }
+
+  // Line item
+  y = doc.y + 25;
+  doc.rect(left, y, width, 20).fill('#f1f5f9');
+  doc.fontSize(9).font('Helvetica-Bold').fillColor('#475569')
+    .text('DESCRIPTION', left + 8, y + 6)
+    .text('AMOUNT', left, y + 6, { width: width - 8, align: 'right' });
+  y += 28;
+  doc.fontSize(10).font('Helvetica').fillColor('#0f172a')
+    .text(invoice.description, left + 8, y, { width: width - 130 })
+    .text(formatInvoiceMoney(invoice.totalAmount, invoice.currency), left, y, { width: width - 8, align: 'right' });
+  y = doc.y + 4;
+
+  // How the amount paid came about, when a promotion code or referral credit reduced it
+  const discount = parseFloat(payment.discountAmount);
+  const credit = parseFloat(payment.creditAmount);
+  if (!isCreditNote && payment.listPrice && discount + credit > 0) {
+    doc.fontSize(8).fillColor('#64748b');
+    doc.text(`Price ${formatInvoiceMoney(payment.listPrice, invoice.currency)}`, left + 8, y);
+    if (discount > 0) doc.text(`Promotion discount -${formatInvoiceMoney(discount, invoice.currency)}`);
+    if (credit > 0) doc.text(`Referral credit -${formatInvoiceMoney(credit, invoice.currency)}`);
+    y = doc.y;
+  }
+
+  // Totals
+  y += 16;
+  doc.moveTo(left, y).lineTo(right, y).lineWidth(0.5).stroke('#cbd5e1');
+  y += 10;
+  const totalsLabelX = right - 260;
+  const vatRate = parseFloat(invoice.vatRate);
+  const totalRows: Array<[string, string]> = vatRate > 0
+    ? [
+      ['Amount excl. VAT', formatInvoiceMoney(invoice.netAmount, invoice.currency)],
+      [`VAT ${vatRate}%`, formatInvoiceMoney(invoice.vatAmount, invoice.currency)],
+    ]
+    : [];
+  doc.fontSize(10).font('Helvetica').fillColor('#0f172a');
+  for (const [label, value] of totalRows) {
+    doc.text(label, totalsLabelX, y).text(value, left, y, { width: width - 8, align: 'right' });
+    y += 16;
+  }
+  doc.font('Helvetica-Bold')
+    .text(isCreditNote ? 'Total credited' : 'Total', totalsLabelX, y)
+    .text(formatInvoiceMoney(invoice.totalAmount, invoice.currency), left, y, { width: width - 8, align: 'right' });
+  y += 16;
+  if (vatRate === 0) {
+    doc.fontSize(8).font('Helvetica').fillColor('#64748b').text('VAT not charged', totalsLabelX, y);
+    y += 14;
+  }
+
+  // Payment status
+  y += 20;
+  doc.fontSize(10).font('Helvetica-Bold').fillColor(isCreditNote ? '#b45309' : '#15803d')
+    .text(
+      isCreditNote
+        ? `Refunded to the student on ${formatInvoiceDate(invoice.issuedAt)}`
+        : `Paid${parseFloat(payment.amount) > 0 ? ` ${invoicePaymentMethods[payment.method]}` : ''}${payment.paidAt ? ` on ${formatInvoiceDate(payment.paidAt)}` : ''}`,
+      left, y,
+    );
+  const paymentReference = payment.stripePaymentIntentId ?? payment.reference;
+  if (paymentReference) {
+    doc.fontSize(8).font('Helvetica').fillColor('#64748b').text(`Payment reference: ${paymentReference}`);
+  }
+
+  // Bank details
+  if (seller.bankAccount) {
+    doc.fontSize(8).font('Helvetica').fillColor('#64748b')
+      .text(
+        [seller.legalName, seller.bankName, seller.bankAccount].filter(Boolean).join(' · '),
+        left, doc.page.height - 80, { width, align: 'center' },
+      );
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -100,6 +356,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch('/api/auth/user/preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validationResult = userPreferencesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid preferences", errors: validationResult.error.errors });
+      }
+
+      const user = await storage.updateUser(userId, validationResult.data);
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating preferences:", error);
+      res.status(500).json({ message: "Failed to update preferences" });
+    }
+  });
+
   // Dashboard stats
   app.get('/api/dashboard/stats', isAuthenticated, async (req: any, res) => {
     try {
@@ -129,6 +401,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/courses', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
       const coursesWithCounts = await storage.getCoursesWithScheduleCount();
       const enrollments = await storage.getEnrollmentsByStudent(userId);
       const payments = await storage.getPaymentsByStudent(userId);
@@ -137,7 +410,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const enrollment = enrollments.find(e => e.courseId === course.id);
         const payment = payments.find(p => p.courseId === course.id);
         return {
-          ...course,
+          ...localize(course, user?.preferredLanguage),
           enrollment,
           payment,
           progress: enrollment ? (enrollment.completedAt ? 100 : 50) : 0,
@@ -185,8 +458,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You must be enrolled in this course to view its content" });
       }
 
-      // Only show published assessments with questions to students
-      const courseData = await storage.getCourseWithContent(courseId, true);
+      // Only show published assessments with questions to students, in their chosen language
+      const user = await storage.getUser(userId);
+      const courseData = await storage.getCourseWithContent(courseId, true, user?.preferredLanguage);
       if (!courseData) {
         return res.status(404).json({ message: "Course not found" });
       }
@@ -235,13 +509,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // For now, allow any authenticated user to take the test
       // Will be properly implemented once assessment-based enrollment checks are added
 
-      const result = await storage.startTest(testId, userId);
+      const user = await storage.getUser(userId);
+      const result = await storage.startTest(testId, userId, user?.preferredLanguage);
       res.json(result);
     } catch (error: any) {
       console.error("Error starting test:", error);
       if (error.message && error.message.includes('Maximum attempts')) {
         return res.status(403).json({ message: error.message });
       }
+      if (error.message && error.message.includes('Not enough questions')) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to start test" });
     }
   });
@@ -251,7 +529,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { instanceId } = req.params;
-      const { answers } = req.body;
+
+      const parsed = z.record(z.any()).safeParse(req.body?.answers);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid answers", errors: parsed.error.errors });
+      }
 
       // Verify the test instance belongs to the user
       const instance = await storage.getTestInstance(instanceId);
@@ -263,14 +545,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Test already submitted" });
       }
 
-      const result = await storage.submitTest(instanceId, answers);
+      const result = await storage.submitTest(instanceId, parsed.data);
       res.json(result);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error submitting test:", error);
+      if (error.message && error.message.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('already submitted')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('Time limit')) {
+        return res.status(403).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to submit test" });
     }
   });
 
+  // Autosave answers of an attempt in progress
+  app.put('/api/test-instances/:instanceId/answers', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { instanceId } = req.params;
+
+      const parsed = z.record(z.any()).safeParse(req.body.answers);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid answers", errors: parsed.error.errors });
+      }
+
+      const instance = await storage.getTestInstance(instanceId);
+      if (!instance || instance.studentId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      const updated = await storage.saveTestAnswers(instanceId, parsed.data);
+      res.json({ savedAt: new Date().toISOString(), answeredCount: Object.keys(updated.answersData as Record<string, any>).length });
+    } catch (error: any) {
+      console.error("Error saving test answers:", error);
+      if (error.message && error.message.includes('already submitted')) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('Time limit')) {
+        return res.status(403).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save answers" });
+    }
+  });
+
+  // Resume an attempt in progress: same question snapshot (without answers), saved answers and time left
+  app.get('/api/test-instances/:instanceId/resume', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { instanceId } = req.params;
+
+      const instance = await storage.getTestInstance(instanceId);
+      if (!instance || instance.studentId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (instance.submittedAt) {
+        return res.status(409).json({ message: "Test already submitted" });
+      }
+
+      const session = await storage.resumeTestInstance(instance);
+      if (session.timeRemaining === 0) {
+        return res.status(403).json({ message: "Time limit has been exceeded" });
+      }
+
+      res.json(session);
+    } catch (error) {
+      console.error("Error resuming test:", error);
+      res.status(500).json({ message: "Failed to resume test" });
+    }
+  });
+
   // Get test instance/results
   app.get('/api/test-instances/:instanceId', isAuthenticated, async (req: any, res) => {
     try {
@@ -282,13 +630,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      res.json(instance);
+      // Answer keys stay server-side; the review endpoint reveals them according to the assessment's review policy
+      res.json({
+        ...instance,
+        questionsData: (instance.questionsData as any[]).map(q => ({
+          id: q.id,
+          questionText: q.questionText,
+          type: q.type,
+          points: q.points,
+          isCritical: q.isCritical,
+        })),
+      });
     } catch (error) {
       console.error("Error fetching test instance:", error);
       res.status(500).json({ message: "Failed to fetch test instance" });
     }
   });
 
+  // Answer review of a submitted attempt, subject to the assessment's review policy
+  app.get('/api/test-instances/:instanceId/review', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { instanceId } = req.params;
+
+      const instance = await storage.getTestInstance(instanceId);
+      if (!instance || instance.studentId !== userId) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      if (!instance.submittedAt) {
+        return res.status(409).json({ message: "Test has not been submitted yet" });
+      }
+
+      const review = await storage.getTestReview(instance);
+      res.json(review);
+    } catch (error) {
+      console.error("Error fetching test review:", error);
+      res.status(500).json({ message: "Failed to fetch test review" });
+    }
+  });
+
   // Tests routes
   app.get('/api/tests/results', isAuthenticated, async (req: any, res) => {
     try {
@@ -315,48 +696,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/tests/:templateId/start', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const { templateId } = req.params;
-
-      const template = await storage.getTestTemplate(templateId);
-      if (!template) {
-        return res.status(404).json({ message: "Test template not found" });
-      }
-
-      let questions;
-      if (template.mode === 'random') {
-        // For random mode, pull from all active questions in the question bank
-        const allQuestions = await storage.getQuestions();
-        const activeQuestions = allQuestions.filter(q => !q.isArchived);
-        questions = activeQuestions
-          .sort(() => Math.random() - 0.5)
-          .slice(0, template.questionCount || 10);
-      } else {
-        // For manual mode, use the specific questions linked to this template
-        const testQuestions = await storage.getTestQuestions(templateId);
-        questions = testQuestions.map(tq => tq.question);
-      }
-
-      const instance = await storage.createTestInstance({
-        testTemplateId: templateId,
-        studentId: userId,
-        questionsData: questions,
-      });
-
-      res.json(instance);
-    } catch (error) {
-      console.error("Error starting test:", error);
-      res.status(500).json({ message: "Failed to start test" });
-    }
-  });
-
   app.post('/api/tests/:instanceId/submit', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const { instanceId } = req.params;
-      const { answers } = req.body;
+
+      const parsed = z.record(z.any()).safeParse(req.body?.answers);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid answers", errors: parsed.error.errors });
+      }
 
       const instance = await storage.getTestInstance(instanceId);
       if (!instance) {
@@ -371,50 +719,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Test already submitted" });
       }
 
-      const questions = instance.questionsData as any[];
-      let correctCount = 0;
-
-      questions.forEach((question, index) => {
-        const studentAnswer = answers[question.id];
-        if (!studentAnswer) return;
-
-        if (question.type === 'single_choice') {
-          const correctChoice = question.choices.find((c: any) => c.isCorrect);
-          if (correctChoice && studentAnswer === correctChoice.label) {
-            correctCount++;
-          }
-        } else if (question.type === 'multiple_choice') {
-          const correctChoices = question.choices
-            .filter((c: any) => c.isCorrect)
-            .map((c: any) => c.label)
-            .sort();
-          const studentChoices = Array.isArray(studentAnswer) 
-            ? studentAnswer.sort() 
-            : [];
-          if (JSON.stringify(correctChoices) === JSON.stringify(studentChoices)) {
-            correctCount++;
-          }
-        }
-      });
-
-      const score = correctCount;
-      const totalQuestions = questions.length;
-      const percentage = totalQuestions > 0 ? Math.round((correctCount / totalQuestions) * 100) : 0;
-      
-      const template = instance.testTemplateId ? await storage.getTestTemplate(instance.testTemplateId) : null;
-      const passed = percentage >= (template?.passingPercentage || 70);
-
-      const updatedInstance = await storage.updateTestInstance(instanceId, {
-        answersData: answers,
-        score,
-        percentage,
-        passed,
-        submittedAt: new Date(),
-      });
+      // Scored by the same weighted/critical rules as topic assessments
+      const updatedInstance = await storage.submitTest(instanceId, parsed.data);
 
       res.json(updatedInstance);
-    } catch (error) {
+    } catch (error: any) {
       console.error("Error submitting test:", error);
+      if (error.message && error.message.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('already submitted')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('Time limit')) {
+        return res.status(403).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to submit test" });
     }
   });
@@ -430,16 +749,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Assessment not found" });
       }
 
-      const attemptCount = await storage.getAssessmentAttemptCount(assessmentId, userId);
-      const maxAttempts = assessment.maxAttempts || 3;
-      const remainingAttempts = Math.max(0, maxAttempts - attemptCount);
-
-      res.json({
-        attemptCount,
-        maxAttempts,
-        remainingAttempts,
-        canTake: remainingAttempts > 0,
-      });
+      const attemptStatus = await storage.getAssessmentAttemptStatus(assessment, userId);
+      res.json(attemptStatus);
     } catch (error) {
       console.error("Error fetching attempt info:", error);
       res.status(500).json({ message: "Failed to fetch attempt info" });
@@ -467,13 +778,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not enrolled in this course" });
       }
 
-      const result = await storage.startAssessment(assessmentId, userId);
+      const user = await storage.getUser(userId);
+      const result = await storage.startAssessment(assessmentId, userId, user?.preferredLanguage);
       res.json(result);
     } catch (error: any) {
       console.error("Error starting assessment:", error);
       if (error.message && error.message.includes('Maximum attempts')) {
         return res.status(403).json({ message: error.message });
       }
+      if (error.message && error.message.includes('Retake cooldown')) {
+        return res.status(429).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('Not enough questions')) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message || "Failed to start assessment" });
     }
   });
@@ -498,6 +816,155 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Practical lesson booking routes (student-facing)
+  app.get('/api/practical-lessons/topics', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const practicalTopics = await storage.getPracticalTopicsForStudent(userId);
+      res.json(practicalTopics);
+    } catch (error) {
+      console.error("Error fetching practical topics:", error);
+      res.status(500).json({ message: "Failed to fetch practical topics" });
+    }
+  });
+
+  app.get('/api/practical-lessons/instructors', isAuthenticated, async (req: any, res) => {
+    try {
+      const instructors = await storage.getInstructorsWithAvailability();
+      res.json(instructors.map(i => ({
+        id: i.id,
+        firstName: i.firstName,
+        lastName: i.lastName,
+        profileImageUrl: i.profileImageUrl,
+      })));
+    } catch (error) {
+      console.error("Error fetching bookable instructors:", error);
+      res.status(500).json({ message: "Failed to fetch instructors" });
+    }
+  });
+
+  app.get('/api/practical-lessons/slots', isAuthenticated, async (req: any, res) => {
+    try {
+      const { instructorId, from, to } = req.query;
+      if (!instructorId || typeof instructorId !== 'string') {
+        return res.status(400).json({ message: "Instructor ID required" });
+      }
+
+      // Default to the coming week; never offer slots that already started
+      const now = new Date();
+      const fromDate = from ? new Date(from as string) : now;
+      const toDate = to ? new Date(to as string) : new Date(fromDate.getTime() + 7 * 24 * 60 * 60 * 1000);
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || toDate <= fromDate) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if (toDate.getTime() - fromDate.getTime() > 31 * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: "Date range cannot exceed 31 days" });
+      }
+
+      const slots = await storage.getAvailableSlots(instructorId, fromDate < now ? now : fromDate, toDate);
+      res.json(slots);
+    } catch (error) {
+      console.error("Error fetching available slots:", error);
+      res.status(500).json({ message: "Failed to fetch available slots" });
+    }
+  });
+
+  app.get('/api/practical-lessons', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const lessons = await storage.getPracticalLessonsByStudent(userId);
+      res.json(lessons);
+    } catch (error) {
+      console.error("Error fetching practical lessons:", error);
+      res.status(500).json({ message: "Failed to fetch practical lessons" });
+    }
+  });
+
+  app.post('/api/practical-lessons', isAuthenticated, requireRole(['student']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const bookingSchema = z.object({
+        instructorId: z.string().min(1),
+        topicId: z.string().min(1),
+        startTime: z.string().transform((val) => new Date(val)).refine((date) => !isNaN(date.getTime()), "Invalid start time"),
+        endTime: z.string().transform((val) => new Date(val)).refine((date) => !isNaN(date.getTime()), "Invalid end time"),
+      });
+
+      const validationResult = bookingSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid booking data", errors: validationResult.error.errors });
+      }
+
+      const schedule = await storage.bookPracticalLesson({
+        ...validationResult.data,
+        studentId: userId,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: "BOOK_PRACTICAL_LESSON",
+        entityType: "schedule",
+        entityId: schedule.id,
+      });
+
+      res.status(201).json(schedule);
+    } catch (error: any) {
+      console.error("Error booking practical lesson:", error);
+      if (error.message && error.message.includes('Booking conflict')) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message && error.message.includes('installment is overdue')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error.message && (error.message.includes('Not enrolled') || error.message.includes('not found') || error.message.includes('in the past'))) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to book practical lesson" });
+    }
+  });
+
+  app.delete('/api/practical-lessons/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const schedule = await storage.getSchedule(id);
+      if (!schedule || schedule.type !== 'practical') {
+        return res.status(404).json({ message: "Practical lesson not found" });
+      }
+
+      if (user?.role === 'student') {
+        if (schedule.studentId !== userId) {
+          return res.status(403).json({ message: "Not authorized to cancel this lesson" });
+        }
+        // Students must cancel at least 24 hours in advance
+        const hoursUntilStart = (new Date(schedule.startTime).getTime() - Date.now()) / (1000 * 60 * 60);
+        if (hoursUntilStart < 24) {
+          return res.status(400).json({ message: "Lessons can only be cancelled at least 24 hours in advance" });
+        }
+      } else if (user?.role === 'instructor' && schedule.instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to cancel this lesson" });
+      }
+
+      await storage.deleteSchedule(id);
+
+      await storage.createAuditLog({
+        userId,
+        action: "CANCEL_PRACTICAL_LESSON",
+        entityType: "schedule",
+        entityId: id,
+        details: { studentId: schedule.studentId, startTime: schedule.startTime },
+      });
+
+      res.json({ message: "Lesson cancelled successfully" });
+    } catch (error) {
+      console.error("Error cancelling practical lesson:", error);
+      res.status(500).json({ message: "Failed to cancel practical lesson" });
+    }
+  });
+
   // Payments routes
   app.get('/api/payments', isAuthenticated, async (req: any, res) => {
     try {
@@ -512,7 +979,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/create-payment-intent", isAuthenticated, async (req: any, res) => {
     try {
-      const { courseId } = req.body;
+      const { courseId, promotionCode, useCredit } = req.body;
       const userId = req.user.claims.sub;
 
       const course = await storage.getCourse(courseId);
@@ -520,980 +987,2843 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid course or price not set" });
       }
 
-      const amount = parseFloat(course.price);
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: Math.round(amount * 100),
-        currency: "usd",
-      });
+      // Courses paid in installments are paid part by part through their schedule
+      if (await storage.hasInstallmentSchedule(courseId, userId)) {
+        return res.status(409).json({ message: "This course is being paid in installments" });
+      }
 
-      const payment = await storage.createPayment({
-        courseId,
-        studentId: userId,
-        amount: course.price,
-        currency: "usd",
-        status: "pending",
+      // Paying again replaces the payment the student started before, so it stops holding its code and credit
+      if (!(await cancelSupersededCardPayments({ courseId, studentId: userId, installmentId: null }))) {
+        return res.status(409).json({ message: "A payment for this course is already being processed" });
+      }
+
+      // The amount is always priced here; the client only names the code and whether to spend credit
+      const { payment, quote } = await storage.createCoursePayment(courseId, userId, { promotionCode, useCredit: !!useCredit }, { status: "pending" });
+
+      // Fully covered by the discount and credit: nothing to collect through Stripe
+      if (parseFloat(quote.amount) === 0) {
+        await activatePaidEnrollment(await storage.updatePayment(payment.id, { status: 'paid', paidAt: new Date() }));
+
+        return res.json({ clientSecret: null, paymentId: payment.id, status: 'paid' });
+      }
+
+      let paymentIntent: Stripe.PaymentIntent;
+      try {
+        paymentIntent = await stripe.paymentIntents.create({
+          amount: Math.round(parseFloat(quote.amount) * 100),
+          currency: payment.currency,
+          ...(quote.promotion ? { metadata: { promotionCode: quote.promotion.code } } : {}),
+        });
+      } catch (error) {
+        // Releases the code and credit the payment was holding
+        await storage.updatePayment(payment.id, { status: 'failed' });
+        throw error;
+      }
+
+      const started = await storage.updatePayment(payment.id, {
         stripePaymentIntentId: paymentIntent.id,
         stripeClientSecret: paymentIntent.client_secret || undefined,
       });
 
-      res.json({ clientSecret: paymentIntent.client_secret, paymentId: payment.id });
+      res.json({ clientSecret: paymentIntent.client_secret, paymentId: started.id, status: started.status });
     } catch (error: any) {
       console.error("Error creating payment intent:", error);
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Error creating payment intent: " + error.message });
     }
   });
 
-  // Certificates routes
-  app.get('/api/certificates', isAuthenticated, async (req: any, res) => {
+  // Promotion and referral routes (student-facing)
+  app.post('/api/promotions/quote', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const certificates = await storage.getCertificatesByStudent(userId);
-      res.json(certificates);
-    } catch (error) {
-      console.error("Error fetching certificates:", error);
-      res.status(500).json({ message: "Failed to fetch certificates" });
+      const { courseId, promotionCode, useCredit } = req.body;
+      if (typeof courseId !== 'string' || !courseId) {
+        return res.status(400).json({ message: "Course is required" });
+      }
+
+      // Priced as create-payment-intent will price it, replacing any payment the student didn't finish
+      const quote = await storage.quoteCoursePrice(courseId, userId, { promotionCode, useCredit: !!useCredit, replacingPending: true });
+      res.json(quote);
+    } catch (error: any) {
+      console.error("Error quoting course price:", error);
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to quote course price" });
     }
   });
 
-  app.get('/api/certificates/:id/download', isAuthenticated, async (req: any, res) => {
+  app.get('/api/referrals', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { id } = req.params;
+      const summary = await storage.getReferralSummary(userId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching referrals:", error);
+      res.status(500).json({ message: "Failed to fetch referrals" });
+    }
+  });
 
-      const certificate = await storage.getCertificate(id);
-      if (!certificate) {
-        return res.status(404).json({ message: "Certificate not found" });
-      }
+  // Promotion routes (admin)
+  app.get('/api/admin/promotions', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const promotions = await storage.getPromotions();
+      res.json(promotions);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
 
-      if (certificate.studentId !== userId) {
-        const user = await storage.getUser(userId);
-        if (user?.role !== 'admin' && user?.role !== 'instructor') {
-          return res.status(403).json({ message: "Not authorized to download this certificate" });
-        }
+  app.post('/api/admin/promotions', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validation = insertPromotionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid promotion", errors: validation.error.errors });
       }
 
-      const student = await storage.getUser(certificate.studentId);
-      const course = await storage.getCourse(certificate.courseId);
-
-      const doc = new PDFDocument({ size: 'A4', layout: 'landscape' });
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename=certificate-${certificate.certificateNumber}.pdf`);
-      
-      doc.pipe(res);
+      const promotion = await storage.createPromotion({ ...validation.data, createdBy: userId });
 
-      // Certificate border
-      doc.rect(40, 40, doc.page.width - 80, doc.page.height - 80)
-        .lineWidth(2)
-        .stroke('#2563eb');
+      await storage.createAuditLog({
+        userId,
+        action: "CREATE_PROMOTION",
+        entityType: "promotion",
+        entityId: promotion.id,
+        details: { code: promotion.code, type: promotion.type, value: promotion.value, referrerId: promotion.referrerId },
+      });
 
-      // Title
-      doc.fontSize(36)
-        .font('Helvetica-Bold')
-        .fillColor('#1e40af')
-        .text('CERTIFICATE OF COMPLETION', 0, 120, { align: 'center' });
+      res.status(201).json(promotion);
+    } catch (error: any) {
+      console.error("Error creating promotion:", error);
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
 
-      // Presented to
-      doc.fontSize(16)
-        .font('Helvetica')
-        .fillColor('#64748b')
-        .text('This is to certify that', 0, 200, { align: 'center' });
+  app.patch('/api/admin/promotions/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const validation = updatePromotionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid promotion", errors: validation.error.errors });
+      }
 
-      // Student name
-      const studentName = student ? `${student.firstName || ''} ${student.lastName || ''}`.trim() : 'Student';
-      doc.fontSize(32)
-        .font('Helvetica-Bold')
-        .fillColor('#0f172a')
-        .text(studentName, 0, 240, { align: 'center' });
+      const promotion = await storage.getPromotion(id);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
 
-      // Course completion text
-      doc.fontSize(16)
-        .font('Helvetica')
-        .fillColor('#64748b')
-        .text('has successfully completed the course', 0, 300, { align: 'center' });
+      const validFrom = validation.data.validFrom !== undefined ? validation.data.validFrom : promotion.validFrom;
+      const validUntil = validation.data.validUntil !== undefined ? validation.data.validUntil : promotion.validUntil;
+      if (validFrom && validUntil && validFrom >= validUntil) {
+        return res.status(400).json({ message: "The code must end after it starts" });
+      }
 
-      // Course name
-      doc.fontSize(24)
-        .font('Helvetica-Bold')
-        .fillColor('#1e40af')
-        .text(course?.name || 'Course', 0, 340, { align: 'center' });
+      // The code, its discount and courses are fixed once created, as payments were priced with them
+      const updated = await storage.updatePromotion(id, validation.data);
 
-      // Issue date
-      const issueDate = certificate.issuedAt.toLocaleDateString('en-US', { 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "UPDATE_PROMOTION",
+        entityType: "promotion",
+        entityId: id,
+        details: { code: promotion.code, ...validation.data },
       });
-      doc.fontSize(14)
-        .font('Helvetica')
-        .fillColor('#64748b')
-        .text(`Issued on ${issueDate}`, 0, 420, { align: 'center' });
-
-      // Certificate number
-      doc.fontSize(10)
-        .fillColor('#94a3b8')
-        .text(`Certificate No: ${certificate.certificateNumber}`, 0, 480, { align: 'center' });
-
-      // School name at bottom
-      doc.fontSize(12)
-        .font('Helvetica-Bold')
-        .fillColor('#2563eb')
-        .text('Driving School Academy', 0, doc.page.height - 100, { align: 'center' });
 
-      doc.end();
+      res.json(updated);
     } catch (error) {
-      console.error("Error generating certificate PDF:", error);
-      res.status(500).json({ message: "Failed to generate certificate" });
+      console.error("Error updating promotion:", error);
+      res.status(500).json({ message: "Failed to update promotion" });
     }
   });
 
-  // Question category routes
-  app.get('/api/question-categories', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/admin/promotions/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const categories = await storage.getQuestionCategories();
-      res.json(categories);
-    } catch (error) {
-      console.error("Error fetching question categories:", error);
-      res.status(500).json({ message: "Failed to fetch question categories" });
+      const { id } = req.params;
+      const promotion = await storage.getPromotion(id);
+      if (!promotion) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      await storage.deletePromotion(id);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "DELETE_PROMOTION",
+        entityType: "promotion",
+        entityId: id,
+        details: { code: promotion.code },
+      });
+
+      res.json({ message: "Promotion deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting promotion:", error);
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete promotion" });
     }
   });
 
-  app.get('/api/question-categories/:id', isAuthenticated, async (req: any, res) => {
+  // Installment plan routes (student-facing)
+  app.get('/api/installments', isAuthenticated, async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const category = await storage.getQuestionCategory(id);
-      if (!category) {
-        return res.status(404).json({ message: "Category not found" });
-      }
-      res.json(category);
+      const userId = req.user.claims.sub;
+      const schedules = await storage.getInstallmentSchedules(userId);
+      res.json(schedules);
     } catch (error) {
-      console.error("Error fetching question category:", error);
-      res.status(500).json({ message: "Failed to fetch question category" });
+      console.error("Error fetching installment schedules:", error);
+      res.status(500).json({ message: "Failed to fetch installment schedules" });
     }
   });
 
-  app.post('/api/question-categories', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.get('/api/courses/:courseId/payment-plans', isAuthenticated, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const categoryData = insertQuestionCategorySchema.parse(req.body);
-      const category = await storage.createQuestionCategory(categoryData);
-
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "CREATE_QUESTION_CATEGORY",
-          entityType: "question_category",
-          entityId: category.id,
-        });
-      }
-
-      res.json(category);
+      const plans = await storage.getPaymentPlanOptions(req.params.courseId);
+      res.json(plans);
     } catch (error) {
-      console.error("Error creating question category:", error);
-      res.status(500).json({ message: "Failed to create question category" });
+      console.error("Error fetching payment plans:", error);
+      res.status(500).json({ message: "Failed to fetch payment plans" });
     }
   });
 
-  app.patch('/api/question-categories/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/payment-plans/:planId/start', isAuthenticated, requireRole(['student']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const { id } = req.params;
-      const categoryData = insertQuestionCategorySchema.partial().parse(req.body);
-      const category = await storage.updateQuestionCategory(id, categoryData);
+      const userId = req.user.claims.sub;
+      const schedule = await storage.startInstallmentPlan(req.params.planId, userId);
+
+      await storage.createAuditLog({
+        userId,
+        action: "START_INSTALLMENT_PLAN",
+        entityType: "payment_plan",
+        entityId: req.params.planId,
+        details: { courseId: schedule.course.id, enrollmentId: schedule.enrollmentId },
+      });
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "UPDATE_QUESTION_CATEGORY",
-          entityType: "question_category",
-          entityId: id,
-        });
+      res.status(201).json(schedule);
+    } catch (error: any) {
+      console.error("Error starting installment plan:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
       }
-
-      res.json(category);
-    } catch (error) {
-      console.error("Error updating question category:", error);
-      res.status(500).json({ message: "Failed to update question category" });
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to start installment plan" });
     }
   });
 
-  app.delete('/api/question-categories/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/installments/:id/payment-intent', isAuthenticated, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const { id } = req.params;
-      await storage.deleteQuestionCategory(id);
+      const userId = req.user.claims.sub;
+      const { installment, courseId, pendingPayment } = await storage.getPayableInstallment(req.params.id, userId);
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "DELETE_QUESTION_CATEGORY",
-          entityType: "question_category",
-          entityId: id,
-        });
+      if (pendingPayment?.stripeClientSecret) {
+        return res.json({ clientSecret: pendingPayment.stripeClientSecret, paymentId: pendingPayment.id });
       }
 
-      res.json({ message: "Question category deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting question category:", error);
-      res.status(500).json({ message: "Failed to delete question category" });
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: Math.round(parseFloat(installment.amount) * 100),
+        currency: installment.currency,
+        metadata: { installmentId: installment.id },
+      });
+
+      const payment = await storage.createPayment({
+        courseId,
+        studentId: userId,
+        amount: installment.amount,
+        currency: installment.currency,
+        status: "pending",
+        stripePaymentIntentId: paymentIntent.id,
+        stripeClientSecret: paymentIntent.client_secret || undefined,
+        installmentId: installment.id,
+      });
+
+      res.json({ clientSecret: paymentIntent.client_secret, paymentId: payment.id });
+    } catch (error: any) {
+      console.error("Error creating installment payment intent:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error creating payment intent: " + error.message });
     }
   });
 
-  // Question topic routes
-  app.get('/api/question-categories/:categoryId/topics', isAuthenticated, async (req: any, res) => {
+  // Payment and refund routes (admin)
+  app.get('/api/admin/payments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { categoryId } = req.params;
-      const topics = await storage.getQuestionTopics(categoryId);
-      res.json(topics);
+      const status = typeof req.query.status === 'string' && req.query.status ? req.query.status as PaymentStatus : undefined;
+      const payments = await storage.getAdminPayments({ status });
+      res.json(payments);
     } catch (error) {
-      console.error("Error fetching question topics:", error);
-      res.status(500).json({ message: "Failed to fetch question topics" });
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
     }
   });
 
-  app.get('/api/question-topics/:id', isAuthenticated, async (req: any, res) => {
+  // A student's installment schedules, so staff can record a payment against one part
+  app.get('/api/admin/students/:studentId/installments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const topic = await storage.getQuestionTopic(id);
-      if (!topic) {
-        return res.status(404).json({ message: "Topic not found" });
-      }
-      res.json(topic);
+      const schedules = await storage.getInstallmentSchedules(req.params.studentId);
+      res.json(schedules);
     } catch (error) {
-      console.error("Error fetching question topic:", error);
-      res.status(500).json({ message: "Failed to fetch question topic" });
+      console.error("Error fetching installment schedules:", error);
+      res.status(500).json({ message: "Failed to fetch installment schedules" });
     }
   });
 
-  app.post('/api/question-topics', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/admin/payments/manual', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const topicData = insertQuestionTopicSchema.parse(req.body);
-      const topic = await storage.createQuestionTopic(topicData);
+      const userId = req.user.claims.sub;
+      const validation = recordManualPaymentSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid payment", errors: validation.error.errors });
+      }
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "CREATE_QUESTION_TOPIC",
-          entityType: "question_topic",
-          entityId: topic.id,
-        });
+      const student = await storage.getUser(validation.data.studentId);
+      if (!student || student.role !== 'student') {
+        return res.status(404).json({ message: "Student not found" });
       }
 
-      res.json(topic);
-    } catch (error) {
-      console.error("Error creating question topic:", error);
-      res.status(500).json({ message: "Failed to create question topic" });
+      const payment = await storage.recordManualPayment({ ...validation.data, receivedBy: userId });
+      if (payment.status === 'paid') {
+        await activatePaidEnrollment(payment);
+        await cancelSupersededCardPayments(payment);
+      }
+
+      await storage.createAuditLog({
+        userId,
+        action: "RECORD_MANUAL_PAYMENT",
+        entityType: "payment",
+        entityId: payment.id,
+        details: {
+          studentId: payment.studentId,
+          courseId: payment.courseId,
+          installmentId: payment.installmentId,
+          method: payment.method,
+          reference: payment.reference,
+          amount: payment.amount,
+          status: payment.status,
+        },
+      });
+
+      res.status(201).json(payment);
+    } catch (error: any) {
+      console.error("Error recording manual payment:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record payment" });
     }
   });
 
-  app.patch('/api/question-topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/admin/payments/:id/reconcile', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const { id } = req.params;
-      const topicData = insertQuestionTopicSchema.partial().parse(req.body);
-      const topic = await storage.updateQuestionTopic(id, topicData);
+      const userId = req.user.claims.sub;
+      const validation = reconcileBankTransferSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid reconciliation", errors: validation.error.errors });
+      }
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "UPDATE_QUESTION_TOPIC",
-          entityType: "question_topic",
-          entityId: id,
-        });
+      const payment = await storage.reconcileBankTransfer(req.params.id, validation.data, userId);
+      if (payment.status === 'paid') {
+        await activatePaidEnrollment(payment);
+        await cancelSupersededCardPayments(payment);
       }
 
-      res.json(topic);
-    } catch (error) {
-      console.error("Error updating question topic:", error);
-      res.status(500).json({ message: "Failed to update question topic" });
-    }
-  });
+      await storage.createAuditLog({
+        userId,
+        action: "RECONCILE_BANK_TRANSFER",
+        entityType: "payment",
+        entityId: payment.id,
+        details: { received: validation.data.received, reference: payment.reference, amount: payment.amount, status: payment.status },
+      });
 
-  app.delete('/api/question-topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+      res.json(payment);
+    } catch (error: any) {
+      console.error("Error reconciling bank transfer:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reconcile bank transfer" });
+    }
+  });
+
+  app.post('/api/admin/payments/:id/refunds', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const { id } = req.params;
-      await storage.deleteQuestionTopic(id);
+      const userId = req.user.claims.sub;
+      const validation = createRefundSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid refund", errors: validation.error.errors });
+      }
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "DELETE_QUESTION_TOPIC",
-          entityType: "question_topic",
-          entityId: id,
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const { amount, reason, keepEnrollment } = validation.data;
+      let stripeRefund: Stripe.Refund | undefined;
+      let updated: Payment;
+      if (payment.stripePaymentIntentId) {
+        // Stripe refuses refunds beyond what is left on the charge, so refunds issued side by side can't overshoot
+        storage.assertRefundable(payment, await storage.getPaymentRefunds(payment.id), amount);
+        stripeRefund = await stripe.refunds.create({
+          payment_intent: payment.stripePaymentIntentId,
+          amount: Math.round(parseFloat(amount) * 100),
+          metadata: { paymentId: payment.id, reason },
+        });
+        updated = await storage.recordRefund({
+          paymentId: payment.id,
+          amount,
+          reason,
+          status: refundStatusFromStripe(stripeRefund.status),
+          stripeRefundId: stripeRefund.id,
+          keepEnrollment,
+          createdBy: userId,
         });
+      } else {
+        updated = await storage.recordManualRefund({ paymentId: payment.id, amount, reason, keepEnrollment, createdBy: userId });
       }
 
-      res.json({ message: "Question topic deleted successfully" });
+      await storage.createAuditLog({
+        userId,
+        action: "REFUND_PAYMENT",
+        entityType: "payment",
+        entityId: payment.id,
+        details: { amount, reason, keepEnrollment, stripeRefundId: stripeRefund?.id ?? null, status: updated.status },
+      });
+
+      res.status(201).json(updated);
+    } catch (error: any) {
+      console.error("Error refunding payment:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('can still be refunded')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to refund payment: " + error.message });
+    }
+  });
+
+  // Invoice routes
+  app.get('/api/invoices', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const invoices = await storage.getInvoices({ studentId: userId });
+      res.json(invoices);
     } catch (error) {
-      console.error("Error deleting question topic:", error);
-      res.status(500).json({ message: "Failed to delete question topic" });
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
     }
   });
 
-  // Questions routes
-  app.get('/api/questions', isAuthenticated, async (req: any, res) => {
+  app.get('/api/invoices/:id/download', isAuthenticated, async (req: any, res) => {
     try {
-      const { topicId } = req.query;
-      const questions = await storage.getQuestions(topicId as string | undefined);
-      res.json(questions);
+      const userId = req.user.claims.sub;
+      const invoice = await storage.getInvoice(req.params.id);
+      const payment = invoice ? await storage.getPayment(invoice.paymentId) : undefined;
+      if (!invoice || !payment) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      if (payment.studentId !== userId) {
+        const user = await storage.getUser(userId);
+        if (user?.role !== 'admin') {
+          return res.status(403).json({ message: "Not authorized to download this invoice" });
+        }
+      }
+
+      const doc = new PDFDocument({ size: 'A4' });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename=${invoice.type === 'credit_note' ? 'credit-note' : 'invoice'}-${invoice.number}.pdf`);
+
+      doc.pipe(res);
+      writeInvoicePdf(doc, invoice, payment);
+      doc.end();
     } catch (error) {
-      console.error("Error fetching questions:", error);
-      res.status(500).json({ message: "Failed to fetch questions" });
+      console.error("Error generating invoice PDF:", error);
+      res.status(500).json({ message: "Failed to generate invoice" });
     }
   });
 
-  app.get('/api/questions/search', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/invoices', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { q, tag, limit = '10' } = req.query;
-      const questions = await storage.searchQuestions({
-        searchTerm: q as string,
-        tag: tag as string,
-        limit: parseInt(limit as string, 10)
+      const type = req.query.type === 'invoice' || req.query.type === 'credit_note' ? req.query.type as InvoiceType : undefined;
+      const invoices = await storage.getInvoices({ type });
+      res.json(invoices);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // Payments collected before invoicing was set up get their invoice here
+  app.post('/api/admin/payments/:id/invoice', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const invoice = await storage.issueInvoice(payment.id);
+      if (!invoice) {
+        return res.status(409).json({ message: "Only collected payments can be invoiced" });
+      }
+      for (const refund of await storage.getPaymentRefunds(payment.id)) {
+        await storage.issueCreditNote(refund.id);
+      }
+
+      await storage.createAuditLog({
+        userId,
+        action: "ISSUE_INVOICE",
+        entityType: "invoice",
+        entityId: invoice.id,
+        details: { paymentId: payment.id, number: invoice.number },
       });
-      res.json(questions);
+
+      res.status(201).json(invoice);
     } catch (error) {
-      console.error("Error searching questions:", error);
-      res.status(500).json({ message: "Failed to search questions" });
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ message: "Failed to issue invoice" });
     }
   });
 
-  app.post('/api/questions', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.get('/api/admin/school-settings', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const questionData = insertQuestionSchema.parse(req.body);
-      const question = await storage.createQuestion(questionData);
+      const settings = await storage.getSchoolSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching school settings:", error);
+      res.status(500).json({ message: "Failed to fetch school settings" });
+    }
+  });
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "CREATE_QUESTION",
-          entityType: "question",
-          entityId: question.id,
-        });
+  app.put('/api/admin/school-settings', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validation = updateSchoolSettingsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid school settings", errors: validation.error.errors });
       }
 
-      res.json(question);
+      const { registrationNumber, vatNumber, address, email, phone, bankName, bankAccount, ...required } = validation.data;
+      const settings = await storage.updateSchoolSettings({
+        ...required,
+        invoicePrefix: required.invoicePrefix.toUpperCase(),
+        creditNotePrefix: required.creditNotePrefix.toUpperCase(),
+        registrationNumber: registrationNumber ?? null,
+        vatNumber: vatNumber ?? null,
+        address: address ?? null,
+        email: email ?? null,
+        phone: phone ?? null,
+        bankName: bankName ?? null,
+        bankAccount: bankAccount ?? null,
+      }, userId);
+
+      await storage.createAuditLog({
+        userId,
+        action: "UPDATE_SCHOOL_SETTINGS",
+        entityType: "school_settings",
+        entityId: settings.id,
+        details: validation.data,
+      });
+
+      res.json(settings);
     } catch (error) {
-      console.error("Error creating question:", error);
-      res.status(500).json({ message: "Failed to create question" });
+      console.error("Error updating school settings:", error);
+      res.status(500).json({ message: "Failed to update school settings" });
     }
   });
 
-  app.patch('/api/questions/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  // Installment plan routes (admin)
+  app.get('/api/admin/courses/:courseId/payment-plans', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const { id } = req.params;
-      const questionData = insertQuestionSchema.partial().parse(req.body);
-      const question = await storage.updateQuestion(id, questionData);
+      const plans = await storage.getPaymentPlans(req.params.courseId);
+      res.json(plans);
+    } catch (error) {
+      console.error("Error fetching payment plans:", error);
+      res.status(500).json({ message: "Failed to fetch payment plans" });
+    }
+  });
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "UPDATE_QUESTION",
-          entityType: "question",
-          entityId: id,
-        });
+  app.post('/api/admin/courses/:courseId/payment-plans', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const { courseId } = req.params;
+      const validation = insertPaymentPlanSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid payment plan", errors: validation.error.errors });
       }
 
-      res.json(question);
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const plan = await storage.createPaymentPlan({ ...validation.data, courseId });
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "CREATE_PAYMENT_PLAN",
+        entityType: "payment_plan",
+        entityId: plan.id,
+        details: { courseId, name: plan.name, installmentCount: plan.installmentCount },
+      });
+
+      res.status(201).json(plan);
     } catch (error) {
-      console.error("Error updating question:", error);
-      res.status(500).json({ message: "Failed to update question" });
+      console.error("Error creating payment plan:", error);
+      res.status(500).json({ message: "Failed to create payment plan" });
     }
   });
 
-  app.delete('/api/questions/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.patch('/api/admin/payment-plans/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
       const { id } = req.params;
-      await storage.deleteQuestion(id);
+      const validation = insertPaymentPlanSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid payment plan", errors: validation.error.errors });
+      }
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "DELETE_QUESTION",
-          entityType: "question",
-          entityId: id,
-        });
+      const plan = await storage.getPaymentPlan(id);
+      if (!plan) {
+        return res.status(404).json({ message: "Payment plan not found" });
       }
 
-      res.json({ message: "Question deleted successfully" });
+      // Schedules already running keep their amounts and due dates; only the booking rule and availability apply to them
+      const updated = await storage.updatePaymentPlan(id, validation.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "UPDATE_PAYMENT_PLAN",
+        entityType: "payment_plan",
+        entityId: id,
+        details: validation.data,
+      });
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error deleting question:", error);
-      res.status(500).json({ message: "Failed to delete question" });
+      console.error("Error updating payment plan:", error);
+      res.status(500).json({ message: "Failed to update payment plan" });
     }
   });
 
-  // Admin routes
-  app.get('/api/admin/stats', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  app.delete('/api/admin/payment-plans/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const courses = await storage.getCourses();
-      
-      // Get all test instances
-      const allTestInstances = await Promise.all(
-        users.filter(u => u.role === 'student').map(u => storage.getTestInstancesByStudent(u.id))
-      );
-      const testInstances = allTestInstances.flat();
-      
-      // Get all certificates
-      const allCertificates = await Promise.all(
-        users.filter(u => u.role === 'student').map(u => storage.getCertificatesByStudent(u.id))
-      );
-      const certificates = allCertificates.flat();
-      
-      // Get all payments
-      const allPayments = await Promise.all(
-        users.filter(u => u.role === 'student').map(u => storage.getPaymentsByStudent(u.id))
-      );
-      const payments = allPayments.flat();
-      
-      // Get all enrollments
-      const allEnrollments = await Promise.all(
-        users.filter(u => u.role === 'student').map(u => storage.getEnrollmentsByStudent(u.id))
-      );
-      const enrollments = allEnrollments.flat();
-      
-      // Calculate revenue
-      const revenue = payments
-        .filter(p => p.status === 'paid')
-        .reduce((sum, p) => sum + parseFloat(p.amount), 0);
-      
-      // Monthly enrollments (last 12 months)
-      const monthlyEnrollments = [];
-      const now = new Date();
-      for (let i = 11; i >= 0; i--) {
-        const monthDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const monthName = monthDate.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
-        const count = enrollments.filter(e => {
-          const enrollDate = new Date(e.enrolledAt);
-          return enrollDate.getMonth() === monthDate.getMonth() && 
-                 enrollDate.getFullYear() === monthDate.getFullYear();
-        }).length;
-        monthlyEnrollments.push({ month: monthName, count });
+      const { id } = req.params;
+      const plan = await storage.getPaymentPlan(id);
+      if (!plan) {
+        return res.status(404).json({ message: "Payment plan not found" });
       }
-      
-      // Test pass rates by course
-      const testPassRatesData = await Promise.all(
-        courses.slice(0, 5).map(async (course) => {
-          // Get templates linked to this course via courseCompletionTests
-          const courseTemplates = await storage.getTestTemplatesByCourse(course.id);
-          const templateIds = courseTemplates.map(t => t.id);
-          
-          // Filter test instances for this course's templates
-          const courseTests = testInstances.filter(t => 
-            t.testTemplateId && templateIds.includes(t.testTemplateId) && t.submittedAt !== null
-          );
-          
-          const passed = courseTests.filter(t => t.passed).length;
-          const total = courseTests.length;
-          const rate = total > 0 ? Math.round((passed / total) * 100) : 0;
-          return {
-            course: course.name.substring(0, 15),
-            rate
-          };
-        })
-      );
 
-      const stats = {
-        totalStudents: users.filter(u => u.role === 'student').length,
-        activeStudents: users.filter(u => u.role === 'student' && u.isActive).length,
-        totalInstructors: users.filter(u => u.role === 'instructor').length,
-        totalCourses: courses.length,
-        activeCourses: courses.filter(c => c.isActive).length,
-        totalTests: testInstances.filter(t => t.submittedAt).length,
-        passedTests: testInstances.filter(t => t.passed).length,
-        totalCertificates: certificates.length,
-        revenueTotal: revenue,
-        monthlyEnrollments,
-        testPassRates: testPassRatesData,
-      };
+      await storage.deletePaymentPlan(id);
 
-      res.json(stats);
-    } catch (error) {
-      console.error("Error fetching admin stats:", error);
-      res.status(500).json({ message: "Failed to fetch admin stats" });
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "DELETE_PAYMENT_PLAN",
+        entityType: "payment_plan",
+        entityId: id,
+        details: { courseId: plan.courseId, name: plan.name },
+      });
+
+      res.json({ message: "Payment plan deleted successfully" });
+    } catch (error: any) {
+      console.error("Error deleting payment plan:", error);
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete payment plan" });
     }
   });
 
-  app.get('/api/admin/users', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  app.get('/api/admin/installments/overdue', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      res.json(users);
+      const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+      const overdue = await storage.getOverdueInstallments(courseId);
+      res.json(overdue);
     } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
+      console.error("Error fetching overdue installments:", error);
+      res.status(500).json({ message: "Failed to fetch overdue installments" });
     }
   });
 
-  // Endpoint for both admins and instructors to fetch instructor list
-  app.get('/api/instructors', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  // Certificates routes
+  app.get('/api/certificates', isAuthenticated, async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const instructors = users.filter(u => u.role === 'instructor');
-      res.json(instructors);
+      const userId = req.user.claims.sub;
+      const certificates = await storage.getCertificatesByStudent(userId);
+      res.json(certificates);
     } catch (error) {
-      console.error("Error fetching instructors:", error);
-      res.status(500).json({ message: "Failed to fetch instructors" });
+      console.error("Error fetching certificates:", error);
+      res.status(500).json({ message: "Failed to fetch certificates" });
     }
   });
 
-  app.get('/api/admin/export/students', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  app.get('/api/certificates/:id/download', isAuthenticated, async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const students = users.filter(u => u.role === 'student');
-      
-      const csv = [
-        ['ID', 'First Name', 'Last Name', 'Email', 'Role', 'Active', 'Created At'].map(csvEscape).join(','),
-        ...students.map(s => [
-          csvEscape(s.id),
-          csvEscape(s.firstName || ''),
-          csvEscape(s.lastName || ''),
-          csvEscape(s.email || ''),
-          csvEscape(s.role),
-          csvEscape(s.isActive ? 'Yes' : 'No'),
-          csvEscape(new Date(s.createdAt).toLocaleDateString())
-        ].join(','))
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+
+      const certificate = await storage.getCertificate(id);
+      if (!certificate) {
+        return res.status(404).json({ message: "Certificate not found" });
+      }
+
+      if (certificate.studentId !== userId) {
+        const user = await storage.getUser(userId);
+        if (user?.role !== 'admin' && user?.role !== 'instructor') {
+          return res.status(403).json({ message: "Not authorized to download this certificate" });
+        }
+      }
+
+      const student = await storage.getUser(certificate.studentId);
+      const course = await storage.getCourse(certificate.courseId);
+
+      const doc = new PDFDocument({ size: 'A4', layout: 'landscape' });
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename=certificate-${certificate.certificateNumber}.pdf`);
+      
+      doc.pipe(res);
+
+      // Certificate border
+      doc.rect(40, 40, doc.page.width - 80, doc.page.height - 80)
+        .lineWidth(2)
+        .stroke('#2563eb');
+
+      // Title
+      doc.fontSize(36)
+        .font('Helvetica-Bold')
+        .fillColor('#1e40af')
+        .text('CERTIFICATE OF COMPLETION', 0, 120, { align: 'center' });
+
+      // Presented to
+      doc.fontSize(16)
+        .font('Helvetica')
+        .fillColor('#64748b')
+        .text('This is to certify that', 0, 200, { align: 'center' });
+
+      // Student name
+      const studentName = student ? `${student.firstName || ''} ${student.lastName || ''}`.trim() : 'Student';
+      doc.fontSize(32)
+        .font('Helvetica-Bold')
+        .fillColor('#0f172a')
+        .text(studentName, 0, 240, { align: 'center' });
+
+      // Course completion text
+      doc.fontSize(16)
+        .font('Helvetica')
+        .fillColor('#64748b')
+        .text('has successfully completed the course', 0, 300, { align: 'center' });
+
+      // Course name
+      doc.fontSize(24)
+        .font('Helvetica-Bold')
+        .fillColor('#1e40af')
+        .text(course?.name || 'Course', 0, 340, { align: 'center' });
+
+      // Issue date
+      const issueDate = certificate.issuedAt.toLocaleDateString('en-US', { 
+        year: 'numeric', 
+        month: 'long', 
+        day: 'numeric' 
+      });
+      doc.fontSize(14)
+        .font('Helvetica')
+        .fillColor('#64748b')
+        .text(`Issued on ${issueDate}`, 0, 420, { align: 'center' });
+
+      // Certificate number
+      doc.fontSize(10)
+        .fillColor('#94a3b8')
+        .text(`Certificate No: ${certificate.certificateNumber}`, 0, 480, { align: 'center' });
+
+      // School name at bottom
+      doc.fontSize(12)
+        .font('Helvetica-Bold')
+        .fillColor('#2563eb')
+        .text('Driving School Academy', 0, doc.page.height - 100, { align: 'center' });
+
+      doc.end();
+    } catch (error) {
+      console.error("Error generating certificate PDF:", error);
+      res.status(500).json({ message: "Failed to generate certificate" });
+    }
+  });
+
+  // Question category routes
+  app.get('/api/question-categories', isAuthenticated, async (req: any, res) => {
+    try {
+      const categories = await storage.getQuestionCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching question categories:", error);
+      res.status(500).json({ message: "Failed to fetch question categories" });
+    }
+  });
+
+  app.get('/api/question-categories/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const category = await storage.getQuestionCategory(id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      console.error("Error fetching question category:", error);
+      res.status(500).json({ message: "Failed to fetch question category" });
+    }
+  });
+
+  app.post('/api/question-categories', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const categoryData = insertQuestionCategorySchema.parse(req.body);
+      const category = await storage.createQuestionCategory(categoryData);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "CREATE_QUESTION_CATEGORY",
+          entityType: "question_category",
+          entityId: category.id,
+        });
+      }
+
+      res.json(category);
+    } catch (error) {
+      console.error("Error creating question category:", error);
+      res.status(500).json({ message: "Failed to create question category" });
+    }
+  });
+
+  app.patch('/api/question-categories/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      const categoryData = insertQuestionCategorySchema.partial().parse(req.body);
+      const category = await storage.updateQuestionCategory(id, categoryData);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "UPDATE_QUESTION_CATEGORY",
+          entityType: "question_category",
+          entityId: id,
+        });
+      }
+
+      res.json(category);
+    } catch (error) {
+      console.error("Error updating question category:", error);
+      res.status(500).json({ message: "Failed to update question category" });
+    }
+  });
+
+  app.delete('/api/question-categories/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      await storage.deleteQuestionCategory(id);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "DELETE_QUESTION_CATEGORY",
+          entityType: "question_category",
+          entityId: id,
+        });
+      }
+
+      res.json({ message: "Question category deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting question category:", error);
+      res.status(500).json({ message: "Failed to delete question category" });
+    }
+  });
+
+  // Question topic routes
+  app.get('/api/question-categories/:categoryId/topics', isAuthenticated, async (req: any, res) => {
+    try {
+      const { categoryId } = req.params;
+      const topics = await storage.getQuestionTopics(categoryId);
+      res.json(topics);
+    } catch (error) {
+      console.error("Error fetching question topics:", error);
+      res.status(500).json({ message: "Failed to fetch question topics" });
+    }
+  });
+
+  app.get('/api/question-topics/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const topic = await storage.getQuestionTopic(id);
+      if (!topic) {
+        return res.status(404).json({ message: "Topic not found" });
+      }
+      res.json(topic);
+    } catch (error) {
+      console.error("Error fetching question topic:", error);
+      res.status(500).json({ message: "Failed to fetch question topic" });
+    }
+  });
+
+  app.post('/api/question-topics', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const topicData = insertQuestionTopicSchema.parse(req.body);
+      const topic = await storage.createQuestionTopic(topicData);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "CREATE_QUESTION_TOPIC",
+          entityType: "question_topic",
+          entityId: topic.id,
+        });
+      }
+
+      res.json(topic);
+    } catch (error) {
+      console.error("Error creating question topic:", error);
+      res.status(500).json({ message: "Failed to create question topic" });
+    }
+  });
+
+  app.patch('/api/question-topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      const topicData = insertQuestionTopicSchema.partial().parse(req.body);
+      const topic = await storage.updateQuestionTopic(id, topicData);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "UPDATE_QUESTION_TOPIC",
+          entityType: "question_topic",
+          entityId: id,
+        });
+      }
+
+      res.json(topic);
+    } catch (error) {
+      console.error("Error updating question topic:", error);
+      res.status(500).json({ message: "Failed to update question topic" });
+    }
+  });
+
+  app.delete('/api/question-topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      await storage.deleteQuestionTopic(id);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "DELETE_QUESTION_TOPIC",
+          entityType: "question_topic",
+          entityId: id,
+        });
+      }
+
+      res.json({ message: "Question topic deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting question topic:", error);
+      res.status(500).json({ message: "Failed to delete question topic" });
+    }
+  });
+
+  // Question media (stem and choice images); files are content-addressed and immutable
+  app.use(QUESTION_MEDIA_URL_PREFIX, express.static(QUESTION_MEDIA_DIR, { immutable: true, maxAge: '365d', fallthrough: false }));
+
+  app.post('/api/questions/media', isAuthenticated, requireRole(['admin', 'instructor']), express.raw({ type: 'image/*', limit: QUESTION_MEDIA_MAX_BYTES }), async (req: any, res) => {
+    try {
+      const mimeType = req.headers['content-type'];
+      if (!isSupportedQuestionMediaType(mimeType)) {
+        return res.status(400).json({ message: "Only PNG, JPEG, GIF and WebP images can be uploaded" });
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Image data is required" });
+      }
+
+      const media = await saveQuestionMedia(req.body, mimeType);
+      res.status(201).json(media);
+    } catch (error) {
+      console.error("Error uploading question media:", error);
+      res.status(500).json({ message: "Failed to upload image" });
+    }
+  });
+
+  // Question bank import/export (CSV or the structured JSON format, see server/questionBank.ts)
+  app.get('/api/admin/question-bank/export', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const format = req.query.format === 'csv' ? 'csv' : 'json';
+      const bank = await storage.getQuestionBank();
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename=question-bank.csv');
+        return res.send(questionBankToCsv(bank));
+      }
+      res.setHeader('Content-Disposition', 'attachment; filename=question-bank.json');
+      res.json(bank);
+    } catch (error) {
+      console.error("Error exporting question bank:", error);
+      res.status(500).json({ message: "Failed to export question bank" });
+    }
+  });
+
+  // The file is sent as the raw text body; ?dryRun=true validates and previews without writing
+  app.post('/api/admin/question-bank/import', isAuthenticated, requireRole(['admin']), express.text({ type: 'text/*', limit: QUESTION_BANK_MAX_BYTES }), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const format = req.query.format;
+      const dryRun = req.query.dryRun === 'true';
+      if (format !== 'csv' && format !== 'json') {
+        return res.status(400).json({ message: "Format must be csv or json" });
+      }
+      if (typeof req.body !== 'string' || req.body.trim() === '') {
+        return res.status(400).json({ message: "The uploaded file is empty" });
+      }
+
+      const { bank, errors } = format === 'csv' ? parseQuestionBankCsv(req.body) : parseQuestionBankJson(req.body);
+      if (errors.length > 0 && !dryRun) {
+        return res.status(400).json({ message: `The file has ${errors.length} error(s); nothing was imported`, errors });
+      }
+
+      const summary = await storage.importQuestionBank(bank, { dryRun, importedBy: userId });
+
+      if (!dryRun) {
+        await storage.createAuditLog({
+          userId,
+          action: "IMPORT_QUESTION_BANK",
+          entityType: "question",
+          details: {
+            format,
+            categoriesCreated: summary.categoriesCreated,
+            topicsCreated: summary.topicsCreated,
+            questionsCreated: summary.questionsCreated,
+            questionsUpdated: summary.questionsUpdated,
+          },
+        });
+      }
+
+      res.json({ dryRun, errors, ...summary });
+    } catch (error) {
+      console.error("Error importing question bank:", error);
+      res.status(500).json({ message: "Failed to import question bank" });
+    }
+  });
+
+  // Questions routes
+  app.get('/api/questions', isAuthenticated, async (req: any, res) => {
+    try {
+      const { topicId } = req.query;
+      const questions = await storage.getQuestions(topicId as string | undefined);
+      res.json(questions);
+    } catch (error) {
+      console.error("Error fetching questions:", error);
+      res.status(500).json({ message: "Failed to fetch questions" });
+    }
+  });
+
+  app.get('/api/questions/search', isAuthenticated, async (req: any, res) => {
+    try {
+      const { q, tag, limit = '10' } = req.query;
+      const questions = await storage.searchQuestions({
+        searchTerm: q as string,
+        tag: tag as string,
+        limit: parseInt(limit as string, 10)
+      });
+      res.json(questions);
+    } catch (error) {
+      console.error("Error searching questions:", error);
+      res.status(500).json({ message: "Failed to search questions" });
+    }
+  });
+
+  app.post('/api/questions', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const questionData = insertQuestionSchema.parse(req.body);
+      const definition = questionDefinitionSchema.safeParse(questionData);
+      if (!definition.success) {
+        return res.status(400).json({ message: definition.error.errors[0].message, errors: definition.error.errors });
+      }
+      const question = await storage.createQuestion(questionData, user?.id);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "CREATE_QUESTION",
+          entityType: "question",
+          entityId: question.id,
+        });
+      }
+
+      res.json(question);
+    } catch (error) {
+      console.error("Error creating question:", error);
+      res.status(500).json({ message: "Failed to create question" });
+    }
+  });
+
+  app.patch('/api/questions/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      const questionData = insertQuestionSchema.partial().parse(req.body);
+
+      const existing = await storage.getQuestion(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+      const definition = questionDefinitionSchema.safeParse({ ...existing, ...questionData });
+      if (!definition.success) {
+        return res.status(400).json({ message: definition.error.errors[0].message, errors: definition.error.errors });
+      }
+
+      const question = await storage.updateQuestion(id, questionData, user?.id);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "UPDATE_QUESTION",
+          entityType: "question",
+          entityId: id,
+        });
+      }
+
+      res.json(question);
+    } catch (error) {
+      console.error("Error updating question:", error);
+      res.status(500).json({ message: "Failed to update question" });
+    }
+  });
+
+  app.delete('/api/questions/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      const outcome = await storage.deleteQuestion(id, req.user.claims.sub);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: outcome === 'archived' ? "ARCHIVE_QUESTION" : "DELETE_QUESTION",
+          entityType: "question",
+          entityId: id,
+        });
+      }
+
+      res.json({
+        outcome,
+        message: outcome === 'archived'
+          ? "Question is used by a test or assessment and has been archived instead"
+          : "Question deleted successfully",
+      });
+    } catch (error) {
+      console.error("Error deleting question:", error);
+      res.status(500).json({ message: "Failed to delete question" });
+    }
+  });
+
+  app.get('/api/questions/:id/versions', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const versions = await storage.getQuestionVersions(req.params.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching question versions:", error);
+      res.status(500).json({ message: "Failed to fetch question versions" });
+    }
+  });
+
+  app.post('/api/questions/:id/versions/:versionId/restore', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, versionId } = req.params;
+      const question = await storage.restoreQuestionVersion(id, versionId, userId);
+
+      await storage.createAuditLog({
+        userId,
+        action: "RESTORE_QUESTION_VERSION",
+        entityType: "question",
+        entityId: id,
+        details: { versionId },
+      });
+
+      res.json(question);
+    } catch (error: any) {
+      console.error("Error restoring question version:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore question version" });
+    }
+  });
+
+  app.patch('/api/questions/:id/flag', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      const validationResult = questionFlagSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid flag", errors: validationResult.error.errors });
+      }
+
+      const existing = await storage.getQuestion(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Question not found" });
+      }
+
+      const { isFlagged, reason } = validationResult.data;
+      const question = await storage.setQuestionFlag(id, {
+        isFlagged,
+        flagReason: isFlagged ? reason || null : null,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: isFlagged ? "FLAG_QUESTION" : "UNFLAG_QUESTION",
+        entityType: "question",
+        entityId: id,
+        details: isFlagged && reason ? { reason } : undefined,
+      });
+
+      res.json(question);
+    } catch (error) {
+      console.error("Error flagging question:", error);
+      res.status(500).json({ message: "Failed to flag question" });
+    }
+  });
+
+  // Translations of course content and questions
+  app.put('/api/admin/translations/:entity/:id/:language', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { entity, id, language } = req.params;
+      if (!(entity in translationUpdateSchemas) || !contentLanguageEnum.enumValues.includes(language)) {
+        return res.status(404).json({ message: "Unknown translation target" });
+      }
+
+      const validationResult = translationUpdateSchemas[entity as keyof typeof translationUpdateSchemas].safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid translation", errors: validationResult.error.errors });
+      }
+
+      const translations = await storage.setTranslation(entity as keyof typeof translationUpdateSchemas, id, language, validationResult.data);
+
+      await storage.createAuditLog({
+        userId,
+        action: "UPDATE_TRANSLATION",
+        entityType: entity,
+        entityId: id,
+        details: { language },
+      });
+
+      res.json({ translations });
+    } catch (error: any) {
+      console.error("Error saving translation:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save translation" });
+    }
+  });
+
+  // Question review workflow
+  app.post('/api/questions/:id/review', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      const validationResult = questionReviewActionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid review action", errors: validationResult.error.errors });
+      }
+
+      const { action, comment } = validationResult.data;
+      const question = await storage.reviewQuestion(id, action, userId, comment);
+
+      await storage.createAuditLog({
+        userId,
+        action: `QUESTION_${action.toUpperCase()}`,
+        entityType: "question",
+        entityId: id,
+        details: comment ? { comment } : undefined,
+      });
+
+      res.json(question);
+    } catch (error: any) {
+      console.error("Error reviewing question:", error);
+      if (error.message?.includes('not found')) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('own changes')) {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error.message?.startsWith('Cannot')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to review question" });
+    }
+  });
+
+  app.get('/api/questions/:id/review-events', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const events = await storage.getQuestionReviewEvents(req.params.id);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching question review events:", error);
+      res.status(500).json({ message: "Failed to fetch question review events" });
+    }
+  });
+
+  app.get('/api/admin/question-reviews', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const queue = await storage.getQuestionReviewQueue();
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching question review queue:", error);
+      res.status(500).json({ message: "Failed to fetch question review queue" });
+    }
+  });
+
+  // Question item analysis
+  app.get('/api/admin/question-statistics', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const statistics = await storage.getQuestionStatistics();
+      res.json(statistics);
+    } catch (error) {
+      console.error("Error fetching question statistics:", error);
+      res.status(500).json({ message: "Failed to fetch question statistics" });
+    }
+  });
+
+  app.post('/api/admin/question-statistics/recompute', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const analysed = await runItemAnalysis();
+      if (analysed === null) {
+        return res.status(409).json({ message: "Item analysis is already running" });
+      }
+      res.json({ analysed });
+    } catch (error) {
+      console.error("Error computing question statistics:", error);
+      res.status(500).json({ message: "Failed to compute question statistics" });
+    }
+  });
+
+  // Admin routes
+  app.get('/api/admin/stats', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const courses = await storage.getCourses();
+      
+      // Get all test instances
+      const allTestInstances = await Promise.all(
+        users.filter(u => u.role === 'student').map(u => storage.getTestInstancesByStudent(u.id))
+      );
+      const testInstances = allTestInstances.flat();
+      
+      // Get all certificates
+      const allCertificates = await Promise.all(
+        users.filter(u => u.role === 'student').map(u => storage.getCertificatesByStudent(u.id))
+      );
+      const certificates = allCertificates.flat();
+      
+      // Get all payments
+      const allPayments = await Promise.all(
+        users.filter(u => u.role === 'student').map(u => storage.getPaymentsByStudent(u.id))
+      );
+      const payments = allPayments.flat();
+      
+      // Get all enrollments
+      const allEnrollments = await Promise.all(
+        users.filter(u => u.role === 'student').map(u => storage.getEnrollmentsByStudent(u.id))
+      );
+      const enrollments = allEnrollments.flat();
+      
+      // Calculate revenue net of refunds; gross is the list price, before promotion discounts and referral credit
+      const paidPayments = payments.filter(p => ['paid', 'partially_refunded', 'disputed', 'refunded'].includes(p.status));
+      const sumOf = (amounts: Array<string | null>) =>
+        Math.round(amounts.reduce((sum, amount) => sum + parseFloat(amount || '0') * 100, 0)) / 100;
+      const refundTotal = sumOf(paidPayments.map(p => p.refundedAmount));
+      const revenue = Math.round((sumOf(paidPayments.map(p => p.amount)) - refundTotal) * 100) / 100;
+      const discountTotal = sumOf(paidPayments.map(p => p.discountAmount));
+      // Every method counts once the money is in: card payments when Stripe confirms them, cash when recorded,
+      // and bank transfers once reconciled
+      const revenueByMethod = Object.fromEntries((['card', 'cash', 'bank_transfer'] as const).map(method => {
+        const methodPayments = paidPayments.filter(p => p.method === method);
+        return [method, Math.round((sumOf(methodPayments.map(p => p.amount)) - sumOf(methodPayments.map(p => p.refundedAmount))) * 100) / 100];
+      }));
+      const unreconciledTransfers = payments.filter(p => p.method === 'bank_transfer' && p.status === 'pending');
+      const creditTotal = sumOf(paidPayments.map(p => p.creditAmount));
+      const promotionUsage = (await storage.getPromotions())
+        .filter(promotion => promotion.redemptions > 0)
+        .map(promotion => ({
+          promotionId: promotion.id,
+          code: promotion.code,
+          isReferral: !!promotion.referrerId,
+          redemptions: promotion.redemptions,
+          discountTotal: parseFloat(promotion.discountTotal),
+        }));
+      
+      // Monthly enrollments (last 12 months)
+      const monthlyEnrollments = [];
+      const now = new Date();
+      for (let i = 11; i >= 0; i--) {
+        const monthDate = new Date(now.getFullYear(), now.getMonth() - i, 1);
+        const monthName = monthDate.toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+        const count = enrollments.filter(e => {
+          const enrollDate = new Date(e.enrolledAt);
+          return enrollDate.getMonth() === monthDate.getMonth() && 
+                 enrollDate.getFullYear() === monthDate.getFullYear();
+        }).length;
+        monthlyEnrollments.push({ month: monthName, count });
+      }
+      
+      // Test pass rates by course
+      const testPassRatesData = await Promise.all(
+        courses.slice(0, 5).map(async (course) => {
+          // Get templates linked to this course via courseCompletionTests
+          const courseTemplates = await storage.getTestTemplatesByCourse(course.id);
+          const templateIds = courseTemplates.map(t => t.id);
+          
+          // Filter test instances for this course's templates
+          const courseTests = testInstances.filter(t => 
+            t.testTemplateId && templateIds.includes(t.testTemplateId) && t.submittedAt !== null
+          );
+          
+          const passed = courseTests.filter(t => t.passed).length;
+          const total = courseTests.length;
+          const rate = total > 0 ? Math.round((passed / total) * 100) : 0;
+          return {
+            course: course.name.substring(0, 15),
+            rate
+          };
+        })
+      );
+
+      const stats = {
+        totalStudents: users.filter(u => u.role === 'student').length,
+        activeStudents: users.filter(u => u.role === 'student' && u.isActive).length,
+        totalInstructors: users.filter(u => u.role === 'instructor').length,
+        totalCourses: courses.length,
+        activeCourses: courses.filter(c => c.isActive).length,
+        totalTests: testInstances.filter(t => t.submittedAt).length,
+        passedTests: testInstances.filter(t => t.passed).length,
+        totalCertificates: certificates.length,
+        revenueTotal: revenue,
+        grossRevenue: Math.round((revenue + refundTotal + discountTotal + creditTotal) * 100) / 100,
+        refundTotal,
+        revenueByMethod,
+        unreconciledTransferCount: unreconciledTransfers.length,
+        unreconciledTransferTotal: sumOf(unreconciledTransfers.map(p => p.amount)),
+        discountTotal,
+        creditTotal,
+        promotionUsage,
+        monthlyEnrollments,
+        testPassRates: testPassRatesData,
+      };
+
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching admin stats:", error);
+      res.status(500).json({ message: "Failed to fetch admin stats" });
+    }
+  });
+
+  app.get('/api/admin/users', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Endpoint for both admins and instructors to fetch instructor list
+  app.get('/api/instructors', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const instructors = users.filter(u => u.role === 'instructor');
+      res.json(instructors);
+    } catch (error) {
+      console.error("Error fetching instructors:", error);
+      res.status(500).json({ message: "Failed to fetch instructors" });
+    }
+  });
+
+  app.get('/api/admin/export/students', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const students = users.filter(u => u.role === 'student');
+      
+      const csv = [
+        ['ID', 'First Name', 'Last Name', 'Email', 'Role', 'Active', 'Created At'].map(csvEscape).join(','),
+        ...students.map(s => [
+          csvEscape(s.id),
+          csvEscape(s.firstName || ''),
+          csvEscape(s.lastName || ''),
+          csvEscape(s.email || ''),
+          csvEscape(s.role),
+          csvEscape(s.isActive ? 'Yes' : 'No'),
+          csvEscape(new Date(s.createdAt).toLocaleDateString())
+        ].join(','))
+      ].join('\n');
+      
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename=students.csv');
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting students:", error);
+      res.status(500).json({ message: "Failed to export students" });
+    }
+  });
+
+  app.get('/api/admin/export/test-results', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const allTests = await Promise.all(
+        users.filter(u => u.role === 'student').map(u => storage.getTestInstancesByStudent(u.id))
+      );
+      const tests = allTests.flat().filter(t => t.submittedAt);
+      
+      const csv = [
+        ['Student ID', 'Test Template ID', 'Score', 'Percentage', 'Passed', 'Submitted At'].map(csvEscape).join(','),
+        ...tests.map(t => [
+          csvEscape(t.studentId),
+          csvEscape(t.testTemplateId),
+          csvEscape(t.score || 0),
+          csvEscape(t.percentage || 0),
+          csvEscape(t.passed ? 'Yes' : 'No'),
+          csvEscape(t.submittedAt ? new Date(t.submittedAt).toLocaleDateString() : '')
+        ].join(','))
       ].join('\n');
       
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename=students.csv');
-      res.send(csv);
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename=test-results.csv');
+      res.send(csv);
+    } catch (error) {
+      console.error("Error exporting test results:", error);
+      res.status(500).json({ message: "Failed to export test results" });
+    }
+  });
+
+  app.patch('/api/admin/users/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const { id } = req.params;
+      const updatedUser = await storage.updateUser(id, req.body);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "UPDATE_USER",
+          entityType: "user",
+          entityId: id,
+          details: req.body,
+        });
+      }
+
+      res.json(updatedUser);
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  app.get('/api/admin/users/:id/enrollments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const enrollments = await storage.getEnrollmentsWithCourseDetails(id);
+      res.json(enrollments);
+    } catch (error) {
+      console.error("Error fetching user enrollments:", error);
+      res.status(500).json({ message: "Failed to fetch user enrollments" });
+    }
+  });
+
+  app.get('/api/admin/enrollments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const enrollments = await storage.getAllEnrollmentsWithDetails();
+      res.json(enrollments);
+    } catch (error) {
+      console.error("Error fetching all enrollments:", error);
+      res.status(500).json({ message: "Failed to fetch enrollments" });
+    }
+  });
+
+  app.get('/api/admin/courses', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const allCourses = await storage.getCoursesWithScheduleCount();
+      
+      // Filter courses for instructors to only show their assigned courses
+      let courses = allCourses;
+      if (user?.role === 'instructor') {
+        courses = allCourses.filter(course => course.instructorIds.includes(userId));
+      }
+      
+      res.json(courses);
+    } catch (error) {
+      console.error("Error fetching courses:", error);
+      res.status(500).json({ message: "Failed to fetch courses" });
+    }
+  });
+
+  app.get('/api/admin/courses/:courseId/enrolled-students', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { courseId } = req.params;
+      const enrolledStudents = await storage.getEnrolledStudentsWithProgress(courseId);
+      res.json(enrolledStudents);
+    } catch (error) {
+      console.error("Error fetching enrolled students:", error);
+      res.status(500).json({ message: "Failed to fetch enrolled students" });
+    }
+  });
+
+  app.post('/api/admin/courses', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      const courseData = insertCourseSchema.parse(req.body);
+      const course = await storage.createCourse(courseData);
+
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "CREATE_COURSE",
+          entityType: "course",
+          entityId: course.id,
+        });
+      }
+
+      res.json(course);
+    } catch (error) {
+      console.error("Error creating course:", error);
+      res.status(500).json({ message: "Failed to create course" });
+    }
+  });
+
+  app.patch('/api/admin/courses/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const validation = insertCourseSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid course data", errors: validation.error.errors });
+      }
+
+      const existing = await storage.getCourse(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+
+      const course = await storage.updateCourse(id, validation.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "UPDATE_COURSE",
+        entityType: "course",
+        entityId: id,
+        details: validation.data,
+      });
+
+      res.json(course);
+    } catch (error) {
+      console.error("Error updating course:", error);
+      res.status(500).json({ message: "Failed to update course" });
+    }
+  });
+
+  app.get('/api/topics', isAuthenticated, async (req: any, res) => {
+    try {
+      const { courseId } = req.query;
+      if (!courseId || typeof courseId !== 'string') {
+        return res.status(400).json({ message: "Course ID required" });
+      }
+
+      const topics = await storage.getTopicsByCourse(courseId);
+      res.json(topics);
+    } catch (error) {
+      console.error("Error fetching topics:", error);
+      res.status(500).json({ message: "Failed to fetch topics" });
+    }
+  });
+
+  app.get('/api/courses/:id/content', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Students only see published content
+      const publishedOnly = user.role === 'student';
+      const topicsWithContent = await storage.getCourseWithContent(id, publishedOnly);
+      
+      res.json(topicsWithContent);
+    } catch (error) {
+      console.error("Error fetching course content:", error);
+      res.status(500).json({ message: "Failed to fetch course content" });
+    }
+  });
+
+  app.post('/api/admin/topics', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const topicData = insertTopicSchema.parse(req.body);
+      const topic = await storage.createTopic(topicData);
+      res.json(topic);
+    } catch (error) {
+      console.error("Error creating topic:", error);
+      res.status(500).json({ message: "Failed to create topic" });
+    }
+  });
+
+  app.patch('/api/admin/topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const topicData = insertTopicSchema.partial().parse(req.body);
+      const topic = await storage.updateTopic(id, topicData);
+      res.json(topic);
+    } catch (error) {
+      console.error("Error updating topic:", error);
+      res.status(500).json({ message: "Failed to update topic" });
+    }
+  });
+
+  app.delete('/api/admin/topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteTopic(id);
+      res.json({ message: "Topic deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting topic:", error);
+      res.status(500).json({ message: "Failed to delete topic" });
+    }
+  });
+
+  app.post('/api/admin/topics/:id/reorder', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { direction } = req.body;
+      
+      if (!direction || !['up', 'down'].includes(direction)) {
+        return res.status(400).json({ message: "Invalid direction. Must be 'up' or 'down'" });
+      }
+
+      await storage.reorderTopic(id, direction);
+      res.json({ message: "Topic reordered successfully" });
+    } catch (error) {
+      console.error("Error reordering topic:", error);
+      res.status(500).json({ message: "Failed to reorder topic" });
+    }
+  });
+
+  app.get('/api/posts', isAuthenticated, async (req: any, res) => {
+    try {
+      const { topicId } = req.query;
+      if (!topicId || typeof topicId !== 'string') {
+        return res.status(400).json({ message: "Topic ID required" });
+      }
+
+      const posts = await storage.getPostsByTopic(topicId);
+      res.json(posts);
+    } catch (error) {
+      console.error("Error fetching posts:", error);
+      res.status(500).json({ message: "Failed to fetch posts" });
+    }
+  });
+
+  app.post('/api/admin/posts', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const postData = insertPostSchema.parse(req.body);
+      const post = await storage.createPost(postData);
+      res.json(post);
+    } catch (error) {
+      console.error("Error creating post:", error);
+      res.status(500).json({ message: "Failed to create post" });
+    }
+  });
+
+  app.patch('/api/admin/posts/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const postData = insertPostSchema.partial().parse(req.body);
+      const post = await storage.updatePost(id, postData);
+      res.json(post);
+    } catch (error) {
+      console.error("Error updating post:", error);
+      res.status(500).json({ message: "Failed to update post" });
+    }
+  });
+
+  app.delete('/api/admin/posts/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deletePost(id);
+      res.json({ message: "Post deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting post:", error);
+      res.status(500).json({ message: "Failed to delete post" });
+    }
+  });
+
+  app.post('/api/admin/posts/:id/reorder', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const { direction } = req.body;
+      
+      if (!direction || !['up', 'down'].includes(direction)) {
+        return res.status(400).json({ message: "Invalid direction. Must be 'up' or 'down'" });
+      }
+
+      await storage.reorderPost(id, direction);
+      res.json({ message: "Post reordered successfully" });
     } catch (error) {
-      console.error("Error exporting students:", error);
-      res.status(500).json({ message: "Failed to export students" });
+      console.error("Error reordering post:", error);
+      res.status(500).json({ message: "Failed to reorder post" });
+    }
+  });
+
+  // Admin/Instructor schedule routes
+  app.get('/api/admin/courses/:courseId/schedules', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { courseId } = req.params;
+      const schedules = await storage.getSchedulesByCourse(courseId);
+      
+      const schedulesWithDetails = await Promise.all(
+        schedules.map(async (schedule) => {
+          const instructor = await storage.getUser(schedule.instructorId);
+          const topic = schedule.topicId ? await storage.getTopic(schedule.topicId) : null;
+          const student = schedule.studentId ? await storage.getUser(schedule.studentId) : null;
+          const vehicle = schedule.vehicleId ? await storage.getVehicle(schedule.vehicleId) : null;
+          
+          return {
+            ...schedule,
+            instructorName: instructor ? `${instructor.firstName} ${instructor.lastName}` : null,
+            topicName: topic?.name,
+            studentName: student ? `${student.firstName} ${student.lastName}` : null,
+            vehicleLabel: vehicle ? `${vehicle.plateNumber} (${vehicle.make} ${vehicle.model})` : null,
+          };
+        })
+      );
+      
+      res.json(schedulesWithDetails);
+    } catch (error) {
+      console.error("Error fetching course schedules:", error);
+      res.status(500).json({ message: "Failed to fetch course schedules" });
+    }
+  });
+
+  app.post('/api/admin/courses/:courseId/schedules', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { courseId } = req.params;
+      const scheduleData = insertScheduleSchema.parse({ ...req.body, courseId });
+
+      // Checked for instructor, student and vehicle conflicts by the storage layer
+      const schedule = await storage.createSchedule(scheduleData);
+      
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "CREATE_SCHEDULE",
+          entityType: "schedule",
+          entityId: schedule.id,
+        });
+      }
+      
+      res.json(schedule);
+    } catch (error: any) {
+      console.error("Error creating schedule:", error);
+      if (error.message?.startsWith('Booking conflict') || error.message?.includes('Vehicle unavailable')) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message === 'Vehicle not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create schedule" });
+    }
+  });
+
+  app.patch('/api/admin/schedules/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const scheduleData = insertScheduleSchema.partial().parse(req.body);
+
+      const existing = await storage.getSchedule(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+
+      const schedule = await storage.updateSchedule(id, scheduleData);
+      
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "UPDATE_SCHEDULE",
+          entityType: "schedule",
+          entityId: id,
+        });
+      }
+      
+      res.json(schedule);
+    } catch (error: any) {
+      console.error("Error updating schedule:", error);
+      if (error.message?.startsWith('Booking conflict') || error.message?.includes('Vehicle unavailable')) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message === 'Vehicle not found') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update schedule" });
+    }
+  });
+
+  app.delete('/api/admin/schedules/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteSchedule(id);
+      
+      const user = await storage.getUser(req.user.claims.sub);
+      if (user) {
+        await storage.createAuditLog({
+          userId: user.id,
+          action: "DELETE_SCHEDULE",
+          entityType: "schedule",
+          entityId: id,
+        });
+      }
+      
+      res.json({ message: "Schedule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting schedule:", error);
+      res.status(500).json({ message: "Failed to delete schedule" });
+    }
+  });
+
+  // Attendance routes (instructor/admin)
+  app.get('/api/instructor/schedules/:scheduleId/attendance', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { scheduleId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      // Verify instructor owns this schedule (admins can access all)
+      if (user?.role === 'instructor') {
+        const schedule = await storage.getSchedule(scheduleId);
+        if (!schedule || schedule.instructorId !== userId) {
+          return res.status(403).json({ message: "Not authorized to access this schedule" });
+        }
+      }
+
+      const studentsWithAttendance = await storage.getStudentsWithAttendance(scheduleId);
+      res.json(studentsWithAttendance);
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      res.status(500).json({ message: "Failed to fetch attendance" });
+    }
+  });
+
+  app.post('/api/instructor/schedules/:scheduleId/attendance', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { scheduleId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      // Verify instructor owns this schedule (admins can access all)
+      if (user?.role === 'instructor') {
+        const schedule = await storage.getSchedule(scheduleId);
+        if (!schedule || schedule.instructorId !== userId) {
+          return res.status(403).json({ message: "Not authorized to access this schedule" });
+        }
+      }
+
+      // Validate request body
+      const attendanceSchema = z.object({
+        studentId: z.string().min(1),
+        status: z.enum(['present', 'absent']),
+      });
+
+      const validationResult = attendanceSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid attendance data", errors: validationResult.error.errors });
+      }
+
+      const { studentId, status } = validationResult.data;
+      
+      await storage.markAttendance(scheduleId, studentId, status, userId);
+      res.json({ message: "Attendance marked successfully" });
+    } catch (error) {
+      console.error("Error marking attendance:", error);
+      res.status(500).json({ message: "Failed to mark attendance" });
+    }
+  });
+
+  // Lesson evaluation routes
+  app.get('/api/instructor/schedules/:scheduleId/evaluations', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { scheduleId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const schedule = await storage.getSchedule(scheduleId);
+      if (!schedule) {
+        return res.status(404).json({ message: "Schedule not found" });
+      }
+      if (user?.role === 'instructor' && schedule.instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to access this schedule" });
+      }
+
+      const [rubric, evaluations] = await Promise.all([
+        storage.getEvaluationRubricForCourse(schedule.courseId),
+        storage.getLessonEvaluationsBySchedule(scheduleId),
+      ]);
+
+      res.json({ rubric: rubric ?? null, evaluations });
+    } catch (error) {
+      console.error("Error fetching lesson evaluations:", error);
+      res.status(500).json({ message: "Failed to fetch lesson evaluations" });
+    }
+  });
+
+  app.put('/api/instructor/schedules/:scheduleId/evaluations/:studentId', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { scheduleId, studentId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'instructor') {
+        const schedule = await storage.getSchedule(scheduleId);
+        if (!schedule || schedule.instructorId !== userId) {
+          return res.status(403).json({ message: "Not authorized to access this schedule" });
+        }
+      }
+
+      const validationResult = submitLessonEvaluationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid evaluation data", errors: validationResult.error.errors });
+      }
+
+      const evaluation = await storage.saveLessonEvaluation({
+        scheduleId,
+        studentId,
+        instructorId: userId,
+        ...validationResult.data,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: "SAVE_LESSON_EVALUATION",
+        entityType: "lesson_evaluation",
+        entityId: evaluation.id,
+        details: { scheduleId, studentId },
+      });
+
+      res.json(evaluation);
+    } catch (error: any) {
+      console.error("Error saving lesson evaluation:", error);
+      if (error.message === 'Schedule not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message?.includes('not started') || error.message?.includes('marked present') || error.message?.includes('rubric')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save lesson evaluation" });
     }
   });
 
-  app.get('/api/admin/export/test-results', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  app.get('/api/courses/:courseId/evaluations', isAuthenticated, async (req: any, res) => {
     try {
-      const users = await storage.getAllUsers();
-      const allTests = await Promise.all(
-        users.filter(u => u.role === 'student').map(u => storage.getTestInstancesByStudent(u.id))
-      );
-      const tests = allTests.flat().filter(t => t.submittedAt);
-      
-      const csv = [
-        ['Student ID', 'Test Template ID', 'Score', 'Percentage', 'Passed', 'Submitted At'].map(csvEscape).join(','),
-        ...tests.map(t => [
-          csvEscape(t.studentId),
-          csvEscape(t.testTemplateId),
-          csvEscape(t.score || 0),
-          csvEscape(t.percentage || 0),
-          csvEscape(t.passed ? 'Yes' : 'No'),
-          csvEscape(t.submittedAt ? new Date(t.submittedAt).toLocaleDateString() : '')
-        ].join(','))
-      ].join('\n');
-      
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', 'attachment; filename=test-results.csv');
-      res.send(csv);
+      const { courseId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const timeline = await storage.getStudentEvaluationTimeline(userId, courseId);
+      res.json(timeline.map(({ instructor, ...evaluation }) => ({
+        ...evaluation,
+        instructorName: instructor ? `${instructor.firstName || ''} ${instructor.lastName || ''}`.trim() : null,
+      })));
     } catch (error) {
-      console.error("Error exporting test results:", error);
-      res.status(500).json({ message: "Failed to export test results" });
+      console.error("Error fetching evaluation timeline:", error);
+      res.status(500).json({ message: "Failed to fetch evaluation timeline" });
     }
   });
 
-  app.patch('/api/admin/users/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  // Exam readiness routes
+  app.get('/api/courses/:courseId/exam-readiness', isAuthenticated, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const { id } = req.params;
-      const updatedUser = await storage.updateUser(id, req.body);
+      const { courseId } = req.params;
+      const userId = req.user.claims.sub;
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "UPDATE_USER",
-          entityType: "user",
-          entityId: id,
-          details: req.body,
-        });
+      const readiness = await Promise.all([
+        storage.getExamReadiness(userId, courseId, 'theory'),
+        storage.getExamReadiness(userId, courseId, 'practical'),
+      ]);
+      res.json(readiness);
+    } catch (error: any) {
+      console.error("Error fetching exam readiness:", error);
+      if (error.message === 'Course not found' || error.message?.includes('not enrolled')) {
+        return res.status(404).json({ message: error.message });
       }
-
-      res.json(updatedUser);
-    } catch (error) {
-      console.error("Error updating user:", error);
-      res.status(500).json({ message: "Failed to update user" });
+      res.status(500).json({ message: "Failed to fetch exam readiness" });
     }
   });
 
-  app.get('/api/admin/users/:id/enrollments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  app.get('/api/admin/students/:studentId/exam-readiness', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const enrollments = await storage.getEnrollmentsWithCourseDetails(id);
-      res.json(enrollments);
-    } catch (error) {
-      console.error("Error fetching user enrollments:", error);
-      res.status(500).json({ message: "Failed to fetch user enrollments" });
+      const { studentId } = req.params;
+      const { courseId } = req.query;
+      if (!courseId || typeof courseId !== 'string') {
+        return res.status(400).json({ message: "Course ID required" });
+      }
+
+      const readiness = await Promise.all([
+        storage.getExamReadiness(studentId, courseId, 'theory'),
+        storage.getExamReadiness(studentId, courseId, 'practical'),
+      ]);
+      res.json(readiness);
+    } catch (error: any) {
+      console.error("Error fetching exam readiness:", error);
+      if (error.message === 'Course not found' || error.message?.includes('not enrolled')) {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch exam readiness" });
     }
   });
 
-  app.get('/api/admin/enrollments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  // Extra attempts for one student on an assessment
+  app.get('/api/instructor/assessments/:assessmentId/students/:studentId/attempt-grants', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const enrollments = await storage.getAllEnrollmentsWithDetails();
-      res.json(enrollments);
+      const { assessmentId, studentId } = req.params;
+
+      const assessment = await storage.getTopicAssessment(assessmentId);
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+
+      const [attemptStatus, grants] = await Promise.all([
+        storage.getAssessmentAttemptStatus(assessment, studentId),
+        storage.getAssessmentAttemptGrants(assessmentId, studentId),
+      ]);
+      res.json({ attemptStatus, grants });
     } catch (error) {
-      console.error("Error fetching all enrollments:", error);
-      res.status(500).json({ message: "Failed to fetch enrollments" });
+      console.error("Error fetching attempt grants:", error);
+      res.status(500).json({ message: "Failed to fetch attempt grants" });
     }
   });
 
-  app.get('/api/admin/courses', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/instructor/assessments/:assessmentId/students/:studentId/attempt-grants', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
+      const { assessmentId, studentId } = req.params;
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const allCourses = await storage.getCoursesWithScheduleCount();
-      
-      // Filter courses for instructors to only show their assigned courses
-      let courses = allCourses;
+
+      const validationResult = insertAssessmentAttemptGrantSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid attempt grant", errors: validationResult.error.errors });
+      }
+
+      const assessment = await storage.getTopicAssessment(assessmentId);
+      if (!assessment) {
+        return res.status(404).json({ message: "Assessment not found" });
+      }
+      const topic = await storage.getTopic(assessment.topicId);
+      if (!topic) {
+        return res.status(404).json({ message: "Topic not found" });
+      }
+
+      // Instructors may only grant attempts in courses they teach
       if (user?.role === 'instructor') {
-        courses = allCourses.filter(course => course.instructorIds.includes(userId));
+        const courseSchedules = await storage.getSchedulesByCourse(topic.courseId);
+        if (!courseSchedules.some(s => s.instructorId === userId)) {
+          return res.status(403).json({ message: "Not authorized to grant attempts in this course" });
+        }
       }
-      
-      res.json(courses);
+
+      const enrollment = await storage.getEnrollment(topic.courseId, studentId);
+      if (!enrollment) {
+        return res.status(400).json({ message: "Student is not enrolled in this course" });
+      }
+
+      const grant = await storage.createAssessmentAttemptGrant({
+        ...validationResult.data,
+        assessmentId,
+        studentId,
+        grantedBy: userId,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: "GRANT_EXTRA_ATTEMPTS",
+        entityType: "assessment_attempt_grant",
+        entityId: grant.id,
+        details: { assessmentId, studentId, extraAttempts: grant.extraAttempts, reason: grant.reason },
+      });
+
+      res.status(201).json(grant);
     } catch (error) {
-      console.error("Error fetching courses:", error);
-      res.status(500).json({ message: "Failed to fetch courses" });
+      console.error("Error granting extra attempts:", error);
+      res.status(500).json({ message: "Failed to grant extra attempts" });
     }
   });
 
-  app.get('/api/admin/courses/:courseId/enrolled-students', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/instructor/students/:studentId/exam-sign-offs', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const { courseId } = req.params;
-      const enrolledStudents = await storage.getEnrolledStudentsWithProgress(courseId);
-      res.json(enrolledStudents);
-    } catch (error) {
-      console.error("Error fetching enrolled students:", error);
-      res.status(500).json({ message: "Failed to fetch enrolled students" });
+      const { studentId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const validationResult = insertExamSignOffSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid sign-off data", errors: validationResult.error.errors });
+      }
+
+      // Instructors may only sign off students in courses they teach
+      if (user?.role === 'instructor') {
+        const courseSchedules = await storage.getSchedulesByCourse(validationResult.data.courseId);
+        if (!courseSchedules.some(s => s.instructorId === userId)) {
+          return res.status(403).json({ message: "Not authorized to sign off students in this course" });
+        }
+      }
+
+      const signOff = await storage.createExamSignOff({
+        ...validationResult.data,
+        studentId,
+        instructorId: userId,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: "SIGN_OFF_EXAM_READINESS",
+        entityType: "exam_sign_off",
+        entityId: signOff.id,
+        details: { studentId, courseId: signOff.courseId, examType: signOff.examType },
+      });
+
+      res.status(201).json(signOff);
+    } catch (error: any) {
+      console.error("Error signing off student:", error);
+      if (error.message?.includes('not enrolled')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('already been signed off')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to sign off student" });
     }
   });
 
-  app.post('/api/admin/courses', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+  app.delete('/api/instructor/exam-sign-offs/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const courseData = insertCourseSchema.parse(req.body);
-      const course = await storage.createCourse(courseData);
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
 
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "CREATE_COURSE",
-          entityType: "course",
-          entityId: course.id,
-        });
+      const signOff = await storage.getExamSignOff(id);
+      if (!signOff) {
+        return res.status(404).json({ message: "Sign-off not found" });
+      }
+      if (user?.role === 'instructor' && signOff.instructorId !== userId) {
+        return res.status(403).json({ message: "Only the signing instructor can revoke this sign-off" });
       }
 
-      res.json(course);
+      await storage.deleteExamSignOff(id);
+
+      await storage.createAuditLog({
+        userId,
+        action: "REVOKE_EXAM_SIGN_OFF",
+        entityType: "exam_sign_off",
+        entityId: id,
+        details: { studentId: signOff.studentId, courseId: signOff.courseId, examType: signOff.examType },
+      });
+
+      res.json({ message: "Sign-off revoked successfully" });
     } catch (error) {
-      console.error("Error creating course:", error);
-      res.status(500).json({ message: "Failed to create course" });
+      console.error("Error revoking sign-off:", error);
+      res.status(500).json({ message: "Failed to revoke sign-off" });
     }
   });
 
-  app.get('/api/topics', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/students/:studentId/state-exams', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { courseId } = req.query;
-      if (!courseId || typeof courseId !== 'string') {
-        return res.status(400).json({ message: "Course ID required" });
+      const { studentId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validationResult = insertStateExamSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid exam data", errors: validationResult.error.errors });
       }
 
-      const topics = await storage.getTopicsByCourse(courseId);
-      res.json(topics);
-    } catch (error) {
-      console.error("Error fetching topics:", error);
-      res.status(500).json({ message: "Failed to fetch topics" });
+      const exam = await storage.registerStateExam({
+        ...validationResult.data,
+        studentId,
+        recordedBy: userId,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: "REGISTER_STATE_EXAM",
+        entityType: "state_exam",
+        entityId: exam.id,
+        details: { studentId, courseId: exam.courseId, examType: exam.examType, examDate: exam.examDate },
+      });
+
+      res.status(201).json(exam);
+    } catch (error: any) {
+      console.error("Error registering state exam:", error);
+      if (error.message === 'Course not found' || error.message?.includes('not enrolled')) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message?.includes('not ready') || error.message?.includes('already')) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to register state exam" });
     }
   });
 
-  app.get('/api/courses/:id/content', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/admin/state-exams/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const validationResult = updateStateExamSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid exam data", errors: validationResult.error.errors });
       }
 
-      // Students only see published content
-      const publishedOnly = user.role === 'student';
-      const topicsWithContent = await storage.getCourseWithContent(id, publishedOnly);
-      
-      res.json(topicsWithContent);
+      const exam = await storage.getStateExam(id);
+      if (!exam) {
+        return res.status(404).json({ message: "Exam not found" });
+      }
+
+      const updated = await storage.updateStateExam(id, validationResult.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "UPDATE_STATE_EXAM",
+        entityType: "state_exam",
+        entityId: id,
+        details: validationResult.data,
+      });
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error fetching course content:", error);
-      res.status(500).json({ message: "Failed to fetch course content" });
+      console.error("Error updating state exam:", error);
+      res.status(500).json({ message: "Failed to update state exam" });
     }
   });
 
-  app.post('/api/admin/topics', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.get('/api/admin/reports/exam-pass-rates', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const topicData = insertTopicSchema.parse(req.body);
-      const topic = await storage.createTopic(topicData);
-      res.json(topic);
+      const passRates = await storage.getFirstTimePassRates();
+      res.json(passRates);
     } catch (error) {
-      console.error("Error creating topic:", error);
-      res.status(500).json({ message: "Failed to create topic" });
+      console.error("Error fetching exam pass rates:", error);
+      res.status(500).json({ message: "Failed to fetch exam pass rates" });
     }
   });
 
-  app.patch('/api/admin/topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  // Evaluation rubric routes (one rubric per course category)
+  app.get('/api/admin/evaluation-rubrics', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const topicData = insertTopicSchema.partial().parse(req.body);
-      const topic = await storage.updateTopic(id, topicData);
-      res.json(topic);
+      const rubrics = await storage.getEvaluationRubrics();
+      res.json(rubrics);
     } catch (error) {
-      console.error("Error updating topic:", error);
-      res.status(500).json({ message: "Failed to update topic" });
+      console.error("Error fetching evaluation rubrics:", error);
+      res.status(500).json({ message: "Failed to fetch evaluation rubrics" });
     }
   });
 
-  app.delete('/api/admin/topics/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/admin/evaluation-rubrics', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const validationResult = insertEvaluationRubricSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid rubric data", errors: validationResult.error.errors });
+      }
+
+      const existing = await storage.getEvaluationRubricByCategory(validationResult.data.courseCategory);
+      if (existing) {
+        return res.status(409).json({ message: "A rubric already exists for this course category" });
+      }
+
+      const rubric = await storage.createEvaluationRubric(validationResult.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "CREATE_EVALUATION_RUBRIC",
+        entityType: "evaluation_rubric",
+        entityId: rubric.id,
+        details: { courseCategory: rubric.courseCategory },
+      });
+
+      res.status(201).json(rubric);
+    } catch (error) {
+      console.error("Error creating evaluation rubric:", error);
+      res.status(500).json({ message: "Failed to create evaluation rubric" });
+    }
+  });
+
+  app.patch('/api/admin/evaluation-rubrics/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteTopic(id);
-      res.json({ message: "Topic deleted successfully" });
+      const validationResult = insertEvaluationRubricSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid rubric data", errors: validationResult.error.errors });
+      }
+
+      const rubric = await storage.getEvaluationRubric(id);
+      if (!rubric) {
+        return res.status(404).json({ message: "Rubric not found" });
+      }
+
+      const { courseCategory } = validationResult.data;
+      if (courseCategory && courseCategory !== rubric.courseCategory) {
+        const existing = await storage.getEvaluationRubricByCategory(courseCategory);
+        if (existing) {
+          return res.status(409).json({ message: "A rubric already exists for this course category" });
+        }
+      }
+
+      const updated = await storage.updateEvaluationRubric(id, validationResult.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "UPDATE_EVALUATION_RUBRIC",
+        entityType: "evaluation_rubric",
+        entityId: id,
+      });
+
+      res.json(updated);
     } catch (error) {
-      console.error("Error deleting topic:", error);
-      res.status(500).json({ message: "Failed to delete topic" });
+      console.error("Error updating evaluation rubric:", error);
+      res.status(500).json({ message: "Failed to update evaluation rubric" });
     }
   });
 
-  app.post('/api/admin/topics/:id/reorder', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.delete('/api/admin/evaluation-rubrics/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { direction } = req.body;
-      
-      if (!direction || !['up', 'down'].includes(direction)) {
-        return res.status(400).json({ message: "Invalid direction. Must be 'up' or 'down'" });
+      const rubric = await storage.getEvaluationRubric(id);
+      if (!rubric) {
+        return res.status(404).json({ message: "Rubric not found" });
+      }
+
+      await storage.deleteEvaluationRubric(id);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "DELETE_EVALUATION_RUBRIC",
+        entityType: "evaluation_rubric",
+        entityId: id,
+        details: { courseCategory: rubric.courseCategory },
+      });
+
+      res.json({ message: "Rubric deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting evaluation rubric:", error);
+      res.status(500).json({ message: "Failed to delete evaluation rubric" });
+    }
+  });
+
+  // Driving hours ledger routes
+  app.get('/api/driving-hours', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const summary = await storage.getDrivingHoursSummary(userId);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching driving hours:", error);
+      res.status(500).json({ message: "Failed to fetch driving hours" });
+    }
+  });
+
+  app.get('/api/admin/students/:studentId/driving-hours', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+    try {
+      const { studentId } = req.params;
+      const { courseId } = req.query;
+      if (!courseId || typeof courseId !== 'string') {
+        return res.status(400).json({ message: "Course ID required" });
+      }
+
+      const course = await storage.getCourse(courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
       }
 
-      await storage.reorderTopic(id, direction);
-      res.json({ message: "Topic reordered successfully" });
+      const [entries, creditedMinutes] = await Promise.all([
+        storage.getDrivingLedger(studentId, courseId),
+        storage.getDrivingMinutes(studentId, courseId),
+      ]);
+
+      res.json({
+        entries: entries.map(({ createdByUser, ...entry }) => ({
+          ...entry,
+          createdByName: createdByUser ? `${createdByUser.firstName || ''} ${createdByUser.lastName || ''}`.trim() : null,
+        })),
+        creditedMinutes,
+        requiredMinutes: course.requiredDrivingHours ? course.requiredDrivingHours * 60 : null,
+        requiredForCompletion: course.requireDrivingHoursForCompletion,
+      });
     } catch (error) {
-      console.error("Error reordering topic:", error);
-      res.status(500).json({ message: "Failed to reorder topic" });
+      console.error("Error fetching driving hours ledger:", error);
+      res.status(500).json({ message: "Failed to fetch driving hours ledger" });
     }
   });
 
-  app.get('/api/posts', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/students/:studentId/driving-hours/adjustments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { topicId } = req.query;
-      if (!topicId || typeof topicId !== 'string') {
-        return res.status(400).json({ message: "Topic ID required" });
+      const { studentId } = req.params;
+      const userId = req.user.claims.sub;
+
+      const validationResult = insertDrivingHoursAdjustmentSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid adjustment data", errors: validationResult.error.errors });
       }
 
-      const posts = await storage.getPostsByTopic(topicId);
-      res.json(posts);
-    } catch (error) {
-      console.error("Error fetching posts:", error);
-      res.status(500).json({ message: "Failed to fetch posts" });
+      const entry = await storage.createDrivingHoursAdjustment({
+        ...validationResult.data,
+        studentId,
+        createdBy: userId,
+      });
+
+      await storage.createAuditLog({
+        userId,
+        action: "ADJUST_DRIVING_HOURS",
+        entityType: "driving_ledger_entry",
+        entityId: entry.id,
+        details: { studentId, ...validationResult.data },
+      });
+
+      res.status(201).json(entry);
+    } catch (error: any) {
+      console.error("Error adjusting driving hours:", error);
+      if (error.message?.includes('not enrolled')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to adjust driving hours" });
     }
   });
 
-  app.post('/api/admin/posts', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  // Instructor availability routes (instructors manage their own, admins manage everyone's)
+  app.get('/api/instructors/:instructorId/availability', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const postData = insertPostSchema.parse(req.body);
-      const post = await storage.createPost(postData);
-      res.json(post);
+      const { instructorId } = req.params;
+      const [availability, exceptions] = await Promise.all([
+        storage.getInstructorAvailability(instructorId),
+        storage.getAvailabilityExceptions(instructorId),
+      ]);
+      res.json({ availability, exceptions });
     } catch (error) {
-      console.error("Error creating post:", error);
-      res.status(500).json({ message: "Failed to create post" });
+      console.error("Error fetching instructor availability:", error);
+      res.status(500).json({ message: "Failed to fetch instructor availability" });
     }
   });
 
-  app.patch('/api/admin/posts/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/instructors/:instructorId/availability', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      const postData = insertPostSchema.partial().parse(req.body);
-      const post = await storage.updatePost(id, postData);
-      res.json(post);
+      const { instructorId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'instructor' && instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage this instructor's availability" });
+      }
+
+      const validationResult = insertInstructorAvailabilitySchema.safeParse({ ...req.body, instructorId });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid availability data", errors: validationResult.error.errors });
+      }
+      if (validationResult.data.startTime >= validationResult.data.endTime) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      const slot = await storage.createInstructorAvailability(validationResult.data);
+
+      await storage.createAuditLog({
+        userId,
+        action: "CREATE_INSTRUCTOR_AVAILABILITY",
+        entityType: "instructor_availability",
+        entityId: slot.id,
+      });
+
+      res.status(201).json(slot);
     } catch (error) {
-      console.error("Error updating post:", error);
-      res.status(500).json({ message: "Failed to update post" });
+      console.error("Error creating instructor availability:", error);
+      res.status(500).json({ message: "Failed to create instructor availability" });
     }
   });
 
-  app.delete('/api/admin/posts/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.patch('/api/availability/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      await storage.deletePost(id);
-      res.json({ message: "Post deleted successfully" });
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const existing = await storage.getInstructorAvailabilitySlot(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Availability slot not found" });
+      }
+      if (user?.role === 'instructor' && existing.instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage this instructor's availability" });
+      }
+
+      const validationResult = insertInstructorAvailabilitySchema.partial().omit({ instructorId: true }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid availability data", errors: validationResult.error.errors });
+      }
+      const startTime = validationResult.data.startTime ?? existing.startTime;
+      const endTime = validationResult.data.endTime ?? existing.endTime;
+      if (startTime >= endTime) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      const slot = await storage.updateInstructorAvailability(id, validationResult.data);
+
+      await storage.createAuditLog({
+        userId,
+        action: "UPDATE_INSTRUCTOR_AVAILABILITY",
+        entityType: "instructor_availability",
+        entityId: id,
+      });
+
+      res.json(slot);
     } catch (error) {
-      console.error("Error deleting post:", error);
-      res.status(500).json({ message: "Failed to delete post" });
+      console.error("Error updating instructor availability:", error);
+      res.status(500).json({ message: "Failed to update instructor availability" });
     }
   });
 
-  app.post('/api/admin/posts/:id/reorder', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.delete('/api/availability/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const { direction } = req.body;
-      
-      if (!direction || !['up', 'down'].includes(direction)) {
-        return res.status(400).json({ message: "Invalid direction. Must be 'up' or 'down'" });
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const existing = await storage.getInstructorAvailabilitySlot(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Availability slot not found" });
+      }
+      if (user?.role === 'instructor' && existing.instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage this instructor's availability" });
       }
 
-      await storage.reorderPost(id, direction);
-      res.json({ message: "Post reordered successfully" });
-    } catch (error) {
-      console.error("Error reordering post:", error);
-      res.status(500).json({ message: "Failed to reorder post" });
-    }
-  });
+      await storage.deleteInstructorAvailability(id);
 
-  // Admin/Instructor schedule routes
-  app.get('/api/admin/courses/:courseId/schedules', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
-    try {
-      const { courseId } = req.params;
-      const schedules = await storage.getSchedulesByCourse(courseId);
-      
-      const schedulesWithDetails = await Promise.all(
-        schedules.map(async (schedule) => {
-          const instructor = await storage.getUser(schedule.instructorId);
-          const topic = schedule.topicId ? await storage.getTopic(schedule.topicId) : null;
-          
-          return {
-            ...schedule,
-            instructorName: instructor ? `${instructor.firstName} ${instructor.lastName}` : null,
-            topicName: topic?.name,
-          };
-        })
-      );
-      
-      res.json(schedulesWithDetails);
+      await storage.createAuditLog({
+        userId,
+        action: "DELETE_INSTRUCTOR_AVAILABILITY",
+        entityType: "instructor_availability",
+        entityId: id,
+      });
+
+      res.json({ message: "Availability slot deleted successfully" });
     } catch (error) {
-      console.error("Error fetching course schedules:", error);
-      res.status(500).json({ message: "Failed to fetch course schedules" });
+      console.error("Error deleting instructor availability:", error);
+      res.status(500).json({ message: "Failed to delete instructor availability" });
     }
   });
 
-  app.post('/api/admin/courses/:courseId/schedules', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/instructors/:instructorId/availability-exceptions', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const { courseId } = req.params;
-      const scheduleData = insertScheduleSchema.parse({ ...req.body, courseId });
-      const schedule = await storage.createSchedule(scheduleData);
-      
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "CREATE_SCHEDULE",
-          entityType: "schedule",
-          entityId: schedule.id,
-        });
+      const { instructorId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (user?.role === 'instructor' && instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage this instructor's availability" });
       }
-      
-      res.json(schedule);
+
+      const validationResult = insertAvailabilityExceptionSchema.safeParse({ ...req.body, instructorId });
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid exception data", errors: validationResult.error.errors });
+      }
+
+      const { startTime, endTime, isAvailable } = validationResult.data;
+      if (isAvailable && (!startTime || !endTime)) {
+        return res.status(400).json({ message: "Extra availability requires a start and end time" });
+      }
+      if ((startTime && !endTime) || (!startTime && endTime)) {
+        return res.status(400).json({ message: "Provide both start and end time, or neither for a whole day" });
+      }
+      if (startTime && endTime && startTime >= endTime) {
+        return res.status(400).json({ message: "End time must be after start time" });
+      }
+
+      const exception = await storage.createAvailabilityException(validationResult.data);
+
+      await storage.createAuditLog({
+        userId,
+        action: "CREATE_AVAILABILITY_EXCEPTION",
+        entityType: "availability_exception",
+        entityId: exception.id,
+      });
+
+      res.status(201).json(exception);
     } catch (error) {
-      console.error("Error creating schedule:", error);
-      res.status(500).json({ message: "Failed to create schedule" });
+      console.error("Error creating availability exception:", error);
+      res.status(500).json({ message: "Failed to create availability exception" });
     }
   });
 
-  app.patch('/api/admin/schedules/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.delete('/api/availability-exceptions/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const scheduleData = insertScheduleSchema.partial().parse(req.body);
-      const schedule = await storage.updateSchedule(id, scheduleData);
-      
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "UPDATE_SCHEDULE",
-          entityType: "schedule",
-          entityId: id,
-        });
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const existing = await storage.getAvailabilityException(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Availability exception not found" });
       }
-      
-      res.json(schedule);
+      if (user?.role === 'instructor' && existing.instructorId !== userId) {
+        return res.status(403).json({ message: "Not authorized to manage this instructor's availability" });
+      }
+
+      await storage.deleteAvailabilityException(id);
+
+      await storage.createAuditLog({
+        userId,
+        action: "DELETE_AVAILABILITY_EXCEPTION",
+        entityType: "availability_exception",
+        entityId: id,
+      });
+
+      res.json({ message: "Availability exception deleted successfully" });
     } catch (error) {
-      console.error("Error updating schedule:", error);
-      res.status(500).json({ message: "Failed to update schedule" });
+      console.error("Error deleting availability exception:", error);
+      res.status(500).json({ message: "Failed to delete availability exception" });
     }
   });
 
-  app.delete('/api/admin/schedules/:id', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  // Vehicle fleet routes
+  app.get('/api/vehicles', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
     try {
-      const { id } = req.params;
-      await storage.deleteSchedule(id);
-      
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user) {
-        await storage.createAuditLog({
-          userId: user.id,
-          action: "DELETE_SCHEDULE",
-          entityType: "schedule",
-          entityId: id,
-        });
-      }
-      
-      res.json({ message: "Schedule deleted successfully" });
+      const vehicles = await storage.getVehicles();
+      res.json(vehicles);
     } catch (error) {
-      console.error("Error deleting schedule:", error);
-      res.status(500).json({ message: "Failed to delete schedule" });
+      console.error("Error fetching vehicles:", error);
+      res.status(500).json({ message: "Failed to fetch vehicles" });
     }
   });
 
-  // Attendance routes (instructor/admin)
-  app.get('/api/instructor/schedules/:scheduleId/attendance', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.post('/api/vehicles', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { scheduleId } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const validation = insertVehicleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid vehicle data", errors: validation.error.errors });
+      }
 
-      // Verify instructor owns this schedule (admins can access all)
-      if (user?.role === 'instructor') {
-        const schedule = await storage.getSchedule(scheduleId);
-        if (!schedule || schedule.instructorId !== userId) {
-          return res.status(403).json({ message: "Not authorized to access this schedule" });
-        }
+      const existing = await storage.getVehicleByPlate(validation.data.plateNumber);
+      if (existing) {
+        return res.status(409).json({ message: "A vehicle with this plate number already exists" });
       }
 
-      const studentsWithAttendance = await storage.getStudentsWithAttendance(scheduleId);
-      res.json(studentsWithAttendance);
+      const vehicle = await storage.createVehicle(validation.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "CREATE_VEHICLE",
+        entityType: "vehicle",
+        entityId: vehicle.id,
+        details: { plateNumber: vehicle.plateNumber },
+      });
+
+      res.json(vehicle);
     } catch (error) {
-      console.error("Error fetching attendance:", error);
-      res.status(500).json({ message: "Failed to fetch attendance" });
+      console.error("Error creating vehicle:", error);
+      res.status(500).json({ message: "Failed to create vehicle" });
     }
   });
 
-  app.post('/api/instructor/schedules/:scheduleId/attendance', isAuthenticated, requireRole(['admin', 'instructor']), async (req: any, res) => {
+  app.patch('/api/vehicles/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const { scheduleId } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const { id } = req.params;
+      const validation = insertVehicleSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid vehicle data", errors: validation.error.errors });
+      }
 
-      // Verify instructor owns this schedule (admins can access all)
-      if (user?.role === 'instructor') {
-        const schedule = await storage.getSchedule(scheduleId);
-        if (!schedule || schedule.instructorId !== userId) {
-          return res.status(403).json({ message: "Not authorized to access this schedule" });
+      const vehicle = await storage.getVehicle(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+
+      if (validation.data.plateNumber && validation.data.plateNumber !== vehicle.plateNumber) {
+        const existing = await storage.getVehicleByPlate(validation.data.plateNumber);
+        if (existing) {
+          return res.status(409).json({ message: "A vehicle with this plate number already exists" });
         }
       }
 
-      // Validate request body
-      const attendanceSchema = z.object({
-        studentId: z.string().min(1),
-        status: z.enum(['present', 'absent']),
+      const updated = await storage.updateVehicle(id, validation.data);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "UPDATE_VEHICLE",
+        entityType: "vehicle",
+        entityId: id,
+        details: validation.data,
       });
 
-      const validationResult = attendanceSchema.safeParse(req.body);
-      if (!validationResult.success) {
-        return res.status(400).json({ message: "Invalid attendance data", errors: validationResult.error.errors });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating vehicle:", error);
+      res.status(500).json({ message: "Failed to update vehicle" });
+    }
+  });
+
+  app.delete('/api/vehicles/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const vehicle = await storage.getVehicle(id);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
       }
 
-      const { studentId, status } = validationResult.data;
-      
-      await storage.markAttendance(scheduleId, studentId, status, userId);
-      res.json({ message: "Attendance marked successfully" });
+      await storage.deleteVehicle(id);
+
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: "DELETE_VEHICLE",
+        entityType: "vehicle",
+        entityId: id,
+        details: { plateNumber: vehicle.plateNumber },
+      });
+
+      res.json({ message: "Vehicle deleted successfully" });
     } catch (error) {
-      console.error("Error marking attendance:", error);
-      res.status(500).json({ message: "Failed to mark attendance" });
+      console.error("Error deleting vehicle:", error);
+      res.status(500).json({ message: "Failed to delete vehicle" });
     }
   });
 
@@ -1510,7 +3840,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/admin/test-templates', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
-      const templateData = insertTestTemplateSchema.parse(req.body);
+      const normalized = normalizeBlueprint(req.body);
+      if (!normalized.success) {
+        return res.status(400).json({ message: "Invalid blueprint", errors: normalized.error.errors });
+      }
+      const templateData = insertTestTemplateSchema.parse(normalized.data);
       const template = await storage.createTestTemplate(templateData);
       res.json(template);
     } catch (error) {
@@ -1522,7 +3856,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/admin/test-templates/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const template = await storage.updateTestTemplate(id, req.body);
+      const normalized = normalizeBlueprint(req.body);
+      if (!normalized.success) {
+        return res.status(400).json({ message: "Invalid blueprint", errors: normalized.error.errors });
+      }
+      const template = await storage.updateTestTemplate(id, normalized.data);
       res.json(template);
     } catch (error) {
       console.error("Error updating test template:", error);
@@ -1549,6 +3887,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!questionId) {
         return res.status(400).json({ message: "Question ID required" });
       }
+
+      const question = await storage.getQuestion(questionId);
+      if (question && question.status !== 'approved') {
+        return res.status(409).json({ message: "Only approved questions can be added to a test" });
+      }
       
       const testQuestion = await storage.addQuestionToTest(id, questionId, orderIndex || 0);
       res.json(testQuestion);
@@ -1584,7 +3927,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/admin/topics/:topicId/assessments', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
       const { topicId } = req.params;
-      const assessmentData = { ...req.body, topicId };
+      const normalized = normalizeBlueprint(req.body);
+      if (!normalized.success) {
+        return res.status(400).json({ message: "Invalid blueprint", errors: normalized.error.errors });
+      }
+      const assessmentData = { ...normalized.data, topicId };
       const assessment = await storage.createTopicAssessment(assessmentData);
       res.status(201).json(assessment);
     } catch (error: any) {
@@ -1596,7 +3943,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/admin/assessments/:id', isAuthenticated, requireRole(['admin']), async (req: any, res) => {
     try {
       const { id } = req.params;
-      const assessment = await storage.updateTopicAssessment(id, req.body);
+      const normalized = normalizeBlueprint(req.body);
+      if (!normalized.success) {
+        return res.status(400).json({ message: "Invalid blueprint", errors: normalized.error.errors });
+      }
+      const assessment = await storage.updateTopicAssessment(id, normalized.data);
       res.json(assessment);
     } catch (error: any) {
       console.error("Error updating topic assessment:", error);
@@ -1643,6 +3994,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { assessmentId } = req.params;
       const { questionId, orderIndex } = req.body;
+
+      const question = await storage.getQuestion(questionId);
+      if (question && question.status !== 'approved') {
+        return res.status(409).json({ message: "Only approved questions can be added to an assessment" });
+      }
       
       const assessmentQuestion = await storage.addQuestionToAssessment(assessmentId, questionId, orderIndex);
       res.status(201).json(assessmentQuestion);
@@ -1676,60 +4032,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stripe webhook handler
-  app.post('/api/webhooks/stripe', express.raw({ type: 'application/json' }), async (req, res) => {
+  // Stripe webhook handler. Events are stored by id first, so a redelivered event is acknowledged
+  // without being applied twice; an event that fails is answered with 500 and retried by Stripe.
+  // The signature covers the exact bytes Stripe sent; the global JSON parser keeps them as rawBody
+  app.post('/api/webhooks/stripe', async (req, res) => {
     const sig = req.headers['stripe-signature'];
     
     if (!sig) {
       return res.status(400).send('Missing stripe signature');
     }
 
+    let event: Stripe.Event;
     try {
-      const event = stripe.webhooks.constructEvent(
-        req.body,
+      event = stripe.webhooks.constructEvent(
+        req.rawBody as Buffer,
         sig,
         process.env.STRIPE_WEBHOOK_SECRET || ''
       );
+    } catch (err: any) {
+      console.error('Webhook error:', err.message);
+      return res.status(400).send(`Webhook Error: ${err.message}`);
+    }
 
-      if (event.type === 'payment_intent.succeeded') {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        
-        const payments = await storage.getPaymentsByStudent('');
-        const payment = payments.find(p => p.stripePaymentIntentId === paymentIntent.id);
-        
-        if (payment) {
-          await storage.updatePayment(payment.id, {
-            status: 'paid',
-            paidAt: new Date(),
-          });
-
-          if (payment.courseId && payment.studentId) {
-            const existing = await storage.getEnrollment(payment.courseId, payment.studentId);
-            if (!existing) {
-              await storage.createEnrollment({
-                courseId: payment.courseId,
-                studentId: payment.studentId,
-              });
-            }
-          }
-        }
-      } else if (event.type === 'payment_intent.payment_failed') {
-        const paymentIntent = event.data.object as Stripe.PaymentIntent;
-        
-        const payments = await storage.getPaymentsByStudent('');
-        const payment = payments.find(p => p.stripePaymentIntentId === paymentIntent.id);
-        
-        if (payment) {
-          await storage.updatePayment(payment.id, {
-            status: 'failed',
-          });
-        }
+    let claimed = false;
+    try {
+      claimed = await storage.recordStripeEvent({ id: event.id, type: event.type, payload: event });
+      if (!claimed) {
+        return res.json({ received: true });
       }
 
+      const payment = await handleStripeEvent(event);
+      await storage.markStripeEventProcessed(event.id, payment?.id ?? null);
       res.json({ received: true });
-    } catch (err: any) {
-      console.error('Webhook error:', err.message);
-      res.status(400).send(`Webhook Error: ${err.message}`);
+    } catch (error) {
+      console.error(`Error processing Stripe event ${event.id}:`, error);
+      if (claimed) {
+        await storage.releaseStripeEvent(event.id).catch((releaseError) => console.error(`Error releasing Stripe event ${event.id}:`, releaseError));
+      }
+      res.status(500).json({ message: "Failed to process webhook event" });
     }
   });
 
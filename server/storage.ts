@@ -6,15 +6,35 @@ import {
   questionCategories,
   questionTopics,
   questions,
+  questionStatistics,
+  questionVersions,
+  questionReviewEvents,
   testTemplates,
   testQuestions,
   testInstances,
   courseEnrollments,
   topicAssessments,
+  assessmentAttemptGrants,
   topicAssessmentQuestions,
   schedules,
+  vehicles,
+  instructorAvailability,
+  availabilityExceptions,
   attendance,
+  drivingLedgerEntries,
+  evaluationRubrics,
+  lessonEvaluations,
+  examSignOffs,
+  stateExams,
   payments,
+  paymentPlans,
+  installments,
+  promotions,
+  referralCreditEntries,
+  paymentRefunds,
+  stripeEvents,
+  schoolSettings,
+  invoices,
   certificates,
   auditLogs,
   emailTemplates,
@@ -32,10 +52,22 @@ import {
   type QuestionTopic,
   type InsertQuestion,
   type Question,
+  type QuestionStatistics,
+  type QuestionVersion,
+  type QuestionStatus,
+  type QuestionReviewAction,
+  type QuestionReviewEvent,
+  type ChoiceStatistic,
   type InsertTestTemplate,
   type TestTemplate,
   type InsertTestInstance,
   type TestInstance,
+  type CriticalFailure,
+  type ReviewPolicy,
+  type BlueprintRule,
+  type InsertAssessmentAttemptGrant,
+  type AssessmentAttemptGrant,
+  type NumericAnswerConfig,
   type InsertCourseEnrollment,
   type CourseEnrollment,
   type InsertTopicAssessment,
@@ -44,16 +76,385 @@ import {
   type TopicAssessmentQuestion,
   type InsertSchedule,
   type Schedule,
+  type InsertVehicle,
+  type Vehicle,
+  type InsertInstructorAvailability,
+  type InstructorAvailability,
+  type InsertAvailabilityException,
+  type AvailabilityException,
   type Attendance,
+  type DrivingLedgerEntry,
+  type InsertEvaluationRubric,
+  type EvaluationRubric,
+  type RubricSkill,
+  type LessonEvaluation,
+  type EvaluationScore,
+  type ExamSignOff,
+  type StateExam,
+  type StateExamType,
   type InsertPayment,
   type Payment,
+  type PaymentStatus,
+  type ManualPayment,
+  type InsertPaymentRefund,
+  type PaymentRefund,
+  type SchoolSettings,
+  type InvoiceSeller,
+  type Invoice,
+  type InvoiceType,
+  type InsertPaymentPlan,
+  type PaymentPlan,
+  type Installment,
+  type InstallmentStatus,
+  type InsertPromotion,
+  type Promotion,
   type InsertCertificate,
   type Certificate,
   type InsertAuditLog,
   type AuditLog,
+  type ContentLanguage,
+  type TranslatableEntity,
+  type Translations,
+  type QuestionChoice,
+  type QuestionTranslation,
+  SOURCE_CONTENT_LANGUAGE,
 } from "@shared/schema";
+import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq, and, desc, asc, lt, gt, sql, inArray } from "drizzle-orm";
+import { eq, and, or, desc, asc, lt, gt, ne, sql, inArray, isNull, isNotNull } from "drizzle-orm";
+import { addMonths } from "date-fns";
+import { fromZonedTime, formatInTimeZone } from "date-fns-tz";
+import {
+  QUESTION_BANK_FORMAT_VERSION,
+  isSameQuestionContent,
+  toBankQuestion,
+  toQuestionContent,
+  type QuestionBank,
+  type QuestionBankImportSummary,
+  type QuestionBankQuestion,
+} from "./questionBank";
+import { cleanTranslation, localize, localizeQuestion } from "./translations";
+import { answeredChoiceId, gradeQuestion, hasStoredChoiceIds, snapshotChoiceId } from "./grading";
+
+// Practical lesson availability is defined in the school's local time
+const SCHOOL_TIMEZONE = 'Europe/Riga';
+
+// Submissions and autosaves arriving this long after an attempt expires are still accepted, to allow for network latency
+const SUBMISSION_GRACE_MS = 5 * 1000;
+
+// Submitted attempts are read in batches of this size when computing item analysis
+const ITEM_ANALYSIS_BATCH_SIZE = 500;
+
+// Below this many attempts the upper/lower groups are too small for a meaningful discrimination index
+const ITEM_ANALYSIS_MIN_ATTEMPTS = 20;
+
+// What a student needs to sit an attempt: the question snapshot without answers, the time left and any autosaved answers
+export type TestSession = {
+  testInstance: TestInstance;
+  questions: any[];
+  timeLimit: number | null; // Minutes
+  timeRemaining: number | null; // Seconds
+  answers: Record<string, any>;
+  resumed: boolean;
+};
+
+// Where a student stands against an assessment's attempt limit and retake cooldown
+export type AssessmentAttemptStatus = {
+  attemptCount: number;
+  maxAttempts: number; // Including extra attempts granted to the student
+  extraAttempts: number;
+  remainingAttempts: number;
+  nextAttemptAt: Date | null; // End of the running retake cooldown, if any
+  canTake: boolean;
+};
+
+// Per-question answer review of a submitted attempt. Correct answers and explanations are only
+// included when the assessment's review policy allows it; the correct count is always shown.
+export type TestReview = {
+  policy: ReviewPolicy;
+  available: boolean;
+  unavailableReason: string | null;
+  correctCount: number;
+  questions: Array<{
+    id: string;
+    questionText: string;
+    type: string;
+    imageUrl?: string | null;
+    choices: any[];
+    answerConfig?: unknown;
+    points: number;
+    isCritical?: boolean;
+    explanation: string | null;
+    studentAnswer: any;
+    earnedPoints: number;
+    isCorrect: boolean;
+  }> | null;
+};
+
+export type InstallmentWithStatus = Installment & { status: InstallmentStatus };
+
+// A student's installment schedule for one enrollment
+export type InstallmentSchedule = {
+  enrollmentId: string;
+  course: { id: string; name: string };
+  plan: PaymentPlan;
+  installments: InstallmentWithStatus[];
+  totalAmount: string;
+  paidAmount: string;
+};
+
+// An unpaid installment past its due date, with who owes it
+export type OverdueInstallment = InstallmentWithStatus & {
+  courseId: string;
+  courseName: string;
+  studentId: string;
+  studentName: string | null;
+  planName: string;
+};
+
+// A payment with who paid for which course, and its refunds, for the admin payments page
+export type AdminPayment = Payment & {
+  courseName: string;
+  studentName: string | null;
+  studentEmail: string | null;
+  refunds: PaymentRefund[];
+  invoices: Invoice[];
+};
+
+// A promotion code with how often it was used on paid payments
+export type PromotionWithUsage = Promotion & {
+  referrerName: string | null;
+  redemptions: number;
+  discountTotal: string;
+};
+
+// How a course payment is priced. replacingPending prices it as replacing the student's unfinished card
+// payment for the course, which then no longer holds its code or credit.
+export type CoursePriceOptions = {
+  promotionCode?: string | null;
+  useCredit?: boolean;
+  replacingPending?: boolean;
+};
+
+// What a student pays for a course after a promotion code and referral credit
+export type CoursePriceQuote = {
+  courseId: string;
+  listPrice: string;
+  promotion: { id: string; code: string; description: string | null } | null;
+  discountAmount: string;
+  creditAmount: string;
+  amount: string;
+  creditBalance: string; // Credit available before this payment
+};
+
+// A student's referral codes and the credit they can spend
+export type ReferralSummary = {
+  codes: Array<{ id: string; code: string; referrerCredit: string | null; isActive: boolean; redemptions: number }>;
+  creditBalance: string;
+};
+
+// Unbiased Fisher-Yates shuffle into a new array
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Shuffles a question pool with the questions the student saw in their previous attempt moved to the end
+function shuffleFavoringUnseen(pool: Question[], seenIds: Set<string>): Question[] {
+  return [...shuffle(pool.filter(q => !seenIds.has(q.id))), ...shuffle(pool.filter(q => seenIds.has(q.id)))];
+}
+
+// Gives every choice a stable id. Choices sent without one (older clients, imports) take over the id of a
+// previous choice with the same label, so an unchanged choice keeps its id across edits.
+function withChoiceIds(choices: unknown, previous: unknown = []): QuestionChoice[] {
+  const used = new Set<string>();
+  const reusable = ((previous as Partial<QuestionChoice>[]) || []).filter((choice) => choice.id);
+  return ((choices as Partial<QuestionChoice>[]) || []).map((choice) => {
+    const id = (choice.id && !used.has(choice.id) ? choice.id : undefined)
+      ?? reusable.find((c) => c.label === choice.label && !used.has(c.id!))?.id
+      ?? randomUUID();
+    used.add(id);
+    return { ...choice, id } as QuestionChoice;
+  });
+}
+
+// The questionsData entry for a served question: its content in the attempt's language plus the answer key for
+// server-side grading. Choices keep the question's choice ids, which are the same in every language.
+function toQuestionSnapshot(question: Question, orderIndex: number, language: ContentLanguage | null) {
+  const localized = localizeQuestion(question, language);
+  return {
+    id: question.id,
+    questionText: localized.questionText,
+    type: question.type,
+    choices: localized.choices.map((choice, index) => ({ ...choice, id: snapshotChoiceId(choice, index) })),
+    points: question.points,
+    imageUrl: question.imageUrl,
+    explanation: localized.explanation,
+    answerConfig: question.answerConfig,
+    versionId: question.currentVersionId,
+    isCritical: question.isCritical,
+    orderIndex,
+  };
+}
+
+// Puts a snapshot's answer options in a per-attempt order; grading goes by choice id, so the order is free.
+// Ordering steps stay in the correct order, which is their answer key; they are shuffled whenever served.
+function withShuffledChoices<T extends { type: string; choices: any[] }>(snapshot: T): T {
+  return snapshot.type === 'single_choice' || snapshot.type === 'multiple_choice'
+    ? { ...snapshot, choices: shuffle(snapshot.choices) }
+    : snapshot;
+}
+
+// Strips everything that would reveal the answer from a questionsData entry before it is sent to the student
+function toClientQuestion(question: any) {
+  const choices = (question.choices as any[]).map((c: any, index: number) => ({ id: snapshotChoiceId(c, index), label: c.label, imageUrl: c.imageUrl })); // Remove isCorrect flag
+  return {
+    id: question.id,
+    questionText: question.questionText,
+    type: question.type,
+    imageUrl: question.imageUrl,
+    // Ordering steps are stored in the correct order, so serve them shuffled
+    choices: question.type === 'ordering' ? shuffle(choices) : choices,
+    unit: question.type === 'numeric' ? (question.answerConfig as NumericAnswerConfig)?.unit : undefined,
+    points: question.points,
+    orderIndex: question.orderIndex,
+  };
+}
+
+// Which statuses a review action applies to, the status it moves the question to and the event it records
+const QUESTION_REVIEW_TRANSITIONS: Record<QuestionReviewAction, { from: QuestionStatus[]; to: QuestionStatus; event: QuestionReviewEvent["action"] }> = {
+  submit: { from: ['draft'], to: 'in_review', event: 'submitted' },
+  approve: { from: ['in_review'], to: 'approved', event: 'approved' },
+  request_changes: { from: ['in_review'], to: 'draft', event: 'changes_requested' },
+  archive: { from: ['draft', 'in_review', 'approved'], to: 'archived', event: 'archived' },
+  reopen: { from: ['archived'], to: 'draft', event: 'reopened' },
+};
+
+// Splits a price into parts to the cent; the rounding remainder goes to the first part
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Serializes bookings and session edits that involve the same instructor, student or vehicle, so two of them
+// can't both pass the conflict check. Locks are keyed on the ids and taken in a fixed order, so they can't deadlock.
+async function lockScheduleParticipants(tx: Transaction, ids: Array<string | null | undefined>): Promise<void> {
+  const keys = Array.from(new Set(ids.filter((id): id is string => !!id))).sort();
+  for (const key of keys) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${key}))`);
+  }
+}
+
+function splitAmount(total: string, parts: number): string[] {
+  const cents = Math.round(parseFloat(total) * 100);
+  const base = Math.floor(cents / parts);
+  return Array.from({ length: parts }, (_, index) => ((base + (index === 0 ? cents - base * parts : 0)) / 100).toFixed(2));
+}
+
+// Parts are paid in order, so only the first unpaid part that is not yet overdue counts as due
+function withInstallmentStatus(schedule: Installment[], now = new Date()): InstallmentWithStatus[] {
+  const nextUnpaid = schedule.find(installment => !installment.paidAt);
+  return schedule.map(installment => ({
+    ...installment,
+    status: installment.paidAt
+      ? 'paid'
+      : installment.dueDate < now
+      ? 'overdue'
+      : installment === nextUnpaid ? 'due' : 'upcoming',
+  }));
+}
+
+// How long a webhook delivery may hold a Stripe event before a redelivery can take it over
+const STRIPE_EVENT_CLAIM_MINUTES = 5;
+
+// Payments whose money the school holds, at least in part; a fully refunded payment no longer counts
+const COLLECTED_PAYMENT_STATUSES: PaymentStatus[] = ['paid', 'partially_refunded', 'disputed'];
+
+// Every payment except the student's unfinished card payment for the course in full, which paying again replaces
+function notReplacedBy(courseId: string, studentId: string) {
+  return or(
+    ne(payments.studentId, studentId),
+    ne(payments.courseId, courseId),
+    isNotNull(payments.installmentId),
+    ne(payments.status, 'pending'),
+    ne(payments.method, 'card'),
+  );
+}
+
+function toCents(amount: string | number | null | undefined): number {
+  return Math.round(parseFloat(String(amount ?? 0)) * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Used until an admin saves the school's legal details
+const DEFAULT_SCHOOL_SETTINGS: Omit<SchoolSettings, 'updatedAt'> = {
+  id: 'default',
+  legalName: 'Driving School Academy',
+  registrationNumber: null,
+  vatNumber: null,
+  vatRate: '0',
+  address: null,
+  email: null,
+  phone: null,
+  bankName: null,
+  bankAccount: null,
+  invoicePrefix: 'INV',
+  creditNotePrefix: 'CN',
+  updatedBy: null,
+};
+
+// Course prices include VAT, so it is taken out of the amount paid rather than added on top
+function splitVat(grossCents: number, vatRate: string): { netCents: number; vatCents: number } {
+  const rate = parseFloat(vatRate);
+  const vatCents = Math.round(grossCents * rate / (100 + rate));
+  return { netCents: grossCents - vatCents, vatCents };
+}
+
+function userDisplayName(user: User): string | null {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+// The content a question version captures; flags, archiving and the version pointer are not versioned
+function questionVersionContent(question: Question | QuestionVersion) {
+  return {
+    questionTopicId: question.questionTopicId,
+    questionText: question.questionText,
+    imageUrl: question.imageUrl,
+    explanation: question.explanation,
+    type: question.type,
+    choices: question.choices,
+    answerConfig: question.answerConfig,
+    tags: question.tags,
+    points: question.points,
+    isCritical: question.isCritical,
+  };
+}
+
+export type AvailableSlot = {
+  instructorId: string;
+  startTime: Date;
+  endTime: Date;
+  location: string | null;
+};
+
+export type ExamReadinessCheck = {
+  key: 'required_assessments' | 'mock_exams' | 'attended_sessions' | 'instructor_sign_off';
+  label: string;
+  met: boolean;
+  detail: string;
+};
+
+export type ExamReadiness = {
+  examType: StateExamType;
+  ready: boolean;
+  checks: ExamReadinessCheck[];
+  signOff: (ExamSignOff & { instructorName: string | null }) | null;
+  exams: StateExam[];
+};
 
 export interface IStorage {
   // User operations
@@ -66,7 +467,7 @@ export interface IStorage {
   // Course operations
   getCourses(): Promise<Course[]>;
   getCourse(id: string): Promise<Course | undefined>;
-  getCourseWithContent(id: string, publishedOnly?: boolean): Promise<{ course: Course; topics: Array<Topic & { posts: Post[]; assessments: TopicAssessment[] }>; tests: TestTemplate[] } | undefined>;
+  getCourseWithContent(id: string, publishedOnly?: boolean, language?: ContentLanguage | null): Promise<{ course: Course; topics: Array<Topic & { posts: Post[]; assessments: TopicAssessment[] }>; tests: TestTemplate[] } | undefined>;
   createCourse(course: InsertCourse): Promise<Course>;
   updateCourse(id: string, data: Partial<Course>): Promise<Course>;
   
@@ -103,9 +504,33 @@ export interface IStorage {
   getQuestions(topicId?: string): Promise<Question[]>;
   getQuestion(id: string): Promise<Question | undefined>;
   searchQuestions(params: { searchTerm?: string; tag?: string; limit: number }): Promise<Question[]>;
-  createQuestion(question: InsertQuestion): Promise<Question>;
-  updateQuestion(id: string, data: Partial<Question>): Promise<Question>;
-  deleteQuestion(id: string): Promise<void>;
+  createQuestion(question: InsertQuestion, createdBy?: string): Promise<Question>;
+  updateQuestion(id: string, data: Partial<Question>, updatedBy?: string): Promise<Question>;
+  deleteQuestion(id: string, deletedBy?: string): Promise<'deleted' | 'archived'>;
+  setQuestionFlag(id: string, flag: { isFlagged: boolean; flagReason: string | null }): Promise<Question>;
+  
+  // Question version operations
+  getQuestionVersions(questionId: string): Promise<Array<QuestionVersion & { authorName: string | null }>>;
+  restoreQuestionVersion(questionId: string, versionId: string, restoredBy: string): Promise<Question>;
+  ensureArchivedStatus(): Promise<number>;
+  ensureQuestionVersions(): Promise<number>;
+  ensureChoiceIds(): Promise<number>;
+  
+  // Translations
+  setTranslation(entity: TranslatableEntity, id: string, language: ContentLanguage, fields: Record<string, unknown>): Promise<Translations<unknown>>;
+  
+  // Question review workflow
+  reviewQuestion(id: string, action: QuestionReviewAction, actorId: string, comment?: string | null): Promise<Question>;
+  getQuestionReviewEvents(questionId: string): Promise<Array<QuestionReviewEvent & { actorName: string | null }>>;
+  getQuestionReviewQueue(): Promise<Array<{ question: Question; events: Array<QuestionReviewEvent & { actorName: string | null }> }>>;
+  
+  // Question bank import/export
+  getQuestionBank(): Promise<QuestionBank>;
+  importQuestionBank(bank: QuestionBank, options: { dryRun: boolean; importedBy?: string }): Promise<QuestionBankImportSummary>;
+  
+  // Question item analysis
+  getQuestionStatistics(): Promise<QuestionStatistics[]>;
+  computeQuestionStatistics(): Promise<number>;
   
   // Test template operations (legacy)
   getTestTemplates(): Promise<TestTemplate[]>;
@@ -136,9 +561,20 @@ export interface IStorage {
   getTestInstancesByStudent(studentId: string): Promise<TestInstance[]>;
   getAssessmentAttemptCount(assessmentId: string, studentId: string): Promise<number>;
   getTestAttemptCount(testTemplateId: string, studentId: string): Promise<number>;
-  startTest(testTemplateId: string, studentId: string): Promise<{ testInstance: TestInstance; questions: any[]; timeLimit: number | null }>; // Legacy
-  startAssessment(assessmentId: string, studentId: string): Promise<{ testInstance: TestInstance; questions: any[]; timeLimit: number | null }>;
-  submitTest(testInstanceId: string, answers: Record<string, any>): Promise<TestInstance>;
+  getAssessmentAttemptStatus(assessment: TopicAssessment, studentId: string): Promise<AssessmentAttemptStatus>;
+  getAssessmentAttemptGrants(assessmentId: string, studentId: string): Promise<AssessmentAttemptGrant[]>;
+  createAssessmentAttemptGrant(grant: InsertAssessmentAttemptGrant): Promise<AssessmentAttemptGrant>;
+  getOpenTestInstance(studentId: string, source: { topicAssessmentId: string } | { testTemplateId: string }): Promise<TestInstance | undefined>;
+  resumeTestInstance(instance: TestInstance): Promise<TestSession>;
+  saveTestAnswers(testInstanceId: string, answers: Record<string, any>): Promise<TestInstance>;
+  getPreviousAttemptQuestionIds(studentId: string, source: { topicAssessmentId: string } | { testTemplateId: string }): Promise<string[]>;
+  drawRandomQuestions(params: { blueprint: BlueprintRule[] | null; questionCount: number | null; excludeQuestionIds?: string[] }): Promise<Question[]>;
+  startTest(testTemplateId: string, studentId: string, language?: ContentLanguage | null): Promise<TestSession>; // Legacy
+  startAssessment(assessmentId: string, studentId: string, language?: ContentLanguage | null): Promise<TestSession>;
+  submitTest(testInstanceId: string, answers: Record<string, any>, options?: { autoSubmit?: boolean }): Promise<TestInstance>;
+  getTestReview(instance: TestInstance): Promise<TestReview>;
+  getExpiredTestInstances(): Promise<TestInstance[]>;
+  autoSubmitExpiredTestInstances(): Promise<number>;
   
   // Enrollment operations
   createEnrollment(enrollment: InsertCourseEnrollment): Promise<CourseEnrollment>;
@@ -154,6 +590,7 @@ export interface IStorage {
       bestScore: number | null;
       lastAttemptDate: Date | null;
     }>;
+    drivingMinutes: number;
   }>>;
   getEnrollmentsByStudent(studentId: string): Promise<CourseEnrollment[]>;
   getEnrollment(courseId: string, studentId: string): Promise<CourseEnrollment | undefined>;
@@ -169,16 +606,118 @@ export interface IStorage {
   createSchedule(schedule: InsertSchedule): Promise<Schedule>;
   updateSchedule(id: string, data: Partial<Schedule>): Promise<Schedule>;
   deleteSchedule(id: string): Promise<void>;
+  findScheduleConflicts(params: { instructorId?: string; studentId?: string | null; vehicleId?: string | null; startTime: Date; endTime: Date; excludeScheduleId?: string }): Promise<Schedule[]>;
+  
+  // Vehicle operations
+  getVehicles(): Promise<Vehicle[]>;
+  getVehicle(id: string): Promise<Vehicle | undefined>;
+  getVehicleByPlate(plateNumber: string): Promise<Vehicle | undefined>;
+  createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(id: string, data: Partial<Vehicle>): Promise<Vehicle>;
+  deleteVehicle(id: string): Promise<void>;
+  validateVehicleForSession(vehicleId: string, startTime: Date, endTime: Date, excludeScheduleId?: string): Promise<Vehicle>;
+  
+  // Instructor availability operations
+  getInstructorAvailability(instructorId: string): Promise<InstructorAvailability[]>;
+  getInstructorAvailabilitySlot(id: string): Promise<InstructorAvailability | undefined>;
+  createInstructorAvailability(availability: InsertInstructorAvailability): Promise<InstructorAvailability>;
+  updateInstructorAvailability(id: string, data: Partial<InstructorAvailability>): Promise<InstructorAvailability>;
+  deleteInstructorAvailability(id: string): Promise<void>;
+  getAvailabilityExceptions(instructorId: string): Promise<AvailabilityException[]>;
+  getAvailabilityException(id: string): Promise<AvailabilityException | undefined>;
+  createAvailabilityException(exception: InsertAvailabilityException): Promise<AvailabilityException>;
+  deleteAvailabilityException(id: string): Promise<void>;
+  getInstructorsWithAvailability(): Promise<User[]>;
+  getAvailableSlots(instructorId: string, from: Date, to: Date): Promise<AvailableSlot[]>;
+  
+  // Practical lesson booking operations
+  getPracticalTopicsForStudent(studentId: string): Promise<Array<Topic & { course: Course }>>;
+  getPracticalLessonsByStudent(studentId: string): Promise<Array<Schedule & { course: Course; topic: Topic | null; instructor: User }>>;
+  bookPracticalLesson(booking: { studentId: string; instructorId: string; topicId: string; startTime: Date; endTime: Date }): Promise<Schedule>;
+  
   // Attendance operations
   markAttendance(scheduleId: string, studentId: string, status: 'present' | 'absent', markedBy: string): Promise<void>;
   getSessionAttendance(scheduleId: string): Promise<Array<Attendance & { student: User }>>;
   getStudentsWithAttendance(scheduleId: string): Promise<Array<{ studentId: string; student: User; status: 'present' | 'absent' | null; markedAt: Date | null }>>;
   
+  // Driving hours ledger operations
+  syncScheduleDrivingLedger(scheduleId: string): Promise<void>;
+  getDrivingLedger(studentId: string, courseId?: string): Promise<Array<DrivingLedgerEntry & { schedule: Schedule | null; createdByUser: User | null }>>;
+  getDrivingMinutes(studentId: string, courseId: string): Promise<number>;
+  getDrivingHoursSummary(studentId: string): Promise<Array<{ course: Course; creditedMinutes: number; requiredMinutes: number | null; requiredForCompletion: boolean }>>;
+  createDrivingHoursAdjustment(adjustment: { studentId: string; courseId: string; minutes: number; reason: string; createdBy: string }): Promise<DrivingLedgerEntry>;
+  
+  // Lesson evaluation operations
+  getEvaluationRubrics(): Promise<EvaluationRubric[]>;
+  getEvaluationRubric(id: string): Promise<EvaluationRubric | undefined>;
+  getEvaluationRubricByCategory(courseCategory: string): Promise<EvaluationRubric | undefined>;
+  getEvaluationRubricForCourse(courseId: string): Promise<EvaluationRubric | undefined>;
+  createEvaluationRubric(rubric: InsertEvaluationRubric): Promise<EvaluationRubric>;
+  updateEvaluationRubric(id: string, data: Partial<EvaluationRubric>): Promise<EvaluationRubric>;
+  deleteEvaluationRubric(id: string): Promise<void>;
+  getLessonEvaluationsBySchedule(scheduleId: string): Promise<LessonEvaluation[]>;
+  saveLessonEvaluation(evaluation: { scheduleId: string; studentId: string; instructorId: string; scores: Array<{ skillKey: string; score: number; notes?: string }>; notes?: string | null }): Promise<LessonEvaluation>;
+  getStudentEvaluationTimeline(studentId: string, courseId: string): Promise<Array<LessonEvaluation & { schedule: Schedule; instructor: User | null }>>;
+  
+  // Exam readiness operations
+  getExamReadiness(studentId: string, courseId: string, examType: StateExamType): Promise<ExamReadiness>;
+  getExamSignOff(id: string): Promise<ExamSignOff | undefined>;
+  createExamSignOff(signOff: { studentId: string; courseId: string; examType: StateExamType; instructorId: string; notes?: string | null }): Promise<ExamSignOff>;
+  deleteExamSignOff(id: string): Promise<void>;
+  getStateExams(filters: { studentId?: string; courseId?: string }): Promise<StateExam[]>;
+  getStateExam(id: string): Promise<StateExam | undefined>;
+  registerStateExam(registration: { studentId: string; courseId: string; examType: StateExamType; examDate: Date; notes?: string | null; recordedBy: string }): Promise<StateExam>;
+  updateStateExam(id: string, data: Partial<StateExam>): Promise<StateExam>;
+  getFirstTimePassRates(): Promise<Array<{ instructorId: string; instructorName: string; examType: StateExamType; firstAttempts: number; firstAttemptPasses: number; passRate: number }>>;
+  
   // Payment operations
   createPayment(payment: InsertPayment): Promise<Payment>;
   getPaymentsByStudent(studentId: string): Promise<Payment[]>;
   getPayment(id: string): Promise<Payment | undefined>;
   updatePayment(id: string, data: Partial<Payment>): Promise<Payment>;
+  getPaymentByStripeIntent(paymentIntentId: string): Promise<Payment | undefined>;
+  getAdminPayments(filters: { status?: PaymentStatus }): Promise<AdminPayment[]>;
+  getPaymentRefunds(paymentId: string): Promise<PaymentRefund[]>;
+  recordManualPayment(payment: ManualPayment & { receivedBy: string }): Promise<Payment>;
+  reconcileBankTransfer(id: string, outcome: { received: boolean; receivedAt?: Date }, reconciledBy: string): Promise<Payment>;
+  assertRefundable(payment: Payment, refunds: PaymentRefund[], amount: string): void;
+  recordRefund(refund: InsertPaymentRefund): Promise<Payment>;
+  recordManualRefund(refund: InsertPaymentRefund): Promise<Payment>;
+  updatePaymentDispute(paymentId: string, outcome: 'opened' | 'won' | 'lost'): Promise<Payment>;
+  recordStripeEvent(event: { id: string; type: string; payload: unknown }): Promise<boolean>;
+  markStripeEventProcessed(id: string, paymentId: string | null): Promise<void>;
+  releaseStripeEvent(id: string): Promise<void>;
+
+  // Invoice operations
+  getSchoolSettings(): Promise<SchoolSettings>;
+  updateSchoolSettings(data: Omit<SchoolSettings, 'id' | 'updatedBy' | 'updatedAt'>, updatedBy: string): Promise<SchoolSettings>;
+  getInvoices(filters: { type?: InvoiceType; studentId?: string; paymentId?: string }): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  issueInvoice(paymentId: string): Promise<Invoice | undefined>;
+  issueCreditNote(refundId: string): Promise<Invoice | undefined>;
+
+  // Installment plan operations
+  getPaymentPlans(courseId: string): Promise<PaymentPlan[]>;
+  getPaymentPlan(id: string): Promise<PaymentPlan | undefined>;
+  getPaymentPlanOptions(courseId: string): Promise<Array<PaymentPlan & { installmentAmounts: string[] }>>;
+  createPaymentPlan(plan: InsertPaymentPlan): Promise<PaymentPlan>;
+  updatePaymentPlan(id: string, data: Partial<InsertPaymentPlan>): Promise<PaymentPlan>;
+  deletePaymentPlan(id: string): Promise<void>;
+  startInstallmentPlan(planId: string, studentId: string): Promise<InstallmentSchedule>;
+  getInstallmentSchedules(studentId: string): Promise<InstallmentSchedule[]>;
+  hasInstallmentSchedule(courseId: string, studentId: string): Promise<boolean>;
+  getPayableInstallment(id: string, studentId: string): Promise<{ installment: Installment; courseId: string; pendingPayment: Payment | undefined }>;
+  getOverdueInstallments(courseId?: string): Promise<OverdueInstallment[]>;
+
+  // Promotion operations
+  getPromotions(): Promise<PromotionWithUsage[]>;
+  getPromotion(id: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, data: Partial<InsertPromotion>): Promise<Promotion>;
+  deletePromotion(id: string): Promise<void>;
+  quoteCoursePrice(courseId: string, studentId: string, options: CoursePriceOptions): Promise<CoursePriceQuote>;
+  createCoursePayment(courseId: string, studentId: string, options: CoursePriceOptions, values: Omit<InsertPayment, 'courseId' | 'studentId' | 'amount' | 'currency' | 'listPrice' | 'promotionId' | 'discountAmount' | 'creditAmount'>): Promise<{ payment: Payment; quote: CoursePriceQuote }>;
+  getReferralSummary(studentId: string): Promise<ReferralSummary>;
   
   // Certificate operations
   createCertificate(certificate: InsertCertificate): Promise<Certificate>;
@@ -313,7 +852,7 @@ export class DatabaseStorage implements IStorage {
     return course;
   }
 
-  async getCourseWithContent(id: string, publishedOnly: boolean = false): Promise<{ course: Course; topics: Array<Topic & { posts: Post[]; assessments: TopicAssessment[] }>; tests: TestTemplate[] } | undefined> {
+  async getCourseWithContent(id: string, publishedOnly: boolean = false, language: ContentLanguage | null = null): Promise<{ course: Course; topics: Array<Topic & { posts: Post[]; assessments: TopicAssessment[] }>; tests: TestTemplate[] } | undefined> {
     const course = await this.getCourse(id);
     if (!course) return undefined;
 
@@ -343,14 +882,14 @@ export class DatabaseStorage implements IStorage {
             .map(({ assessment }) => assessment);
         }
         
-        return { ...topic, posts, assessments };
+        return { ...localize(topic, language), posts: posts.map(post => localize(post, language)), assessments };
       })
     );
 
     // Get test templates for this course (legacy)
     const tests = await this.getTestTemplatesByCourse(id);
 
-    return { course, topics: topicsWithContent, tests };
+    return { course: localize(course, language), topics: topicsWithContent, tests };
   }
 
   // Topic operations
@@ -637,22 +1176,556 @@ export class DatabaseStorage implements IStorage {
     return await query;
   }
 
-  async createQuestion(questionData: InsertQuestion): Promise<Question> {
-    const [question] = await db.insert(questions).values(questionData).returning();
-    return question;
+  async createQuestion(questionData: InsertQuestion, createdBy?: string): Promise<Question> {
+    return await db.transaction(async (tx) => {
+      // New questions need a review before they are served
+      const [created] = await tx
+        .insert(questions)
+        .values({ status: 'draft', ...questionData, choices: withChoiceIds(questionData.choices) })
+        .returning();
+      const [version] = await tx
+        .insert(questionVersions)
+        .values({ questionId: created.id, versionNumber: 1, ...questionVersionContent(created), createdBy: createdBy ?? null })
+        .returning();
+      const [question] = await tx
+        .update(questions)
+        .set({ currentVersionId: version.id })
+        .where(eq(questions.id, created.id))
+        .returning();
+      return question;
+    });
+  }
+
+  async updateQuestion(id: string, data: Partial<Question>, updatedBy?: string): Promise<Question> {
+    return await db.transaction(async (tx) => {
+      // Row lock so concurrent edits get consecutive version numbers
+      const [existing] = await tx.select().from(questions).where(eq(questions.id, id)).for('update');
+      if (!existing) {
+        throw new Error('Question not found');
+      }
+
+      const [updated] = await tx
+        .update(questions)
+        .set({ ...data, ...(data.choices !== undefined ? { choices: withChoiceIds(data.choices, existing.choices) } : {}), updatedAt: new Date() })
+        .where(eq(questions.id, id))
+        .returning();
+
+      const contentChanged = JSON.stringify(questionVersionContent(existing)) !== JSON.stringify(questionVersionContent(updated));
+      if (!contentChanged && existing.currentVersionId) {
+        return updated;
+      }
+
+      const [latest] = await tx
+        .select({ versionNumber: questionVersions.versionNumber })
+        .from(questionVersions)
+        .where(eq(questionVersions.questionId, id))
+        .orderBy(desc(questionVersions.versionNumber))
+        .limit(1);
+      let versionNumber = latest?.versionNumber ?? 0;
+      let currentVersionId = existing.currentVersionId;
+
+      // Questions from before versioning first record their original content
+      if (!currentVersionId) {
+        const [original] = await tx
+          .insert(questionVersions)
+          .values({ questionId: id, versionNumber: ++versionNumber, ...questionVersionContent(existing), createdBy: null })
+          .returning();
+        currentVersionId = original.id;
+      }
+      if (contentChanged) {
+        const [version] = await tx
+          .insert(questionVersions)
+          .values({ questionId: id, versionNumber: ++versionNumber, ...questionVersionContent(updated), createdBy: updatedBy ?? null })
+          .returning();
+        currentVersionId = version.id;
+      }
+
+      // Changed content goes back through review before it is served again
+      const needsReview = contentChanged && (updated.status === 'in_review' || updated.status === 'approved');
+      const [question] = await tx
+        .update(questions)
+        .set({ currentVersionId, ...(needsReview ? { status: 'draft' as const } : {}) })
+        .where(eq(questions.id, id))
+        .returning();
+      return question;
+    });
+  }
+
+  async deleteQuestion(id: string, deletedBy?: string): Promise<'deleted' | 'archived'> {
+    // Questions still linked to a test or assessment are archived so the links and version history survive
+    const [testLink] = await db
+      .select({ id: testQuestions.id })
+      .from(testQuestions)
+      .where(eq(testQuestions.questionId, id))
+      .limit(1);
+    const [assessmentLink] = await db
+      .select({ id: topicAssessmentQuestions.id })
+      .from(topicAssessmentQuestions)
+      .where(eq(topicAssessmentQuestions.questionId, id))
+      .limit(1);
+
+    if (testLink || assessmentLink) {
+      const question = await this.getQuestion(id);
+      if (question && question.status !== 'archived') {
+        await db.insert(questionReviewEvents).values({
+          questionId: id,
+          versionId: question.currentVersionId,
+          action: 'archived',
+          comment: 'Deleted while still used by a test or assessment',
+          actorId: deletedBy ?? null,
+        });
+        await db.update(questions).set({ status: 'archived', updatedAt: new Date() }).where(eq(questions.id, id));
+      }
+      return 'archived';
+    }
+
+    await db.delete(questions).where(eq(questions.id, id));
+    return 'deleted';
   }
 
-  async updateQuestion(id: string, data: Partial<Question>): Promise<Question> {
+  async setQuestionFlag(id: string, flag: { isFlagged: boolean; flagReason: string | null }): Promise<Question> {
+    // Deliberately leaves updatedAt alone: flagging doesn't change the question itself
     const [question] = await db
       .update(questions)
-      .set({ ...data, updatedAt: new Date() })
+      .set(flag)
       .where(eq(questions.id, id))
       .returning();
     return question;
   }
 
-  async deleteQuestion(id: string): Promise<void> {
-    await db.delete(questions).where(eq(questions.id, id));
+  // Question version operations
+  async getQuestionVersions(questionId: string): Promise<Array<QuestionVersion & { authorName: string | null }>> {
+    const rows = await db
+      .select({ version: questionVersions, author: users })
+      .from(questionVersions)
+      .leftJoin(users, eq(questionVersions.createdBy, users.id))
+      .where(eq(questionVersions.questionId, questionId))
+      .orderBy(desc(questionVersions.versionNumber));
+
+    return rows.map(({ version, author }) => ({
+      ...version,
+      authorName: author ? userDisplayName(author) : null,
+    }));
+  }
+
+  async restoreQuestionVersion(questionId: string, versionId: string, restoredBy: string): Promise<Question> {
+    const [version] = await db
+      .select()
+      .from(questionVersions)
+      .where(and(eq(questionVersions.id, versionId), eq(questionVersions.questionId, questionId)));
+    if (!version) {
+      throw new Error('Question version not found');
+    }
+
+    // Rolling back adds a new version with the old content, so the history stays append-only
+    return this.updateQuestion(questionId, questionVersionContent(version), restoredBy);
+  }
+
+  async ensureArchivedStatus(): Promise<number> {
+    const archived = await db
+      .update(questions)
+      .set({ status: 'archived', isArchived: false })
+      .where(eq(questions.isArchived, true))
+      .returning({ id: questions.id });
+    return archived.length;
+  }
+
+  async ensureQuestionVersions(): Promise<number> {
+    const unversioned = await db.select().from(questions).where(isNull(questions.currentVersionId));
+
+    for (const question of unversioned) {
+      await db.transaction(async (tx) => {
+        const [version] = await tx
+          .insert(questionVersions)
+          .values({ questionId: question.id, versionNumber: 1, ...questionVersionContent(question), createdBy: null })
+          .onConflictDoNothing()
+          .returning();
+        // An edit may have versioned the question in the meantime
+        if (version) {
+          await tx
+            .update(questions)
+            .set({ currentVersionId: version.id })
+            .where(and(eq(questions.id, question.id), isNull(questions.currentVersionId)));
+        }
+      });
+    }
+
+    return unversioned.length;
+  }
+
+  async ensureChoiceIds(): Promise<number> {
+    const rows = await db.select({ id: questions.id, choices: questions.choices, translations: questions.translations }).from(questions);
+    const needsIds = (choices: unknown) => ((choices as Partial<QuestionChoice>[]) || []).some((choice) => !choice.id);
+    // Choice translations used to be listed by position
+    const hasPositionalTranslations = (translations: unknown) =>
+      Object.values((translations as Translations<{ choices?: unknown }> | null) || {}).some((t) => Array.isArray(t?.choices));
+    const pending = rows.filter(row => needsIds(row.choices) || hasPositionalTranslations(row.translations));
+
+    for (const row of pending) {
+      await db.transaction(async (tx) => {
+        const [question] = await tx.select().from(questions).where(eq(questions.id, row.id)).for('update');
+        const choices = withChoiceIds(question.choices);
+
+        const translations = Object.fromEntries(
+          Object.entries((question.translations as Translations<any> | null) || {}).map(([language, translation]) => [
+            language,
+            Array.isArray(translation?.choices)
+              ? { ...translation, choices: Object.fromEntries(choices.flatMap((choice, index) => (translation.choices[index] ? [[choice.id, translation.choices[index]]] : []))) }
+              : translation,
+          ])
+        );
+
+        // Versions only gain ids, matched by label so restoring one keeps the ids of unchanged choices
+        const versions = await tx.select().from(questionVersions).where(eq(questionVersions.questionId, question.id));
+        for (const version of versions.filter(v => needsIds(v.choices))) {
+          await tx
+            .update(questionVersions)
+            .set({ choices: withChoiceIds(version.choices, choices) })
+            .where(eq(questionVersions.id, version.id));
+        }
+
+        await tx
+          .update(questions)
+          .set({ choices, translations: question.translations ? translations : null })
+          .where(eq(questions.id, question.id));
+      });
+    }
+
+    return pending.length;
+  }
+
+  // Translations
+  async setTranslation(entity: TranslatableEntity, id: string, language: ContentLanguage, fields: Record<string, unknown>): Promise<Translations<unknown>> {
+    if (language === SOURCE_CONTENT_LANGUAGE) {
+      throw new Error('Cannot translate into the source language; edit the content itself');
+    }
+    const table = { course: courses, topic: topics, post: posts, question: questions }[entity];
+    const [row] = await db.select().from(table).where(eq(table.id, id));
+    if (!row) {
+      throw new Error(`${entity[0].toUpperCase()}${entity.slice(1)} not found`);
+    }
+
+    let translation = cleanTranslation(fields);
+    if (translation && entity === 'question') {
+      const question = row as Question;
+      const choiceIds = new Set(((question.choices as QuestionChoice[]) || []).map(choice => choice.id));
+      const unknownChoice = Object.keys((translation.choices as Record<string, string> | undefined) || {}).find(id => !choiceIds.has(id));
+      if (unknownChoice) {
+        throw new Error(`Cannot translate choice ${unknownChoice}: the question has no such choice`);
+      }
+      translation = { ...translation, sourceVersionId: question.currentVersionId } satisfies QuestionTranslation;
+    }
+
+    const { [language]: _previous, ...others } = (row.translations as Translations<unknown> | null) || {};
+    const translations = translation ? { ...others, [language]: translation } : others;
+    await db.update(table).set({ translations }).where(eq(table.id, id));
+    return translations;
+  }
+
+  // Question review workflow
+  async reviewQuestion(id: string, action: QuestionReviewAction, actorId: string, comment?: string | null): Promise<Question> {
+    const transition = QUESTION_REVIEW_TRANSITIONS[action];
+
+    return await db.transaction(async (tx) => {
+      const [question] = await tx.select().from(questions).where(eq(questions.id, id)).for('update');
+      if (!question) {
+        throw new Error('Question not found');
+      }
+      if (!transition.from.includes(question.status)) {
+        throw new Error(`Cannot ${action.replace('_', ' ')} a question that is ${question.status.replace('_', ' ')}`);
+      }
+
+      // Decisions need a second pair of eyes: neither the submitter nor the author of the current version may decide
+      if (action === 'approve' || action === 'request_changes') {
+        const [submission] = await tx
+          .select({ actorId: questionReviewEvents.actorId })
+          .from(questionReviewEvents)
+          .where(and(eq(questionReviewEvents.questionId, id), eq(questionReviewEvents.action, 'submitted')))
+          .orderBy(desc(questionReviewEvents.createdAt))
+          .limit(1);
+        const [version] = question.currentVersionId
+          ? await tx.select({ createdBy: questionVersions.createdBy }).from(questionVersions).where(eq(questionVersions.id, question.currentVersionId))
+          : [];
+        if (submission?.actorId === actorId || version?.createdBy === actorId) {
+          throw new Error('Reviewers cannot decide on their own changes');
+        }
+      }
+
+      await tx.insert(questionReviewEvents).values({
+        questionId: id,
+        versionId: question.currentVersionId,
+        action: transition.event,
+        comment: comment || null,
+        actorId,
+      });
+      const [updated] = await tx
+        .update(questions)
+        .set({ status: transition.to })
+        .where(eq(questions.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getQuestionReviewEvents(questionId: string): Promise<Array<QuestionReviewEvent & { actorName: string | null }>> {
+    const rows = await db
+      .select({ event: questionReviewEvents, actor: users })
+      .from(questionReviewEvents)
+      .leftJoin(users, eq(questionReviewEvents.actorId, users.id))
+      .where(eq(questionReviewEvents.questionId, questionId))
+      .orderBy(desc(questionReviewEvents.createdAt));
+    return rows.map(({ event, actor }) => ({ ...event, actorName: actor ? userDisplayName(actor) : null }));
+  }
+
+  async getQuestionReviewQueue(): Promise<Array<{ question: Question; events: Array<QuestionReviewEvent & { actorName: string | null }> }>> {
+    const candidates = await db
+      .select()
+      .from(questions)
+      .where(inArray(questions.status, ['in_review', 'draft']))
+      .orderBy(asc(questions.updatedAt));
+    if (candidates.length === 0) return [];
+
+    const rows = await db
+      .select({ event: questionReviewEvents, actor: users })
+      .from(questionReviewEvents)
+      .leftJoin(users, eq(questionReviewEvents.actorId, users.id))
+      .where(inArray(questionReviewEvents.questionId, candidates.map(q => q.id)))
+      .orderBy(desc(questionReviewEvents.createdAt));
+    const eventsByQuestion = new Map<string, Array<QuestionReviewEvent & { actorName: string | null }>>();
+    for (const { event, actor } of rows) {
+      const events = eventsByQuestion.get(event.questionId) ?? [];
+      events.push({ ...event, actorName: actor ? userDisplayName(actor) : null });
+      eventsByQuestion.set(event.questionId, events);
+    }
+
+    // Drafts only belong in the queue while they wait on their author after a change request
+    return candidates
+      .map(question => ({ question, events: eventsByQuestion.get(question.id) ?? [] }))
+      .filter(({ question, events }) => question.status === 'in_review' || events[0]?.action === 'changes_requested');
+  }
+
+  // Question bank import/export
+  async getQuestionBank(): Promise<QuestionBank> {
+    const categories = await this.getQuestionCategories();
+    const topics = await db.select().from(questionTopics).orderBy(asc(questionTopics.orderIndex));
+    const activeQuestions = await db
+      .select()
+      .from(questions)
+      .where(ne(questions.status, 'archived'))
+      .orderBy(asc(questions.createdAt));
+
+    return {
+      format: 'question-bank',
+      version: QUESTION_BANK_FORMAT_VERSION,
+      categories: categories.map(category => ({
+        name: category.name,
+        description: category.description,
+        topics: topics
+          .filter(topic => topic.categoryId === category.id)
+          .map(topic => ({
+            name: topic.name,
+            description: topic.description,
+            questions: activeQuestions.filter(q => q.questionTopicId === topic.id).map(toBankQuestion),
+          })),
+      })),
+      questions: activeQuestions.filter(q => !q.questionTopicId).map(toBankQuestion),
+    };
+  }
+
+  async importQuestionBank(bank: QuestionBank, options: { dryRun: boolean; importedBy?: string }): Promise<QuestionBankImportSummary> {
+    const { dryRun, importedBy } = options;
+    const summary: QuestionBankImportSummary = {
+      categoriesCreated: 0,
+      topicsCreated: 0,
+      questionsCreated: 0,
+      questionsUpdated: 0,
+      questionsUnchanged: 0,
+      items: [],
+    };
+    const nameKey = (name: string) => name.trim().toLowerCase();
+
+    const categories = await this.getQuestionCategories();
+    const topics = await db.select().from(questionTopics);
+    const existingQuestions = await db.select().from(questions);
+    const questionsById = new Map(existingQuestions.map(q => [q.id, q]));
+
+    // Questions match by id (a re-import into the same environment), otherwise by text within the topic.
+    // A dry run has no id yet for topics it would create (undefined), and nothing can match by text there.
+    const upsertQuestion = async (question: QuestionBankQuestion, topicId: string | null | undefined, location: string) => {
+      const existing = (question.id ? questionsById.get(question.id) : undefined)
+        ?? existingQuestions.find(q =>
+          topicId !== undefined && q.questionTopicId === topicId && nameKey(q.questionText) === nameKey(question.questionText)
+        );
+      const content = { ...toQuestionContent(question), questionTopicId: topicId ?? null };
+
+      if (!existing) {
+        summary.questionsCreated++;
+        summary.items.push({ location, questionText: question.questionText, action: 'create' });
+        if (!dryRun) await this.createQuestion(content, importedBy);
+      } else if (existing.questionTopicId === topicId && isSameQuestionContent(toBankQuestion(existing), question)) {
+        summary.questionsUnchanged++;
+        summary.items.push({ location, questionText: question.questionText, action: 'unchanged' });
+      } else {
+        summary.questionsUpdated++;
+        summary.items.push({ location, questionText: question.questionText, action: 'update' });
+        if (!dryRun) await this.updateQuestion(existing.id, content, importedBy);
+      }
+    };
+
+    // Not wrapped in a transaction: the file is fully validated before anything is written, and
+    // each question is created or versioned through the regular question operations
+    for (const bankCategory of bank.categories) {
+      let category = categories.find(c => nameKey(c.name) === nameKey(bankCategory.name));
+      if (!category) {
+        summary.categoriesCreated++;
+        if (!dryRun) {
+          category = await this.createQuestionCategory({
+            name: bankCategory.name.trim(),
+            description: bankCategory.description || null,
+            orderIndex: categories.length,
+          });
+          categories.push(category);
+        }
+      }
+
+      for (const bankTopic of bankCategory.topics) {
+        const categoryTopics = category ? topics.filter(t => t.categoryId === category!.id) : [];
+        let topic = categoryTopics.find(t => nameKey(t.name) === nameKey(bankTopic.name));
+        if (!topic) {
+          summary.topicsCreated++;
+          if (category && !dryRun) {
+            topic = await this.createQuestionTopic({
+              categoryId: category.id,
+              name: bankTopic.name.trim(),
+              description: bankTopic.description || null,
+              orderIndex: categoryTopics.length,
+            });
+            topics.push(topic);
+          }
+        }
+
+        for (const question of bankTopic.questions) {
+          await upsertQuestion(question, topic?.id, `${bankCategory.name} › ${bankTopic.name}`);
+        }
+      }
+    }
+
+    for (const question of bank.questions) {
+      await upsertQuestion(question, null, 'Unfiled');
+    }
+
+    return summary;
+  }
+
+  // Question item analysis
+  async getQuestionStatistics(): Promise<QuestionStatistics[]> {
+    return await db.select().from(questionStatistics);
+  }
+
+  async computeQuestionStatistics(): Promise<number> {
+    type ItemAttempt = { testScore: number; isCorrect: boolean };
+    const attemptsByQuestion = new Map<string, ItemAttempt[]>();
+    const choiceCountsByQuestion = new Map<string, { attemptCount: number; choices: Map<string, ChoiceStatistic> }>();
+
+    // Snapshots may still reference questions deleted since
+    const existing = await db.select({ id: questions.id, choices: questions.choices }).from(questions);
+    const currentChoices = new Map(existing.map(row => [row.id, (row.choices as QuestionChoice[]) || []]));
+
+    // Keyset pagination keeps memory bounded to one batch of snapshots plus the per-question tallies
+    let lastId = '';
+    while (true) {
+      const batch = await db
+        .select()
+        .from(testInstances)
+        .where(and(sql`${testInstances.submittedAt} is not null`, gt(testInstances.id, lastId)))
+        .orderBy(asc(testInstances.id))
+        .limit(ITEM_ANALYSIS_BATCH_SIZE);
+      if (batch.length === 0) break;
+      lastId = batch[batch.length - 1].id;
+
+      for (const instance of batch) {
+        const served = instance.questionsData as any[];
+        const answers = (instance.answersData as Record<string, any> | null) || {};
+        const questionScores = instance.questionScores as Record<string, number> | null;
+        const scoringPolicy = instance.scoringPolicy ?? 'all_or_nothing';
+        const testScore = instance.maxScore ? (instance.score ?? 0) / instance.maxScore : (instance.percentage ?? 0) / 100;
+
+        for (const question of served) {
+          const points = question.points ?? 1;
+          const earnedPoints = questionScores?.[question.id] ?? points * gradeQuestion(question, answers[question.id], scoringPolicy);
+          const attempts = attemptsByQuestion.get(question.id) ?? [];
+          attempts.push({ testScore, isCorrect: earnedPoints >= points });
+          attemptsByQuestion.set(question.id, attempts);
+
+          // Distractor analysis only makes sense where the student picks from the choices
+          if (question.type !== 'single_choice' && question.type !== 'multiple_choice') continue;
+          // Counted by choice id so attempts served in different languages or choice orders add up. Snapshots
+          // from before stable ids only know choices by position, which may no longer match the question's
+          // choices, so those attempts are left out of the per-choice counts.
+          const choices = (question.choices as any[]) || [];
+          if (choices.some((choice, index) => snapshotChoiceId(choice, index) === String(index))) continue;
+
+          const answer = answers[question.id];
+          const picked = (Array.isArray(answer) ? answer : answer ? [answer] : []).map((value) => answeredChoiceId(choices, value));
+          const choiceCounts = choiceCountsByQuestion.get(question.id) ?? { attemptCount: 0, choices: new Map<string, ChoiceStatistic>() };
+          choiceCounts.attemptCount++;
+          choices.forEach((choice) => {
+            const stat = choiceCounts.choices.get(choice.id) ?? { choiceId: choice.id, label: choice.label, isCorrect: !!choice.isCorrect, selectedCount: 0, selectionRate: 0 };
+            if (picked.includes(choice.id)) stat.selectedCount++;
+            choiceCounts.choices.set(choice.id, stat);
+          });
+          choiceCountsByQuestion.set(question.id, choiceCounts);
+        }
+      }
+    }
+
+    // Choices are reported with their source-language label rather than whichever language was served first
+    const sourceLabel = (questionId: string, choiceId: string) =>
+      currentChoices.get(questionId)?.find(choice => choice.id === choiceId)?.label;
+    const ratio = (count: number, total: number) => Math.round((count / total) * 1000) / 1000;
+    const computedAt = new Date();
+
+    const rows = Array.from(attemptsByQuestion)
+      .filter(([questionId]) => currentChoices.has(questionId))
+      .map(([questionId, attempts]) => {
+        const correctCount = attempts.filter(a => a.isCorrect).length;
+
+        // Upper/lower 27% groups by overall test score
+        let discriminationIndex: number | null = null;
+        if (attempts.length >= ITEM_ANALYSIS_MIN_ATTEMPTS) {
+          const ranked = [...attempts].sort((a, b) => b.testScore - a.testScore);
+          const groupSize = Math.round(ranked.length * 0.27);
+          const upperCorrect = ranked.slice(0, groupSize).filter(a => a.isCorrect).length;
+          const lowerCorrect = ranked.slice(-groupSize).filter(a => a.isCorrect).length;
+          discriminationIndex = ratio(upperCorrect - lowerCorrect, groupSize);
+        }
+
+        const choiceCounts = choiceCountsByQuestion.get(questionId);
+        return {
+          questionId,
+          attemptCount: attempts.length,
+          correctCount,
+          pValue: ratio(correctCount, attempts.length),
+          discriminationIndex,
+          choiceStats: choiceCounts
+            ? Array.from(choiceCounts.choices.values()).map(stat => ({
+              ...stat,
+              label: sourceLabel(questionId, stat.choiceId) ?? stat.label,
+              selectionRate: ratio(stat.selectedCount, choiceCounts.attemptCount),
+            }))
+            : null,
+          computedAt,
+        };
+      });
+
+    await db.transaction(async (tx) => {
+      await tx.delete(questionStatistics);
+      for (let i = 0; i < rows.length; i += ITEM_ANALYSIS_BATCH_SIZE) {
+        await tx.insert(questionStatistics).values(rows.slice(i, i + ITEM_ANALYSIS_BATCH_SIZE));
+      }
+    });
+
+    return rows.length;
   }
 
   // Test template operations
@@ -931,6 +2004,15 @@ export class DatabaseStorage implements IStorage {
       return;
     }
 
+    // Courses can additionally require the driving hours target to be met
+    const course = await this.getCourse(courseId);
+    if (course?.requireDrivingHoursForCompletion && course.requiredDrivingHours) {
+      const creditedMinutes = await this.getDrivingMinutes(studentId, courseId);
+      if (creditedMinutes < course.requiredDrivingHours * 60) {
+        return;
+      }
+    }
+
     // Get all topics for this course
     const topicsData = await db
       .select()
@@ -1017,12 +2099,238 @@ export class DatabaseStorage implements IStorage {
     return attempts.length;
   }
 
-  async startTest(testTemplateId: string, studentId: string): Promise<{ testInstance: TestInstance; questions: any[]; timeLimit: number | null }> {
+  async getAssessmentAttemptStatus(assessment: TopicAssessment, studentId: string): Promise<AssessmentAttemptStatus> {
+    const attempts = await db
+      .select({ submittedAt: testInstances.submittedAt })
+      .from(testInstances)
+      .where(
+        and(
+          eq(testInstances.topicAssessmentId, assessment.id),
+          eq(testInstances.studentId, studentId)
+        )
+      );
+
+    const [grantTotal] = await db
+      .select({ total: sql<number>`coalesce(sum(${assessmentAttemptGrants.extraAttempts}), 0)::int` })
+      .from(assessmentAttemptGrants)
+      .where(
+        and(
+          eq(assessmentAttemptGrants.assessmentId, assessment.id),
+          eq(assessmentAttemptGrants.studentId, studentId)
+        )
+      );
+
+    const extraAttempts = grantTotal?.total ?? 0;
+    const maxAttempts = (assessment.maxAttempts || 3) + extraAttempts;
+    const remainingAttempts = Math.max(0, maxAttempts - attempts.length);
+
+    // The cooldown runs from the most recent submission
+    let nextAttemptAt: Date | null = null;
+    const lastSubmittedAt = Math.max(0, ...attempts.filter(a => a.submittedAt).map(a => new Date(a.submittedAt!).getTime()));
+    if (assessment.retakeCooldownMinutes && lastSubmittedAt > 0) {
+      const cooldownEnd = lastSubmittedAt + assessment.retakeCooldownMinutes * 60 * 1000;
+      if (cooldownEnd > Date.now()) {
+        nextAttemptAt = new Date(cooldownEnd);
+      }
+    }
+
+    return {
+      attemptCount: attempts.length,
+      maxAttempts,
+      extraAttempts,
+      remainingAttempts,
+      nextAttemptAt,
+      canTake: remainingAttempts > 0 && !nextAttemptAt,
+    };
+  }
+
+  async getAssessmentAttemptGrants(assessmentId: string, studentId: string): Promise<AssessmentAttemptGrant[]> {
+    return await db
+      .select()
+      .from(assessmentAttemptGrants)
+      .where(
+        and(
+          eq(assessmentAttemptGrants.assessmentId, assessmentId),
+          eq(assessmentAttemptGrants.studentId, studentId)
+        )
+      )
+      .orderBy(desc(assessmentAttemptGrants.createdAt));
+  }
+
+  async createAssessmentAttemptGrant(grantData: InsertAssessmentAttemptGrant): Promise<AssessmentAttemptGrant> {
+    const [grant] = await db.insert(assessmentAttemptGrants).values(grantData).returning();
+    return grant;
+  }
+
+  async getOpenTestInstance(studentId: string, source: { topicAssessmentId: string } | { testTemplateId: string }): Promise<TestInstance | undefined> {
+    const [instance] = await db
+      .select()
+      .from(testInstances)
+      .where(
+        and(
+          eq(testInstances.studentId, studentId),
+          'topicAssessmentId' in source
+            ? eq(testInstances.topicAssessmentId, source.topicAssessmentId)
+            : eq(testInstances.testTemplateId, source.testTemplateId),
+          isNull(testInstances.submittedAt),
+          or(isNull(testInstances.expiresAt), gt(testInstances.expiresAt, new Date()))
+        )
+      )
+      .orderBy(desc(testInstances.startedAt))
+      .limit(1);
+    return instance || undefined;
+  }
+
+  // Attempts started before choice ids existed get their positional ids stored, and their label answers converted
+  // to those ids, before they are served with ids; from then on their answers are ids like any other attempt's
+  async storeSnapshotChoiceIds(instance: TestInstance): Promise<TestInstance> {
+    const needsIds = (data: unknown) => ((data as any[]) || []).some((question) => !hasStoredChoiceIds(question.choices || []));
+    if (instance.submittedAt || !needsIds(instance.questionsData)) {
+      return instance;
+    }
+
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(testInstances).where(eq(testInstances.id, instance.id)).for('update');
+      if (!current || current.submittedAt || !needsIds(current.questionsData)) {
+        return current ?? instance;
+      }
+
+      const answers: Record<string, any> = { ...((current.answersData as Record<string, any> | null) || {}) };
+      const questionsData = (current.questionsData as any[]).map((question) => {
+        const choices = (question.choices as any[]) || [];
+        if (hasStoredChoiceIds(choices)) return question;
+
+        const answer = answers[question.id];
+        const toId = (value: unknown) => answeredChoiceId(choices, value) ?? value;
+        if (answer !== undefined && answer !== null && ['single_choice', 'multiple_choice', 'ordering'].includes(question.type)) {
+          answers[question.id] = Array.isArray(answer) ? answer.map(toId) : toId(answer);
+        }
+        return { ...question, choices: choices.map((choice, index) => ({ ...choice, id: snapshotChoiceId(choice, index) })) };
+      });
+
+      const [updated] = await tx
+        .update(testInstances)
+        .set({ questionsData, answersData: current.answersData ? answers : null })
+        .where(eq(testInstances.id, current.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async resumeTestInstance(openInstance: TestInstance): Promise<TestSession> {
+    const instance = await this.storeSnapshotChoiceIds(openInstance);
+    const startedAt = new Date(instance.startedAt).getTime();
+    const expiresAt = instance.expiresAt ? new Date(instance.expiresAt).getTime() : null;
+
+    return {
+      testInstance: instance,
+      questions: (instance.questionsData as any[]).map(toClientQuestion),
+      timeLimit: expiresAt ? Math.round((expiresAt - startedAt) / (60 * 1000)) : null,
+      timeRemaining: expiresAt ? Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)) : null,
+      answers: (instance.answersData as Record<string, any> | null) || {},
+      resumed: true,
+    };
+  }
+
+  async saveTestAnswers(testInstanceId: string, answers: Record<string, any>): Promise<TestInstance> {
+    const instance = await this.getTestInstance(testInstanceId);
+    if (!instance) {
+      throw new Error('Test instance not found');
+    }
+    if (instance.submittedAt) {
+      throw new Error('Test already submitted');
+    }
+    if (instance.expiresAt && Date.now() > new Date(instance.expiresAt).getTime() + SUBMISSION_GRACE_MS) {
+      throw new Error('Time limit has been exceeded');
+    }
+
+    // Guard against an autosave landing after a concurrent submission
+    const [updated] = await db
+      .update(testInstances)
+      .set({ answersData: answers })
+      .where(and(eq(testInstances.id, testInstanceId), isNull(testInstances.submittedAt)))
+      .returning();
+    if (!updated) {
+      throw new Error('Test already submitted');
+    }
+    return updated;
+  }
+
+  async getPreviousAttemptQuestionIds(studentId: string, source: { topicAssessmentId: string } | { testTemplateId: string }): Promise<string[]> {
+    const [previousAttempt] = await db
+      .select({ questionsData: testInstances.questionsData })
+      .from(testInstances)
+      .where(
+        and(
+          eq(testInstances.studentId, studentId),
+          'topicAssessmentId' in source
+            ? eq(testInstances.topicAssessmentId, source.topicAssessmentId)
+            : eq(testInstances.testTemplateId, source.testTemplateId)
+        )
+      )
+      .orderBy(desc(testInstances.startedAt))
+      .limit(1);
+    return previousAttempt ? (previousAttempt.questionsData as any[]).map(q => q.id) : [];
+  }
+
+  async drawRandomQuestions(params: { blueprint: BlueprintRule[] | null; questionCount: number | null; excludeQuestionIds?: string[] }): Promise<Question[]> {
+    const seenIds = new Set(params.excludeQuestionIds || []);
+    const rows = await db
+      .select({ question: questions, categoryId: questionTopics.categoryId })
+      .from(questions)
+      .leftJoin(questionTopics, eq(questions.questionTopicId, questionTopics.id))
+      .where(eq(questions.status, 'approved'));
+
+    if (!params.blueprint?.length) {
+      // Without a blueprint the whole bank is a single pool, capped at its size
+      const pool = shuffleFavoringUnseen(rows.map(row => row.question), seenIds);
+      return pool.slice(0, params.questionCount || 10);
+    }
+
+    // Narrower rules draw first so a broad rule cannot use up the questions a narrower one needs
+    const specificity = (rule: BlueprintRule) => (rule.questionTopicId ? 4 : 0) + (rule.categoryId ? 2 : 0) + (rule.tag ? 1 : 0);
+    const drawOrder = params.blueprint
+      .map((rule, index) => ({ rule, index }))
+      .sort((a, b) => specificity(b.rule) - specificity(a.rule));
+
+    const drawnIds = new Set<string>();
+    const drawnByRule: Question[][] = [];
+    for (const { rule, index } of drawOrder) {
+      const pool = rows
+        .filter(({ question, categoryId }) =>
+          !drawnIds.has(question.id) &&
+          (!rule.questionTopicId || question.questionTopicId === rule.questionTopicId) &&
+          (!rule.categoryId || categoryId === rule.categoryId) &&
+          (!rule.tag || (Array.isArray(question.tags) && question.tags.includes(rule.tag)))
+        )
+        .map(row => row.question);
+
+      if (pool.length < rule.count) {
+        const topic = rule.questionTopicId ? await this.getQuestionTopic(rule.questionTopicId) : undefined;
+        const category = rule.categoryId ? await this.getQuestionCategory(rule.categoryId) : undefined;
+        const label = [topic?.name, category?.name, rule.tag && `tag "${rule.tag}"`].filter(Boolean).join(", ") || "whole question bank";
+        throw new Error(`Not enough questions for blueprint rule ${index + 1} (${label}): needs ${rule.count}, only ${pool.length} available`);
+      }
+
+      drawnByRule[index] = shuffleFavoringUnseen(pool, seenIds).slice(0, rule.count);
+      drawnByRule[index].forEach(q => drawnIds.add(q.id));
+    }
+
+    return drawnByRule.flat();
+  }
+
+  async startTest(testTemplateId: string, studentId: string, language: ContentLanguage | null = null): Promise<TestSession> {
     const template = await this.getTestTemplate(testTemplateId);
     if (!template) {
       throw new Error('Test template not found');
     }
 
+    // An unsubmitted attempt still within its time limit is resumed rather than starting (and counting) a new one
+    const openInstance = await this.getOpenTestInstance(studentId, { testTemplateId });
+    if (openInstance) {
+      return await this.resumeTestInstance(openInstance);
+    }
+
     // Check if student has exceeded max attempts
     const attemptCount = await this.getTestAttemptCount(testTemplateId, studentId);
     if (attemptCount >= (template.maxAttempts || 3)) {
@@ -1034,44 +2342,38 @@ export class DatabaseStorage implements IStorage {
     if (template.mode === 'manual') {
       // Get manually selected questions
       const testQuestionsData = await this.getTestQuestions(testTemplateId);
-      questionsToServe = testQuestionsData.map(tq => ({
-        id: tq.question.id,
-        questionText: tq.question.questionText,
-        type: tq.question.type,
-        choices: tq.question.choices, // Keep full choices for server-side storage
-        orderIndex: tq.orderIndex,
-      }));
+      questionsToServe = testQuestionsData
+        .filter(tq => tq.question.status === 'approved')
+        .map(tq => toQuestionSnapshot(tq.question, tq.orderIndex, language));
     } else if (template.mode === 'random') {
-      // Get random questions from question bank
-      const allQuestions = await this.getQuestions();
-      const activeQuestions = allQuestions.filter(q => !q.isArchived);
-      
-      // Shuffle and take questionCount questions
-      const shuffled = activeQuestions.sort(() => Math.random() - 0.5);
-      const count = Math.min(template.questionCount || 10, shuffled.length);
-      questionsToServe = shuffled.slice(0, count).map((q, index) => ({
-        id: q.id,
-        questionText: q.questionText,
-        type: q.type,
-        choices: q.choices, // Keep full choices for server-side storage
-        orderIndex: index,
-      }));
+      const drawn = await this.drawRandomQuestions({
+        blueprint: template.blueprint as BlueprintRule[] | null,
+        questionCount: template.questionCount,
+        excludeQuestionIds: await this.getPreviousAttemptQuestionIds(studentId, { testTemplateId }),
+      });
+      questionsToServe = drawn.map((q, index) => toQuestionSnapshot(q, index, language));
     }
 
     // Randomize question order if template specifies
     if (template.randomizeQuestions) {
-      questionsToServe.sort(() => Math.random() - 0.5);
+      questionsToServe = shuffle(questionsToServe);
       questionsToServe.forEach((q, index) => {
         q.orderIndex = index;
       });
     }
+    if (template.randomizeChoices) {
+      questionsToServe = questionsToServe.map(withShuffledChoices);
+    }
 
     // Create test instance with questions snapshot (including correct answers for server-side validation)
     const testInstance = await this.createTestInstance({
       testTemplateId,
       studentId,
+      scoringPolicy: template.scoringPolicy,
       questionsData: questionsToServe,
+      language: language ?? SOURCE_CONTENT_LANGUAGE,
       answersData: null,
+      expiresAt: template.timeLimit ? new Date(Date.now() + template.timeLimit * 60 * 1000) : null,
       score: null,
       percentage: null,
       passed: null,
@@ -1079,31 +2381,42 @@ export class DatabaseStorage implements IStorage {
     });
 
     // Strip correct answer flags from questions before sending to client
-    const questionsForClient = questionsToServe.map(q => ({
-      id: q.id,
-      questionText: q.questionText,
-      type: q.type,
-      choices: (q.choices as any[]).map((c: any) => ({ label: c.label })), // Remove isCorrect flag
-      orderIndex: q.orderIndex,
-    }));
-
-    return { testInstance, questions: questionsForClient, timeLimit: template.timeLimit };
+    const questionsForClient = questionsToServe.map(toClientQuestion);
+
+    return {
+      testInstance,
+      questions: questionsForClient,
+      timeLimit: template.timeLimit,
+      timeRemaining: template.timeLimit ? template.timeLimit * 60 : null,
+      answers: {},
+      resumed: false,
+    };
   }
 
-  async startAssessment(assessmentId: string, studentId: string): Promise<{ testInstance: TestInstance; questions: any[]; timeLimit: number | null }> {
+  async startAssessment(assessmentId: string, studentId: string, language: ContentLanguage | null = null): Promise<TestSession> {
     const assessment = await this.getTopicAssessment(assessmentId);
     if (!assessment) {
       throw new Error('Topic assessment not found');
     }
 
-    // Check if student has exceeded max attempts
-    const attemptCount = await this.getAssessmentAttemptCount(assessmentId, studentId);
-    if (attemptCount >= (assessment.maxAttempts || 3)) {
-      throw new Error(`Maximum attempts (${assessment.maxAttempts || 3}) exceeded for this assessment`);
+    // An unsubmitted attempt still within its time limit is resumed rather than starting (and counting) a new one
+    const openInstance = await this.getOpenTestInstance(studentId, { topicAssessmentId: assessmentId });
+    if (openInstance) {
+      return await this.resumeTestInstance(openInstance);
+    }
+
+    // Check the attempt limit (including granted extra attempts) and the retake cooldown
+    const attemptStatus = await this.getAssessmentAttemptStatus(assessment, studentId);
+    if (attemptStatus.remainingAttempts <= 0) {
+      throw new Error(`Maximum attempts (${attemptStatus.maxAttempts}) exceeded for this assessment`);
+    }
+    if (attemptStatus.nextAttemptAt) {
+      throw new Error(`Retake cooldown: the next attempt is available from ${formatInTimeZone(attemptStatus.nextAttemptAt, SCHOOL_TIMEZONE, 'd MMM yyyy HH:mm')}`);
     }
 
     let questionsToServe: any[] = [];
     let shouldRandomize = assessment.randomizeQuestions;
+    let shouldShuffleChoices = assessment.randomizeChoices;
 
     if (assessment.mode === 'linked_template') {
       // Use questions from linked test template
@@ -1119,72 +2432,57 @@ export class DatabaseStorage implements IStorage {
       // Generate questions based on template's mode
       if (template.mode === 'manual') {
         const testQuestionsData = await this.getTestQuestions(assessment.testTemplateId);
-        questionsToServe = testQuestionsData.map(tq => ({
-          id: tq.question.id,
-          questionText: tq.question.questionText,
-          type: tq.question.type,
-          choices: tq.question.choices,
-          orderIndex: tq.orderIndex,
-        }));
+        questionsToServe = testQuestionsData
+        .filter(tq => tq.question.status === 'approved')
+        .map(tq => toQuestionSnapshot(tq.question, tq.orderIndex, language));
       } else if (template.mode === 'random') {
-        const allQuestions = await this.getQuestions();
-        const activeQuestions = allQuestions.filter(q => !q.isArchived);
-        
-        const shuffled = activeQuestions.sort(() => Math.random() - 0.5);
-        const count = Math.min(template.questionCount || 10, shuffled.length);
-        questionsToServe = shuffled.slice(0, count).map((q, index) => ({
-          id: q.id,
-          questionText: q.questionText,
-          type: q.type,
-          choices: q.choices,
-          orderIndex: index,
-        }));
+        const drawn = await this.drawRandomQuestions({
+          blueprint: template.blueprint as BlueprintRule[] | null,
+          questionCount: template.questionCount,
+          excludeQuestionIds: await this.getPreviousAttemptQuestionIds(studentId, { topicAssessmentId: assessmentId }),
+        });
+        questionsToServe = drawn.map((q, index) => toQuestionSnapshot(q, index, language));
       }
 
-      // Use template's randomize setting
+      // Use template's randomize settings
       shouldRandomize = template.randomizeQuestions;
+      shouldShuffleChoices = template.randomizeChoices;
     } else if (assessment.mode === 'manual') {
       // Get manually selected questions
       const assessmentQuestionsData = await this.getAssessmentQuestions(assessmentId);
-      questionsToServe = assessmentQuestionsData.map(aq => ({
-        id: aq.question.id,
-        questionText: aq.question.questionText,
-        type: aq.question.type,
-        choices: aq.question.choices, // Keep full choices for server-side storage
-        orderIndex: aq.orderIndex,
-      }));
+      questionsToServe = assessmentQuestionsData
+        .filter(aq => aq.question.status === 'approved')
+        .map(aq => toQuestionSnapshot(aq.question, aq.orderIndex, language));
     } else if (assessment.mode === 'random') {
-      // Get random questions from question bank
-      const allQuestions = await this.getQuestions();
-      const activeQuestions = allQuestions.filter(q => !q.isArchived);
-      
-      // Shuffle and take questionCount questions
-      const shuffled = activeQuestions.sort(() => Math.random() - 0.5);
-      const count = Math.min(assessment.questionCount || 10, shuffled.length);
-      questionsToServe = shuffled.slice(0, count).map((q, index) => ({
-        id: q.id,
-        questionText: q.questionText,
-        type: q.type,
-        choices: q.choices, // Keep full choices for server-side storage
-        orderIndex: index,
-      }));
+      const drawn = await this.drawRandomQuestions({
+        blueprint: assessment.blueprint as BlueprintRule[] | null,
+        questionCount: assessment.questionCount,
+        excludeQuestionIds: await this.getPreviousAttemptQuestionIds(studentId, { topicAssessmentId: assessmentId }),
+      });
+      questionsToServe = drawn.map((q, index) => toQuestionSnapshot(q, index, language));
     }
 
     // Randomize question order if specified
     if (shouldRandomize) {
-      questionsToServe.sort(() => Math.random() - 0.5);
+      questionsToServe = shuffle(questionsToServe);
       questionsToServe.forEach((q, index) => {
         q.orderIndex = index;
       });
     }
+    if (shouldShuffleChoices) {
+      questionsToServe = questionsToServe.map(withShuffledChoices);
+    }
 
     // Create test instance with questions snapshot (including correct answers for server-side validation)
     const testInstance = await this.createTestInstance({
       topicAssessmentId: assessmentId,
       testTemplateId: null,
       studentId,
+      scoringPolicy: assessment.scoringPolicy,
       questionsData: questionsToServe,
+      language: language ?? SOURCE_CONTENT_LANGUAGE,
       answersData: null,
+      expiresAt: assessment.timeLimit ? new Date(Date.now() + assessment.timeLimit * 60 * 1000) : null,
       score: null,
       percentage: null,
       passed: null,
@@ -1192,22 +2490,26 @@ export class DatabaseStorage implements IStorage {
     });
 
     // Strip correct answer flags from questions before sending to client
-    const questionsForClient = questionsToServe.map(q => ({
-      id: q.id,
-      questionText: q.questionText,
-      type: q.type,
-      choices: (q.choices as any[]).map((c: any) => ({ label: c.label })), // Remove isCorrect flag
-      orderIndex: q.orderIndex,
-    }));
-
-    return { testInstance, questions: questionsForClient, timeLimit: assessment.timeLimit };
+    const questionsForClient = questionsToServe.map(toClientQuestion);
+
+    return {
+      testInstance,
+      questions: questionsForClient,
+      timeLimit: assessment.timeLimit,
+      timeRemaining: assessment.timeLimit ? assessment.timeLimit * 60 : null,
+      answers: {},
+      resumed: false,
+    };
   }
 
-  async submitTest(testInstanceId: string, answers: Record<string, any>): Promise<TestInstance> {
+  async submitTest(testInstanceId: string, answers: Record<string, any>, options: { autoSubmit?: boolean } = {}): Promise<TestInstance> {
     const instance = await this.getTestInstance(testInstanceId);
     if (!instance) {
       throw new Error('Test instance not found');
     }
+    if (instance.submittedAt) {
+      throw new Error('Test already submitted');
+    }
 
     // Determine if this is a legacy test or topic assessment
     let passingPercentage = 70; // Default
@@ -1227,54 +2529,66 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    // Check if submission is within time limit
-    if (timeLimit) {
-      const startedAt = new Date(instance.startedAt);
-      const now = new Date();
-      const elapsedMinutes = (now.getTime() - startedAt.getTime()) / (1000 * 60);
-      
-      // Allow a 5-second grace period to account for network latency
-      const gracePeriodMinutes = 5 / 60; // 5 seconds in minutes
-      if (elapsedMinutes > (timeLimit + gracePeriodMinutes)) {
-        throw new Error(`Test submission rejected: Time limit of ${timeLimit} minutes has been exceeded`);
-      }
+    // Check if submission is within time limit. The deadline fixed at start wins; instances from before
+    // it was stored fall back to the current time limit of the assessment or template.
+    const startedAt = new Date(instance.startedAt).getTime();
+    const deadline = instance.expiresAt
+      ? new Date(instance.expiresAt).getTime()
+      : timeLimit ? startedAt + timeLimit * 60 * 1000 : null;
+    // The expiry sweeper grades attempts after their deadline by design
+    if (deadline && !options.autoSubmit && Date.now() > deadline + SUBMISSION_GRACE_MS) {
+      const limitMinutes = Math.round((deadline - startedAt) / (60 * 1000));
+      throw new Error(`Test submission rejected: Time limit of ${limitMinutes} minutes has been exceeded`);
     }
 
     const questions = instance.questionsData as any[];
-    let correctCount = 0;
-    let totalQuestions = questions.length;
-
-    // Calculate score
+    // Instances started before scoring policies existed were scored all-or-nothing
+    const scoringPolicy = instance.scoringPolicy ?? 'all_or_nothing';
+    let earnedPoints = 0;
+    let maxPoints = 0;
+    const questionScores: Record<string, number> = {};
+    const criticalFailures: CriticalFailure[] = [];
+
+    // Calculate score; snapshots taken before weighting existed count each question as 1 point
     for (const question of questions) {
-      const studentAnswer = answers[question.id];
-      const choices = question.choices as any[];
-      const correctChoices = choices.filter((c: any) => c.isCorrect).map((c: any) => c.label);
-
-      if (question.type === 'single_choice') {
-        if (studentAnswer && correctChoices.includes(studentAnswer)) {
-          correctCount++;
-        }
-      } else if (question.type === 'multiple_choice') {
-        const studentChoices = studentAnswer || [];
-        const isCorrect = correctChoices.length === studentChoices.length &&
-          correctChoices.every((c: string) => studentChoices.includes(c));
-        if (isCorrect) {
-          correctCount++;
-        }
+      const points = question.points ?? 1;
+      const credit = gradeQuestion(question, answers[question.id], scoringPolicy);
+
+      const earned = Math.round(points * credit * 100) / 100;
+      questionScores[question.id] = earned;
+      maxPoints += points;
+      earnedPoints += earned;
+      // Critical questions only count as answered when fully correct
+      if (credit < 1 && question.isCritical) {
+        criticalFailures.push({ questionId: question.id, questionText: question.questionText });
       }
     }
+    earnedPoints = Math.round(earnedPoints * 100) / 100;
 
-    const percentage = Math.round((correctCount / totalQuestions) * 100);
-    const passed = percentage >= passingPercentage;
+    const percentage = maxPoints > 0 ? Math.round((earnedPoints / maxPoints) * 100) : 0;
+    // A wrong answer on any critical question fails the test regardless of the score
+    const passed = percentage >= passingPercentage && criticalFailures.length === 0;
 
-    // Update test instance
-    const updatedInstance = await this.updateTestInstance(testInstanceId, {
-      answersData: answers,
-      score: correctCount,
-      percentage,
-      passed,
-      submittedAt: new Date(),
-    });
+    // Update test instance, unless the student and the expiry sweeper submitted it concurrently
+    const [updatedInstance] = await db
+      .update(testInstances)
+      .set({
+        answersData: answers,
+        scoringPolicy,
+        score: earnedPoints,
+        maxScore: maxPoints,
+        questionScores,
+        percentage,
+        passed,
+        criticalFailures,
+        submittedAt: new Date(),
+        autoSubmitted: !!options.autoSubmit,
+      })
+      .where(and(eq(testInstances.id, testInstanceId), isNull(testInstances.submittedAt)))
+      .returning();
+    if (!updatedInstance) {
+      throw new Error('Test already submitted');
+    }
 
     // Check if course should be marked as complete
     if (passed && updatedInstance.topicAssessmentId) {
@@ -1291,6 +2605,119 @@ export class DatabaseStorage implements IStorage {
     return updatedInstance;
   }
 
+  async getTestReview(instance: TestInstance): Promise<TestReview> {
+    const served = instance.questionsData as any[];
+    const answers = (instance.answersData as Record<string, any> | null) || {};
+    const questionScores = instance.questionScores as Record<string, number> | null;
+    const scoringPolicy = instance.scoringPolicy ?? 'all_or_nothing';
+
+    const graded = served.map(question => {
+      const points = question.points ?? 1;
+      // Results from before per-question scores were stored are regraded from the snapshot
+      const earnedPoints = questionScores?.[question.id]
+        ?? Math.round(points * gradeQuestion(question, answers[question.id], scoringPolicy) * 100) / 100;
+      return { question, points, earnedPoints, isCorrect: earnedPoints >= points };
+    });
+    const correctCount = graded.filter(g => g.isCorrect).length;
+
+    const assessment = instance.topicAssessmentId ? await this.getTopicAssessment(instance.topicAssessmentId) : undefined;
+    const policy: ReviewPolicy = assessment?.reviewPolicy ?? 'immediately';
+
+    let unavailableReason: string | null = null;
+    if (policy === 'never') {
+      unavailableReason = 'Answers are not shown for this assessment';
+    } else if (policy === 'after_passing' && !instance.passed) {
+      unavailableReason = 'Answers are shown once you pass this assessment';
+    } else if (policy === 'after_final_attempt' && assessment) {
+      const attemptStatus = await this.getAssessmentAttemptStatus(assessment, instance.studentId);
+      if (attemptStatus.remainingAttempts > 0) {
+        unavailableReason = 'Answers are shown after your final attempt';
+      }
+    }
+
+    // Never reveal answers while another attempt on the same test is open
+    if (!unavailableReason) {
+      const source = instance.topicAssessmentId
+        ? { topicAssessmentId: instance.topicAssessmentId }
+        : instance.testTemplateId ? { testTemplateId: instance.testTemplateId } : null;
+      if (source && await this.getOpenTestInstance(instance.studentId, source)) {
+        unavailableReason = 'Answers are shown once your attempt in progress is submitted';
+      }
+    }
+
+    if (unavailableReason) {
+      return { policy, available: false, unavailableReason, correctCount, questions: null };
+    }
+
+    // Snapshots taken before explanations were stored fall back to the current question
+    const missingExplanationIds = served.filter(q => !('explanation' in q)).map(q => q.id);
+    const currentExplanations = new Map<string, string | null>();
+    if (missingExplanationIds.length > 0) {
+      const rows = await db
+        .select({ id: questions.id, explanation: questions.explanation })
+        .from(questions)
+        .where(inArray(questions.id, missingExplanationIds));
+      rows.forEach(row => currentExplanations.set(row.id, row.explanation));
+    }
+
+    return {
+      policy,
+      available: true,
+      unavailableReason: null,
+      correctCount,
+      questions: graded.map(({ question, points, earnedPoints, isCorrect }) => ({
+        id: question.id,
+        questionText: question.questionText,
+        type: question.type,
+        imageUrl: question.imageUrl,
+        choices: ((question.choices as any[]) || []).map((choice, index) => ({ ...choice, id: snapshotChoiceId(choice, index) })),
+        answerConfig: question.answerConfig,
+        points,
+        isCritical: question.isCritical,
+        explanation: ('explanation' in question ? question.explanation : currentExplanations.get(question.id)) ?? null,
+        studentAnswer: answers[question.id] ?? null,
+        earnedPoints,
+        isCorrect,
+      })),
+    };
+  }
+
+  async getExpiredTestInstances(): Promise<TestInstance[]> {
+    const cutoff = new Date(Date.now() - SUBMISSION_GRACE_MS);
+    // Attempts started before the deadline was stored on the instance use the current time limit instead
+    const rows = await db
+      .select({ instance: testInstances })
+      .from(testInstances)
+      .leftJoin(topicAssessments, eq(testInstances.topicAssessmentId, topicAssessments.id))
+      .leftJoin(testTemplates, eq(testInstances.testTemplateId, testTemplates.id))
+      .where(
+        and(
+          isNull(testInstances.submittedAt),
+          sql`coalesce(${testInstances.expiresAt}, ${testInstances.startedAt} + coalesce(${topicAssessments.timeLimit}, ${testTemplates.timeLimit}) * interval '1 minute') < ${cutoff}`
+        )
+      );
+    return rows.map(row => row.instance);
+  }
+
+  async autoSubmitExpiredTestInstances(): Promise<number> {
+    const expired = await this.getExpiredTestInstances();
+    let submitted = 0;
+
+    for (const instance of expired) {
+      try {
+        await this.submitTest(instance.id, (instance.answersData as Record<string, any> | null) || {}, { autoSubmit: true });
+        submitted++;
+      } catch (error: any) {
+        // The student may have submitted in the meantime
+        if (!error.message?.includes('already submitted')) {
+          console.error(`Error auto-submitting test instance ${instance.id}:`, error);
+        }
+      }
+    }
+
+    return submitted;
+  }
+
   // Enrollment operations
   async createEnrollment(enrollmentData: InsertCourseEnrollment): Promise<CourseEnrollment> {
     const [enrollment] = await db.insert(courseEnrollments).values(enrollmentData).returning();
@@ -1308,7 +2735,9 @@ export class DatabaseStorage implements IStorage {
       passed: boolean;
       bestScore: number | null;
       lastAttemptDate: Date | null;
+      maxAttempts: number;
     }>;
+    drivingMinutes: number;
   }>> {
     // Get all enrollments for this course
     const enrollments = await db
@@ -1363,6 +2792,41 @@ export class DatabaseStorage implements IStorage {
         );
     }
 
+    // Extra attempts granted per student and assessment
+    const grantTotals = assessmentIds.length > 0
+      ? await db
+          .select({
+            studentId: assessmentAttemptGrants.studentId,
+            assessmentId: assessmentAttemptGrants.assessmentId,
+            total: sql<number>`coalesce(sum(${assessmentAttemptGrants.extraAttempts}), 0)::int`,
+          })
+          .from(assessmentAttemptGrants)
+          .where(
+            and(
+              inArray(assessmentAttemptGrants.assessmentId, assessmentIds),
+              inArray(assessmentAttemptGrants.studentId, studentIds)
+            )
+          )
+          .groupBy(assessmentAttemptGrants.studentId, assessmentAttemptGrants.assessmentId)
+      : [];
+    const grantMap = new Map(grantTotals.map(g => [`${g.studentId}:${g.assessmentId}`, g.total]));
+
+    // Credited driving minutes per student
+    const drivingTotals = await db
+      .select({
+        studentId: drivingLedgerEntries.studentId,
+        total: sql<number>`coalesce(sum(${drivingLedgerEntries.minutes}), 0)::int`,
+      })
+      .from(drivingLedgerEntries)
+      .where(
+        and(
+          eq(drivingLedgerEntries.courseId, courseId),
+          inArray(drivingLedgerEntries.studentId, studentIds)
+        )
+      )
+      .groupBy(drivingLedgerEntries.studentId);
+    const drivingMinutesMap = new Map(drivingTotals.map(t => [t.studentId, Math.max(0, t.total)]));
+
     // Build progress for each student
     return enrollments.map(enrollment => {
       const student = studentMap.get(enrollment.studentId);
@@ -1401,6 +2865,7 @@ export class DatabaseStorage implements IStorage {
           passed: passedInstances.length > 0,
           bestScore,
           lastAttemptDate: lastAttempt,
+          maxAttempts: (assessment.maxAttempts || 3) + (grantMap.get(`${enrollment.studentId}:${assessment.id}`) ?? 0),
         };
       });
 
@@ -1408,6 +2873,7 @@ export class DatabaseStorage implements IStorage {
         enrollment,
         student,
         testProgress: assessmentProgress,
+        drivingMinutes: drivingMinutesMap.get(enrollment.studentId) || 0,
       };
     });
   }
@@ -1527,7 +2993,13 @@ export class DatabaseStorage implements IStorage {
         .innerJoin(courses, eq(schedules.courseId, courses.id))
         .leftJoin(topics, eq(schedules.topicId, topics.id))
         .innerJoin(users, eq(schedules.instructorId, users.id))
-        .where(inArray(schedules.courseId, enrolledCourseIds))
+        .where(
+          and(
+            inArray(schedules.courseId, enrolledCourseIds),
+            // Students see group sessions plus only their own practical lessons
+            or(eq(schedules.type, 'group'), eq(schedules.studentId, studentId))
+          )
+        )
         .orderBy(schedules.startTime);
     } else {
       schedulesData = await db
@@ -1553,17 +3025,40 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Sessions are checked for instructor, student and vehicle conflicts under the same locks as practical lesson
+  // bookings, so a session can't be double-booked by an edit and a booking running side by side
   async createSchedule(scheduleData: InsertSchedule): Promise<Schedule> {
-    const [schedule] = await db.insert(schedules).values(scheduleData).returning();
-    return schedule;
+    return await db.transaction(async (tx) => {
+      await lockScheduleParticipants(tx, [scheduleData.instructorId, scheduleData.studentId, scheduleData.vehicleId]);
+      await this.assertScheduleAvailable(scheduleData);
+
+      const [schedule] = await tx.insert(schedules).values(scheduleData).returning();
+      return schedule;
+    });
   }
 
   async updateSchedule(id: string, data: Partial<Schedule>): Promise<Schedule> {
-    const [schedule] = await db
-      .update(schedules)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(schedules.id, id))
-      .returning();
+    const schedule = await db.transaction(async (tx) => {
+      const existing = await this.getSchedule(id);
+      if (!existing) {
+        throw new Error('Schedule not found');
+      }
+      const next = { ...existing, ...data };
+      await lockScheduleParticipants(tx, [next.instructorId, next.studentId, next.vehicleId]);
+      await this.assertScheduleAvailable(next, id);
+
+      const [updated] = await tx
+        .update(schedules)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(schedules.id, id))
+        .returning();
+      return updated;
+    });
+
+    // Credited minutes follow the session times, so re-derive them after edits
+    if (schedule && (data.startTime || data.endTime || data.topicId !== undefined || data.courseId || data.type)) {
+      await this.syncScheduleDrivingLedger(id);
+    }
     return schedule;
   }
 
@@ -1571,6 +3066,367 @@ export class DatabaseStorage implements IStorage {
     await db.delete(schedules).where(eq(schedules.id, id));
   }
 
+  async assertScheduleAvailable(
+    session: Pick<Schedule, 'instructorId' | 'startTime' | 'endTime'> & Partial<Pick<Schedule, 'studentId' | 'vehicleId'>>,
+    excludeScheduleId?: string,
+  ): Promise<void> {
+    const conflicts = await this.findScheduleConflicts({
+      instructorId: session.instructorId,
+      studentId: session.studentId,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      excludeScheduleId,
+    });
+    if (conflicts.length > 0) {
+      throw new Error('Booking conflict: the instructor or student already has a session at this time');
+    }
+
+    if (session.vehicleId) {
+      await this.validateVehicleForSession(session.vehicleId, session.startTime, session.endTime, excludeScheduleId);
+    }
+  }
+
+  async findScheduleConflicts(params: { instructorId?: string; studentId?: string | null; vehicleId?: string | null; startTime: Date; endTime: Date; excludeScheduleId?: string }): Promise<Schedule[]> {
+    const { instructorId, studentId, vehicleId, startTime, endTime, excludeScheduleId } = params;
+
+    const participantConditions = [];
+    if (instructorId) {
+      participantConditions.push(eq(schedules.instructorId, instructorId));
+    }
+    if (studentId) {
+      participantConditions.push(eq(schedules.studentId, studentId));
+    }
+    if (vehicleId) {
+      participantConditions.push(eq(schedules.vehicleId, vehicleId));
+    }
+    if (participantConditions.length === 0) {
+      return [];
+    }
+
+    // Two sessions overlap when each one starts before the other ends
+    const overlapping = await db
+      .select()
+      .from(schedules)
+      .where(
+        and(
+          or(...participantConditions),
+          lt(schedules.startTime, endTime),
+          gt(schedules.endTime, startTime)
+        )
+      )
+      .orderBy(schedules.startTime);
+
+    return excludeScheduleId
+      ? overlapping.filter(s => s.id !== excludeScheduleId)
+      : overlapping;
+  }
+
+  // Vehicle operations
+  async getVehicles(): Promise<Vehicle[]> {
+    return await db.select().from(vehicles).orderBy(asc(vehicles.plateNumber));
+  }
+
+  async getVehicle(id: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.id, id));
+    return vehicle || undefined;
+  }
+
+  async getVehicleByPlate(plateNumber: string): Promise<Vehicle | undefined> {
+    const [vehicle] = await db.select().from(vehicles).where(eq(vehicles.plateNumber, plateNumber));
+    return vehicle || undefined;
+  }
+
+  async createVehicle(vehicleData: InsertVehicle): Promise<Vehicle> {
+    const [vehicle] = await db.insert(vehicles).values(vehicleData).returning();
+    return vehicle;
+  }
+
+  async updateVehicle(id: string, data: Partial<Vehicle>): Promise<Vehicle> {
+    const [vehicle] = await db
+      .update(vehicles)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(vehicles.id, id))
+      .returning();
+    return vehicle;
+  }
+
+  async deleteVehicle(id: string): Promise<void> {
+    await db.delete(vehicles).where(eq(vehicles.id, id));
+  }
+
+  async validateVehicleForSession(vehicleId: string, startTime: Date, endTime: Date, excludeScheduleId?: string): Promise<Vehicle> {
+    const vehicle = await this.getVehicle(vehicleId);
+    if (!vehicle) {
+      throw new Error('Vehicle not found');
+    }
+
+    if (vehicle.status !== 'active') {
+      throw new Error(`Vehicle unavailable: ${vehicle.plateNumber} is ${vehicle.status === 'maintenance' ? 'in maintenance' : 'retired'}`);
+    }
+
+    // The inspection must still be valid when the session ends
+    if (vehicle.inspectionDueAt && new Date(vehicle.inspectionDueAt).getTime() < endTime.getTime()) {
+      throw new Error(`Vehicle unavailable: inspection for ${vehicle.plateNumber} lapses before this session ends`);
+    }
+
+    const conflicts = await this.findScheduleConflicts({ vehicleId, startTime, endTime, excludeScheduleId });
+    if (conflicts.length > 0) {
+      throw new Error(`Vehicle unavailable: ${vehicle.plateNumber} is already reserved for another session at this time`);
+    }
+
+    return vehicle;
+  }
+
+  // Instructor availability operations
+  async getInstructorAvailability(instructorId: string): Promise<InstructorAvailability[]> {
+    return await db
+      .select()
+      .from(instructorAvailability)
+      .where(eq(instructorAvailability.instructorId, instructorId))
+      .orderBy(asc(instructorAvailability.dayOfWeek), asc(instructorAvailability.startTime));
+  }
+
+  async getInstructorAvailabilitySlot(id: string): Promise<InstructorAvailability | undefined> {
+    const [slot] = await db.select().from(instructorAvailability).where(eq(instructorAvailability.id, id));
+    return slot || undefined;
+  }
+
+  async createInstructorAvailability(availabilityData: InsertInstructorAvailability): Promise<InstructorAvailability> {
+    const [slot] = await db.insert(instructorAvailability).values(availabilityData).returning();
+    return slot;
+  }
+
+  async updateInstructorAvailability(id: string, data: Partial<InstructorAvailability>): Promise<InstructorAvailability> {
+    const [slot] = await db
+      .update(instructorAvailability)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(instructorAvailability.id, id))
+      .returning();
+    return slot;
+  }
+
+  async deleteInstructorAvailability(id: string): Promise<void> {
+    await db.delete(instructorAvailability).where(eq(instructorAvailability.id, id));
+  }
+
+  async getAvailabilityExceptions(instructorId: string): Promise<AvailabilityException[]> {
+    return await db
+      .select()
+      .from(availabilityExceptions)
+      .where(eq(availabilityExceptions.instructorId, instructorId))
+      .orderBy(asc(availabilityExceptions.date), asc(availabilityExceptions.startTime));
+  }
+
+  async getAvailabilityException(id: string): Promise<AvailabilityException | undefined> {
+    const [exception] = await db.select().from(availabilityExceptions).where(eq(availabilityExceptions.id, id));
+    return exception || undefined;
+  }
+
+  async createAvailabilityException(exceptionData: InsertAvailabilityException): Promise<AvailabilityException> {
+    const [exception] = await db.insert(availabilityExceptions).values(exceptionData).returning();
+    return exception;
+  }
+
+  async deleteAvailabilityException(id: string): Promise<void> {
+    await db.delete(availabilityExceptions).where(eq(availabilityExceptions.id, id));
+  }
+
+  async getInstructorsWithAvailability(): Promise<User[]> {
+    const rows = await db
+      .selectDistinct({ instructor: users })
+      .from(instructorAvailability)
+      .innerJoin(users, eq(instructorAvailability.instructorId, users.id))
+      .where(
+        and(
+          eq(instructorAvailability.isActive, true),
+          eq(users.isActive, true)
+        )
+      );
+    return rows.map(row => row.instructor);
+  }
+
+  async getAvailableSlots(instructorId: string, from: Date, to: Date): Promise<AvailableSlot[]> {
+    const weeklySlots = (await this.getInstructorAvailability(instructorId)).filter(a => a.isActive);
+    const exceptions = await this.getAvailabilityExceptions(instructorId);
+    const booked = await this.findScheduleConflicts({ instructorId, startTime: from, endTime: to });
+
+    const overlaps = (aStart: Date, aEnd: Date, bStart: Date, bEnd: Date) =>
+      aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+
+    const slots: AvailableSlot[] = [];
+    const seenStarts = new Set<number>();
+
+    // Walk each local calendar day in the requested range
+    let day = formatInTimeZone(from, SCHOOL_TIMEZONE, 'yyyy-MM-dd');
+    const lastDay = formatInTimeZone(to, SCHOOL_TIMEZONE, 'yyyy-MM-dd');
+    while (day <= lastDay) {
+      const dayOfWeek = new Date(`${day}T12:00:00Z`).getUTCDay();
+      const dayExceptions = exceptions.filter(e => e.date === day);
+
+      const windows = [
+        ...weeklySlots
+          .filter(a => a.dayOfWeek === dayOfWeek)
+          .map(a => ({ startTime: a.startTime, endTime: a.endTime, slotDuration: a.slotDuration, location: a.location })),
+        ...dayExceptions
+          .filter(e => e.isAvailable && e.startTime && e.endTime)
+          .map(e => ({ startTime: e.startTime!, endTime: e.endTime!, slotDuration: e.slotDuration, location: e.location })),
+      ];
+
+      const blocked = dayExceptions
+        .filter(e => !e.isAvailable)
+        .map(e => ({
+          startTime: fromZonedTime(`${day} ${e.startTime || '00:00'}`, SCHOOL_TIMEZONE),
+          endTime: e.endTime
+            ? fromZonedTime(`${day} ${e.endTime}`, SCHOOL_TIMEZONE)
+            : fromZonedTime(`${day} 23:59:59`, SCHOOL_TIMEZONE),
+        }));
+
+      for (const window of windows) {
+        // fromZonedTime converts local Riga time to UTC, automatically handling DST
+        let slotStart = fromZonedTime(`${day} ${window.startTime}`, SCHOOL_TIMEZONE);
+        const windowEnd = fromZonedTime(`${day} ${window.endTime}`, SCHOOL_TIMEZONE);
+        const durationMs = window.slotDuration * 60 * 1000;
+
+        while (slotStart.getTime() + durationMs <= windowEnd.getTime()) {
+          const slotEnd = new Date(slotStart.getTime() + durationMs);
+          const inRange = slotStart.getTime() >= from.getTime() && slotEnd.getTime() <= to.getTime();
+          const isBlocked = blocked.some(b => overlaps(slotStart, slotEnd, b.startTime, b.endTime));
+          const isBooked = booked.some(b => overlaps(slotStart, slotEnd, new Date(b.startTime), new Date(b.endTime)));
+
+          if (inRange && !isBlocked && !isBooked && !seenStarts.has(slotStart.getTime())) {
+            seenStarts.add(slotStart.getTime());
+            slots.push({ instructorId, startTime: slotStart, endTime: slotEnd, location: window.location });
+          }
+          slotStart = slotEnd;
+        }
+      }
+
+      const nextDay = new Date(`${day}T12:00:00Z`);
+      nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+      day = nextDay.toISOString().slice(0, 10);
+    }
+
+    return slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  // Practical lesson booking operations
+  async getPracticalTopicsForStudent(studentId: string): Promise<Array<Topic & { course: Course }>> {
+    const rows = await db
+      .select({
+        topic: topics,
+        course: courses,
+      })
+      .from(courseEnrollments)
+      .innerJoin(courses, eq(courseEnrollments.courseId, courses.id))
+      .innerJoin(topics, eq(topics.courseId, courses.id))
+      .where(
+        and(
+          eq(courseEnrollments.studentId, studentId),
+          eq(courseEnrollments.isActive, true),
+          sql`${topics.type} <> 'theory'`
+        )
+      )
+      .orderBy(asc(courses.name), asc(topics.orderIndex));
+
+    return rows.map(row => ({ ...row.topic, course: row.course }));
+  }
+
+  async getPracticalLessonsByStudent(studentId: string): Promise<Array<Schedule & { course: Course; topic: Topic | null; instructor: User }>> {
+    const rows = await db
+      .select({
+        schedule: schedules,
+        course: courses,
+        topic: topics,
+        instructor: users,
+      })
+      .from(schedules)
+      .innerJoin(courses, eq(schedules.courseId, courses.id))
+      .leftJoin(topics, eq(schedules.topicId, topics.id))
+      .innerJoin(users, eq(schedules.instructorId, users.id))
+      .where(
+        and(
+          eq(schedules.type, 'practical'),
+          eq(schedules.studentId, studentId)
+        )
+      )
+      .orderBy(schedules.startTime);
+
+    return rows.map(row => ({
+      ...row.schedule,
+      course: row.course,
+      topic: row.topic,
+      instructor: row.instructor,
+    }));
+  }
+
+  async bookPracticalLesson(booking: { studentId: string; instructorId: string; topicId: string; startTime: Date; endTime: Date }): Promise<Schedule> {
+    const { studentId, instructorId, topicId, startTime, endTime } = booking;
+
+    const topic = await this.getTopic(topicId);
+    if (!topic || topic.type === 'theory') {
+      throw new Error('Practical topic not found');
+    }
+
+    const enrollment = await this.getEnrollment(topic.courseId, studentId);
+    if (!enrollment || !enrollment.isActive) {
+      throw new Error('Not enrolled in this course');
+    }
+
+    // Plans can hold back practical lessons until an overdue part is paid
+    const [blockingInstallment] = await db
+      .select({ id: installments.id })
+      .from(installments)
+      .innerJoin(paymentPlans, eq(installments.paymentPlanId, paymentPlans.id))
+      .where(and(
+        eq(installments.enrollmentId, enrollment.id),
+        eq(paymentPlans.blockBookingWhenOverdue, true),
+        isNull(installments.paidAt),
+        lt(installments.dueDate, new Date()),
+      ))
+      .limit(1);
+    if (blockingInstallment) {
+      throw new Error('Cannot book practical lessons while an installment is overdue');
+    }
+
+    if (startTime.getTime() <= Date.now()) {
+      throw new Error('Cannot book a lesson in the past');
+    }
+
+    // The requested time must match a slot the instructor actually offers
+    const slots = await this.getAvailableSlots(instructorId, startTime, endTime);
+    const slot = slots.find(s =>
+      s.startTime.getTime() === startTime.getTime() && s.endTime.getTime() === endTime.getTime()
+    );
+    if (!slot) {
+      throw new Error('Booking conflict: the selected slot is no longer available');
+    }
+
+    return await db.transaction(async (tx) => {
+      await lockScheduleParticipants(tx, [instructorId, studentId]);
+
+      const conflicts = await this.findScheduleConflicts({ instructorId, studentId, startTime, endTime });
+      if (conflicts.length > 0) {
+        const instructorBusy = conflicts.some(c => c.instructorId === instructorId);
+        throw new Error(instructorBusy
+          ? 'Booking conflict: the instructor already has a session at this time'
+          : 'Booking conflict: you already have a lesson at this time');
+      }
+
+      const [schedule] = await tx.insert(schedules).values({
+        courseId: topic.courseId,
+        topicId,
+        instructorId,
+        studentId,
+        type: 'practical',
+        title: `Practical lesson: ${topic.name}`,
+        startTime,
+        endTime,
+        location: slot.location,
+      }).returning();
+      return schedule;
+    });
+  }
+
   // Attendance operations
   async markAttendance(scheduleId: string, studentId: string, status: 'present' | 'absent', markedBy: string): Promise<void> {
     // Check if attendance already exists
@@ -1604,6 +3460,8 @@ export class DatabaseStorage implements IStorage {
         markedBy,
       });
     }
+
+    await this.syncScheduleDrivingLedger(scheduleId);
   }
 
   async getSessionAttendance(scheduleId: string): Promise<Array<Attendance & { student: User }>> {
@@ -1644,9 +3502,10 @@ export class DatabaseStorage implements IStorage {
       .from(attendance)
       .where(eq(attendance.scheduleId, scheduleId));
 
-    // Combine data, filtering for students only
+    // Combine data, filtering for students only (practical lessons only involve the booked student)
     return enrollments
       .filter(enrollment => enrollment.users?.role === 'student')
+      .filter(enrollment => schedule.type !== 'practical' || !schedule.studentId || enrollment.course_enrollments.studentId === schedule.studentId)
       .map(enrollment => {
         const attendanceRecord = attendanceRecords.find(a => a.studentId === enrollment.course_enrollments.studentId);
         return {
@@ -1658,34 +3517,1486 @@ export class DatabaseStorage implements IStorage {
       });
   }
 
-  // Payment operations
-  async createPayment(paymentData: InsertPayment): Promise<Payment> {
-    const [payment] = await db.insert(payments).values(paymentData).returning();
-    return payment;
-  }
+  // Driving hours ledger operations
+  async syncScheduleDrivingLedger(scheduleId: string): Promise<void> {
+    const schedule = await this.getSchedule(scheduleId);
+    if (!schedule) {
+      return;
+    }
 
-  async getPaymentsByStudent(studentId: string): Promise<Payment[]> {
-    return await db
+    // Only practical driving sessions earn driving hours: booked practical lessons,
+    // or group sessions for a practice topic
+    let isDrivingSession = schedule.type === 'practical';
+    if (!isDrivingSession && schedule.topicId) {
+      const topic = await this.getTopic(schedule.topicId);
+      isDrivingSession = !!topic && topic.type !== 'theory';
+    }
+
+    const presentRecords = isDrivingSession
+      ? await db
+          .select()
+          .from(attendance)
+          .where(and(eq(attendance.scheduleId, scheduleId), eq(attendance.status, 'present')))
+      : [];
+    const presentStudentIds = presentRecords.map(r => r.studentId);
+
+    const existingEntries = await db
       .select()
-      .from(payments)
-      .where(eq(payments.studentId, studentId))
-      .orderBy(desc(payments.createdAt));
-  }
+      .from(drivingLedgerEntries)
+      .where(
+        and(
+          eq(drivingLedgerEntries.scheduleId, scheduleId),
+          eq(drivingLedgerEntries.source, 'attendance')
+        )
+      );
 
-  async getPayment(id: string): Promise<Payment | undefined> {
-    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
-    return payment || undefined;
-  }
+    const staleEntries = existingEntries.filter(e => !presentStudentIds.includes(e.studentId));
+    if (staleEntries.length > 0) {
+      await db.delete(drivingLedgerEntries).where(inArray(drivingLedgerEntries.id, staleEntries.map(e => e.id)));
+    }
 
-  async updatePayment(id: string, data: Partial<Payment>): Promise<Payment> {
-    const [payment] = await db
-      .update(payments)
+    const minutes = Math.max(0, Math.round((new Date(schedule.endTime).getTime() - new Date(schedule.startTime).getTime()) / 60000));
+    for (const record of presentRecords) {
+      await db
+        .insert(drivingLedgerEntries)
+        .values({
+          studentId: record.studentId,
+          courseId: schedule.courseId,
+          scheduleId,
+          source: 'attendance',
+          minutes,
+          createdBy: record.markedBy,
+        })
+        .onConflictDoUpdate({
+          target: [drivingLedgerEntries.scheduleId, drivingLedgerEntries.studentId],
+          set: {
+            courseId: schedule.courseId,
+            minutes,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    const course = await this.getCourse(schedule.courseId);
+    if (course?.requireDrivingHoursForCompletion) {
+      for (const studentId of presentStudentIds) {
+        await this.checkAndUpdateCourseCompletion(studentId, schedule.courseId);
+      }
+    }
+  }
+
+  async getDrivingLedger(studentId: string, courseId?: string): Promise<Array<DrivingLedgerEntry & { schedule: Schedule | null; createdByUser: User | null }>> {
+    const conditions = [eq(drivingLedgerEntries.studentId, studentId)];
+    if (courseId) {
+      conditions.push(eq(drivingLedgerEntries.courseId, courseId));
+    }
+
+    const rows = await db
+      .select()
+      .from(drivingLedgerEntries)
+      .leftJoin(schedules, eq(drivingLedgerEntries.scheduleId, schedules.id))
+      .leftJoin(users, eq(drivingLedgerEntries.createdBy, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(drivingLedgerEntries.createdAt));
+
+    return rows.map(row => ({
+      ...row.driving_ledger_entries,
+      schedule: row.schedules,
+      createdByUser: row.users,
+    }));
+  }
+
+  async getDrivingMinutes(studentId: string, courseId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${drivingLedgerEntries.minutes}), 0)::int` })
+      .from(drivingLedgerEntries)
+      .where(
+        and(
+          eq(drivingLedgerEntries.studentId, studentId),
+          eq(drivingLedgerEntries.courseId, courseId)
+        )
+      );
+    return Math.max(0, result?.total || 0);
+  }
+
+  async getDrivingHoursSummary(studentId: string): Promise<Array<{ course: Course; creditedMinutes: number; requiredMinutes: number | null; requiredForCompletion: boolean }>> {
+    const enrollments = await this.getEnrollmentsWithCourseDetails(studentId);
+
+    return await Promise.all(
+      enrollments.map(async (enrollment) => ({
+        course: enrollment.course,
+        creditedMinutes: await this.getDrivingMinutes(studentId, enrollment.courseId),
+        requiredMinutes: enrollment.course.requiredDrivingHours ? enrollment.course.requiredDrivingHours * 60 : null,
+        requiredForCompletion: enrollment.course.requireDrivingHoursForCompletion,
+      }))
+    );
+  }
+
+  async createDrivingHoursAdjustment(adjustment: { studentId: string; courseId: string; minutes: number; reason: string; createdBy: string }): Promise<DrivingLedgerEntry> {
+    const enrollment = await this.getEnrollment(adjustment.courseId, adjustment.studentId);
+    if (!enrollment) {
+      throw new Error('Student is not enrolled in this course');
+    }
+
+    const [entry] = await db
+      .insert(drivingLedgerEntries)
+      .values({
+        studentId: adjustment.studentId,
+        courseId: adjustment.courseId,
+        source: 'adjustment',
+        minutes: adjustment.minutes,
+        reason: adjustment.reason,
+        createdBy: adjustment.createdBy,
+      })
+      .returning();
+
+    const course = await this.getCourse(adjustment.courseId);
+    if (course?.requireDrivingHoursForCompletion) {
+      await this.checkAndUpdateCourseCompletion(adjustment.studentId, adjustment.courseId);
+    }
+
+    return entry;
+  }
+
+  // Lesson evaluation operations
+  async getEvaluationRubrics(): Promise<EvaluationRubric[]> {
+    return await db.select().from(evaluationRubrics).orderBy(asc(evaluationRubrics.courseCategory));
+  }
+
+  async getEvaluationRubric(id: string): Promise<EvaluationRubric | undefined> {
+    const [rubric] = await db.select().from(evaluationRubrics).where(eq(evaluationRubrics.id, id));
+    return rubric || undefined;
+  }
+
+  async getEvaluationRubricByCategory(courseCategory: string): Promise<EvaluationRubric | undefined> {
+    const [rubric] = await db.select().from(evaluationRubrics).where(eq(evaluationRubrics.courseCategory, courseCategory));
+    return rubric || undefined;
+  }
+
+  async getEvaluationRubricForCourse(courseId: string): Promise<EvaluationRubric | undefined> {
+    const course = await this.getCourse(courseId);
+    if (!course?.category) {
+      return undefined;
+    }
+    return await this.getEvaluationRubricByCategory(course.category);
+  }
+
+  async createEvaluationRubric(rubricData: InsertEvaluationRubric): Promise<EvaluationRubric> {
+    const [rubric] = await db.insert(evaluationRubrics).values(rubricData).returning();
+    return rubric;
+  }
+
+  async updateEvaluationRubric(id: string, data: Partial<EvaluationRubric>): Promise<EvaluationRubric> {
+    const [rubric] = await db
+      .update(evaluationRubrics)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(evaluationRubrics.id, id))
+      .returning();
+    return rubric;
+  }
+
+  async deleteEvaluationRubric(id: string): Promise<void> {
+    await db.delete(evaluationRubrics).where(eq(evaluationRubrics.id, id));
+  }
+
+  async getLessonEvaluationsBySchedule(scheduleId: string): Promise<LessonEvaluation[]> {
+    return await db
+      .select()
+      .from(lessonEvaluations)
+      .where(eq(lessonEvaluations.scheduleId, scheduleId));
+  }
+
+  async saveLessonEvaluation(evaluation: { scheduleId: string; studentId: string; instructorId: string; scores: Array<{ skillKey: string; score: number; notes?: string }>; notes?: string | null }): Promise<LessonEvaluation> {
+    const { scheduleId, studentId, instructorId } = evaluation;
+
+    const schedule = await this.getSchedule(scheduleId);
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+    if (new Date(schedule.startTime) > new Date()) {
+      throw new Error('Cannot evaluate a session that has not started yet');
+    }
+
+    const [attendanceRecord] = await db
+      .select()
+      .from(attendance)
+      .where(and(eq(attendance.scheduleId, scheduleId), eq(attendance.studentId, studentId)));
+    if (attendanceRecord?.status !== 'present') {
+      throw new Error('Student must be marked present before the lesson can be evaluated');
+    }
+
+    const rubric = await this.getEvaluationRubricForCourse(schedule.courseId);
+    if (!rubric) {
+      throw new Error('No evaluation rubric is defined for this course category');
+    }
+
+    // Every rubric skill must be scored exactly once; labels are snapshotted so
+    // later rubric edits don't rewrite past evaluations
+    const skills = rubric.skills as RubricSkill[];
+    const scoresByKey = new Map(evaluation.scores.map(s => [s.skillKey, s]));
+    if (scoresByKey.size !== evaluation.scores.length || scoresByKey.size !== skills.length || skills.some(skill => !scoresByKey.has(skill.key))) {
+      throw new Error('Invalid evaluation: every rubric skill must be scored exactly once');
+    }
+    const scores: EvaluationScore[] = skills.map(skill => {
+      const entry = scoresByKey.get(skill.key)!;
+      return {
+        skillKey: skill.key,
+        label: skill.label,
+        score: entry.score,
+        ...(entry.notes ? { notes: entry.notes } : {}),
+      };
+    });
+
+    const [saved] = await db
+      .insert(lessonEvaluations)
+      .values({
+        scheduleId,
+        studentId,
+        instructorId,
+        rubricId: rubric.id,
+        scores,
+        notes: evaluation.notes || null,
+      })
+      .onConflictDoUpdate({
+        target: [lessonEvaluations.scheduleId, lessonEvaluations.studentId],
+        set: {
+          instructorId,
+          rubricId: rubric.id,
+          scores,
+          notes: evaluation.notes || null,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getStudentEvaluationTimeline(studentId: string, courseId: string): Promise<Array<LessonEvaluation & { schedule: Schedule; instructor: User | null }>> {
+    const rows = await db
+      .select()
+      .from(lessonEvaluations)
+      .innerJoin(schedules, eq(lessonEvaluations.scheduleId, schedules.id))
+      .leftJoin(users, eq(lessonEvaluations.instructorId, users.id))
+      .where(
+        and(
+          eq(lessonEvaluations.studentId, studentId),
+          eq(schedules.courseId, courseId)
+        )
+      )
+      .orderBy(asc(schedules.startTime));
+
+    return rows.map(row => ({
+      ...row.lesson_evaluations,
+      schedule: row.schedules,
+      instructor: row.users,
+    }));
+  }
+
+  // Exam readiness operations
+  async getExamReadiness(studentId: string, courseId: string, examType: StateExamType): Promise<ExamReadiness> {
+    const course = await this.getCourse(courseId);
+    if (!course) {
+      throw new Error('Course not found');
+    }
+    const enrollment = await this.getEnrollment(courseId, studentId);
+    if (!enrollment) {
+      throw new Error('Student is not enrolled in this course');
+    }
+
+    const courseTopics = await db.select().from(topics).where(eq(topics.courseId, courseId));
+    const courseAssessments = courseTopics.length > 0
+      ? await db
+          .select()
+          .from(topicAssessments)
+          .where(inArray(topicAssessments.topicId, courseTopics.map(t => t.id)))
+      : [];
+
+    const assessmentIds = courseAssessments.map(a => a.id);
+    const submittedInstances = assessmentIds.length > 0
+      ? await db
+          .select()
+          .from(testInstances)
+          .where(
+            and(
+              eq(testInstances.studentId, studentId),
+              inArray(testInstances.topicAssessmentId, assessmentIds),
+              sql`${testInstances.submittedAt} IS NOT NULL`
+            )
+          )
+          .orderBy(desc(testInstances.submittedAt))
+      : [];
+
+    const checks: ExamReadinessCheck[] = [];
+
+    // 1. Every required assessment passed at least once
+    const requiredAssessments = courseAssessments.filter(a => a.isRequired);
+    const passedRequired = requiredAssessments.filter(a =>
+      submittedInstances.some(i => i.topicAssessmentId === a.id && i.passed)
+    ).length;
+    checks.push({
+      key: 'required_assessments',
+      label: 'Required assessments passed',
+      met: passedRequired === requiredAssessments.length,
+      detail: requiredAssessments.length === 0
+        ? 'No required assessments'
+        : `${passedRequired} of ${requiredAssessments.length} passed`,
+    });
+
+    // 2. The most recent mock exams form an unbroken passing streak
+    const streakRequired = course.mockExamStreakRequired;
+    const mockExamIds = new Set(courseAssessments.filter(a => a.isMockExam).map(a => a.id));
+    let streak = 0;
+    for (const instance of submittedInstances) {
+      if (!instance.topicAssessmentId || !mockExamIds.has(instance.topicAssessmentId)) continue;
+      if (!instance.passed) break;
+      streak++;
+    }
+    checks.push({
+      key: 'mock_exams',
+      label: 'Consecutive mock exams passed',
+      met: streak >= streakRequired,
+      detail: streakRequired === 0
+        ? 'Not required'
+        : `${Math.min(streak, streakRequired)} of ${streakRequired} in a row`,
+    });
+
+    // 3. Minimum number of attended sessions
+    const [attended] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(attendance)
+      .innerJoin(schedules, eq(attendance.scheduleId, schedules.id))
+      .where(
+        and(
+          eq(attendance.studentId, studentId),
+          eq(attendance.status, 'present'),
+          eq(schedules.courseId, courseId)
+        )
+      );
+    const attendedCount = attended?.count || 0;
+    checks.push({
+      key: 'attended_sessions',
+      label: 'Sessions attended',
+      met: attendedCount >= course.minAttendedSessions,
+      detail: course.minAttendedSessions === 0
+        ? `${attendedCount} attended`
+        : `${attendedCount} of ${course.minAttendedSessions} attended`,
+    });
+
+    // 4. Instructor sign-off for this exam type
+    const [signOffRow] = await db
+      .select()
+      .from(examSignOffs)
+      .leftJoin(users, eq(examSignOffs.instructorId, users.id))
+      .where(
+        and(
+          eq(examSignOffs.studentId, studentId),
+          eq(examSignOffs.courseId, courseId),
+          eq(examSignOffs.examType, examType)
+        )
+      );
+    const signOff = signOffRow
+      ? {
+          ...signOffRow.exam_sign_offs,
+          instructorName: signOffRow.users ? `${signOffRow.users.firstName || ''} ${signOffRow.users.lastName || ''}`.trim() : null,
+        }
+      : null;
+    checks.push({
+      key: 'instructor_sign_off',
+      label: 'Instructor sign-off',
+      met: !!signOff,
+      detail: signOff ? `Signed off by ${signOff.instructorName || 'instructor'}` : 'Awaiting sign-off',
+    });
+
+    const exams = await db
+      .select()
+      .from(stateExams)
+      .where(
+        and(
+          eq(stateExams.studentId, studentId),
+          eq(stateExams.courseId, courseId),
+          eq(stateExams.examType, examType)
+        )
+      )
+      .orderBy(desc(stateExams.examDate));
+
+    return {
+      examType,
+      ready: checks.every(c => c.met),
+      checks,
+      signOff,
+      exams,
+    };
+  }
+
+  async getExamSignOff(id: string): Promise<ExamSignOff | undefined> {
+    const [signOff] = await db.select().from(examSignOffs).where(eq(examSignOffs.id, id));
+    return signOff || undefined;
+  }
+
+  async createExamSignOff(signOffData: { studentId: string; courseId: string; examType: StateExamType; instructorId: string; notes?: string | null }): Promise<ExamSignOff> {
+    const enrollment = await this.getEnrollment(signOffData.courseId, signOffData.studentId);
+    if (!enrollment) {
+      throw new Error('Student is not enrolled in this course');
+    }
+
+    const [signOff] = await db
+      .insert(examSignOffs)
+      .values(signOffData)
+      .onConflictDoNothing()
+      .returning();
+    if (!signOff) {
+      throw new Error('Student has already been signed off for this exam');
+    }
+    return signOff;
+  }
+
+  async deleteExamSignOff(id: string): Promise<void> {
+    await db.delete(examSignOffs).where(eq(examSignOffs.id, id));
+  }
+
+  async getStateExams(filters: { studentId?: string; courseId?: string }): Promise<StateExam[]> {
+    const conditions = [];
+    if (filters.studentId) {
+      conditions.push(eq(stateExams.studentId, filters.studentId));
+    }
+    if (filters.courseId) {
+      conditions.push(eq(stateExams.courseId, filters.courseId));
+    }
+    return await db
+      .select()
+      .from(stateExams)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stateExams.examDate));
+  }
+
+  async getStateExam(id: string): Promise<StateExam | undefined> {
+    const [exam] = await db.select().from(stateExams).where(eq(stateExams.id, id));
+    return exam || undefined;
+  }
+
+  async registerStateExam(registration: { studentId: string; courseId: string; examType: StateExamType; examDate: Date; notes?: string | null; recordedBy: string }): Promise<StateExam> {
+    const readiness = await this.getExamReadiness(registration.studentId, registration.courseId, registration.examType);
+
+    if (readiness.exams.some(e => e.outcome === 'passed')) {
+      throw new Error('Student has already passed this exam');
+    }
+    if (readiness.exams.some(e => e.outcome === 'scheduled')) {
+      throw new Error('Student already has a scheduled exam of this type');
+    }
+    if (!readiness.ready) {
+      throw new Error('Student is not ready for this exam');
+    }
+
+    // No-shows don't count as attempts
+    const previousAttempts = readiness.exams.filter(e => e.outcome === 'passed' || e.outcome === 'failed').length;
+
+    const [exam] = await db
+      .insert(stateExams)
+      .values({
+        studentId: registration.studentId,
+        courseId: registration.courseId,
+        examType: registration.examType,
+        examDate: registration.examDate,
+        attemptNumber: previousAttempts + 1,
+        instructorId: readiness.signOff?.instructorId,
+        notes: registration.notes || null,
+        recordedBy: registration.recordedBy,
+      })
+      .returning();
+    return exam;
+  }
+
+  async updateStateExam(id: string, data: Partial<StateExam>): Promise<StateExam> {
+    const [exam] = await db
+      .update(stateExams)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(stateExams.id, id))
+      .returning();
+    return exam;
+  }
+
+  async getFirstTimePassRates(): Promise<Array<{ instructorId: string; instructorName: string; examType: StateExamType; firstAttempts: number; firstAttemptPasses: number; passRate: number }>> {
+    const rows = await db
+      .select({
+        instructorId: stateExams.instructorId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        examType: stateExams.examType,
+        firstAttempts: sql<number>`count(*)::int`,
+        firstAttemptPasses: sql<number>`count(*) filter (where ${stateExams.outcome} = 'passed')::int`,
+      })
+      .from(stateExams)
+      .innerJoin(users, eq(stateExams.instructorId, users.id))
+      .where(
+        and(
+          eq(stateExams.attemptNumber, 1),
+          inArray(stateExams.outcome, ['passed', 'failed'])
+        )
+      )
+      .groupBy(stateExams.instructorId, users.firstName, users.lastName, stateExams.examType);
+
+    return rows.map(row => ({
+      instructorId: row.instructorId!,
+      instructorName: `${row.firstName || ''} ${row.lastName || ''}`.trim(),
+      examType: row.examType,
+      firstAttempts: row.firstAttempts,
+      firstAttemptPasses: row.firstAttemptPasses,
+      passRate: row.firstAttempts > 0 ? Math.round((row.firstAttemptPasses / row.firstAttempts) * 100) : 0,
+    }));
+  }
+
+  // Payment operations
+  async createPayment(paymentData: InsertPayment): Promise<Payment> {
+    const [payment] = await db.insert(payments).values(paymentData).returning();
+    return payment;
+  }
+
+  async getPaymentsByStudent(studentId: string): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.studentId, studentId))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment || undefined;
+  }
+
+  async updatePayment(id: string, data: Partial<Payment>): Promise<Payment> {
+    const previous = await this.getPayment(id);
+    const [payment] = await db
+      .update(payments)
       .set({ ...data, updatedAt: new Date() })
       .where(eq(payments.id, id))
       .returning();
+
+    // Referral credit moves only once a pending (or retried failed) payment is actually paid
+    if (payment?.status === 'paid' && (previous?.status === 'pending' || previous?.status === 'failed')) {
+      await this.settleReferralCredit(payment);
+    }
+
+    // Paying one part of an installment schedule settles that part
+    if (payment?.installmentId && payment.status === 'paid') {
+      await db
+        .update(installments)
+        .set({ paidAt: payment.paidAt ?? new Date() })
+        .where(and(eq(installments.id, payment.installmentId), isNull(installments.paidAt)));
+    }
+
+    if (payment?.status === 'paid') {
+      await this.issueInvoice(payment.id);
+    }
     return payment;
   }
 
+  async getPaymentByStripeIntent(paymentIntentId: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.stripePaymentIntentId, paymentIntentId));
+    return payment || undefined;
+  }
+
+  async getAdminPayments(filters: { status?: PaymentStatus }): Promise<AdminPayment[]> {
+    const rows = await db
+      .select({ payment: payments, courseName: courses.name, student: users })
+      .from(payments)
+      .innerJoin(courses, eq(payments.courseId, courses.id))
+      .innerJoin(users, eq(payments.studentId, users.id))
+      .where(filters.status ? eq(payments.status, filters.status) : undefined)
+      .orderBy(desc(payments.createdAt));
+
+    const refunds = rows.length > 0
+      ? await db
+        .select()
+        .from(paymentRefunds)
+        .where(inArray(paymentRefunds.paymentId, rows.map(row => row.payment.id)))
+        .orderBy(asc(paymentRefunds.createdAt))
+      : [];
+
+    const paymentInvoices = rows.length > 0
+      ? await db
+        .select()
+        .from(invoices)
+        .where(inArray(invoices.paymentId, rows.map(row => row.payment.id)))
+        .orderBy(asc(invoices.issuedAt))
+      : [];
+
+    return rows.map(row => ({
+      ...row.payment,
+      courseName: row.courseName,
+      studentName: userDisplayName(row.student),
+      studentEmail: row.student.email,
+      refunds: refunds.filter(refund => refund.paymentId === row.payment.id),
+      invoices: paymentInvoices.filter(invoice => invoice.paymentId === row.payment.id),
+    }));
+  }
+
+  async getPaymentRefunds(paymentId: string): Promise<PaymentRefund[]> {
+    return await db
+      .select()
+      .from(paymentRefunds)
+      .where(eq(paymentRefunds.paymentId, paymentId))
+      .orderBy(asc(paymentRefunds.createdAt));
+  }
+
+  // Cash and bank transfers taken by staff are priced like card payments: the course price after any promotion
+  // code and credit, or the installment amount. Cash is received on the spot; a bank transfer stays pending
+  // until it is reconciled, unless it is already on the bank statement.
+  async recordManualPayment(data: ManualPayment & { receivedBy: string }): Promise<Payment> {
+    const isReceived = data.method === 'cash' || data.reconciled;
+    const values = {
+      status: 'pending' as const,
+      method: data.method,
+      reference: data.reference ?? null,
+      receivedBy: data.receivedBy,
+    };
+    let payment: Payment;
+
+    if (data.installmentId) {
+      const { installment, courseId } = await this.getPayableInstallment(data.installmentId, data.studentId);
+      if (courseId !== data.courseId) {
+        throw new Error('Installment not found');
+      }
+      payment = await this.createPayment({ ...values, courseId, studentId: data.studentId, amount: installment.amount, currency: installment.currency, installmentId: installment.id });
+    } else {
+      if (await this.hasInstallmentSchedule(data.courseId, data.studentId)) {
+        throw new Error('Cannot record a payment in full for a course being paid in installments');
+      }
+      const [alreadyPaid] = await db
+        .select({ id: payments.id })
+        .from(payments)
+        .where(and(
+          eq(payments.courseId, data.courseId),
+          eq(payments.studentId, data.studentId),
+          isNull(payments.installmentId),
+          inArray(payments.status, COLLECTED_PAYMENT_STATUSES),
+        ))
+        .limit(1);
+      if (alreadyPaid) {
+        throw new Error('Cannot record a payment for a course the student has already paid for');
+      }
+
+      // Money received now replaces the card payment the student started, which is canceled afterwards
+      ({ payment } = await this.createCoursePayment(
+        data.courseId,
+        data.studentId,
+        { promotionCode: data.promotionCode, useCredit: data.useCredit, replacingPending: isReceived },
+        values,
+      ));
+    }
+
+    if (!isReceived) {
+      return payment;
+    }
+
+    // Marked paid through updatePayment, so credit, the installment and the invoice settle as for card payments
+    return await this.updatePayment(payment.id, {
+      status: 'paid',
+      paidAt: data.receivedAt ?? new Date(),
+      ...(data.method === 'bank_transfer' ? { reconciledAt: new Date(), reconciledBy: data.receivedBy } : {}),
+    });
+  }
+
+  async reconcileBankTransfer(id: string, outcome: { received: boolean; receivedAt?: Date }, reconciledBy: string): Promise<Payment> {
+    const payment = await this.getPayment(id);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+    if (payment.method !== 'bank_transfer' || payment.status !== 'pending') {
+      throw new Error('Cannot reconcile a payment that is not an unreconciled bank transfer');
+    }
+
+    if (!outcome.received) {
+      return await this.updatePayment(id, { status: 'failed', reconciledAt: new Date(), reconciledBy });
+    }
+    return await this.updatePayment(id, {
+      status: 'paid',
+      paidAt: outcome.receivedAt ?? new Date(),
+      reconciledAt: new Date(),
+      reconciledBy,
+    });
+  }
+
+  // Refunds still pending at Stripe count against what is left to refund
+  assertRefundable(payment: Payment, refunds: PaymentRefund[], amount: string): void {
+    if (payment.status === 'disputed') {
+      throw new Error('Cannot refund a disputed payment; the dispute is settled through Stripe');
+    }
+    if (payment.status !== 'paid' && payment.status !== 'partially_refunded') {
+      throw new Error('Cannot refund a payment that has not been paid');
+    }
+
+    const committedCents = refunds
+      .filter(refund => refund.status === 'succeeded' || refund.status === 'pending')
+      .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+    const refundableCents = toCents(payment.amount) - committedCents;
+    if (toCents(amount) > refundableCents) {
+      throw new Error(`Cannot refund more than is left: at most $${fromCents(Math.max(0, refundableCents))} can still be refunded`);
+    }
+  }
+
+  // Payments taken outside Stripe are refunded by hand, so their refund is final once recorded. The check and the
+  // insert run under a lock on the payment row, so refunds recorded side by side can't exceed what was paid.
+  async recordManualRefund(refundData: InsertPaymentRefund): Promise<Payment> {
+    await db.transaction(async (tx) => {
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, refundData.paymentId)).for('update');
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      const refunds = await tx.select().from(paymentRefunds).where(eq(paymentRefunds.paymentId, payment.id));
+      this.assertRefundable(payment, refunds, refundData.amount);
+
+      await tx.insert(paymentRefunds).values({ ...refundData, status: 'succeeded' });
+    });
+
+    return await this.applyRefunds(refundData.paymentId);
+  }
+
+  // Stripe refunds are upserted by their Stripe id, as the same refund arrives from the admin route and from webhooks
+  async recordRefund(refundData: InsertPaymentRefund): Promise<Payment> {
+    const [existing] = refundData.stripeRefundId
+      ? await db.select().from(paymentRefunds).where(eq(paymentRefunds.stripeRefundId, refundData.stripeRefundId))
+      : [];
+
+    if (existing) {
+      await db
+        .update(paymentRefunds)
+        .set({
+          amount: refundData.amount,
+          status: refundData.status,
+          // The webhook can record an admin's refund before the admin route does; keep who issued it and why
+          ...(refundData.createdBy ? { createdBy: refundData.createdBy, reason: refundData.reason, keepEnrollment: refundData.keepEnrollment } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(paymentRefunds.id, existing.id));
+    } else {
+      await db.insert(paymentRefunds).values(refundData);
+    }
+
+    return await this.applyRefunds(refundData.paymentId);
+  }
+
+  // Recomputes the refunded total and status from the payment's succeeded refunds. An open dispute keeps
+  // the payment disputed until it closes.
+  async applyRefunds(paymentId: string): Promise<Payment> {
+    const payment = await this.getPayment(paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    const succeeded = (await this.getPaymentRefunds(paymentId)).filter(refund => refund.status === 'succeeded');
+    const amountCents = toCents(payment.amount);
+    const refundedCents = Math.min(succeeded.reduce((sum, refund) => sum + toCents(refund.amount), 0), amountCents);
+    const isFullRefund = amountCents > 0 && refundedCents >= amountCents;
+    const status: PaymentStatus = payment.status === 'disputed' || !COLLECTED_PAYMENT_STATUSES.concat('refunded').includes(payment.status)
+      ? payment.status
+      : isFullRefund ? 'refunded' : refundedCents > 0 ? 'partially_refunded' : 'paid';
+
+    const [updated] = await db
+      .update(payments)
+      .set({
+        refundedAmount: fromCents(refundedCents),
+        status,
+        refundedAt: status === 'refunded' ? payment.refundedAt ?? new Date() : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, paymentId))
+      .returning();
+
+    if (updated.status === 'refunded' && payment.status !== 'refunded') {
+      await this.handleFullRefund(updated, succeeded.some(refund => refund.keepEnrollment));
+    }
+    for (const refund of succeeded) {
+      await this.issueCreditNote(refund.id);
+    }
+    return updated;
+  }
+
+  // Undoes what the payment paid for: the installment part is owed again, referral credit is reversed, and the
+  // enrollment is deactivated unless another payment still covers the course
+  async handleFullRefund(payment: Payment, keepEnrollment: boolean): Promise<void> {
+    if (payment.installmentId) {
+      await db.update(installments).set({ paidAt: null }).where(eq(installments.id, payment.installmentId));
+    }
+
+    const creditEntries = await db
+      .select()
+      .from(referralCreditEntries)
+      .where(and(eq(referralCreditEntries.paymentId, payment.id), ne(referralCreditEntries.source, 'refund_reversal')));
+    for (const entry of creditEntries) {
+      await db
+        .insert(referralCreditEntries)
+        .values({ studentId: entry.studentId, paymentId: payment.id, source: 'refund_reversal', amount: fromCents(-toCents(entry.amount)) })
+        .onConflictDoNothing();
+    }
+
+    if (keepEnrollment) return;
+
+    const [stillCovered] = await db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(
+        eq(payments.courseId, payment.courseId),
+        eq(payments.studentId, payment.studentId),
+        ne(payments.id, payment.id),
+        inArray(payments.status, COLLECTED_PAYMENT_STATUSES),
+      ))
+      .limit(1);
+    const enrollment = await this.getEnrollment(payment.courseId, payment.studentId);
+    if (!stillCovered && enrollment?.isActive) {
+      await this.updateEnrollment(enrollment.id, { isActive: false });
+    }
+  }
+
+  // A lost dispute takes the money back like a full refund; a won one returns the payment to its refunded state
+  async updatePaymentDispute(paymentId: string, outcome: 'opened' | 'won' | 'lost'): Promise<Payment> {
+    const payment = await this.getPayment(paymentId);
+    if (!payment) {
+      throw new Error('Payment not found');
+    }
+
+    if (outcome === 'opened') {
+      return await this.updatePayment(paymentId, { status: 'disputed' });
+    }
+    if (outcome === 'won') {
+      await db.update(payments).set({ status: 'paid' }).where(eq(payments.id, paymentId));
+      return await this.applyRefunds(paymentId);
+    }
+
+    const [updated] = await db
+      .update(payments)
+      .set({ status: 'refunded', refundedAmount: payment.amount, refundedAt: new Date(), updatedAt: new Date() })
+      .where(eq(payments.id, paymentId))
+      .returning();
+    if (payment.status !== 'refunded') {
+      await this.handleFullRefund(updated, false);
+    }
+    return updated;
+  }
+
+  // Claims the event for this delivery in a single update, so of two deliveries arriving together only one
+  // handles it. Returns false when the event was already processed or another delivery holds the claim;
+  // a claim left behind by a crashed delivery lapses after a few minutes.
+  async recordStripeEvent(event: { id: string; type: string; payload: unknown }): Promise<boolean> {
+    await db
+      .insert(stripeEvents)
+      .values({ id: event.id, type: event.type, payload: event.payload })
+      .onConflictDoNothing();
+    const staleBefore = new Date(Date.now() - STRIPE_EVENT_CLAIM_MINUTES * 60 * 1000);
+    const [claimed] = await db
+      .update(stripeEvents)
+      .set({ claimedAt: new Date() })
+      .where(and(
+        eq(stripeEvents.id, event.id),
+        isNull(stripeEvents.processedAt),
+        or(isNull(stripeEvents.claimedAt), lt(stripeEvents.claimedAt, staleBefore)),
+      ))
+      .returning({ id: stripeEvents.id });
+    return !!claimed;
+  }
+
+  async markStripeEventProcessed(id: string, paymentId: string | null): Promise<void> {
+    await db
+      .update(stripeEvents)
+      .set({ processedAt: new Date(), paymentId })
+      .where(eq(stripeEvents.id, id));
+  }
+
+  // Gives up the claim after a failed attempt, so Stripe's redelivery can handle the event
+  async releaseStripeEvent(id: string): Promise<void> {
+    await db
+      .update(stripeEvents)
+      .set({ claimedAt: null })
+      .where(and(eq(stripeEvents.id, id), isNull(stripeEvents.processedAt)));
+  }
+
+  // Invoice operations
+  async getSchoolSettings(): Promise<SchoolSettings> {
+    const [settings] = await db.select().from(schoolSettings).where(eq(schoolSettings.id, 'default'));
+    return settings || { ...DEFAULT_SCHOOL_SETTINGS, updatedAt: new Date() };
+  }
+
+  async updateSchoolSettings(data: Omit<SchoolSettings, 'id' | 'updatedBy' | 'updatedAt'>, updatedBy: string): Promise<SchoolSettings> {
+    const values = { ...data, updatedBy, updatedAt: new Date() };
+    const [settings] = await db
+      .insert(schoolSettings)
+      .values({ id: 'default', ...values })
+      .onConflictDoUpdate({ target: schoolSettings.id, set: values })
+      .returning();
+    return settings;
+  }
+
+  async getInvoices(filters: { type?: InvoiceType; studentId?: string; paymentId?: string }): Promise<Invoice[]> {
+    const conditions = [];
+    if (filters.type) conditions.push(eq(invoices.type, filters.type));
+    if (filters.studentId) conditions.push(eq(payments.studentId, filters.studentId));
+    if (filters.paymentId) conditions.push(eq(invoices.paymentId, filters.paymentId));
+
+    const rows = await db
+      .select({ invoice: invoices })
+      .from(invoices)
+      .innerJoin(payments, eq(invoices.paymentId, payments.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(invoices.issuedAt));
+    return rows.map(row => row.invoice);
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice || undefined;
+  }
+
+  // Issues the invoice of a collected payment; a payment gets one invoice, so calling this again returns it.
+  // The amount paid is invoiced, after the promotion discount and referral credit.
+  async issueInvoice(paymentId: string): Promise<Invoice | undefined> {
+    const payment = await this.getPayment(paymentId);
+    if (!payment || !(COLLECTED_PAYMENT_STATUSES.concat('refunded')).includes(payment.status)) {
+      return undefined;
+    }
+
+    const [course, student, settings] = await Promise.all([
+      this.getCourse(payment.courseId),
+      this.getUser(payment.studentId),
+      this.getSchoolSettings(),
+    ]);
+    const [installment] = payment.installmentId
+      ? await db.select().from(installments).where(eq(installments.id, payment.installmentId))
+      : [];
+    const installmentCount = installment
+      ? (await db.select({ id: installments.id }).from(installments).where(eq(installments.enrollmentId, installment.enrollmentId))).length
+      : 0;
+
+    const totalCents = toCents(payment.amount);
+    const { netCents, vatCents } = splitVat(totalCents, settings.vatRate);
+
+    return await this.createInvoiceDocument({
+      type: 'invoice',
+      prefix: settings.invoicePrefix,
+      paymentId: payment.id,
+      refundId: null,
+      originalInvoiceNumber: null,
+      seller: this.invoiceSeller(settings),
+      buyerName: student ? userDisplayName(student) || 'Student' : 'Student',
+      buyerEmail: student?.email ?? null,
+      description: installment
+        ? `${course?.name || 'Course'} (installment ${installment.sequence} of ${installmentCount})`
+        : course?.name || 'Course',
+      currency: payment.currency,
+      netAmount: fromCents(netCents),
+      vatRate: settings.vatRate,
+      vatAmount: fromCents(vatCents),
+      totalAmount: fromCents(totalCents),
+    });
+  }
+
+  // Issues the credit note of a succeeded refund against the payment's invoice, at the VAT rate that invoice used
+  async issueCreditNote(refundId: string): Promise<Invoice | undefined> {
+    const [refund] = await db.select().from(paymentRefunds).where(eq(paymentRefunds.id, refundId));
+    if (!refund || refund.status !== 'succeeded') {
+      return undefined;
+    }
+
+    const invoice = await this.issueInvoice(refund.paymentId);
+    if (!invoice) {
+      return undefined;
+    }
+
+    const settings = await this.getSchoolSettings();
+    const totalCents = toCents(refund.amount);
+    const { netCents, vatCents } = splitVat(totalCents, invoice.vatRate);
+
+    return await this.createInvoiceDocument({
+      type: 'credit_note',
+      prefix: settings.creditNotePrefix,
+      paymentId: refund.paymentId,
+      refundId: refund.id,
+      originalInvoiceNumber: invoice.number,
+      seller: this.invoiceSeller(settings),
+      buyerName: invoice.buyerName,
+      buyerEmail: invoice.buyerEmail,
+      description: refund.reason ? `Refund: ${invoice.description} (${refund.reason})` : `Refund: ${invoice.description}`,
+      currency: invoice.currency,
+      netAmount: fromCents(netCents),
+      vatRate: invoice.vatRate,
+      vatAmount: fromCents(vatCents),
+      totalAmount: fromCents(totalCents),
+    });
+  }
+
+  invoiceSeller(settings: SchoolSettings): InvoiceSeller {
+    const { id, invoicePrefix, creditNotePrefix, updatedBy, updatedAt, ...seller } = settings;
+    return seller;
+  }
+
+  // Numbers are taken under a lock in the same transaction as the insert, so they run without gaps or
+  // duplicates per type and year, in issue date order. The existing document is returned when the payment
+  // or refund already has one.
+  async createInvoiceDocument(document: Omit<Invoice, 'id' | 'number' | 'year' | 'sequence' | 'issuedAt' | 'createdAt'> & { prefix: string }): Promise<Invoice> {
+    const { prefix, ...values } = document;
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('invoice_numbering'))`);
+
+      const [existing] = await tx
+        .select()
+        .from(invoices)
+        .where(values.type === 'credit_note'
+          ? eq(invoices.refundId, values.refundId!)
+          : and(eq(invoices.paymentId, values.paymentId), eq(invoices.type, 'invoice')));
+      if (existing) {
+        return existing;
+      }
+
+      const issuedAt = new Date();
+      const year = parseInt(formatInTimeZone(issuedAt, SCHOOL_TIMEZONE, 'yyyy'));
+      const [last] = await tx
+        .select({ sequence: sql<number>`max(${invoices.sequence})` })
+        .from(invoices)
+        .where(and(eq(invoices.type, values.type), eq(invoices.year, year)));
+      const sequence = (last?.sequence ?? 0) + 1;
+
+      const [invoice] = await tx
+        .insert(invoices)
+        .values({ ...values, year, sequence, issuedAt, number: `${prefix}-${year}-${String(sequence).padStart(5, '0')}` })
+        .returning();
+      return invoice;
+    });
+  }
+
+  // Installment plan operations
+  async getPaymentPlans(courseId: string): Promise<PaymentPlan[]> {
+    return await db
+      .select()
+      .from(paymentPlans)
+      .where(eq(paymentPlans.courseId, courseId))
+      .orderBy(asc(paymentPlans.installmentCount));
+  }
+
+  async getPaymentPlan(id: string): Promise<PaymentPlan | undefined> {
+    const [plan] = await db.select().from(paymentPlans).where(eq(paymentPlans.id, id));
+    return plan || undefined;
+  }
+
+  async getPaymentPlanOptions(courseId: string): Promise<Array<PaymentPlan & { installmentAmounts: string[] }>> {
+    const course = await this.getCourse(courseId);
+    if (!course?.price) return [];
+
+    const plans = await this.getPaymentPlans(courseId);
+    return plans
+      .filter(plan => plan.isActive)
+      .map(plan => ({ ...plan, installmentAmounts: splitAmount(course.price!, plan.installmentCount) }));
+  }
+
+  async createPaymentPlan(planData: InsertPaymentPlan): Promise<PaymentPlan> {
+    const [plan] = await db.insert(paymentPlans).values(planData).returning();
+    return plan;
+  }
+
+  async updatePaymentPlan(id: string, data: Partial<InsertPaymentPlan>): Promise<PaymentPlan> {
+    const [plan] = await db
+      .update(paymentPlans)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(paymentPlans.id, id))
+      .returning();
+    return plan;
+  }
+
+  async deletePaymentPlan(id: string): Promise<void> {
+    const [inUse] = await db
+      .select({ id: installments.id })
+      .from(installments)
+      .where(eq(installments.paymentPlanId, id))
+      .limit(1);
+    if (inUse) {
+      throw new Error('Cannot delete a payment plan that students are paying by; deactivate it instead');
+    }
+    await db.delete(paymentPlans).where(eq(paymentPlans.id, id));
+  }
+
+  async startInstallmentPlan(planId: string, studentId: string): Promise<InstallmentSchedule> {
+    const plan = await this.getPaymentPlan(planId);
+    if (!plan) {
+      throw new Error('Payment plan not found');
+    }
+    if (!plan.isActive) {
+      throw new Error('Cannot choose a payment plan that is no longer offered');
+    }
+    const course = await this.getCourse(plan.courseId);
+    if (!course?.price) {
+      throw new Error('Cannot pay in installments for a course without a price');
+    }
+
+    const coursePayments = (await this.getPaymentsByStudent(studentId)).filter(p => p.courseId === course.id);
+    if (coursePayments.some(p => COLLECTED_PAYMENT_STATUSES.includes(p.status) && !p.installmentId)) {
+      throw new Error('Cannot choose a payment plan for a course that is already paid');
+    }
+
+    const enrollment = await this.getEnrollment(course.id, studentId)
+      ?? await this.createEnrollment({ courseId: course.id, studentId });
+    if (await this.hasInstallmentSchedule(course.id, studentId)) {
+      throw new Error('Cannot choose a payment plan: this course already has an installment schedule');
+    }
+
+    // The first part is due straight away, the rest every intervalMonths after it
+    const startedAt = new Date();
+    const amounts = splitAmount(course.price, plan.installmentCount);
+    const schedule = await db
+      .insert(installments)
+      .values(amounts.map((amount, index) => ({
+        enrollmentId: enrollment.id,
+        paymentPlanId: plan.id,
+        sequence: index + 1,
+        amount,
+        dueDate: addMonths(startedAt, index * plan.intervalMonths),
+      })))
+      .returning();
+
+    return {
+      enrollmentId: enrollment.id,
+      course: { id: course.id, name: course.name },
+      plan,
+      installments: withInstallmentStatus(schedule.sort((a, b) => a.sequence - b.sequence), startedAt),
+      totalAmount: course.price,
+      paidAmount: '0.00',
+    };
+  }
+
+  async getInstallmentSchedules(studentId: string): Promise<InstallmentSchedule[]> {
+    const rows = await db
+      .select({ installment: installments, plan: paymentPlans, course: { id: courses.id, name: courses.name } })
+      .from(installments)
+      .innerJoin(courseEnrollments, eq(installments.enrollmentId, courseEnrollments.id))
+      .innerJoin(paymentPlans, eq(installments.paymentPlanId, paymentPlans.id))
+      .innerJoin(courses, eq(courseEnrollments.courseId, courses.id))
+      .where(eq(courseEnrollments.studentId, studentId))
+      .orderBy(asc(installments.sequence));
+
+    const byEnrollment = new Map<string, typeof rows>();
+    for (const row of rows) {
+      byEnrollment.set(row.installment.enrollmentId, [...(byEnrollment.get(row.installment.enrollmentId) ?? []), row]);
+    }
+
+    const sumOf = (items: Installment[]) => items.reduce((sum, item) => sum + parseFloat(item.amount), 0).toFixed(2);
+    return Array.from(byEnrollment, ([enrollmentId, scheduleRows]) => {
+      const schedule = scheduleRows.map(row => row.installment);
+      return {
+        enrollmentId,
+        course: scheduleRows[0].course,
+        plan: scheduleRows[0].plan,
+        installments: withInstallmentStatus(schedule),
+        totalAmount: sumOf(schedule),
+        paidAmount: sumOf(schedule.filter(installment => installment.paidAt)),
+      };
+    });
+  }
+
+  async hasInstallmentSchedule(courseId: string, studentId: string): Promise<boolean> {
+    const [row] = await db
+      .select({ id: installments.id })
+      .from(installments)
+      .innerJoin(courseEnrollments, eq(installments.enrollmentId, courseEnrollments.id))
+      .where(and(eq(courseEnrollments.courseId, courseId), eq(courseEnrollments.studentId, studentId)))
+      .limit(1);
+    return !!row;
+  }
+
+  async getPayableInstallment(id: string, studentId: string): Promise<{ installment: Installment; courseId: string; pendingPayment: Payment | undefined }> {
+    const [row] = await db
+      .select({ installment: installments, enrollment: courseEnrollments })
+      .from(installments)
+      .innerJoin(courseEnrollments, eq(installments.enrollmentId, courseEnrollments.id))
+      .where(eq(installments.id, id));
+    if (!row || row.enrollment.studentId !== studentId) {
+      throw new Error('Installment not found');
+    }
+    if (row.installment.paidAt) {
+      throw new Error('Cannot pay an installment that is already paid');
+    }
+
+    const [earlierUnpaid] = await db
+      .select({ sequence: installments.sequence })
+      .from(installments)
+      .where(and(
+        eq(installments.enrollmentId, row.installment.enrollmentId),
+        lt(installments.sequence, row.installment.sequence),
+        isNull(installments.paidAt),
+      ))
+      .orderBy(asc(installments.sequence))
+      .limit(1);
+    if (earlierUnpaid) {
+      throw new Error(`Cannot pay installment ${row.installment.sequence} before installment ${earlierUnpaid.sequence}`);
+    }
+
+    // An intent that was created but never completed is reused rather than opening another one
+    const [pendingPayment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.installmentId, id), eq(payments.status, 'pending')))
+      .orderBy(desc(payments.createdAt))
+      .limit(1);
+
+    return { installment: row.installment, courseId: row.enrollment.courseId, pendingPayment };
+  }
+
+  async getOverdueInstallments(courseId?: string): Promise<OverdueInstallment[]> {
+    const now = new Date();
+    const conditions = [isNull(installments.paidAt), lt(installments.dueDate, now)];
+    if (courseId) {
+      conditions.push(eq(courseEnrollments.courseId, courseId));
+    }
+
+    const rows = await db
+      .select({ installment: installments, planName: paymentPlans.name, course: courses, student: users })
+      .from(installments)
+      .innerJoin(courseEnrollments, eq(installments.enrollmentId, courseEnrollments.id))
+      .innerJoin(paymentPlans, eq(installments.paymentPlanId, paymentPlans.id))
+      .innerJoin(courses, eq(courseEnrollments.courseId, courses.id))
+      .innerJoin(users, eq(courseEnrollments.studentId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(installments.dueDate));
+
+    return rows.map(row => ({
+      ...row.installment,
+      status: 'overdue' as const,
+      courseId: row.course.id,
+      courseName: row.course.name,
+      studentId: row.student.id,
+      studentName: userDisplayName(row.student),
+      planName: row.planName,
+    }));
+  }
+
+  // Promotion operations
+  async getPromotions(): Promise<PromotionWithUsage[]> {
+    const rows = await db
+      .select({ promotion: promotions, referrer: users })
+      .from(promotions)
+      .leftJoin(users, eq(promotions.referrerId, users.id))
+      .orderBy(desc(promotions.createdAt));
+
+    const usage = await db
+      .select({
+        promotionId: payments.promotionId,
+        redemptions: sql<number>`count(*)::int`,
+        discountTotal: sql<string>`coalesce(sum(${payments.discountAmount}), 0)`,
+      })
+      .from(payments)
+      .where(and(inArray(payments.status, COLLECTED_PAYMENT_STATUSES), isNotNull(payments.promotionId)))
+      .groupBy(payments.promotionId);
+    const usageById = new Map(usage.map(row => [row.promotionId, row]));
+
+    return rows.map(row => ({
+      ...row.promotion,
+      referrerName: row.referrer ? userDisplayName(row.referrer) : null,
+      redemptions: usageById.get(row.promotion.id)?.redemptions ?? 0,
+      discountTotal: fromCents(toCents(usageById.get(row.promotion.id)?.discountTotal)),
+    }));
+  }
+
+  async getPromotion(id: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion || undefined;
+  }
+
+  async createPromotion(promotionData: InsertPromotion): Promise<Promotion> {
+    const [existing] = await db.select().from(promotions).where(eq(promotions.code, promotionData.code));
+    if (existing) {
+      throw new Error(`Cannot create promotion: the code ${promotionData.code} already exists`);
+    }
+    if (promotionData.referrerId) {
+      const referrer = await this.getUser(promotionData.referrerId);
+      if (!referrer || referrer.role !== 'student') {
+        throw new Error('Cannot create referral code: the referrer must be a student');
+      }
+    }
+
+    const [promotion] = await db.insert(promotions).values(promotionData).returning();
+    return promotion;
+  }
+
+  async updatePromotion(id: string, data: Partial<InsertPromotion>): Promise<Promotion> {
+    const [promotion] = await db
+      .update(promotions)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+    return promotion;
+  }
+
+  async deletePromotion(id: string): Promise<void> {
+    const [used] = await db.select({ id: payments.id }).from(payments).where(eq(payments.promotionId, id)).limit(1);
+    if (used) {
+      throw new Error('Cannot delete a promotion code that has been used; deactivate it instead');
+    }
+    await db.delete(promotions).where(eq(promotions.id, id));
+  }
+
+  // Prices a one-off course payment. Code problems are thrown as "Cannot apply ..." errors so the
+  // student can correct the code; credit is capped at what is left to pay. Pending payments hold their
+  // code and credit like collected ones, so a code can't be redeemed twice by payments started side by side.
+  async quoteCoursePrice(courseId: string, studentId: string, options: CoursePriceOptions): Promise<CoursePriceQuote> {
+    const course = await this.getCourse(courseId);
+    if (!course?.price) {
+      throw new Error('Cannot pay for a course without a price');
+    }
+
+    const listCents = toCents(course.price);
+    let promotion: Promotion | undefined;
+    let discountCents = 0;
+
+    const code = options.promotionCode?.trim().toUpperCase();
+    if (code) {
+      [promotion] = await db.select().from(promotions).where(eq(promotions.code, code));
+      const now = new Date();
+      const courseIds = promotion?.courseIds as string[] | null | undefined;
+
+      if (!promotion || !promotion.isActive) {
+        throw new Error(`Cannot apply code ${code}: it is not a valid promotion code`);
+      }
+      if (promotion.validFrom && promotion.validFrom > now) {
+        throw new Error(`Cannot apply code ${code}: it is not valid yet`);
+      }
+      if (promotion.validUntil && promotion.validUntil < now) {
+        throw new Error(`Cannot apply code ${code}: it has expired`);
+      }
+      if (courseIds && !courseIds.includes(courseId)) {
+        throw new Error(`Cannot apply code ${code}: it is not valid for this course`);
+      }
+      if (promotion.referrerId === studentId) {
+        throw new Error(`Cannot apply code ${code}: you can't use your own referral code`);
+      }
+
+      const uses = await db
+        .select({ studentId: payments.studentId })
+        .from(payments)
+        .where(and(
+          eq(payments.promotionId, promotion.id),
+          inArray(payments.status, [...COLLECTED_PAYMENT_STATUSES, 'pending']),
+          options.replacingPending ? notReplacedBy(courseId, studentId) : undefined,
+        ));
+      if (promotion.maxRedemptions !== null && uses.length >= promotion.maxRedemptions) {
+        throw new Error(`Cannot apply code ${code}: it has been used up`);
+      }
+      if (uses.filter(use => use.studentId === studentId).length >= promotion.maxRedemptionsPerStudent) {
+        throw new Error(`Cannot apply code ${code}: you have already used it`);
+      }
+
+      discountCents = promotion.type === 'percentage'
+        ? Math.round(listCents * parseFloat(promotion.value) / 100)
+        : Math.min(toCents(promotion.value), listCents);
+    }
+
+    const creditBalanceCents = await this.getAvailableCreditCents(studentId, options.replacingPending ? courseId : undefined);
+    const creditCents = options.useCredit ? Math.min(creditBalanceCents, listCents - discountCents) : 0;
+
+    return {
+      courseId,
+      listPrice: fromCents(listCents),
+      promotion: promotion ? { id: promotion.id, code: promotion.code, description: promotion.description } : null,
+      discountAmount: fromCents(discountCents),
+      creditAmount: fromCents(creditCents),
+      amount: fromCents(listCents - discountCents - creditCents),
+      creditBalance: fromCents(creditBalanceCents),
+    };
+  }
+
+  // The lock on the student and the code serializes payments that could spend the same credit or redemption,
+  // and is held until the pending payment is recorded so the next quote counts it
+  async createCoursePayment(
+    courseId: string,
+    studentId: string,
+    options: CoursePriceOptions,
+    values: Omit<InsertPayment, 'courseId' | 'studentId' | 'amount' | 'currency' | 'listPrice' | 'promotionId' | 'discountAmount' | 'creditAmount'>,
+  ): Promise<{ payment: Payment; quote: CoursePriceQuote }> {
+    return await db.transaction(async (tx) => {
+      // Always the student first, so concurrent payments cannot deadlock
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`course_payment_${studentId}`}))`);
+      const code = options.promotionCode?.trim().toUpperCase();
+      if (code) {
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`promotion_${code}`}))`);
+      }
+
+      const quote = await this.quoteCoursePrice(courseId, studentId, options);
+      const [payment] = await tx
+        .insert(payments)
+        .values({
+          ...values,
+          courseId,
+          studentId,
+          amount: quote.amount,
+          currency: 'usd',
+          listPrice: quote.listPrice,
+          promotionId: quote.promotion?.id ?? null,
+          discountAmount: quote.discountAmount,
+          creditAmount: quote.creditAmount,
+        })
+        .returning();
+      return { payment, quote };
+    });
+  }
+
+  async getReferralSummary(studentId: string): Promise<ReferralSummary> {
+    const codes = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.referrerId, studentId))
+      .orderBy(asc(promotions.createdAt));
+
+    const uses = codes.length > 0
+      ? await db
+        .select({ promotionId: payments.promotionId })
+        .from(payments)
+        .where(and(inArray(payments.promotionId, codes.map(code => code.id)), inArray(payments.status, COLLECTED_PAYMENT_STATUSES)))
+      : [];
+
+    return {
+      codes: codes.map(code => ({
+        id: code.id,
+        code: code.code,
+        referrerCredit: code.referrerCredit,
+        isActive: code.isActive,
+        redemptions: uses.filter(use => use.promotionId === code.id).length,
+      })),
+      creditBalance: fromCents(await this.getAvailableCreditCents(studentId)),
+    };
+  }
+
+  // Earned credit minus what is spent, including credit held by the student's pending payments other than
+  // the unfinished card payment for the course being paid again, if any
+  async getAvailableCreditCents(studentId: string, replacingCourseId?: string): Promise<number> {
+    const [ledger] = await db
+      .select({ total: sql<string>`coalesce(sum(${referralCreditEntries.amount}), 0)` })
+      .from(referralCreditEntries)
+      .where(eq(referralCreditEntries.studentId, studentId));
+    const [held] = await db
+      .select({ total: sql<string>`coalesce(sum(${payments.creditAmount}), 0)` })
+      .from(payments)
+      .where(and(
+        eq(payments.studentId, studentId),
+        eq(payments.status, 'pending'),
+        replacingCourseId ? notReplacedBy(replacingCourseId, studentId) : undefined,
+      ));
+
+    return Math.max(0, toCents(ledger?.total) - toCents(held?.total));
+  }
+
+  // Spends the payer's credit and credits the referrer; the ledger's unique key makes this idempotent
+  async settleReferralCredit(payment: Payment): Promise<void> {
+    if (toCents(payment.creditAmount) > 0) {
+      await db
+        .insert(referralCreditEntries)
+        .values({ studentId: payment.studentId, paymentId: payment.id, source: 'redemption', amount: fromCents(-toCents(payment.creditAmount)) })
+        .onConflictDoNothing();
+    }
+
+    const promotion = payment.promotionId ? await this.getPromotion(payment.promotionId) : undefined;
+    if (promotion?.referrerId && promotion.referrerCredit && promotion.referrerId !== payment.studentId) {
+      await db
+        .insert(referralCreditEntries)
+        .values({ studentId: promotion.referrerId, paymentId: payment.id, source: 'referral', amount: promotion.referrerCredit })
+        .onConflictDoNothing();
+    }
+  }
+
   // Certificate operations
   async createCertificate(certificateData: InsertCertificate): Promise<Certificate> {
     const [certificate] = await db.insert(certificates).values(certificateData).returning();
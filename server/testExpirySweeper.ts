@@ -0,0 +1,31 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Grades timed attempts whose deadline has passed without a submission, using the answers
+// autosaved so far. Runs inside the server process; a sweep is skipped while the previous one
+// is still running.
+export function startTestExpirySweeper() {
+  let isSweeping = false;
+
+  const sweep = async () => {
+    if (isSweeping) return;
+    isSweeping = true;
+    try {
+      const submitted = await storage.autoSubmitExpiredTestInstances();
+      if (submitted > 0) {
+        log(`auto-submitted ${submitted} expired test attempt(s)`, "tests");
+      }
+    } catch (error) {
+      console.error("Error sweeping expired test attempts:", error);
+    } finally {
+      isSweeping = false;
+    }
+  };
+
+  const timer = setInterval(sweep, SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  void sweep();
+}
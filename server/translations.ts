@@ -0,0 +1,47 @@
+import {
+  SOURCE_CONTENT_LANGUAGE,
+  type ContentLanguage,
+  type Question,
+  type QuestionTranslation,
+  type Translations,
+} from "@shared/schema";
+
+function translationFor<T>(entity: { translations?: unknown }, language: ContentLanguage | null | undefined): T | undefined {
+  if (!language || language === SOURCE_CONTENT_LANGUAGE) return undefined;
+  return (entity.translations as Translations<T> | null | undefined)?.[language];
+}
+
+// Overlays the translated text fields of a course, topic or post; untranslated fields keep the source text
+export function localize<T extends { translations?: unknown }>(entity: T, language: ContentLanguage | null | undefined): T {
+  const translation = translationFor<Record<string, unknown>>(entity, language);
+  if (!translation) return entity;
+
+  const localized: Record<string, unknown> = { ...entity };
+  for (const [field, value] of Object.entries(translation)) {
+    if (field in entity && value) localized[field] = value;
+  }
+  return localized as T;
+}
+
+// The question text, explanation and choices a student sees in the given language. Choice labels
+// are translated by choice id; choices added since the translation keep their source label.
+export function localizeQuestion(question: Question, language: ContentLanguage | null | undefined) {
+  const choices = (question.choices as any[]) || [];
+  const translation = translationFor<QuestionTranslation>(question, language);
+
+  return {
+    questionText: translation?.questionText || question.questionText,
+    explanation: translation?.explanation || question.explanation,
+    choices: choices.map((choice) => ({ ...choice, label: translation?.choices?.[choice.id] || choice.label })),
+  };
+}
+
+// Drops empty fields (and empty choice labels) so they fall back to the source language; returns null when nothing is left
+export function cleanTranslation(fields: Record<string, unknown>): Record<string, unknown> | null {
+  const cleaned = Object.fromEntries(
+    Object.entries(fields)
+      .map(([key, value]) => [key, value && typeof value === "object" ? cleanTranslation(value as Record<string, unknown>) : value])
+      .filter(([, value]) => !!value)
+  );
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+}
@@ -8,9 +8,11 @@ import {
   varchar,
   text,
   integer,
+  real,
   boolean,
   decimal,
   pgEnum,
+  unique,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -28,11 +30,31 @@ export const sessions = pgTable(
 
 // Enums
 export const roleEnum = pgEnum("role", ["student", "instructor", "admin"]);
-export const questionTypeEnum = pgEnum("question_type", ["single_choice", "multiple_choice"]);
+export const questionTypeEnum = pgEnum("question_type", ["single_choice", "multiple_choice", "ordering", "hotspot", "numeric"]);
 export const testModeEnum = pgEnum("test_mode", ["random", "manual", "linked_template"]);
 export const assessmentStatusEnum = pgEnum("assessment_status", ["draft", "published"]);
-export const paymentStatusEnum = pgEnum("payment_status", ["pending", "paid", "failed"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "paid", "failed", "partially_refunded", "refunded", "disputed"]);
+export const paymentMethodEnum = pgEnum("payment_method", ["card", "cash", "bank_transfer"]);
+export const refundStatusEnum = pgEnum("refund_status", ["pending", "succeeded", "failed", "canceled"]);
+export const invoiceTypeEnum = pgEnum("invoice_type", ["invoice", "credit_note"]);
 export const attendanceStatusEnum = pgEnum("attendance_status", ["present", "absent"]);
+export const scheduleTypeEnum = pgEnum("schedule_type", ["group", "practical"]);
+export const transmissionTypeEnum = pgEnum("transmission_type", ["manual", "automatic"]);
+export const vehicleCategoryEnum = pgEnum("vehicle_category", ["A", "B", "C"]);
+export const vehicleStatusEnum = pgEnum("vehicle_status", ["active", "maintenance", "retired"]);
+export const drivingLedgerSourceEnum = pgEnum("driving_ledger_source", ["attendance", "adjustment"]);
+export const stateExamTypeEnum = pgEnum("state_exam_type", ["theory", "practical"]);
+export const scoringPolicyEnum = pgEnum("scoring_policy", ["all_or_nothing", "proportional", "proportional_penalty"]);
+export const reviewPolicyEnum = pgEnum("review_policy", ["immediately", "after_passing", "after_final_attempt", "never"]);
+export const questionStatusEnum = pgEnum("question_status", ["draft", "in_review", "approved", "archived"]);
+export const questionReviewActionEnum = pgEnum("question_review_action", ["submitted", "approved", "changes_requested", "archived", "reopened"]);
+export const stateExamOutcomeEnum = pgEnum("state_exam_outcome", ["scheduled", "passed", "failed", "no_show"]);
+export const contentLanguageEnum = pgEnum("content_language", ["lv", "ru", "en"]);
+export const promotionTypeEnum = pgEnum("promotion_type", ["percentage", "fixed"]);
+export const referralCreditSourceEnum = pgEnum("referral_credit_source", ["referral", "redemption", "refund_reversal"]);
+
+// Course content and questions are authored in this language; the others are stored as translations
+export const SOURCE_CONTENT_LANGUAGE: ContentLanguage = "lv";
 
 // Users table (supports both Replit Auth and local email/password auth)
 export const users = pgTable("users", {
@@ -43,6 +65,7 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   role: roleEnum("role").notNull().default("student"),
+  preferredLanguage: contentLanguageEnum("preferred_language"), // Course content and exam language; null = source language
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -65,6 +88,11 @@ export const courses = pgTable("courses", {
   description: text("description"),
   category: varchar("category", { length: 100 }),
   price: decimal("price", { precision: 10, scale: 2 }),
+  requiredDrivingHours: integer("required_driving_hours"), // Licensing target for credited driving hours (null = no target)
+  requireDrivingHoursForCompletion: boolean("require_driving_hours_for_completion").notNull().default(false),
+  mockExamStreakRequired: integer("mock_exam_streak_required").notNull().default(0), // Consecutive passed mock exams needed for exam readiness
+  minAttendedSessions: integer("min_attended_sessions").notNull().default(0), // Attended sessions needed for exam readiness
+  translations: jsonb("translations"), // Translations<CourseTranslation>
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -75,7 +103,9 @@ export const coursesRelations = relations(courses, ({ many }) => ({
   enrollments: many(courseEnrollments),
   schedules: many(schedules),
   payments: many(payments),
+  paymentPlans: many(paymentPlans),
   certificates: many(certificates),
+  drivingLedgerEntries: many(drivingLedgerEntries),
 }));
 
 // Topics table
@@ -85,6 +115,7 @@ export const topics = pgTable("topics", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   type: varchar("type", { length: 20 }).notNull().default("theory"),
+  translations: jsonb("translations"), // Translations<TopicTranslation>
   orderIndex: integer("order_index").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -106,6 +137,7 @@ export const posts = pgTable("posts", {
   topicId: varchar("topic_id").notNull().references(() => topics.id, { onDelete: "cascade" }),
   title: varchar("title", { length: 255 }).notNull(),
   content: text("content").notNull(), // HTML content
+  translations: jsonb("translations"), // Translations<PostTranslation>
   orderIndex: integer("order_index").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -156,11 +188,23 @@ export const questions = pgTable("questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   questionTopicId: varchar("question_topic_id").references(() => questionTopics.id, { onDelete: "set null" }),
   questionText: text("question_text").notNull(),
+  imageUrl: varchar("image_url"), // Stem image, e.g. a road sign or intersection (see server/questionMedia.ts)
   explanation: text("explanation"),
   type: questionTypeEnum("type").notNull(),
-  choices: jsonb("choices").notNull(), // Array of {label: string, isCorrect: boolean}
+  choices: jsonb("choices").notNull(), // Array of QuestionChoice; for ordering, listed in the correct order; empty for hotspot/numeric
+  answerConfig: jsonb("answer_config"), // Hotspot: {regions: HotspotRegion[]}; numeric: {value, tolerance, unit?}
   tags: jsonb("tags"), // Array of strings for categorization
+  points: integer("points").notNull().default(1), // Weight of the question in the score
+  isCritical: boolean("is_critical").notNull().default(false), // Answering wrong fails the test regardless of score
+  translations: jsonb("translations"), // Translations<QuestionTranslation>; not versioned
+  // Only approved questions are served in tests. Defaults to approved so questions from before the review
+  // workflow stay live; new and edited questions are set to draft by the storage layer.
+  status: questionStatusEnum("status").notNull().default("approved"),
+  // Archive flag from before the review workflow; ensureArchivedStatus moves these questions to status archived
   isArchived: boolean("is_archived").notNull().default(false),
+  isFlagged: boolean("is_flagged").notNull().default(false), // Marked for review, e.g. after a poor item analysis
+  flagReason: text("flag_reason"),
+  currentVersionId: varchar("current_version_id"), // Latest questionVersions row; served snapshots record it as versionId
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -170,10 +214,81 @@ export const questionsRelations = relations(questions, ({ one, many }) => ({
     fields: [questions.questionTopicId],
     references: [questionTopics.id],
   }),
+  statistics: one(questionStatistics, {
+    fields: [questions.id],
+    references: [questionStatistics.questionId],
+  }),
+  versions: many(questionVersions),
+  reviewEvents: many(questionReviewEvents),
   testQuestions: many(testQuestions),
   assessmentQuestions: many(topicAssessmentQuestions),
 }));
 
+// Lifecycle history of a question: submissions, reviewer decisions with comments, archiving
+export const questionReviewEvents = pgTable("question_review_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  versionId: varchar("version_id").references(() => questionVersions.id, { onDelete: "set null" }), // Version the action applied to
+  action: questionReviewActionEnum("action").notNull(),
+  comment: text("comment"),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const questionReviewEventsRelations = relations(questionReviewEvents, ({ one }) => ({
+  question: one(questions, {
+    fields: [questionReviewEvents.questionId],
+    references: [questions.id],
+  }),
+  actor: one(users, {
+    fields: [questionReviewEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+// Immutable copy of a question's content; every edit to a question adds a version
+export const questionVersions = pgTable("question_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  questionId: varchar("question_id").notNull().references(() => questions.id, { onDelete: "cascade" }),
+  versionNumber: integer("version_number").notNull(),
+  questionTopicId: varchar("question_topic_id"),
+  questionText: text("question_text").notNull(),
+  imageUrl: varchar("image_url"),
+  explanation: text("explanation"),
+  type: questionTypeEnum("type").notNull(),
+  choices: jsonb("choices").notNull(),
+  answerConfig: jsonb("answer_config"),
+  tags: jsonb("tags"),
+  points: integer("points").notNull(),
+  isCritical: boolean("is_critical").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_question_version_number").on(table.questionId, table.versionNumber),
+]);
+
+export const questionVersionsRelations = relations(questionVersions, ({ one }) => ({
+  question: one(questions, {
+    fields: [questionVersions.questionId],
+    references: [questions.id],
+  }),
+  author: one(users, {
+    fields: [questionVersions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+// Item analysis of a question across all submitted attempts, recomputed by server/itemAnalysisJob.ts
+export const questionStatistics = pgTable("question_statistics", {
+  questionId: varchar("question_id").primaryKey().references(() => questions.id, { onDelete: "cascade" }),
+  attemptCount: integer("attempt_count").notNull(),
+  correctCount: integer("correct_count").notNull(),
+  pValue: real("p_value").notNull(), // Share of attempts answered correctly; low values mean a hard question
+  discriminationIndex: real("discrimination_index"), // Upper minus lower 27% p-value by test score; null below the minimum sample
+  choiceStats: jsonb("choice_stats"), // Array of ChoiceStatistic for single/multiple choice questions
+  computedAt: timestamp("computed_at").defaultNow().notNull(),
+});
+
 // Topic assessments table - Tests linked to specific topics
 export const topicAssessments = pgTable("topic_assessments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -182,12 +297,18 @@ export const topicAssessments = pgTable("topic_assessments", {
   description: text("description"),
   mode: testModeEnum("mode").notNull(),
   questionCount: integer("question_count"), // For random mode
+  blueprint: jsonb("blueprint"), // For random mode: BlueprintRule[] drawing per category/topic/tag; questionCount holds their total
   randomizeQuestions: boolean("randomize_questions").notNull().default(false),
+  randomizeChoices: boolean("randomize_choices").notNull().default(false), // Shuffle answer options per attempt
   passingPercentage: integer("passing_percentage").notNull().default(70),
+  scoringPolicy: scoringPolicyEnum("scoring_policy").notNull().default("all_or_nothing"), // How multiple-choice answers earn partial credit
+  reviewPolicy: reviewPolicyEnum("review_policy").notNull().default("immediately"), // When students may see correct answers and explanations
   maxAttempts: integer("max_attempts").notNull().default(3), // Maximum number of attempts allowed
+  retakeCooldownMinutes: integer("retake_cooldown_minutes"), // Minimum wait after a submitted attempt (null = retake immediately)
   timeLimit: integer("time_limit"), // Time limit in minutes (null = no time limit)
   testTemplateId: varchar("test_template_id").references(() => testTemplates.id, { onDelete: "set null" }), // For linked_template mode
   isRequired: boolean("is_required").notNull().default(false), // Required for course completion
+  isMockExam: boolean("is_mock_exam").notNull().default(false), // Counts towards the exam-readiness mock exam streak
   status: assessmentStatusEnum("status").notNull().default("draft"), // Draft or published
   orderIndex: integer("order_index").notNull().default(0), // Position within topic content
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -210,8 +331,11 @@ export const testTemplates = pgTable("test_templates", {
   description: text("description"),
   mode: testModeEnum("mode").notNull(),
   questionCount: integer("question_count"), // For random mode
+  blueprint: jsonb("blueprint"), // For random mode: BlueprintRule[] drawing per category/topic/tag; questionCount holds their total
   randomizeQuestions: boolean("randomize_questions").notNull().default(false), // Randomize question order
+  randomizeChoices: boolean("randomize_choices").notNull().default(false), // Shuffle answer options per attempt
   passingPercentage: integer("passing_percentage").notNull().default(70),
+  scoringPolicy: scoringPolicyEnum("scoring_policy").notNull().default("all_or_nothing"), // How multiple-choice answers earn partial credit
   maxAttempts: integer("max_attempts").notNull().default(3), // Maximum number of attempts allowed
   timeLimit: integer("time_limit"), // Time limit in minutes (null = no time limit)
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -266,13 +390,20 @@ export const testInstances = pgTable("test_instances", {
   topicAssessmentId: varchar("topic_assessment_id").references(() => topicAssessments.id, { onDelete: "restrict" }),
   testTemplateId: varchar("test_template_id").references(() => testTemplates.id, { onDelete: "restrict" }), // Legacy support
   studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  questionsData: jsonb("questions_data").notNull(), // Snapshot of questions served
-  answersData: jsonb("answers_data"), // Student's answers
-  score: integer("score"),
+  questionsData: jsonb("questions_data").notNull(), // Snapshot of questions served, in the attempt's language
+  language: contentLanguageEnum("language"), // Language the questions were served in; null for attempts from before translations
+  answersData: jsonb("answers_data"), // Student's answers, autosaved while the attempt is in progress
+  scoringPolicy: scoringPolicyEnum("scoring_policy"), // Copied from the assessment/template at start so results stay reproducible
+  score: real("score"), // Points earned (fractional under partial-credit policies)
+  maxScore: integer("max_score"), // Points available across all questions served
+  questionScores: jsonb("question_scores"), // Record<questionId, points earned> for the results breakdown
   percentage: integer("percentage"),
   passed: boolean("passed"),
+  criticalFailures: jsonb("critical_failures"), // Array of {questionId, questionText} for critical questions answered wrong
   startedAt: timestamp("started_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"), // Start time plus the time limit; null for untimed attempts
   submittedAt: timestamp("submitted_at"),
+  autoSubmitted: boolean("auto_submitted").notNull().default(false), // Graded by the expiry sweeper from autosaved answers
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -291,6 +422,29 @@ export const testInstancesRelations = relations(testInstances, ({ one }) => ({
   }),
 }));
 
+// Extra attempts granted to one student on an assessment, on top of its maxAttempts
+export const assessmentAttemptGrants = pgTable("assessment_attempt_grants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assessmentId: varchar("assessment_id").notNull().references(() => topicAssessments.id, { onDelete: "cascade" }),
+  studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  extraAttempts: integer("extra_attempts").notNull(),
+  reason: text("reason").notNull(),
+  grantedBy: varchar("granted_by").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const assessmentAttemptGrantsRelations = relations(assessmentAttemptGrants, ({ one }) => ({
+  assessment: one(topicAssessments, {
+    fields: [assessmentAttemptGrants.assessmentId],
+    references: [topicAssessments.id],
+  }),
+  student: one(users, {
+    fields: [assessmentAttemptGrants.studentId],
+    references: [users.id],
+  }),
+}));
+
+
 // Alias for test results (same as test instances, just a different view)
 export const testResults = testInstances;
 
@@ -304,7 +458,7 @@ export const courseEnrollments = pgTable("course_enrollments", {
   isActive: boolean("is_active").notNull().default(true),
 });
 
-export const courseEnrollmentsRelations = relations(courseEnrollments, ({ one }) => ({
+export const courseEnrollmentsRelations = relations(courseEnrollments, ({ one, many }) => ({
   course: one(courses, {
     fields: [courseEnrollments.courseId],
     references: [courses.id],
@@ -313,6 +467,7 @@ export const courseEnrollmentsRelations = relations(courseEnrollments, ({ one })
     fields: [courseEnrollments.studentId],
     references: [users.id],
   }),
+  installments: many(installments),
 }));
 
 // Removed: courseCompletionTests table - completion now determined by required topic assessments
@@ -323,6 +478,9 @@ export const schedules = pgTable("schedules", {
   courseId: varchar("course_id").notNull().references(() => courses.id, { onDelete: "cascade" }),
   topicId: varchar("topic_id").references(() => topics.id, { onDelete: "set null" }),
   instructorId: varchar("instructor_id").notNull().references(() => users.id, { onDelete: "restrict" }),
+  type: scheduleTypeEnum("type").notNull().default("group"), // Group session or one-on-one practical lesson
+  studentId: varchar("student_id").references(() => users.id, { onDelete: "cascade" }), // Booked student (practical lessons only)
+  vehicleId: varchar("vehicle_id").references(() => vehicles.id, { onDelete: "set null" }), // Reserved vehicle (practical sessions)
   title: varchar("title", { length: 255 }).notNull(),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
@@ -331,6 +489,28 @@ export const schedules = pgTable("schedules", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Vehicles - the school's fleet used for practical sessions
+export const vehicles = pgTable("vehicles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  plateNumber: varchar("plate_number", { length: 20 }).notNull().unique(),
+  make: varchar("make", { length: 100 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  year: integer("year"),
+  transmission: transmissionTypeEnum("transmission").notNull().default("manual"),
+  category: vehicleCategoryEnum("category").notNull().default("B"), // Licence category the vehicle trains for
+  status: vehicleStatusEnum("status").notNull().default("active"),
+  odometerKm: integer("odometer_km").notNull().default(0),
+  maintenanceDueAt: timestamp("maintenance_due_at"), // Next scheduled service
+  inspectionDueAt: timestamp("inspection_due_at"), // Roadworthiness inspection valid until
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const vehiclesRelations = relations(vehicles, ({ many }) => ({
+  schedules: many(schedules),
+}));
+
 export const schedulesRelations = relations(schedules, ({ one, many }) => ({
   course: one(courses, {
     fields: [schedules.courseId],
@@ -344,9 +524,55 @@ export const schedulesRelations = relations(schedules, ({ one, many }) => ({
     fields: [schedules.instructorId],
     references: [users.id],
   }),
+  vehicle: one(vehicles, {
+    fields: [schedules.vehicleId],
+    references: [vehicles.id],
+  }),
   attendance: many(attendance),
 }));
 
+// Instructor availability - recurring weekly slots for practical lessons (times are Europe/Riga local)
+export const instructorAvailability = pgTable("instructor_availability", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instructorId: varchar("instructor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  startTime: varchar("start_time", { length: 5 }).notNull(), // HH:mm
+  endTime: varchar("end_time", { length: 5 }).notNull(), // HH:mm
+  slotDuration: integer("slot_duration").notNull().default(90), // Lesson length in minutes
+  location: varchar("location", { length: 255 }),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const instructorAvailabilityRelations = relations(instructorAvailability, ({ one }) => ({
+  instructor: one(users, {
+    fields: [instructorAvailability.instructorId],
+    references: [users.id],
+  }),
+}));
+
+// Availability exceptions - one-off days off or extra slots overriding the weekly pattern
+export const availabilityExceptions = pgTable("availability_exceptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  instructorId: varchar("instructor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  date: varchar("date", { length: 10 }).notNull(), // YYYY-MM-DD (Europe/Riga)
+  startTime: varchar("start_time", { length: 5 }), // HH:mm, null = whole day
+  endTime: varchar("end_time", { length: 5 }), // HH:mm, null = whole day
+  isAvailable: boolean("is_available").notNull().default(false), // true = extra slot, false = unavailable
+  slotDuration: integer("slot_duration").notNull().default(90), // Lesson length for extra slots
+  location: varchar("location", { length: 255 }),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const availabilityExceptionsRelations = relations(availabilityExceptions, ({ one }) => ({
+  instructor: one(users, {
+    fields: [availabilityExceptions.instructorId],
+    references: [users.id],
+  }),
+}));
+
 // Attendance
 export const attendance = pgTable("attendance", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -368,6 +594,119 @@ export const attendanceRelations = relations(attendance, ({ one }) => ({
   }),
 }));
 
+// Driving hours ledger - credited driving minutes per student and course.
+// Attendance entries are derived from attended practical sessions (one per schedule/student),
+// adjustment entries are manual corrections by admins and may be negative.
+export const drivingLedgerEntries = pgTable("driving_ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  courseId: varchar("course_id").notNull().references(() => courses.id, { onDelete: "cascade" }),
+  scheduleId: varchar("schedule_id").references(() => schedules.id, { onDelete: "cascade" }),
+  source: drivingLedgerSourceEnum("source").notNull(),
+  minutes: integer("minutes").notNull(),
+  reason: text("reason"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_driving_ledger_schedule_student").on(table.scheduleId, table.studentId),
+]);
+
+export const drivingLedgerEntriesRelations = relations(drivingLedgerEntries, ({ one }) => ({
+  student: one(users, {
+    fields: [drivingLedgerEntries.studentId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [drivingLedgerEntries.courseId],
+    references: [courses.id],
+  }),
+  schedule: one(schedules, {
+    fields: [drivingLedgerEntries.scheduleId],
+    references: [schedules.id],
+  }),
+}));
+
+// Evaluation rubrics - skills instructors score after practical sessions, one rubric per course category
+export const evaluationRubrics = pgTable("evaluation_rubrics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseCategory: varchar("course_category", { length: 100 }).notNull().unique(), // Matches courses.category
+  name: varchar("name", { length: 255 }).notNull(),
+  skills: jsonb("skills").notNull(), // Array of {key: string, label: string, description?: string}
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Lesson evaluations - one per student per session
+export const lessonEvaluations = pgTable("lesson_evaluations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scheduleId: varchar("schedule_id").notNull().references(() => schedules.id, { onDelete: "cascade" }),
+  studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  instructorId: varchar("instructor_id").references(() => users.id, { onDelete: "set null" }),
+  rubricId: varchar("rubric_id").references(() => evaluationRubrics.id, { onDelete: "set null" }),
+  scores: jsonb("scores").notNull(), // Array of {skillKey: string, label: string, score: 1-5, notes?: string} - labels snapshotted from the rubric
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_lesson_evaluation_schedule_student").on(table.scheduleId, table.studentId),
+]);
+
+export const lessonEvaluationsRelations = relations(lessonEvaluations, ({ one }) => ({
+  schedule: one(schedules, {
+    fields: [lessonEvaluations.scheduleId],
+    references: [schedules.id],
+  }),
+  student: one(users, {
+    fields: [lessonEvaluations.studentId],
+    references: [users.id],
+  }),
+  rubric: one(evaluationRubrics, {
+    fields: [lessonEvaluations.rubricId],
+    references: [evaluationRubrics.id],
+  }),
+}));
+
+// Instructor sign-off that a student is ready for the official exam
+export const examSignOffs = pgTable("exam_sign_offs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  courseId: varchar("course_id").notNull().references(() => courses.id, { onDelete: "cascade" }),
+  examType: stateExamTypeEnum("exam_type").notNull(),
+  instructorId: varchar("instructor_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_exam_sign_off_student_course_type").on(table.studentId, table.courseId, table.examType),
+]);
+
+// Official (external) state exams - registration and recorded outcome
+export const stateExams = pgTable("state_exams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  courseId: varchar("course_id").notNull().references(() => courses.id, { onDelete: "cascade" }),
+  examType: stateExamTypeEnum("exam_type").notNull(),
+  examDate: timestamp("exam_date").notNull(),
+  outcome: stateExamOutcomeEnum("outcome").notNull().default("scheduled"),
+  attemptNumber: integer("attempt_number").notNull().default(1), // Per student, course and exam type
+  instructorId: varchar("instructor_id").references(() => users.id, { onDelete: "set null" }), // Instructor who signed the student off
+  notes: text("notes"),
+  recordedBy: varchar("recorded_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const stateExamsRelations = relations(stateExams, ({ one }) => ({
+  student: one(users, {
+    fields: [stateExams.studentId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [stateExams.courseId],
+    references: [courses.id],
+  }),
+}));
+
 // Payments
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -376,14 +715,26 @@ export const payments = pgTable("payments", {
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
   currency: varchar("currency", { length: 3 }).notNull().default("usd"),
   status: paymentStatusEnum("status").notNull().default("pending"),
+  method: paymentMethodEnum("method").notNull().default("card"), // Card payments go through Stripe; cash and bank transfers are recorded by staff
+  reference: varchar("reference", { length: 255 }), // Bank transfer reference or front-desk receipt number
+  receivedBy: varchar("received_by").references(() => users.id, { onDelete: "set null" }), // Staff member who recorded a manual payment
+  reconciledAt: timestamp("reconciled_at"), // Bank transfers stay pending until matched against the bank statement
+  reconciledBy: varchar("reconciled_by").references(() => users.id, { onDelete: "set null" }),
   stripePaymentIntentId: varchar("stripe_payment_intent_id"),
   stripeClientSecret: varchar("stripe_client_secret"),
+  installmentId: varchar("installment_id").references(() => installments.id, { onDelete: "set null" }), // Set when paying one part of an installment schedule
+  listPrice: decimal("list_price", { precision: 10, scale: 2 }), // Price before discount and credit; amount is what is charged
+  promotionId: varchar("promotion_id").references(() => promotions.id, { onDelete: "set null" }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Taken off by the promotion code
+  creditAmount: decimal("credit_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Referral credit spent on this payment
+  refundedAmount: decimal("refunded_amount", { precision: 10, scale: 2 }).notNull().default("0"), // Sum of succeeded refunds
+  refundedAt: timestamp("refunded_at"), // When the payment became fully refunded
   paidAt: timestamp("paid_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const paymentsRelations = relations(payments, ({ one }) => ({
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
   course: one(courses, {
     fields: [payments.courseId],
     references: [courses.id],
@@ -392,6 +743,213 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
     fields: [payments.studentId],
     references: [users.id],
   }),
+  promotion: one(promotions, {
+    fields: [payments.promotionId],
+    references: [promotions.id],
+  }),
+  installment: one(installments, {
+    fields: [payments.installmentId],
+    references: [installments.id],
+  }),
+  refunds: many(paymentRefunds),
+  invoices: many(invoices),
+}));
+
+// Refunds of a payment, issued by an admin here or in the Stripe dashboard. Stripe refunds are kept
+// in sync by stripeRefundId; refunds of payments taken outside Stripe succeed when recorded.
+export const paymentRefunds = pgTable("payment_refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason"),
+  status: refundStatusEnum("status").notNull().default("pending"),
+  stripeRefundId: varchar("stripe_refund_id").unique(),
+  keepEnrollment: boolean("keep_enrollment").notNull().default(false), // Set by the admin to keep the student enrolled after a full refund
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }), // Null when issued in the Stripe dashboard
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const paymentRefundsRelations = relations(paymentRefunds, ({ one }) => ({
+  payment: one(payments, {
+    fields: [paymentRefunds.paymentId],
+    references: [payments.id],
+  }),
+  createdByUser: one(users, {
+    fields: [paymentRefunds.createdBy],
+    references: [users.id],
+  }),
+}));
+
+// Stripe webhook events, stored by event id so a redelivered event is only processed once
+export const stripeEvents = pgTable("stripe_events", {
+  id: varchar("id").primaryKey(), // Stripe event id (evt_...)
+  type: varchar("type", { length: 100 }).notNull(),
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  payload: jsonb("payload").notNull(),
+  processedAt: timestamp("processed_at"), // Null until handled; failed events are retried on redelivery
+  claimedAt: timestamp("claimed_at"), // Set while one delivery is handling the event, so a concurrent duplicate skips it
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Ways a course's price can be split into parts, e.g. 3 monthly installments
+export const paymentPlans = pgTable("payment_plans", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  courseId: varchar("course_id").notNull().references(() => courses.id, { onDelete: "cascade" }),
+  name: varchar("name", { length: 255 }).notNull(),
+  installmentCount: integer("installment_count").notNull(),
+  intervalMonths: integer("interval_months").notNull().default(1), // Months between due dates; the first part is due when the plan is chosen
+  blockBookingWhenOverdue: boolean("block_booking_when_overdue").notNull().default(false), // No practical lesson booking while a part is overdue
+  isActive: boolean("is_active").notNull().default(true), // Inactive plans can't be chosen; schedules already running continue
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const paymentPlansRelations = relations(paymentPlans, ({ one, many }) => ({
+  course: one(courses, {
+    fields: [paymentPlans.courseId],
+    references: [courses.id],
+  }),
+  installments: many(installments),
+}));
+
+// One due part of an enrollment's installment schedule. Each attempt to pay it is a payments row
+// (with its own Stripe intent); paidAt is set once one of them is paid.
+export const installments = pgTable("installments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  enrollmentId: varchar("enrollment_id").notNull().references(() => courseEnrollments.id, { onDelete: "cascade" }),
+  paymentPlanId: varchar("payment_plan_id").notNull().references(() => paymentPlans.id, { onDelete: "restrict" }),
+  sequence: integer("sequence").notNull(), // 1-based position in the schedule
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("usd"),
+  dueDate: timestamp("due_date").notNull(),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_installment_enrollment_sequence").on(table.enrollmentId, table.sequence),
+]);
+
+export const installmentsRelations = relations(installments, ({ one, many }) => ({
+  enrollment: one(courseEnrollments, {
+    fields: [installments.enrollmentId],
+    references: [courseEnrollments.id],
+  }),
+  paymentPlan: one(paymentPlans, {
+    fields: [installments.paymentPlanId],
+    references: [paymentPlans.id],
+  }),
+  payments: many(payments),
+}));
+
+// Discount codes. A code with a referrerId is that student's referral code: every paid use
+// credits referrerCredit to the referrer, who can spend it on their own course payments.
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code", { length: 50 }).notNull().unique(), // Stored upper-case; students enter it in any case
+  description: text("description"),
+  type: promotionTypeEnum("type").notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(), // Percent off for percentage codes, amount off for fixed ones
+  courseIds: jsonb("course_ids"), // Array of course ids the code is valid for; null = all courses
+  validFrom: timestamp("valid_from"),
+  validUntil: timestamp("valid_until"),
+  maxRedemptions: integer("max_redemptions"), // Paid uses across all students; null = unlimited
+  maxRedemptionsPerStudent: integer("max_redemptions_per_student").notNull().default(1),
+  referrerId: varchar("referrer_id").references(() => users.id, { onDelete: "cascade" }),
+  referrerCredit: decimal("referrer_credit", { precision: 10, scale: 2 }), // Credited to the referrer per paid use
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  referrer: one(users, {
+    fields: [promotions.referrerId],
+    references: [users.id],
+  }),
+  payments: many(payments),
+}));
+
+// Referral credit ledger. Referral entries credit the referrer when a payment using their code is paid,
+// redemption entries (negative) spend credit on the student's own paid payment, and refund reversals undo
+// both when that payment is fully refunded. One entry per payment, student and source.
+export const referralCreditEntries = pgTable("referral_credit_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id, { onDelete: "cascade" }),
+  source: referralCreditSourceEnum("source").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_referral_credit_payment_student_source").on(table.paymentId, table.studentId, table.source),
+]);
+
+export const referralCreditEntriesRelations = relations(referralCreditEntries, ({ one }) => ({
+  student: one(users, {
+    fields: [referralCreditEntries.studentId],
+    references: [users.id],
+  }),
+  payment: one(payments, {
+    fields: [referralCreditEntries.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+// The school's legal details printed on invoices. A single row (id "default") edited by admins; every
+// invoice keeps a copy of the details it was issued with, so later edits don't change issued documents.
+export const schoolSettings = pgTable("school_settings", {
+  id: varchar("id").primaryKey().default("default"),
+  legalName: varchar("legal_name", { length: 255 }).notNull(),
+  registrationNumber: varchar("registration_number", { length: 100 }),
+  vatNumber: varchar("vat_number", { length: 50 }), // Empty when the school is not VAT registered
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull().default("0"), // Percent already included in course prices
+  address: text("address"),
+  email: varchar("email", { length: 255 }),
+  phone: varchar("phone", { length: 50 }),
+  bankName: varchar("bank_name", { length: 255 }),
+  bankAccount: varchar("bank_account", { length: 100 }), // IBAN
+  invoicePrefix: varchar("invoice_prefix", { length: 20 }).notNull().default("INV"),
+  creditNotePrefix: varchar("credit_note_prefix", { length: 20 }).notNull().default("CN"),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Invoices for collected payments and credit notes for their refunds. Numbers run without gaps per type
+// and calendar year (e.g. INV-2026-00042) and are never reused; issued documents are not edited.
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: invoiceTypeEnum("type").notNull(),
+  number: varchar("number", { length: 50 }).notNull().unique(),
+  year: integer("year").notNull(),
+  sequence: integer("sequence").notNull(),
+  paymentId: varchar("payment_id").notNull().references(() => payments.id, { onDelete: "restrict" }),
+  refundId: varchar("refund_id").unique().references(() => paymentRefunds.id, { onDelete: "restrict" }), // Set on credit notes
+  originalInvoiceNumber: varchar("original_invoice_number", { length: 50 }), // The invoice a credit note corrects
+  seller: jsonb("seller").notNull(), // InvoiceSeller: the school's legal details at issue time
+  buyerName: varchar("buyer_name", { length: 255 }).notNull(),
+  buyerEmail: varchar("buyer_email", { length: 255 }),
+  description: text("description").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  netAmount: decimal("net_amount", { precision: 10, scale: 2 }).notNull(),
+  vatRate: decimal("vat_rate", { precision: 5, scale: 2 }).notNull(),
+  vatAmount: decimal("vat_amount", { precision: 10, scale: 2 }).notNull(),
+  totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(), // Positive on credit notes too; the type says which way it goes
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("UQ_invoice_type_year_sequence").on(table.type, table.year, table.sequence),
+  index("IDX_invoice_payment").on(table.paymentId),
+]);
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  payment: one(payments, {
+    fields: [invoices.paymentId],
+    references: [payments.id],
+  }),
+  refund: one(paymentRefunds, {
+    fields: [invoices.refundId],
+    references: [paymentRefunds.id],
+  }),
 }));
 
 // Certificates
@@ -449,6 +1007,16 @@ export const emailTemplates = pgTable("email_templates", {
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 
+export type ContentLanguage = typeof contentLanguageEnum.enumValues[number];
+// Per-language overrides of an entity's text fields; fields left out fall back to the source language
+export type Translations<T> = Partial<Record<ContentLanguage, T>>;
+export type CourseTranslation = { name?: string; description?: string | null };
+export type TopicTranslation = { name?: string; description?: string | null };
+export type PostTranslation = { title?: string; content?: string };
+// Choice labels are keyed by choice id. sourceVersionId is the question version that was translated,
+// so translations of since-edited questions can be shown as outdated.
+export type QuestionTranslation = { questionText?: string; choices?: Record<string, string>; explanation?: string | null; sourceVersionId?: string | null };
+
 export type InsertCourse = typeof courses.$inferInsert;
 export type Course = typeof courses.$inferSelect;
 
@@ -466,6 +1034,21 @@ export type QuestionTopic = typeof questionTopics.$inferSelect;
 
 export type InsertQuestion = typeof questions.$inferInsert;
 export type Question = typeof questions.$inferSelect;
+export type QuestionType = Question["type"];
+// The id is assigned by the storage layer and stays with the choice through label edits; answers refer to it
+export type QuestionChoice = { id: string; label: string; isCorrect?: boolean; imageUrl?: string };
+// Rectangle on the question image, in percent of its width/height so it survives resizing
+export type HotspotRegion = { x: number; y: number; width: number; height: number };
+export type HotspotAnswerConfig = { regions: HotspotRegion[] };
+export type NumericAnswerConfig = { value: number; tolerance: number; unit?: string };
+
+export type QuestionStatus = Question["status"];
+export type QuestionVersion = typeof questionVersions.$inferSelect;
+export type QuestionReviewEvent = typeof questionReviewEvents.$inferSelect;
+export type QuestionReviewAction = z.infer<typeof questionReviewActionSchema>["action"];
+export type QuestionStatistics = typeof questionStatistics.$inferSelect;
+// How often a choice was picked; rates are a share of all attempts at the question
+export type ChoiceStatistic = { choiceId: string; label: string; isCorrect: boolean; selectedCount: number; selectionRate: number };
 
 export type InsertTestTemplate = typeof testTemplates.$inferInsert;
 export type TestTemplate = typeof testTemplates.$inferSelect;
@@ -475,6 +1058,9 @@ export type TestQuestion = typeof testQuestions.$inferSelect;
 
 export type InsertTestInstance = typeof testInstances.$inferInsert;
 export type TestInstance = typeof testInstances.$inferSelect;
+export type CriticalFailure = { questionId: string; questionText: string };
+export type ScoringPolicy = TopicAssessment["scoringPolicy"];
+export type ReviewPolicy = TopicAssessment["reviewPolicy"];
 
 export type InsertCourseEnrollment = typeof courseEnrollments.$inferInsert;
 export type CourseEnrollment = typeof courseEnrollments.$inferSelect;
@@ -482,18 +1068,77 @@ export type CourseEnrollment = typeof courseEnrollments.$inferSelect;
 export type InsertTopicAssessment = typeof topicAssessments.$inferInsert;
 export type TopicAssessment = typeof topicAssessments.$inferSelect;
 
+export type BlueprintRule = z.infer<typeof blueprintRuleSchema>;
+
+export type InsertAssessmentAttemptGrant = typeof assessmentAttemptGrants.$inferInsert;
+export type AssessmentAttemptGrant = typeof assessmentAttemptGrants.$inferSelect;
+
 export type InsertTopicAssessmentQuestion = typeof topicAssessmentQuestions.$inferInsert;
 export type TopicAssessmentQuestion = typeof topicAssessmentQuestions.$inferSelect;
 
 export type InsertSchedule = typeof schedules.$inferInsert;
 export type Schedule = typeof schedules.$inferSelect;
 
+export type InsertVehicle = typeof vehicles.$inferInsert;
+export type Vehicle = typeof vehicles.$inferSelect;
+
+export type InsertInstructorAvailability = typeof instructorAvailability.$inferInsert;
+export type InstructorAvailability = typeof instructorAvailability.$inferSelect;
+
+export type InsertAvailabilityException = typeof availabilityExceptions.$inferInsert;
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
+
 export type InsertAttendance = typeof attendance.$inferInsert;
 export type Attendance = typeof attendance.$inferSelect;
 
+export type InsertDrivingLedgerEntry = typeof drivingLedgerEntries.$inferInsert;
+export type DrivingLedgerEntry = typeof drivingLedgerEntries.$inferSelect;
+
+export type InsertEvaluationRubric = typeof evaluationRubrics.$inferInsert;
+export type EvaluationRubric = typeof evaluationRubrics.$inferSelect;
+export type RubricSkill = { key: string; label: string; description?: string };
+
+export type InsertLessonEvaluation = typeof lessonEvaluations.$inferInsert;
+export type LessonEvaluation = typeof lessonEvaluations.$inferSelect;
+export type EvaluationScore = { skillKey: string; label: string; score: number; notes?: string };
+
+export type InsertExamSignOff = typeof examSignOffs.$inferInsert;
+export type ExamSignOff = typeof examSignOffs.$inferSelect;
+
+export type InsertStateExam = typeof stateExams.$inferInsert;
+export type StateExam = typeof stateExams.$inferSelect;
+export type StateExamType = StateExam["examType"];
+
 export type InsertPayment = typeof payments.$inferInsert;
 export type Payment = typeof payments.$inferSelect;
 
+export type PaymentStatus = Payment["status"];
+export type PaymentMethod = Payment["method"];
+export type ManualPayment = z.infer<typeof recordManualPaymentSchema>;
+
+export type InsertPaymentRefund = typeof paymentRefunds.$inferInsert;
+export type PaymentRefund = typeof paymentRefunds.$inferSelect;
+
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+
+export type SchoolSettings = typeof schoolSettings.$inferSelect;
+export type InvoiceSeller = Omit<SchoolSettings, "id" | "invoicePrefix" | "creditNotePrefix" | "updatedBy" | "updatedAt">;
+export type Invoice = typeof invoices.$inferSelect;
+export type InvoiceType = Invoice["type"];
+
+export type InsertPaymentPlan = typeof paymentPlans.$inferInsert;
+export type PaymentPlan = typeof paymentPlans.$inferSelect;
+
+export type Installment = typeof installments.$inferSelect;
+// Derived from paidAt and the due date: "due" parts can be paid now, "upcoming" ones are not due yet
+export type InstallmentStatus = "paid" | "overdue" | "due" | "upcoming";
+
+export type InsertPromotion = typeof promotions.$inferInsert;
+export type Promotion = typeof promotions.$inferSelect;
+export type PromotionType = Promotion["type"];
+
+export type ReferralCreditEntry = typeof referralCreditEntries.$inferSelect;
+
 export type InsertCertificate = typeof certificates.$inferInsert;
 export type Certificate = typeof certificates.$inferSelect;
 
@@ -506,18 +1151,25 @@ export type EmailTemplate = typeof emailTemplates.$inferSelect;
 // Zod schemas
 export const insertCourseSchema = createInsertSchema(courses).omit({
   id: true,
+  translations: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  requiredDrivingHours: z.number().int().min(0).max(1000).optional().nullable(),
+  mockExamStreakRequired: z.number().int().min(0).max(20).optional(),
+  minAttendedSessions: z.number().int().min(0).max(500).optional(),
 });
 
 export const insertTopicSchema = createInsertSchema(topics).omit({
   id: true,
+  translations: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export const insertPostSchema = createInsertSchema(posts).omit({
   id: true,
+  translations: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -536,8 +1188,97 @@ export const insertQuestionTopicSchema = createInsertSchema(questionTopics).omit
 
 export const insertQuestionSchema = createInsertSchema(questions).omit({
   id: true,
+  status: true,
+  isArchived: true,
+  isFlagged: true,
+  flagReason: true,
+  currentVersionId: true,
+  translations: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  points: z.number().int().min(1, "Points must be at least 1").optional(),
+});
+
+const hotspotRegionSchema = z.object({
+  x: z.number().min(0).max(100),
+  y: z.number().min(0).max(100),
+  width: z.number().positive().max(100),
+  height: z.number().positive().max(100),
+});
+
+const numericAnswerConfigSchema = z.object({
+  value: z.number(),
+  tolerance: z.number().min(0, "Tolerance cannot be negative"),
+  unit: z.string().optional(),
+});
+
+// Checks the fields that must agree with the question type; run on the merged question for updates
+export const questionDefinitionSchema = z.object({
+  type: z.enum(questionTypeEnum.enumValues),
+  imageUrl: z.string().nullable().optional(),
+  choices: z.array(z.object({ id: z.string().min(1).optional(), label: z.string(), isCorrect: z.boolean().optional() }).passthrough()),
+  answerConfig: z.unknown().optional(),
+}).superRefine((question, ctx) => {
+  const labels = question.choices.map((c) => c.label.trim());
+  const ids = question.choices.flatMap((c) => (c.id ? [c.id] : []));
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: "Choice ids must be unique" });
+  }
+  switch (question.type) {
+    case "single_choice":
+    case "multiple_choice": {
+      if (question.choices.length < 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: "At least 2 choices are required" });
+      }
+      const correctCount = question.choices.filter((c) => c.isCorrect).length;
+      if (correctCount === 0 || (question.type === "single_choice" && correctCount > 1)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: question.type === "single_choice" ? "Exactly one choice must be correct" : "At least one choice must be correct" });
+      }
+      break;
+    }
+    case "ordering":
+      if (question.choices.length < 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: "At least 2 steps are required" });
+      }
+      if (new Set(labels).size !== labels.length) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["choices"], message: "Steps must be unique" });
+      }
+      break;
+    case "hotspot": {
+      if (!question.imageUrl) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["imageUrl"], message: "Hotspot questions need an image" });
+      }
+      const config = z.object({ regions: z.array(hotspotRegionSchema).min(1) }).safeParse(question.answerConfig);
+      if (!config.success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["answerConfig"], message: "Mark at least one correct region on the image" });
+      }
+      break;
+    }
+    case "numeric":
+      if (!numericAnswerConfigSchema.safeParse(question.answerConfig).success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["answerConfig"], message: "A numeric answer and tolerance are required" });
+      }
+      break;
+  }
+});
+
+// Body of a translation update; empty fields are dropped so they fall back to the source language
+const translatedText = z.string().trim().max(20000);
+export const translationUpdateSchemas = {
+  course: z.object({ name: translatedText.max(255).optional(), description: translatedText.nullable().optional() }),
+  topic: z.object({ name: translatedText.max(255).optional(), description: translatedText.nullable().optional() }),
+  post: z.object({ title: translatedText.max(255).optional(), content: translatedText.optional() }),
+  question: z.object({
+    questionText: translatedText.optional(),
+    choices: z.record(z.string(), z.string().trim().max(1000)).optional(),
+    explanation: translatedText.nullable().optional(),
+  }),
+};
+export type TranslatableEntity = keyof typeof translationUpdateSchemas;
+
+export const userPreferencesSchema = z.object({
+  preferredLanguage: z.enum(contentLanguageEnum.enumValues).nullable(),
 });
 
 export const insertTestTemplateSchema = createInsertSchema(testTemplates).omit({
@@ -552,6 +1293,17 @@ export const insertTopicAssessmentSchema = createInsertSchema(topicAssessments).
   updatedAt: true,
 });
 
+// One rule of a random-mode blueprint: draw `count` questions from a question category or topic,
+// optionally narrowed to a tag. A rule without category or topic draws from the whole bank.
+export const blueprintRuleSchema = z.object({
+  categoryId: z.string().min(1).optional(),
+  questionTopicId: z.string().min(1).optional(),
+  tag: z.string().trim().min(1).max(50).optional(),
+  count: z.number().int().min(1, "Each rule must draw at least one question").max(200),
+});
+
+export const blueprintSchema = z.array(blueprintRuleSchema).max(20, "A blueprint may have at most 20 rules").nullable();
+
 export const insertScheduleSchema = createInsertSchema(schedules).omit({
   id: true,
   createdAt: true,
@@ -561,12 +1313,221 @@ export const insertScheduleSchema = createInsertSchema(schedules).omit({
   endTime: z.union([z.date(), z.string().transform((val) => new Date(val))]),
 });
 
+export const insertVehicleSchema = createInsertSchema(vehicles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  plateNumber: z.string().trim().min(1, "Plate number is required").transform((val) => val.toUpperCase()),
+  odometerKm: z.number().int().min(0).optional(),
+  maintenanceDueAt: z.union([z.date(), z.string().transform((val) => new Date(val))]).optional().nullable(),
+  inspectionDueAt: z.union([z.date(), z.string().transform((val) => new Date(val))]).optional().nullable(),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+export const insertInstructorAvailabilitySchema = createInsertSchema(instructorAvailability).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  dayOfWeek: z.number().int().min(0).max(6),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  slotDuration: z.number().int().min(15).max(480).optional(),
+});
+
+export const insertAvailabilityExceptionSchema = createInsertSchema(availabilityExceptions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  startTime: timeOfDaySchema.optional().nullable(),
+  endTime: timeOfDaySchema.optional().nullable(),
+  slotDuration: z.number().int().min(15).max(480).optional(),
+});
+
+export const insertDrivingHoursAdjustmentSchema = z.object({
+  courseId: z.string().min(1, "Course is required"),
+  minutes: z.number().int().refine((value) => value !== 0, "Adjustment cannot be zero").refine((value) => Math.abs(value) <= 6000, "Adjustment is too large"),
+  reason: z.string().trim().min(1, "A reason is required for manual adjustments"),
+});
+
+export const rubricSkillSchema = z.object({
+  key: z.string().trim().min(1).max(50).regex(/^[a-z0-9_]+$/, "Skill key may only contain lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1, "Skill label is required").max(100),
+  description: z.string().trim().max(500).optional(),
+});
+
+export const insertEvaluationRubricSchema = createInsertSchema(evaluationRubrics).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  courseCategory: z.string().trim().min(1, "Course category is required"),
+  name: z.string().trim().min(1, "Rubric name is required"),
+  skills: z.array(rubricSkillSchema).min(1, "At least one skill is required").refine(
+    (skills) => new Set(skills.map(s => s.key)).size === skills.length,
+    "Skill keys must be unique"
+  ),
+});
+
+export const submitLessonEvaluationSchema = z.object({
+  scores: z.array(z.object({
+    skillKey: z.string().min(1),
+    score: z.number().int().min(1).max(5),
+    notes: z.string().trim().max(1000).optional(),
+  })).min(1),
+  notes: z.string().trim().max(2000).optional().nullable(),
+});
+
+export const insertExamSignOffSchema = z.object({
+  courseId: z.string().min(1, "Course is required"),
+  examType: z.enum(["theory", "practical"]),
+  notes: z.string().trim().max(1000).optional().nullable(),
+});
+
+export const insertStateExamSchema = z.object({
+  courseId: z.string().min(1, "Course is required"),
+  examType: z.enum(["theory", "practical"]),
+  examDate: z.string().transform((value) => new Date(value)).refine((date) => !isNaN(date.getTime()), "Invalid exam date"),
+  notes: z.string().trim().max(1000).optional().nullable(),
+});
+
+export const questionReviewActionSchema = z.object({
+  action: z.enum(["submit", "approve", "request_changes", "archive", "reopen"]),
+  comment: z.string().trim().max(2000).optional().nullable(),
+}).refine((data) => data.action !== "request_changes" || !!data.comment, {
+  message: "Explain which changes are needed",
+  path: ["comment"],
+});
+
+export const questionFlagSchema = z.object({
+  isFlagged: z.boolean(),
+  reason: z.string().trim().max(500).optional().nullable(),
+});
+
+export const insertAssessmentAttemptGrantSchema = z.object({
+  extraAttempts: z.number().int().min(1, "Grant at least one attempt").max(10),
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+});
+
+export const updateStateExamSchema = z.object({
+  examDate: z.string().transform((value) => new Date(value)).refine((date) => !isNaN(date.getTime()), "Invalid exam date").optional(),
+  outcome: z.enum(["scheduled", "passed", "failed", "no_show"]).optional(),
+  notes: z.string().trim().max(1000).optional().nullable(),
+});
+
 export const insertPaymentSchema = createInsertSchema(payments).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertPaymentPlanSchema = createInsertSchema(paymentPlans).omit({
+  id: true,
+  courseId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Plan name is required").max(255),
+  installmentCount: z.number().int().min(2, "A plan needs at least 2 installments").max(24, "A plan can have at most 24 installments"),
+  intervalMonths: z.number().int().min(1).max(12).default(1),
+});
+
+const moneySchema = z.string().trim().refine((value) => /^\d+(\.\d{1,2})?$/.test(value) && parseFloat(value) > 0, "Enter a positive amount");
+const optionalDateSchema = z.string().transform((value) => new Date(value)).refine((date) => !isNaN(date.getTime()), "Invalid date").optional().nullable();
+
+export const createRefundSchema = z.object({
+  amount: moneySchema,
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  keepEnrollment: z.boolean().default(false), // Skip the enrollment deactivation a full refund would cause
+});
+
+const receivedAtSchema = z.string().transform((value) => new Date(value))
+  .refine((date) => !isNaN(date.getTime()), "Invalid date")
+  .refine((date) => date <= new Date(), "The payment can't be received in the future");
+
+export const recordManualPaymentSchema = z.object({
+  studentId: z.string().min(1),
+  courseId: z.string().min(1),
+  installmentId: z.string().min(1).optional().nullable(), // Pays one part of the student's schedule instead of the full price
+  method: z.enum(["cash", "bank_transfer"]),
+  reference: z.string().trim().max(255).transform((value) => value || null).optional().nullable(),
+  receivedAt: receivedAtSchema.optional(), // Defaults to now
+  reconciled: z.boolean().default(false), // A bank transfer already seen on the bank statement; cash is always received
+  promotionCode: z.string().trim().max(50).optional().nullable(),
+  useCredit: z.boolean().default(false),
+}).refine((data) => data.method !== "bank_transfer" || !!data.reference, {
+  message: "Enter the transfer reference from the bank statement",
+  path: ["reference"],
+}).refine((data) => !data.installmentId || (!data.promotionCode && !data.useCredit), {
+  message: "Promotion codes and credit apply to payments in full only",
+  path: ["promotionCode"],
+});
+
+export const reconcileBankTransferSchema = z.object({
+  received: z.boolean(), // False when the transfer never arrived; the payment is then marked failed
+  receivedAt: receivedAtSchema.optional(),
+});
+
+const optionalTextSchema = (max: number) => z.string().trim().max(max).transform((value) => value || null).optional().nullable();
+
+export const updateSchoolSettingsSchema = z.object({
+  legalName: z.string().trim().min(1, "The legal name is required").max(255),
+  registrationNumber: optionalTextSchema(100),
+  vatNumber: optionalTextSchema(50),
+  vatRate: z.string().trim().refine((value) => /^\d+(\.\d{1,2})?$/.test(value) && parseFloat(value) < 100, "Enter a rate from 0 to 99.99"),
+  address: optionalTextSchema(1000),
+  email: z.string().trim().email().max(255).or(z.literal("")).transform((value) => value || null).optional().nullable(),
+  phone: optionalTextSchema(50),
+  bankName: optionalTextSchema(255),
+  bankAccount: optionalTextSchema(100),
+  invoicePrefix: z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9-]+$/, "Use letters, digits and dashes only"),
+  creditNotePrefix: z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9-]+$/, "Use letters, digits and dashes only"),
+}).refine((data) => parseFloat(data.vatRate) === 0 || !!data.vatNumber, {
+  message: "Only a VAT registered school can charge VAT",
+  path: ["vatRate"],
+}).refine((data) => data.invoicePrefix.toUpperCase() !== data.creditNotePrefix.toUpperCase(), {
+  message: "Invoices and credit notes need different prefixes",
+  path: ["creditNotePrefix"],
+});
+
+export const insertPromotionSchema = z.object({
+  code: z.string().trim().min(3, "Code must be at least 3 characters").max(50)
+    .regex(/^[A-Za-z0-9_-]+$/, "Use letters, digits, dashes and underscores only")
+    .transform((code) => code.toUpperCase()),
+  description: z.string().trim().max(500).optional().nullable(),
+  type: z.enum(["percentage", "fixed"]),
+  value: moneySchema,
+  courseIds: z.array(z.string().min(1)).min(1).optional().nullable(),
+  validFrom: optionalDateSchema,
+  validUntil: optionalDateSchema,
+  maxRedemptions: z.number().int().min(1).optional().nullable(),
+  maxRedemptionsPerStudent: z.number().int().min(1).default(1),
+  referrerId: z.string().min(1).optional().nullable(),
+  referrerCredit: moneySchema.optional().nullable(),
+  isActive: z.boolean().default(true),
+}).refine((data) => data.type !== "percentage" || parseFloat(data.value) <= 100, {
+  message: "A percentage discount can be at most 100",
+  path: ["value"],
+}).refine((data) => !data.validFrom || !data.validUntil || data.validFrom < data.validUntil, {
+  message: "The code must end after it starts",
+  path: ["validUntil"],
+}).refine((data) => !data.referrerCredit || !!data.referrerId, {
+  message: "Only referral codes credit a referrer",
+  path: ["referrerCredit"],
+});
+
+export const updatePromotionSchema = z.object({
+  description: z.string().trim().max(500).optional().nullable(),
+  validFrom: optionalDateSchema,
+  validUntil: optionalDateSchema,
+  maxRedemptions: z.number().int().min(1).optional().nullable(),
+  maxRedemptionsPerStudent: z.number().int().min(1).optional(),
+  isActive: z.boolean().optional(),
+});
+
 export const insertCertificateSchema = createInsertSchema(certificates).omit({
   id: true,
   createdAt: true,